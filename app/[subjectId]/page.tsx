@@ -1,10 +1,10 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
 import { ArrowLeft, BookOpen, AlertCircle, Plus, ListChecks, Settings, Download, Star, ChevronDown, ChevronUp } from "lucide-react";
-import { doc, getDoc, updateDoc } from "firebase/firestore";
+import { doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { Subject, SubjectMetadata, Unit, Question } from "@/lib/types";
 import { QuestionItem } from "@/components/QuestionItem";
@@ -12,6 +12,7 @@ import { SyllabusView } from "@/components/SyllabusView";
 import { useProgress } from "@/hooks/useProgress";
 import { useAuth } from "@/context/AuthContext";
 import { cn } from "@/lib/utils";
+import { RevisionSession, commitQuestionEdit, continueRevisionSession, snapshotQuestion } from "@/lib/contentHistory";
 
 export default function SubjectPage() {
   const params = useParams();
@@ -26,6 +27,8 @@ export default function SubjectPage() {
   const [loadedUnits, setLoadedUnits] = useState<Record<string, Unit>>({});
   const [loadingUnit, setLoadingUnit] = useState<string | null>(null);
   const [loadedSolutions, setLoadedSolutions] = useState<Record<string, string>>({});
+  // Same revision sessions as the study page, every edit lands in the subject's history
+  const revisionSessions = useRef<Record<string, RevisionSession>>({});
 
   const fetchSolution = async (questionId: string) => {
     if (loadedSolutions[questionId]) return;
@@ -77,7 +80,8 @@ export default function SubjectPage() {
     try {
       // 1. Get current unit data (from state or refetch if needed - simplified to use state as we are editing what we see)
       const currentUnit = loadedUnits[unitId];
-      if (!currentUnit) return;
+      const current = currentUnit?.questions.find(q => q.id === questionId);
+      if (!currentUnit || !current || !user) return;
 
       // 2. Update local state immediately (optimistic update)
       const updatedQuestions = currentUnit.questions.map(q =>
@@ -91,12 +95,26 @@ export default function SubjectPage() {
         [unitId]: updatedUnit
       }));
 
-      // 3. Update Firestore
-      const unitRef = doc(db, "subjects", subjectId, "units", unitId);
-      await updateDoc(unitRef, {
-        questions: updatedQuestions
+      // 3. Update Firestore, together with a revision in the history subcollection
+      const session = continueRevisionSession(subjectId, revisionSessions.current[questionId], current, loadedSolutions[questionId]);
+      revisionSessions.current[questionId] = session;
+
+      await commitQuestionEdit({
+        subjectId,
+        unitId,
+        questions: updatedQuestions,
+        solution: updates.solution,
+        revisionId: session.revisionId,
+        before: session.before,
+        after: snapshotQuestion({ ...current, ...updates }, updates.solution ?? loadedSolutions[questionId]),
+        createdAt: session.createdAt,
+        editor: { uid: user.uid, email: user.email },
       });
 
+      if (updates.solution !== undefined) {
+        setLoadedSolutions(prev => ({ ...prev, [questionId]: updates.solution as string }));
+      }
+
     } catch (err) {
       console.error("Error updating question:", err);
       alert("Failed to save changes. Please try again.");
@@ -105,7 +123,7 @@ export default function SubjectPage() {
   };
 
   const { progressMap, updateStatus, toggleStar, saveNote, getNote, loading: progressLoading } = useProgress(subjectId);
-  const { isAdmin } = useAuth();
+  const { isAdmin, user } = useAuth();
 
   useEffect(() => {
     const fetchSubjectData = async () => {
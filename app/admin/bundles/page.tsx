@@ -0,0 +1,261 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { collection, doc, getDocs, updateDoc } from 'firebase/firestore';
+import { ArrowLeft, Loader2, Package, RefreshCw, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/context/AuthContext';
+import { Bundle } from '@/lib/types';
+import { FIRST_YEAR_BUNDLE_ID, getElectiveCategories } from '@/lib/bundlePricing';
+import { rebuildAllBundles } from '@/lib/bundleUtils';
+import type { BundleChange } from '@/lib/bundleService';
+import { cn } from '@/lib/utils';
+
+type PriceForm = { bundlePrice: string; groupA: string; groupB: string };
+
+const toInput = (value: number | null | undefined) => value ? String(value) : '';
+const parsePrice = (value: string) => value.trim() ? Math.max(0, Math.round(parseFloat(value) || 0)) || null : null;
+
+// This doc is split into Group A / Group B bundles on the marketplace, checkout reads the group prices from it
+const isFirstYear = (bundle: Bundle) => bundle.id === FIRST_YEAR_BUNDLE_ID;
+
+const CHANGE_STYLES: Record<BundleChange['change'], string> = {
+    created: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+    updated: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+    deleted: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+    unchanged: 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400',
+};
+
+export default function AdminBundlesPage() {
+    const { isAdmin, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const [bundles, setBundles] = useState<Bundle[]>([]);
+    const [forms, setForms] = useState<Record<string, PriceForm>>({});
+    const [loading, setLoading] = useState(true);
+    const [savingId, setSavingId] = useState<string | null>(null);
+    const [preview, setPreview] = useState<BundleChange[] | null>(null);
+    const [rebuilding, setRebuilding] = useState(false);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) {
+            router.push('/');
+        }
+    }, [isAdmin, authLoading, router]);
+
+    useEffect(() => {
+        if (isAdmin) {
+            fetchBundles();
+        }
+    }, [isAdmin]);
+
+    const fetchBundles = async () => {
+        setLoading(true);
+        try {
+            const snapshot = await getDocs(collection(db, 'bundles'));
+            const fetched = snapshot.docs
+                .map(d => ({ ...d.data(), id: d.id } as Bundle))
+                .sort((a, b) => a.branch.localeCompare(b.branch) || a.semester.localeCompare(b.semester));
+            setBundles(fetched);
+            setForms(Object.fromEntries(fetched.map(b => [b.id, {
+                bundlePrice: toInput(b.bundlePrice),
+                groupA: toInput(b.groupPrices?.A),
+                groupB: toInput(b.groupPrices?.B),
+            }])));
+        } catch (error) {
+            console.error('Error fetching bundles:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleSave = async (bundle: Bundle) => {
+        const form = forms[bundle.id];
+        setSavingId(bundle.id);
+        try {
+            const updates: Partial<Bundle> = { bundlePrice: parsePrice(form.bundlePrice) };
+            if (isFirstYear(bundle)) {
+                const groupPrices: Bundle['groupPrices'] = {};
+                const groupA = parsePrice(form.groupA);
+                const groupB = parsePrice(form.groupB);
+                if (groupA) groupPrices.A = groupA;
+                if (groupB) groupPrices.B = groupB;
+                updates.groupPrices = groupPrices;
+            }
+
+            await updateDoc(doc(db, 'bundles', bundle.id), updates);
+            setBundles(prev => prev.map(b => b.id === bundle.id ? { ...b, ...updates } : b));
+            toast.success(`Saved pricing for ${bundle.title || bundle.id}`);
+        } catch (error) {
+            console.error('Error saving bundle price:', error);
+            toast.error('Failed to save bundle price');
+        } finally {
+            setSavingId(null);
+        }
+    };
+
+    const handleRebuild = async (dryRun: boolean) => {
+        setRebuilding(true);
+        try {
+            const changes = await rebuildAllBundles(dryRun);
+            if (dryRun) {
+                setPreview(changes);
+                return;
+            }
+            const applied = changes.filter(c => c.change !== 'unchanged').length;
+            toast.success(applied > 0 ? `Rebuilt bundles: ${applied} changed` : 'Bundles were already up to date');
+            setPreview(null);
+            await fetchBundles();
+        } catch (error) {
+            console.error('Error rebuilding bundles:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to rebuild bundles');
+        } finally {
+            setRebuilding(false);
+        }
+    };
+
+    const setField = (bundleId: string, field: keyof PriceForm, value: string) => {
+        setForms(prev => ({ ...prev, [bundleId]: { ...prev[bundleId], [field]: value } }));
+    };
+
+    if (authLoading) {
+        return <div className="flex h-screen items-center justify-center text-zinc-500">Loading...</div>;
+    }
+
+    if (!isAdmin) return null;
+
+    const inputClass = "w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-950 dark:text-zinc-100";
+    const labelClass = "mb-1 block text-xs font-semibold uppercase text-zinc-500";
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-5xl space-y-8">
+            <div className="flex items-center gap-4 mb-6">
+                <button
+                    onClick={() => router.push('/admin')}
+                    className="rounded-full p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                >
+                    <ArrowLeft className="h-6 w-6 text-zinc-600 dark:text-zinc-400" />
+                </button>
+                <div>
+                    <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">Bundles</h1>
+                    <p className="mt-1 text-zinc-500 dark:text-zinc-400">
+                        A bundle price replaces the sum of subject prices at semester checkout. Students pick one subject per elective category.
+                    </p>
+                </div>
+            </div>
+
+            {/* Rebuild */}
+            <div className="space-y-4 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+                <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+                    <div>
+                        <h2 className="font-semibold text-zinc-900 dark:text-zinc-100">Rebuild All Bundles</h2>
+                        <p className="text-sm text-zinc-500 dark:text-zinc-400">Re-aggregates every bundle from subject metadata. Bundle prices are kept.</p>
+                    </div>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => handleRebuild(true)}
+                            disabled={rebuilding}
+                            className="flex items-center gap-2 rounded-lg border border-zinc-200 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                        >
+                            {rebuilding && !preview ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                            Preview Changes
+                        </button>
+                        {preview && (
+                            <button
+                                onClick={() => handleRebuild(false)}
+                                disabled={rebuilding || preview.every(c => c.change === 'unchanged')}
+                                className="flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                            >
+                                {rebuilding && <Loader2 className="h-4 w-4 animate-spin" />}
+                                Apply
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {preview && (
+                    preview.every(c => c.change === 'unchanged') ? (
+                        <p className="text-sm text-zinc-500 dark:text-zinc-400">All {preview.length} bundles are up to date.</p>
+                    ) : (
+                        <ul className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                            {preview.filter(c => c.change !== 'unchanged').map(change => (
+                                <li key={change.bundleId} className="space-y-1 py-2 text-sm">
+                                    <div className="flex items-center gap-2">
+                                        <span className={cn("rounded-full px-2 py-0.5 text-xs font-bold capitalize", CHANGE_STYLES[change.change])}>
+                                            {change.change}
+                                        </span>
+                                        <span className="font-medium text-zinc-900 dark:text-zinc-100">{change.title}</span>
+                                    </div>
+                                    {change.addedSubjects.length > 0 && <p className="text-xs text-green-600 dark:text-green-400">+ {change.addedSubjects.join(', ')}</p>}
+                                    {change.removedSubjects.length > 0 && <p className="text-xs text-red-600 dark:text-red-400">− {change.removedSubjects.join(', ')}</p>}
+                                    {change.changedSubjects.length > 0 && <p className="text-xs text-amber-600 dark:text-amber-400">~ {change.changedSubjects.join(', ')}</p>}
+                                </li>
+                            ))}
+                            <li className="py-2 text-xs text-zinc-400">{preview.filter(c => c.change === 'unchanged').length} unchanged</li>
+                        </ul>
+                    )
+                )}
+            </div>
+
+            <div className="space-y-3">
+                {loading ? (
+                    <div className="flex justify-center py-12">
+                        <Loader2 className="h-6 w-6 animate-spin text-zinc-400" />
+                    </div>
+                ) : bundles.length === 0 ? (
+                    <div className="text-center py-12 bg-white rounded-xl border border-zinc-200 dark:bg-zinc-900 dark:border-zinc-800">
+                        <Package className="h-12 w-12 text-zinc-300 mx-auto mb-4" />
+                        <h3 className="text-lg font-medium text-zinc-900 dark:text-zinc-100">No bundles yet</h3>
+                        <p className="text-zinc-500">Use Rebuild All Bundles above to build them.</p>
+                    </div>
+                ) : (
+                    bundles.map(bundle => {
+                        const form = forms[bundle.id];
+                        const categories = getElectiveCategories(bundle.subjects || []);
+                        const coreCount = (bundle.subjects || []).filter(s => !s.isElective).length;
+                        return (
+                            <div key={bundle.id} className="flex flex-col gap-4 rounded-xl border border-zinc-200 bg-white p-4 shadow-sm dark:border-zinc-800 dark:bg-zinc-900 md:flex-row md:items-end md:justify-between">
+                                <div className="space-y-1">
+                                    <p className="font-semibold text-zinc-900 dark:text-zinc-100">{bundle.title || bundle.id}</p>
+                                    <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                                        {coreCount} core • {categories.length > 0 ? `Electives: ${categories.join(', ')}` : 'No electives'}
+                                        {` • Subjects total ₹${bundle.totalPrice || 0}`}
+                                    </p>
+                                </div>
+                                <div className="flex items-end gap-2">
+                                    {isFirstYear(bundle) ? (
+                                        <>
+                                            <div className="w-32">
+                                                <label className={labelClass}>Group A (₹)</label>
+                                                <input className={inputClass} type="number" min="1" value={form?.groupA || ''} onChange={(e) => setField(bundle.id, 'groupA', e.target.value)} placeholder="Sum" />
+                                            </div>
+                                            <div className="w-32">
+                                                <label className={labelClass}>Group B (₹)</label>
+                                                <input className={inputClass} type="number" min="1" value={form?.groupB || ''} onChange={(e) => setField(bundle.id, 'groupB', e.target.value)} placeholder="Sum" />
+                                            </div>
+                                        </>
+                                    ) : (
+                                        <div className="w-36">
+                                            <label className={labelClass}>Bundle price (₹)</label>
+                                            <input className={inputClass} type="number" min="1" value={form?.bundlePrice || ''} onChange={(e) => setField(bundle.id, 'bundlePrice', e.target.value)} placeholder="Sum" />
+                                        </div>
+                                    )}
+                                    <button
+                                        onClick={() => handleSave(bundle)}
+                                        disabled={savingId === bundle.id}
+                                        className="flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                                    >
+                                        {savingId === bundle.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                                        Save
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+            <p className="text-xs text-zinc-400">Leave a price empty to charge the sum of the chosen subjects. Students who already own part of a bundle pay the same share of the bundle price.</p>
+        </div>
+    );
+}
@@ -0,0 +1,309 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { collection, deleteDoc, doc, getDoc, getDocs, orderBy, query, setDoc, updateDoc } from 'firebase/firestore';
+import { ArrowLeft, Loader2, Plus, TicketPercent, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/context/AuthContext';
+import { Coupon, CouponType } from '@/lib/types';
+import { normalizeCouponCode } from '@/lib/coupons';
+import { cn } from '@/lib/utils';
+
+const emptyForm = {
+    code: '',
+    description: '',
+    type: 'percent' as CouponType,
+    value: '',
+    expiresAt: '',
+    maxUses: '',
+    perUserLimit: '1',
+    branches: '',
+    semesters: '',
+    subjectIds: '',
+};
+
+const splitList = (value: string) => value.split(',').map(v => v.trim()).filter(Boolean);
+const parseLimit = (value: string) => value.trim() ? Math.max(0, parseInt(value, 10) || 0) : null;
+
+const describeScope = (coupon: Coupon) => {
+    const parts = [
+        coupon.scope.branches.length > 0 ? coupon.scope.branches.join(', ') : '',
+        coupon.scope.semesters.length > 0 ? coupon.scope.semesters.join(', ') : '',
+        coupon.scope.subjectIds.length > 0 ? `${coupon.scope.subjectIds.length} subject(s)` : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' • ') : 'All courses';
+};
+
+export default function AdminCouponsPage() {
+    const { isAdmin, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const [coupons, setCoupons] = useState<Coupon[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [updatingCode, setUpdatingCode] = useState<string | null>(null);
+    const [form, setForm] = useState(emptyForm);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) {
+            router.push('/');
+        }
+    }, [isAdmin, authLoading, router]);
+
+    useEffect(() => {
+        if (isAdmin) {
+            fetchCoupons();
+        }
+    }, [isAdmin]);
+
+    const fetchCoupons = async () => {
+        setLoading(true);
+        try {
+            const snapshot = await getDocs(query(collection(db, 'coupons'), orderBy('createdAt', 'desc')));
+            setCoupons(snapshot.docs.map(d => d.data() as Coupon));
+        } catch (error) {
+            console.error('Error fetching coupons:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const code = normalizeCouponCode(form.code);
+        const value = parseFloat(form.value);
+
+        if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+            toast.error('Codes are 3-32 letters, digits, _ or -');
+            return;
+        }
+        if (!(value > 0) || (form.type === 'percent' && value > 100)) {
+            toast.error(form.type === 'percent' ? 'Percentage must be between 1 and 100' : 'Amount must be positive');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const ref = doc(db, 'coupons', code);
+            if ((await getDoc(ref)).exists()) {
+                toast.error(`Coupon ${code} already exists`);
+                return;
+            }
+
+            const coupon: Coupon = {
+                code,
+                ...(form.description.trim() ? { description: form.description.trim() } : {}),
+                type: form.type,
+                value,
+                // Expires at the end of the chosen day
+                expiresAt: form.expiresAt ? new Date(`${form.expiresAt}T23:59:59`).getTime() : null,
+                maxUses: parseLimit(form.maxUses),
+                perUserLimit: parseLimit(form.perUserLimit),
+                usedCount: 0,
+                scope: {
+                    branches: splitList(form.branches),
+                    semesters: splitList(form.semesters),
+                    subjectIds: splitList(form.subjectIds),
+                },
+                isActive: true,
+                createdAt: Date.now(),
+            };
+
+            await setDoc(ref, coupon);
+            setCoupons(prev => [coupon, ...prev]);
+            setForm(emptyForm);
+            toast.success(`Coupon ${code} created`);
+        } catch (error) {
+            console.error('Error creating coupon:', error);
+            toast.error('Failed to create coupon');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleToggleActive = async (coupon: Coupon) => {
+        setUpdatingCode(coupon.code);
+        try {
+            await updateDoc(doc(db, 'coupons', coupon.code), { isActive: !coupon.isActive });
+            setCoupons(prev => prev.map(c => c.code === coupon.code ? { ...c, isActive: !c.isActive } : c));
+        } catch (error) {
+            console.error('Error updating coupon:', error);
+            toast.error('Failed to update coupon');
+        } finally {
+            setUpdatingCode(null);
+        }
+    };
+
+    const handleDelete = async (coupon: Coupon) => {
+        const warning = coupon.usedCount > 0
+            ? `${coupon.code} has been used ${coupon.usedCount} time(s). Deactivating keeps its history. Delete anyway?`
+            : `Delete coupon ${coupon.code}?`;
+        if (!confirm(warning)) return;
+
+        setUpdatingCode(coupon.code);
+        try {
+            await deleteDoc(doc(db, 'coupons', coupon.code));
+            setCoupons(prev => prev.filter(c => c.code !== coupon.code));
+        } catch (error) {
+            console.error('Error deleting coupon:', error);
+            toast.error('Failed to delete coupon');
+        } finally {
+            setUpdatingCode(null);
+        }
+    };
+
+    if (authLoading) {
+        return <div className="flex h-screen items-center justify-center text-zinc-500">Loading...</div>;
+    }
+
+    if (!isAdmin) return null;
+
+    const inputClass = "w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-950 dark:text-zinc-100";
+    const labelClass = "mb-1 block text-xs font-semibold uppercase text-zinc-500";
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-5xl space-y-8">
+            <div className="flex items-center gap-4 mb-6">
+                <button
+                    onClick={() => router.push('/admin')}
+                    className="rounded-full p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                >
+                    <ArrowLeft className="h-6 w-6 text-zinc-600 dark:text-zinc-400" />
+                </button>
+                <div>
+                    <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">Coupons</h1>
+                    <p className="mt-1 text-zinc-500 dark:text-zinc-400">Promo codes applied at checkout. Usage is counted when an order is paid.</p>
+                </div>
+            </div>
+
+            {/* Create */}
+            <form onSubmit={handleCreate} className="space-y-4 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+                <h2 className="font-semibold text-zinc-900 dark:text-zinc-100">New Coupon</h2>
+                <div className="grid gap-4 md:grid-cols-3">
+                    <div>
+                        <label className={labelClass}>Code</label>
+                        <input className={cn(inputClass, "uppercase")} value={form.code} onChange={(e) => setForm({ ...form, code: e.target.value })} placeholder="EXAM20" required />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Type</label>
+                        <select className={inputClass} value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as CouponType })}>
+                            <option value="percent">Percentage off</option>
+                            <option value="flat">Flat ₹ off</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass}>{form.type === 'percent' ? 'Percent' : 'Amount (₹)'}</label>
+                        <input className={inputClass} type="number" min="1" step="any" value={form.value} onChange={(e) => setForm({ ...form, value: e.target.value })} required />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Expires on</label>
+                        <input className={inputClass} type="date" value={form.expiresAt} onChange={(e) => setForm({ ...form, expiresAt: e.target.value })} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Total uses</label>
+                        <input className={inputClass} type="number" min="1" value={form.maxUses} onChange={(e) => setForm({ ...form, maxUses: e.target.value })} placeholder="Unlimited" />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Uses per student</label>
+                        <input className={inputClass} type="number" min="1" value={form.perUserLimit} onChange={(e) => setForm({ ...form, perUserLimit: e.target.value })} placeholder="Unlimited" />
+                    </div>
+                </div>
+                <div>
+                    <label className={labelClass}>Description (internal)</label>
+                    <input className={inputClass} value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} placeholder="Winter exam campaign" />
+                </div>
+                <div className="grid gap-4 md:grid-cols-3">
+                    <div>
+                        <label className={labelClass}>Branches</label>
+                        <input className={inputClass} value={form.branches} onChange={(e) => setForm({ ...form, branches: e.target.value })} placeholder="Any (comma separated)" />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Semesters</label>
+                        <input className={inputClass} value={form.semesters} onChange={(e) => setForm({ ...form, semesters: e.target.value })} placeholder="e.g. Semester 5, Semester 6" />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Subject IDs</label>
+                        <input className={inputClass} value={form.subjectIds} onChange={(e) => setForm({ ...form, subjectIds: e.target.value })} placeholder="Any (comma separated)" />
+                    </div>
+                </div>
+                <p className="text-xs text-zinc-400">Branch and semester must match the values on the subject exactly. Leave scope fields empty to apply to every course.</p>
+                <div className="flex justify-end">
+                    <button
+                        type="submit"
+                        disabled={saving}
+                        className="flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                    >
+                        {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                        Create Coupon
+                    </button>
+                </div>
+            </form>
+
+            {/* List */}
+            <div className="space-y-3">
+                {loading ? (
+                    <div className="flex justify-center py-12">
+                        <Loader2 className="h-6 w-6 animate-spin text-zinc-400" />
+                    </div>
+                ) : coupons.length === 0 ? (
+                    <div className="text-center py-12 bg-white rounded-xl border border-zinc-200 dark:bg-zinc-900 dark:border-zinc-800">
+                        <TicketPercent className="h-12 w-12 text-zinc-300 mx-auto mb-4" />
+                        <h3 className="text-lg font-medium text-zinc-900 dark:text-zinc-100">No coupons yet</h3>
+                    </div>
+                ) : (
+                    coupons.map(coupon => {
+                        const expired = coupon.expiresAt !== null && Date.now() > coupon.expiresAt;
+                        const exhausted = coupon.maxUses !== null && coupon.usedCount >= coupon.maxUses;
+                        return (
+                            <div key={coupon.code} className={cn(
+                                "flex flex-col gap-4 rounded-xl border border-zinc-200 bg-white p-4 shadow-sm dark:border-zinc-800 dark:bg-zinc-900 md:flex-row md:items-center md:justify-between",
+                                (!coupon.isActive || expired || exhausted) && "opacity-60"
+                            )}>
+                                <div className="space-y-1">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                        <span className="font-mono text-lg font-bold text-zinc-900 dark:text-zinc-100">{coupon.code}</span>
+                                        <span className="rounded-full bg-indigo-100 px-2.5 py-0.5 text-xs font-bold text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300">
+                                            {coupon.type === 'percent' ? `${coupon.value}% off` : `₹${coupon.value} off`}
+                                        </span>
+                                        {expired && <span className="text-xs font-medium text-red-500">Expired</span>}
+                                        {exhausted && <span className="text-xs font-medium text-red-500">Used up</span>}
+                                    </div>
+                                    {coupon.description && <p className="text-sm text-zinc-600 dark:text-zinc-400">{coupon.description}</p>}
+                                    <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                                        Used {coupon.usedCount}{coupon.maxUses !== null ? ` / ${coupon.maxUses}` : ''}
+                                        {coupon.perUserLimit !== null && ` • ${coupon.perUserLimit} per student`}
+                                        {coupon.expiresAt && ` • Expires ${new Date(coupon.expiresAt).toLocaleDateString()}`}
+                                        {` • ${describeScope(coupon)}`}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => handleToggleActive(coupon)}
+                                        disabled={updatingCode === coupon.code}
+                                        className={cn(
+                                            "rounded-lg border px-3 py-1.5 text-sm font-medium transition-colors disabled:opacity-50",
+                                            coupon.isActive
+                                                ? "border-green-200 bg-green-50 text-green-700 hover:bg-green-100 dark:border-green-900/50 dark:bg-green-900/20 dark:text-green-300"
+                                                : "border-zinc-200 text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                                        )}
+                                    >
+                                        {coupon.isActive ? 'Active' : 'Inactive'}
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(coupon)}
+                                        disabled={updatingCode === coupon.code}
+                                        className="rounded-lg p-2 text-zinc-400 hover:bg-red-50 hover:text-red-500 disabled:opacity-50 dark:hover:bg-red-900/20"
+                                        title="Delete coupon"
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,274 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { collection, getDocs } from 'firebase/firestore';
+import { AlertTriangle, ArrowLeft, Copy, ExternalLink, Loader2, Merge, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/context/AuthContext';
+import { SubjectMetadata } from '@/lib/types';
+import { DEFAULT_DUPLICATE_THRESHOLD, DuplicateCluster } from '@/lib/duplicateDetection';
+import type { DuplicateMergeJob } from '@/lib/duplicateService';
+import { mergeDuplicates, scanDuplicates } from '@/lib/duplicateUtils';
+import { cn } from '@/lib/utils';
+
+// Admin choices per cluster, keyed by the cluster's first question id
+type ClusterChoice = { keepId: string; solutionId: string | null };
+
+const clusterKey = (cluster: DuplicateCluster) => cluster.questions[0].question.id;
+
+export default function AdminDuplicatesPage() {
+    const { isAdmin, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const [subjects, setSubjects] = useState<SubjectMetadata[]>([]);
+    const [subjectId, setSubjectId] = useState('');
+    const [threshold, setThreshold] = useState(DEFAULT_DUPLICATE_THRESHOLD);
+    const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null);
+    const [unfinished, setUnfinished] = useState<DuplicateMergeJob[]>([]);
+    const [choices, setChoices] = useState<Record<string, ClusterChoice>>({});
+    const [scanning, setScanning] = useState(false);
+    const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) {
+            router.push('/');
+        }
+    }, [isAdmin, authLoading, router]);
+
+    useEffect(() => {
+        if (isAdmin) {
+            fetchSubjects();
+        }
+    }, [isAdmin]);
+
+    const fetchSubjects = async () => {
+        try {
+            const snapshot = await getDocs(collection(db, 'subjects_metadata'));
+            setSubjects(snapshot.docs
+                .map(d => ({ ...d.data(), id: d.id } as SubjectMetadata))
+                .sort((a, b) => a.title.localeCompare(b.title)));
+        } catch (error) {
+            console.error('Error fetching subjects:', error);
+        }
+    };
+
+    const handleScan = async () => {
+        if (!subjectId) return;
+        setScanning(true);
+        try {
+            const { clusters: found, unfinishedMerges } = await scanDuplicates(subjectId, threshold);
+            setClusters(found);
+            setUnfinished(unfinishedMerges);
+            setChoices(Object.fromEntries(found.map(c => [clusterKey(c), { keepId: c.suggestedKeepId, solutionId: c.suggestedSolutionId }])));
+        } catch (error) {
+            console.error('Error scanning for duplicates:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to scan for duplicates');
+        } finally {
+            setScanning(false);
+        }
+    };
+
+    const handleMerge = async (cluster: DuplicateCluster) => {
+        const key = clusterKey(cluster);
+        const choice = choices[key];
+        const mergeIds = cluster.questions.map(c => c.question.id).filter(id => id !== choice.keepId);
+        if (!confirm(`Merge ${mergeIds.length} question${mergeIds.length === 1 ? '' : 's'} into the selected one? Student progress and notes are moved over, this cannot be undone.`)) return;
+
+        setMergingKey(key);
+        try {
+            const result = await mergeDuplicates(subjectId, { keepId: choice.keepId, mergeIds, solutionId: choice.solutionId });
+            toast.success(`Merged ${result.removedIds.length + 1} questions, updated progress for ${result.progressDocsUpdated} students`);
+            setClusters(prev => prev?.filter(c => clusterKey(c) !== key) ?? null);
+        } catch (error) {
+            console.error('Error merging duplicates:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to merge questions');
+        } finally {
+            setMergingKey(null);
+        }
+    };
+
+    // The questions are already merged, this only moves the remaining student progress and notes
+    const handleResume = async (job: DuplicateMergeJob) => {
+        setMergingKey(job.keepId);
+        try {
+            const result = await mergeDuplicates(subjectId, { keepId: job.keepId, mergeIds: job.removedIds });
+            toast.success(`Finished merge, updated progress for ${result.progressDocsUpdated} students`);
+            setUnfinished(prev => prev.filter(j => j.keepId !== job.keepId));
+        } catch (error) {
+            console.error('Error resuming merge:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to resume merge');
+        } finally {
+            setMergingKey(null);
+        }
+    };
+
+    const setChoice = (key: string, update: Partial<ClusterChoice>) => {
+        setChoices(prev => ({ ...prev, [key]: { ...prev[key], ...update } }));
+    };
+
+    if (authLoading) {
+        return <div className="flex h-screen items-center justify-center text-zinc-500">Loading...</div>;
+    }
+
+    if (!isAdmin) return null;
+
+    const inputClass = "w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-950 dark:text-zinc-100";
+    const labelClass = "mb-1 block text-xs font-semibold uppercase text-zinc-500";
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-5xl space-y-8">
+            <div className="flex items-center gap-4 mb-6">
+                <button
+                    onClick={() => router.push('/admin')}
+                    className="rounded-full p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                >
+                    <ArrowLeft className="h-6 w-6 text-zinc-600 dark:text-zinc-400" />
+                </button>
+                <div>
+                    <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">Duplicate Questions</h1>
+                    <p className="mt-1 text-zinc-500 dark:text-zinc-400">
+                        Finds questions phrased slightly differently and merges them, with their frequency, history and student progress.
+                    </p>
+                </div>
+            </div>
+
+            <div className="grid gap-4 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900 md:grid-cols-[1fr_200px_auto] md:items-end">
+                <div>
+                    <label className={labelClass}>Subject</label>
+                    <select className={inputClass} value={subjectId} onChange={(e) => { setSubjectId(e.target.value); setClusters(null); setUnfinished([]); }}>
+                        <option value="">Select a subject</option>
+                        {subjects.map(subject => (
+                            <option key={subject.id} value={subject.id}>
+                                {subject.title}{subject.branch ? ` (${subject.branch}, ${subject.semester})` : ''}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Similarity ≥ {Math.round(threshold * 100)}%</label>
+                    <input
+                        type="range"
+                        min="0.6"
+                        max="0.95"
+                        step="0.05"
+                        value={threshold}
+                        onChange={(e) => setThreshold(parseFloat(e.target.value))}
+                        className="w-full accent-indigo-600"
+                    />
+                </div>
+                <button
+                    onClick={handleScan}
+                    disabled={!subjectId || scanning}
+                    className="flex items-center justify-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                >
+                    {scanning ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                    Scan
+                </button>
+            </div>
+
+            {unfinished.length > 0 && (
+                <div className="space-y-2 rounded-xl border border-amber-200 bg-amber-50 p-4 dark:border-amber-900/50 dark:bg-amber-900/20">
+                    <p className="flex items-center gap-2 text-sm font-medium text-amber-800 dark:text-amber-300">
+                        <AlertTriangle className="h-4 w-4" />
+                        Some merges didn&apos;t finish moving student progress
+                    </p>
+                    {unfinished.map(job => (
+                        <div key={job.keepId} className="flex items-center justify-between gap-4 text-sm text-amber-800 dark:text-amber-300">
+                            <span className="font-mono text-xs">{job.removedIds.join(', ')} → {job.keepId}</span>
+                            <button
+                                onClick={() => handleResume(job)}
+                                disabled={mergingKey !== null}
+                                className="flex shrink-0 items-center gap-2 rounded-lg bg-amber-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-amber-500 disabled:opacity-50"
+                            >
+                                {mergingKey === job.keepId ? <Loader2 className="h-3 w-3 animate-spin" /> : <Merge className="h-3 w-3" />}
+                                Resume
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {clusters && (
+                clusters.length === 0 ? (
+                    <div className="text-center py-12 bg-white rounded-xl border border-zinc-200 dark:bg-zinc-900 dark:border-zinc-800">
+                        <Copy className="h-12 w-12 text-zinc-300 mx-auto mb-4" />
+                        <h3 className="text-lg font-medium text-zinc-900 dark:text-zinc-100">No duplicates found</h3>
+                        <p className="text-zinc-500">Try a lower similarity to find looser matches.</p>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <p className="text-sm text-zinc-500 dark:text-zinc-400">{clusters.length} group{clusters.length === 1 ? '' : 's'} of similar questions</p>
+                        {clusters.map(cluster => {
+                            const key = clusterKey(cluster);
+                            const choice = choices[key];
+                            return (
+                                <div key={key} className="space-y-3 rounded-xl border border-zinc-200 bg-white p-4 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+                                    <div className="flex items-center justify-between gap-4">
+                                        <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-bold text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+                                            {Math.round(cluster.similarity * 100)}% similar
+                                        </span>
+                                        <button
+                                            onClick={() => handleMerge(cluster)}
+                                            disabled={mergingKey !== null}
+                                            className="flex items-center gap-2 rounded-lg bg-indigo-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                                        >
+                                            {mergingKey === key ? <Loader2 className="h-4 w-4 animate-spin" /> : <Merge className="h-4 w-4" />}
+                                            Merge
+                                        </button>
+                                    </div>
+
+                                    <ul className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                                        {cluster.questions.map(candidate => {
+                                            const { question } = candidate;
+                                            const isKept = choice?.keepId === question.id;
+                                            return (
+                                                <li key={question.id} className={cn("space-y-2 py-3", isKept && "rounded-lg bg-indigo-50/50 px-2 dark:bg-indigo-900/10")}>
+                                                    <div className="flex items-start justify-between gap-4">
+                                                        <p className="text-sm text-zinc-900 dark:text-zinc-100">{question.text}</p>
+                                                        <Link
+                                                            href={`/study/${subjectId}?unit=${candidate.unitId}&question=${question.id}`}
+                                                            target="_blank"
+                                                            className="shrink-0 text-zinc-400 hover:text-indigo-600"
+                                                            title="Open in study page"
+                                                        >
+                                                            <ExternalLink className="h-4 w-4" />
+                                                        </Link>
+                                                    </div>
+                                                    <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                                                        {candidate.unitTitle} • Asked {question.frequency || 0}× • {(question.history || []).map(h => h.year).join(', ') || 'No history'}
+                                                    </p>
+                                                    {candidate.solutionPreview && (
+                                                        <p className="line-clamp-2 rounded bg-zinc-50 px-2 py-1 text-xs text-zinc-600 dark:bg-zinc-950 dark:text-zinc-400">
+                                                            {candidate.solutionPreview}
+                                                        </p>
+                                                    )}
+                                                    <div className="flex flex-wrap gap-4 text-xs">
+                                                        <label className="flex items-center gap-1.5 text-zinc-700 dark:text-zinc-300">
+                                                            <input type="radio" name={`keep-${key}`} checked={isKept} onChange={() => setChoice(key, { keepId: question.id })} />
+                                                            Keep this question
+                                                        </label>
+                                                        {candidate.solutionLength ? (
+                                                            <label className="flex items-center gap-1.5 text-zinc-700 dark:text-zinc-300">
+                                                                <input type="radio" name={`solution-${key}`} checked={choice?.solutionId === question.id} onChange={() => setChoice(key, { solutionId: question.id })} />
+                                                                Use this solution ({candidate.solutionLength.toLocaleString()} chars)
+                                                            </label>
+                                                        ) : (
+                                                            <span className="text-zinc-400">No solution</span>
+                                                        )}
+                                                    </div>
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )
+            )}
+            <p className="text-xs text-zinc-400">Merging sums frequency, combines history, keeps the chosen solution and moves every student&apos;s progress and notes to the kept question.</p>
+        </div>
+    );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, FlaskConical, Flag, Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/context/AuthContext';
+import { ModerationConfig, ModerationFlag } from '@/lib/types';
+import { fetchModerationConfig, saveModerationConfig, testModeration } from '@/lib/moderationUtils';
+
+type ListField = 'blockList' | 'allowList' | 'allowedLinkDomains' | 'blockedLinkDomains';
+type NumberField = 'maxLinks' | 'maxLength' | 'maxMessagesPerMinute' | 'maxRepeats' | 'repeatWindowMinutes';
+
+// Lists are edited one entry per line
+type ConfigForm = Record<ListField, string> & Record<NumberField, string>;
+
+const LIST_FIELDS: { field: ListField; label: string; hint: string }[] = [
+    { field: 'blockList', label: 'Block list', hint: 'Words or phrases. Leetspeak, accents and spacing tricks are normalised before matching.' },
+    { field: 'allowList', label: 'Allow list', hint: 'Never flagged, even if they are on the block list.' },
+    { field: 'blockedLinkDomains', label: 'Blocked link domains', hint: 'Any link to these (or their subdomains) is held.' },
+    { field: 'allowedLinkDomains', label: 'Trusted link domains', hint: "Don't count towards the link limit." },
+];
+
+const NUMBER_FIELDS: { field: NumberField; label: string }[] = [
+    { field: 'maxLinks', label: 'Links per message' },
+    { field: 'maxLength', label: 'Max characters' },
+    { field: 'maxMessagesPerMinute', label: 'Messages per minute' },
+    { field: 'maxRepeats', label: 'Same message, times' },
+    { field: 'repeatWindowMinutes', label: '…within minutes' },
+];
+
+const toForm = (config: ModerationConfig): ConfigForm => ({
+    blockList: config.blockList.join('\n'),
+    allowList: config.allowList.join('\n'),
+    allowedLinkDomains: config.allowedLinkDomains.join('\n'),
+    blockedLinkDomains: config.blockedLinkDomains.join('\n'),
+    maxLinks: String(config.maxLinks),
+    maxLength: String(config.maxLength),
+    maxMessagesPerMinute: String(config.maxMessagesPerMinute),
+    maxRepeats: String(config.maxRepeats),
+    repeatWindowMinutes: String(config.repeatWindowMinutes),
+});
+
+const toConfig = (form: ConfigForm): ModerationConfig => {
+    const list = (value: string) => value.split('\n').map(v => v.trim()).filter(Boolean);
+    return {
+        blockList: list(form.blockList),
+        allowList: list(form.allowList),
+        allowedLinkDomains: list(form.allowedLinkDomains),
+        blockedLinkDomains: list(form.blockedLinkDomains),
+        maxLinks: Number(form.maxLinks),
+        maxLength: Number(form.maxLength),
+        maxMessagesPerMinute: Number(form.maxMessagesPerMinute),
+        maxRepeats: Number(form.maxRepeats),
+        repeatWindowMinutes: Number(form.repeatWindowMinutes),
+    };
+};
+
+export default function AdminModerationPage() {
+    const { isAdmin, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const [form, setForm] = useState<ConfigForm | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [testText, setTestText] = useState('');
+    const [testFlags, setTestFlags] = useState<ModerationFlag[] | null>(null);
+    const [testing, setTesting] = useState(false);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) {
+            router.push('/');
+        }
+    }, [isAdmin, authLoading, router]);
+
+    useEffect(() => {
+        if (isAdmin) {
+            loadConfig();
+        }
+    }, [isAdmin]);
+
+    const loadConfig = async () => {
+        try {
+            setForm(toForm(await fetchModerationConfig()));
+        } catch (error) {
+            console.error('Error loading moderation settings:', error);
+            toast.error('Failed to load moderation settings');
+        }
+    };
+
+    const handleSave = async () => {
+        if (!form) return;
+        setSaving(true);
+        try {
+            // The server dedupes and clamps, show what it actually stored
+            setForm(toForm(await saveModerationConfig(toConfig(form))));
+            toast.success('Moderation settings saved');
+        } catch (error) {
+            console.error('Error saving moderation settings:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to save');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleTest = async () => {
+        if (!testText.trim()) return;
+        setTesting(true);
+        try {
+            setTestFlags(await testModeration(testText));
+        } catch (error) {
+            console.error('Error testing message:', error);
+            toast.error(error instanceof Error ? error.message : 'Test failed');
+        } finally {
+            setTesting(false);
+        }
+    };
+
+    if (authLoading) {
+        return <div className="flex h-screen items-center justify-center text-zinc-500">Loading...</div>;
+    }
+
+    if (!isAdmin) return null;
+
+    const inputClass = "w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-950 dark:text-zinc-100";
+    const labelClass = "mb-1 block text-xs font-semibold uppercase text-zinc-500";
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-5xl space-y-8">
+            <div className="flex items-center gap-4 mb-6">
+                <button
+                    onClick={() => router.push('/admin')}
+                    className="rounded-full p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                >
+                    <ArrowLeft className="h-6 w-6 text-zinc-600 dark:text-zinc-400" />
+                </button>
+                <div className="flex-1">
+                    <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">Community Moderation</h1>
+                    <p className="mt-1 text-zinc-500 dark:text-zinc-400">
+                        Every message is checked on the server before it is posted. Flagged ones are held and show up in Message Reports for approval.
+                    </p>
+                </div>
+                <button
+                    onClick={() => router.push('/admin/reports/messages')}
+                    className="flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 transition-colors shadow-sm"
+                >
+                    <Flag className="h-4 w-4" />
+                    Held messages
+                </button>
+            </div>
+
+            {!form ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-zinc-400" />
+                </div>
+            ) : (
+                <>
+                    <div className="space-y-6 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+                        <div className="grid gap-6 md:grid-cols-2">
+                            {LIST_FIELDS.map(({ field, label, hint }) => (
+                                <div key={field}>
+                                    <label className={labelClass}>{label}</label>
+                                    <textarea
+                                        className={`${inputClass} font-mono`}
+                                        rows={field === 'blockList' ? 10 : 5}
+                                        value={form[field]}
+                                        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                                        placeholder="One per line"
+                                    />
+                                    <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">{hint}</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-5">
+                            {NUMBER_FIELDS.map(({ field, label }) => (
+                                <div key={field}>
+                                    <label className={labelClass}>{label}</label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        className={inputClass}
+                                        value={form[field]}
+                                        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                            Messages over the rate or repeat limits are refused. Messages that hit the block list, link rules or spam checks (shouting, long letter runs, one word over and over) are held.
+                        </p>
+
+                        <div className="flex justify-end">
+                            <button
+                                onClick={handleSave}
+                                disabled={saving}
+                                className="flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                            >
+                                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                                Save
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="space-y-3 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+                        <label className={labelClass}>Try a message against the saved settings</label>
+                        <textarea
+                            className={inputClass}
+                            rows={3}
+                            value={testText}
+                            onChange={(e) => { setTestText(e.target.value); setTestFlags(null); }}
+                            placeholder="Type a message to see whether it would be held"
+                        />
+                        <div className="flex items-center justify-between gap-4">
+                            <div className="text-sm">
+                                {testFlags && (testFlags.length === 0 ? (
+                                    <span className="text-green-600 dark:text-green-400">Would be posted</span>
+                                ) : (
+                                    <ul className="space-y-0.5 text-amber-700 dark:text-amber-400">
+                                        {testFlags.map((flag, i) => (
+                                            <li key={i}><span className="font-semibold">{flag.rule}</span>: {flag.detail}</li>
+                                        ))}
+                                    </ul>
+                                ))}
+                            </div>
+                            <button
+                                onClick={handleTest}
+                                disabled={testing || !testText.trim()}
+                                className="flex shrink-0 items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                            >
+                                {testing ? <Loader2 className="h-4 w-4 animate-spin" /> : <FlaskConical className="h-4 w-4" />}
+                                Test
+                            </button>
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,244 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { collection, getDocs, limit, orderBy, query, QueryConstraint, QueryDocumentSnapshot, startAfter, where } from 'firebase/firestore';
+import { ArrowLeft, ChevronDown, ChevronUp, Download, Filter, Loader2, Search } from 'lucide-react';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/context/AuthContext';
+import { Order, OrderStatus } from '@/lib/types';
+import { ORDER_STATUS_LABELS, OrderStatusBadge } from '@/components/OrderStatusBadge';
+import { cn } from '@/lib/utils';
+
+const PAGE_SIZE = 50;
+const STATUSES: OrderStatus[] = ['created', 'paid', 'enrolled', 'failed', 'refunded'];
+
+export default function AdminOrdersPage() {
+    const { isAdmin, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const [orders, setOrders] = useState<Order[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [lastDoc, setLastDoc] = useState<QueryDocumentSnapshot | null>(null);
+    const [hasMore, setHasMore] = useState(false);
+    const [statusFilter, setStatusFilter] = useState<OrderStatus | 'all'>('all');
+    const [searchQuery, setSearchQuery] = useState('');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) {
+            router.push('/');
+        }
+    }, [isAdmin, authLoading, router]);
+
+    const fetchOrders = async (isLoadMore = false) => {
+        setLoading(true);
+        try {
+            const constraints: QueryConstraint[] = [];
+            if (statusFilter !== 'all') constraints.push(where('status', '==', statusFilter));
+            constraints.push(orderBy('createdAt', 'desc'), limit(PAGE_SIZE));
+            if (isLoadMore && lastDoc) constraints.push(startAfter(lastDoc));
+
+            const snapshot = await getDocs(query(collection(db, 'orders'), ...constraints));
+            const fetched = snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Order));
+
+            setOrders(prev => isLoadMore ? [...prev, ...fetched] : fetched);
+            setLastDoc(snapshot.docs[snapshot.docs.length - 1] || null);
+            setHasMore(snapshot.docs.length === PAGE_SIZE);
+        } catch (error) {
+            console.error('Error fetching orders:', error);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isAdmin) {
+            fetchOrders();
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [isAdmin, statusFilter]);
+
+    // Support tickets usually quote an email, an order id or a payment id
+    const filteredOrders = useMemo(() => {
+        const term = searchQuery.trim().toLowerCase();
+        if (!term) return orders;
+        return orders.filter(o =>
+            o.id.toLowerCase().includes(term) ||
+            o.paymentId?.toLowerCase().includes(term) ||
+            o.userEmail?.toLowerCase().includes(term) ||
+            o.userId.toLowerCase().includes(term)
+        );
+    }, [orders, searchQuery]);
+
+    const handleExportCSV = () => {
+        const headers = ["Order ID", "Payment ID", "Date", "User Email", "User ID", "Courses", "Amount", "Coupon", "Status"];
+        const rows = filteredOrders.map(o => [
+            o.id,
+            o.paymentId || '',
+            new Date(o.createdAt).toLocaleString(),
+            o.userEmail || '',
+            o.userId,
+            `"${(o.courseTitles || o.courseIds).join('; ').replace(/"/g, '""')}"`,
+            o.amount,
+            o.coupon || '',
+            o.status
+        ]);
+
+        const csvContent = [
+            headers.join(','),
+            ...rows.map(r => r.join(','))
+        ].join('\n');
+
+        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.setAttribute('href', url);
+        link.setAttribute('download', `orders_export_${new Date().toISOString().slice(0, 10)}.csv`);
+        link.style.visibility = 'hidden';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    };
+
+    if (authLoading) {
+        return <div className="flex h-screen items-center justify-center text-zinc-500">Loading...</div>;
+    }
+
+    if (!isAdmin) return null;
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-5xl space-y-8">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-4">
+                    <button
+                        onClick={() => router.push('/admin')}
+                        className="rounded-full p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                    >
+                        <ArrowLeft className="h-6 w-6 text-zinc-600 dark:text-zinc-400" />
+                    </button>
+                    <div>
+                        <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">Orders</h1>
+                        <p className="mt-1 text-zinc-500 dark:text-zinc-400">Every checkout and where it is in the payment lifecycle.</p>
+                    </div>
+                </div>
+                <button
+                    onClick={handleExportCSV}
+                    className="flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                >
+                    <Download className="h-4 w-4" />
+                    Export CSV
+                </button>
+            </div>
+
+            {/* Filters */}
+            <div className="space-y-3">
+                <div className="relative">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-zinc-400" />
+                    <input
+                        type="text"
+                        placeholder="Search loaded orders by email, order id or payment id"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="w-full rounded-lg border border-zinc-200 bg-white py-2 pl-10 pr-4 text-sm text-zinc-700 focus:border-indigo-500 focus:outline-none dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-300"
+                    />
+                </div>
+                <div className="flex gap-2 overflow-x-auto pb-2">
+                    {(['all', ...STATUSES] as const).map(status => (
+                        <button
+                            key={status}
+                            onClick={() => setStatusFilter(status)}
+                            className={cn(
+                                "rounded-full px-4 py-2 text-sm font-medium transition-colors border whitespace-nowrap",
+                                statusFilter === status
+                                    ? "bg-zinc-900 text-white border-zinc-900 dark:bg-zinc-100 dark:text-zinc-900"
+                                    : "bg-white text-zinc-600 border-zinc-200 hover:bg-zinc-50 dark:bg-zinc-900 dark:text-zinc-400 dark:border-zinc-800 dark:hover:bg-zinc-800"
+                            )}
+                        >
+                            {status === 'all' ? 'All' : ORDER_STATUS_LABELS[status]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* List */}
+            <div className="space-y-3">
+                {!loading && filteredOrders.length === 0 ? (
+                    <div className="text-center py-12 bg-white rounded-xl border border-zinc-200 dark:bg-zinc-900 dark:border-zinc-800">
+                        <Filter className="h-12 w-12 text-zinc-300 mx-auto mb-4" />
+                        <h3 className="text-lg font-medium text-zinc-900 dark:text-zinc-100">No orders found</h3>
+                        <p className="text-zinc-500">Try adjusting the filters.</p>
+                    </div>
+                ) : (
+                    filteredOrders.map(order => {
+                        const isExpanded = expandedId === order.id;
+                        return (
+                            <div key={order.id} className="bg-white rounded-xl border border-zinc-200 shadow-sm dark:bg-zinc-900 dark:border-zinc-800">
+                                <button
+                                    onClick={() => setExpandedId(isExpanded ? null : order.id)}
+                                    className="flex w-full flex-wrap items-center justify-between gap-3 p-4 text-left"
+                                >
+                                    <div className="min-w-0 space-y-1">
+                                        <div className="flex items-center gap-2">
+                                            <OrderStatusBadge status={order.status} />
+                                            <span className="text-xs text-zinc-400">{new Date(order.createdAt).toLocaleString()}</span>
+                                        </div>
+                                        <p className="truncate text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                                            {order.userEmail || order.userId}
+                                        </p>
+                                        <p className="truncate text-xs text-zinc-500 dark:text-zinc-400">
+                                            {(order.courseTitles || order.courseIds).join(', ')}
+                                        </p>
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                        <span className="font-bold text-zinc-900 dark:text-zinc-100">₹{order.amount}</span>
+                                        {isExpanded ? <ChevronUp className="h-4 w-4 text-zinc-400" /> : <ChevronDown className="h-4 w-4 text-zinc-400" />}
+                                    </div>
+                                </button>
+
+                                {isExpanded && (
+                                    <div className="grid gap-4 border-t border-zinc-100 p-4 text-sm dark:border-zinc-800 md:grid-cols-2">
+                                        <dl className="space-y-1 text-xs">
+                                            <div><dt className="inline font-medium text-zinc-500">Order: </dt><dd className="inline font-mono text-zinc-700 dark:text-zinc-300">{order.id}</dd></div>
+                                            <div><dt className="inline font-medium text-zinc-500">Payment: </dt><dd className="inline font-mono text-zinc-700 dark:text-zinc-300">{order.paymentId || '—'}</dd></div>
+                                            <div><dt className="inline font-medium text-zinc-500">User ID: </dt><dd className="inline font-mono text-zinc-700 dark:text-zinc-300">{order.userId}</dd></div>
+                                            <div><dt className="inline font-medium text-zinc-500">Courses: </dt><dd className="inline font-mono text-zinc-700 dark:text-zinc-300">{order.courseIds.join(', ')}</dd></div>
+                                            <div><dt className="inline font-medium text-zinc-500">Coupon: </dt><dd className="inline text-zinc-700 dark:text-zinc-300">{order.coupon || '—'}</dd></div>
+                                            {order.failureReason && (
+                                                <div><dt className="inline font-medium text-zinc-500">Failure: </dt><dd className="inline text-red-600 dark:text-red-400">{order.failureReason}</dd></div>
+                                            )}
+                                        </dl>
+                                        <ol className="space-y-1 text-xs">
+                                            {(order.statusHistory || []).map((entry, i) => (
+                                                <li key={i} className="flex flex-wrap gap-2 text-zinc-600 dark:text-zinc-400">
+                                                    <span className="font-medium text-zinc-900 dark:text-zinc-100">{ORDER_STATUS_LABELS[entry.status]}</span>
+                                                    <span>{new Date(entry.at).toLocaleString()}</span>
+                                                    <span className="text-zinc-400">via {entry.source}</span>
+                                                    {entry.note && <span className="font-mono text-zinc-400">{entry.note}</span>}
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })
+                )}
+
+                {loading && (
+                    <div className="flex justify-center py-6">
+                        <Loader2 className="h-6 w-6 animate-spin text-zinc-400" />
+                    </div>
+                )}
+
+                {!loading && hasMore && (
+                    <button
+                        onClick={() => fetchOrders(true)}
+                        className="w-full rounded-lg border border-zinc-200 py-2 text-sm font-medium text-zinc-600 hover:bg-zinc-50 dark:border-zinc-800 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                    >
+                        Load more
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { Plus, Upload, Trash2, BookOpen, Flag, MessageSquare, Megaphone, Download } from 'lucide-react';
+import { Plus, Upload, Trash2, BookOpen, Flag, MessageSquare, Megaphone, Download, Receipt, TicketPercent, Package, Copy, ShieldCheck, Sparkles, ShieldAlert } from 'lucide-react';
 // import { useSubjects } from '@/hooks/useSubjects'; // REMOVED
 import { toast } from 'sonner';
 import { useAuth } from '@/context/AuthContext';
@@ -212,6 +212,10 @@ export default function AdminPage() {
     const handleDelete = async (id: string) => {
         if (confirm('Are you sure you want to delete this subject? This action cannot be undone.')) {
             try {
+                // Branch/semester decide which bundle to update, fetch them if the subject isn't loaded
+                const subjectToDelete = subjects.find(s => s.id === id)
+                    ?? (await getDoc(doc(db, "subjects_metadata", id))).data() as SubjectMetadata | undefined;
+
                 const batch = writeBatch(db);
                 batch.delete(doc(db, "subjects", id));
                 batch.delete(doc(db, "subjects_metadata", id));
@@ -219,21 +223,16 @@ export default function AdminPage() {
                 batch.delete(doc(db, "subject_contents", id)); // Keeping for legacy safety
                 await batch.commit();
 
-                // Sync Bundle (Client-Side Automation)
-                // We need the subject's branch/sem to know which bundle to update.
-                // We can find it in 'subjects' state or fetch it before delete.
-                // Since we have 'subjects' in state (via search/pagination), let's try to find it.
-                // If not in state (pagination), we might miss it. Best effort: fetch before delete?
-                // For now, let's use the local state if available.
-                const subjectToDelete = subjects.find(s => s.id === id);
+                toast.success("Subject deleted successfully");
+
                 if (subjectToDelete) {
-                    await updateBundle(subjectToDelete.branch || "", subjectToDelete.semester || "");
-                } else {
-                    // If we paginated past it or something, we might need to fetch it first. 
-                    // But typically admin deletes what they see.
+                    try {
+                        await updateBundle({ branch: subjectToDelete.branch, semester: subjectToDelete.semester });
+                    } catch (bundleError) {
+                        console.error("Bundle sync error:", bundleError);
+                        toast.error(bundleError instanceof Error ? bundleError.message : "Bundle sync failed");
+                    }
                 }
-
-                toast.success("Subject deleted successfully");
             } catch (error: any) {
                 toast.error("Failed to delete subject: " + error.message);
             }
@@ -279,79 +278,6 @@ export default function AdminPage() {
         }
     };
 
-    const handleSyncBundles = async () => {
-        if (!confirm("This will read 'subjects_metadata' and aggregate them into the 'bundles' collection. Continue?")) return;
-        try {
-            const { getDocs, collection, setDoc, doc } = await import("firebase/firestore");
-            const snapshot = await getDocs(collection(db, "subjects_metadata"));
-
-            const groups: Record<string, {
-                id: string;
-                branch: string;
-                semester: string;
-                subjects: any[];
-                totalPrice: number;
-                totalOriginalPrice: number;
-                subjectCount: number;
-            }> = {};
-
-            snapshot.docs.forEach(docSnap => {
-                const subject = { id: docSnap.id, ...docSnap.data() } as any;
-                const branch = subject.branch || "General";
-                const semester = subject.semester || "All Semesters";
-                const key = `${branch}-${semester}`;
-
-                if (!groups[key]) {
-                    groups[key] = {
-                        id: key,
-                        branch,
-                        semester,
-                        subjects: [],
-                        totalPrice: 0,
-                        totalOriginalPrice: 0,
-                        subjectCount: 0
-                    };
-                }
-
-                // Minimal data for the bundle subject list to keep size down
-                groups[key].subjects.push({
-                    id: subject.id,
-                    title: subject.title,
-                    price: subject.price || 0,
-                    originalPrice: subject.originalPrice || 0,
-                    unitCount: subject.unitCount || 0,
-                    questionCount: subject.questionCount || 0,
-                    branch: subject.branch,
-                    semester: subject.semester,
-                    isElective: subject.isElective || false,
-                    electiveCategory: subject.electiveCategory || "",
-                    group: subject.group || null,
-                    isCommon: subject.isCommon || false
-                });
-
-                groups[key].totalPrice += subject.price || 0;
-                groups[key].totalOriginalPrice += subject.originalPrice || subject.price || 0;
-                groups[key].subjectCount++;
-            });
-
-            const batch = writeBatch(db);
-            let count = 0;
-
-            Object.values(groups).forEach(bundle => {
-                // Sanitize ID
-                const safeId = bundle.id.replace(/\//g, "_");
-                batch.set(doc(db, "bundles", safeId), bundle);
-                count++;
-            });
-
-            await batch.commit();
-            alert(`Successfully created ${count} bundles.`);
-        } catch (error) {
-            console.error("Bundle Sync error:", error);
-            alert("Bundle Sync failed.");
-        }
-    };
-
     // Derived state for filters - Hardcoded or fetched?
     // Using filteredSubjects for compatible rendering, but it's now just 'subjects' (fetched filtered)
     const filteredSubjects = subjects;
@@ -451,6 +377,22 @@ export default function AdminPage() {
                         Feedback
                     </button>
 
+                    <button
+                        onClick={() => router.push('/admin/orders')}
+                        className="flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 transition-colors shadow-sm"
+                    >
+                        <Receipt className="h-4 w-4" />
+                        Orders
+                    </button>
+
+                    <button
+                        onClick={() => router.push('/admin/coupons')}
+                        className="flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 transition-colors shadow-sm"
+                    >
+                        <TicketPercent className="h-4 w-4" />
+                        Coupons
+                    </button>
+
                     <button
                         onClick={() => router.push('/admin/announcements')}
                         className="flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 transition-colors shadow-sm"
@@ -482,12 +424,40 @@ export default function AdminPage() {
                         Sync Metadata
                     </button>
                     <button
-                        onClick={handleSyncBundles}
+                        onClick={() => router.push('/admin/bundles')}
                         className="flex items-center gap-2 rounded-lg border border-indigo-200 bg-indigo-50 px-4 py-2 text-sm font-medium text-indigo-700 hover:bg-indigo-100 dark:border-indigo-900/30 dark:bg-indigo-900/20 dark:text-indigo-400"
-                        title="Aggregate subjects into bundles for Marketplace"
+                        title="Bundle pricing and rebuilding bundles for the Marketplace"
                     >
-                        <Upload className="h-4 w-4" />
-                        Sync Bundles
+                        <Package className="h-4 w-4" />
+                        Bundles
+                    </button>
+                    <button
+                        onClick={() => router.push('/admin/duplicates')}
+                        className="flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 transition-colors shadow-sm"
+                    >
+                        <Copy className="h-4 w-4" />
+                        Duplicates
+                    </button>
+                    <button
+                        onClick={() => router.push('/admin/quality')}
+                        className="flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 transition-colors shadow-sm"
+                    >
+                        <ShieldCheck className="h-4 w-4" />
+                        Quality
+                    </button>
+                    <button
+                        onClick={() => router.push('/admin/solutions')}
+                        className="flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 transition-colors shadow-sm"
+                    >
+                        <Sparkles className="h-4 w-4" />
+                        Solutions
+                    </button>
+                    <button
+                        onClick={() => router.push('/admin/moderation')}
+                        className="flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 transition-colors shadow-sm"
+                    >
+                        <ShieldAlert className="h-4 w-4" />
+                        Moderation
                     </button>
 
                 </div>
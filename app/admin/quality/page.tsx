@@ -0,0 +1,321 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { collection, getDocs } from 'firebase/firestore';
+import { ArrowLeft, CheckCircle2, Download, ExternalLink, Loader2, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/context/AuthContext';
+import { SubjectMetadata, Unit } from '@/lib/types';
+import { auditUnit, QUALITY_ISSUE_LABELS, QualityIssue, QualityIssueType, qualityIssuesToCsv } from '@/lib/contentQuality';
+import { cn } from '@/lib/utils';
+
+const ISSUE_TYPES = Object.keys(QUALITY_ISSUE_LABELS) as QualityIssueType[];
+
+const ISSUE_STYLES: Record<QualityIssueType, string> = {
+    'missing-solution': 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+    'broken-image': 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+    latex: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300',
+    mermaid: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+};
+
+interface AuditedUnit {
+    key: string; // subjectId/unitId
+    subjectId: string;
+    subjectTitle: string;
+    unitId: string;
+    unitTitle: string;
+    questionCount: number;
+}
+
+const unitKey = (subjectId: string, unitId: string) => `${subjectId}/${unitId}`;
+
+// Opens the question on the study page with edit mode on
+const editLink = (issue: QualityIssue) => `/study/${issue.subjectId}?unit=${issue.unitId}&question=${issue.questionId}&edit=1`;
+
+export default function AdminQualityPage() {
+    const { isAdmin, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const [subjects, setSubjects] = useState<SubjectMetadata[]>([]);
+    const [subjectId, setSubjectId] = useState(''); // Empty audits every subject
+    const [checkImages, setCheckImages] = useState(true);
+    const [running, setRunning] = useState(false);
+    const [progress, setProgress] = useState('');
+    const [units, setUnits] = useState<AuditedUnit[]>([]);
+    const [issues, setIssues] = useState<QualityIssue[] | null>(null);
+    const [typeFilter, setTypeFilter] = useState<QualityIssueType | null>(null);
+    const [unitFilter, setUnitFilter] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) {
+            router.push('/');
+        }
+    }, [isAdmin, authLoading, router]);
+
+    useEffect(() => {
+        if (isAdmin) {
+            fetchSubjects();
+        }
+    }, [isAdmin]);
+
+    const fetchSubjects = async () => {
+        try {
+            const snapshot = await getDocs(collection(db, 'subjects_metadata'));
+            setSubjects(snapshot.docs
+                .map(d => ({ ...d.data(), id: d.id } as SubjectMetadata))
+                .sort((a, b) => a.title.localeCompare(b.title)));
+        } catch (error) {
+            console.error('Error fetching subjects:', error);
+        }
+    };
+
+    const handleAudit = async () => {
+        const targets = subjectId ? subjects.filter(s => s.id === subjectId) : subjects;
+        setRunning(true);
+        setIssues(null);
+        setTypeFilter(null);
+        setUnitFilter(null);
+        try {
+            const mermaid = (await import('mermaid')).default;
+            mermaid.initialize({ startOnLoad: false });
+            const parseMermaid = (code: string) => mermaid.parse(code);
+
+            const audited: AuditedUnit[] = [];
+            const found: QualityIssue[] = [];
+            for (const subject of targets) {
+                setProgress(`Checking ${subject.title}...`);
+                const [unitsSnap, solutionsSnap] = await Promise.all([
+                    getDocs(collection(db, 'subjects', subject.id, 'units')),
+                    getDocs(collection(db, 'subjects', subject.id, 'solutions')),
+                ]);
+                const solutions = Object.fromEntries(solutionsSnap.docs.map(d => [d.id, String(d.data().text || '')]));
+                const order = new Map((subject.units || []).map((u, i) => [u.id, i]));
+                const subjectUnits = unitsSnap.docs
+                    .map(d => ({ ...d.data(), id: d.id } as Unit))
+                    .sort((a, b) => (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity));
+
+                for (const unit of subjectUnits) {
+                    audited.push({
+                        key: unitKey(subject.id, unit.id),
+                        subjectId: subject.id,
+                        subjectTitle: subject.title,
+                        unitId: unit.id,
+                        unitTitle: unit.title,
+                        questionCount: unit.questions?.length || 0,
+                    });
+                    found.push(...await auditUnit(subject, unit, solutions, { checkImages, parseMermaid }));
+                }
+            }
+
+            setUnits(audited);
+            setIssues(found);
+        } catch (error) {
+            console.error('Error auditing content:', error);
+            toast.error('Failed to audit content');
+        } finally {
+            setRunning(false);
+            setProgress('');
+        }
+    };
+
+    const counts = useMemo(() => {
+        const byUnit = new Map<string, Record<QualityIssueType, number>>();
+        (issues || []).forEach(issue => {
+            const key = unitKey(issue.subjectId, issue.unitId);
+            const row = byUnit.get(key) || { 'missing-solution': 0, 'broken-image': 0, latex: 0, mermaid: 0 };
+            row[issue.type]++;
+            byUnit.set(key, row);
+        });
+        return byUnit;
+    }, [issues]);
+
+    const filteredIssues = useMemo(() => (issues || []).filter(issue =>
+        (!typeFilter || issue.type === typeFilter) && (!unitFilter || unitKey(issue.subjectId, issue.unitId) === unitFilter)
+    ), [issues, typeFilter, unitFilter]);
+
+    const handleExportCSV = () => {
+        const csvContent = qualityIssuesToCsv(filteredIssues, issue => `${window.location.origin}${editLink(issue)}`);
+        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.setAttribute('href', url);
+        link.setAttribute('download', `content_quality_${new Date().toISOString().slice(0, 10)}.csv`);
+        link.style.visibility = 'hidden';
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+    };
+
+    const selectCell = (key: string | null, type: QualityIssueType | null) => {
+        setUnitFilter(key);
+        setTypeFilter(type);
+    };
+
+    if (authLoading) {
+        return <div className="flex h-screen items-center justify-center text-zinc-500">Loading...</div>;
+    }
+
+    if (!isAdmin) return null;
+
+    const inputClass = "w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-950 dark:text-zinc-100";
+    const labelClass = "mb-1 block text-xs font-semibold uppercase text-zinc-500";
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-6xl space-y-8">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-4">
+                    <button
+                        onClick={() => router.push('/admin')}
+                        className="rounded-full p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                    >
+                        <ArrowLeft className="h-6 w-6 text-zinc-600 dark:text-zinc-400" />
+                    </button>
+                    <div>
+                        <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">Content Quality</h1>
+                        <p className="mt-1 text-zinc-500 dark:text-zinc-400">Missing solutions, dead images and LaTeX or Mermaid that fails to render.</p>
+                    </div>
+                </div>
+                {issues && issues.length > 0 && (
+                    <button
+                        onClick={handleExportCSV}
+                        className="flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                    >
+                        <Download className="h-4 w-4" />
+                        Export CSV
+                    </button>
+                )}
+            </div>
+
+            <div className="grid gap-4 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900 md:grid-cols-[1fr_auto_auto] md:items-end">
+                <div>
+                    <label className={labelClass}>Subject</label>
+                    <select className={inputClass} value={subjectId} onChange={(e) => setSubjectId(e.target.value)}>
+                        <option value="">All subjects ({subjects.length})</option>
+                        {subjects.map(subject => (
+                            <option key={subject.id} value={subject.id}>
+                                {subject.title}{subject.branch ? ` (${subject.branch}, ${subject.semester})` : ''}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <label className="flex items-center gap-2 pb-2 text-sm text-zinc-700 dark:text-zinc-300">
+                    <input type="checkbox" checked={checkImages} onChange={(e) => setCheckImages(e.target.checked)} />
+                    Check image URLs
+                </label>
+                <button
+                    onClick={handleAudit}
+                    disabled={running || subjects.length === 0}
+                    className="flex items-center justify-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                >
+                    {running ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+                    Run Audit
+                </button>
+                {progress && <p className="text-sm text-zinc-500 md:col-span-3">{progress}</p>}
+            </div>
+
+            {issues && (
+                issues.length === 0 ? (
+                    <div className="text-center py-12 bg-white rounded-xl border border-zinc-200 dark:bg-zinc-900 dark:border-zinc-800">
+                        <CheckCircle2 className="h-12 w-12 text-green-400 mx-auto mb-4" />
+                        <h3 className="text-lg font-medium text-zinc-900 dark:text-zinc-100">No issues found</h3>
+                        <p className="text-zinc-500">All {units.length} units passed every check.</p>
+                    </div>
+                ) : (
+                    <>
+                        {/* Summary per subject and unit, click a count to drill down */}
+                        <div className="overflow-x-auto rounded-xl border border-zinc-200 bg-white shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+                            <table className="w-full text-sm">
+                                <thead className="bg-zinc-50 text-left text-xs uppercase text-zinc-500 dark:bg-zinc-950">
+                                    <tr>
+                                        <th className="px-4 py-3 font-semibold">Subject / Unit</th>
+                                        <th className="px-4 py-3 text-right font-semibold">Questions</th>
+                                        {ISSUE_TYPES.map(type => (
+                                            <th key={type} className="px-4 py-3 text-right font-semibold">
+                                                <button onClick={() => selectCell(null, type)} className="uppercase hover:text-indigo-600">
+                                                    {QUALITY_ISSUE_LABELS[type]} ({issues.filter(i => i.type === type).length})
+                                                </button>
+                                            </th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                                    {units.map((unit, i) => {
+                                        const row = counts.get(unit.key);
+                                        return (
+                                            <tr key={unit.key} className={cn(unitFilter === unit.key && "bg-indigo-50/50 dark:bg-indigo-900/10")}>
+                                                <td className="px-4 py-2">
+                                                    {(i === 0 || units[i - 1].subjectId !== unit.subjectId) && (
+                                                        <p className="text-xs font-semibold text-zinc-500">{unit.subjectTitle}</p>
+                                                    )}
+                                                    <button onClick={() => selectCell(unit.key, null)} className="text-left text-zinc-900 hover:text-indigo-600 dark:text-zinc-100">
+                                                        {unit.unitTitle}
+                                                    </button>
+                                                </td>
+                                                <td className="px-4 py-2 text-right text-zinc-500">{unit.questionCount}</td>
+                                                {ISSUE_TYPES.map(type => (
+                                                    <td key={type} className="px-4 py-2 text-right">
+                                                        {row?.[type] ? (
+                                                            <button
+                                                                onClick={() => selectCell(unit.key, type)}
+                                                                className={cn("rounded-full px-2 py-0.5 text-xs font-bold", ISSUE_STYLES[type])}
+                                                            >
+                                                                {row[type]}
+                                                            </button>
+                                                        ) : (
+                                                            <span className="text-zinc-300 dark:text-zinc-600">0</span>
+                                                        )}
+                                                    </td>
+                                                ))}
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+
+                        {/* Drill-down */}
+                        <div className="space-y-3">
+                            <div className="flex items-center justify-between">
+                                <h2 className="font-semibold text-zinc-900 dark:text-zinc-100">
+                                    {filteredIssues.length} issue{filteredIssues.length === 1 ? '' : 's'}
+                                    {typeFilter && ` • ${QUALITY_ISSUE_LABELS[typeFilter]}`}
+                                    {unitFilter && ` • ${units.find(u => u.key === unitFilter)?.unitTitle}`}
+                                </h2>
+                                {(typeFilter || unitFilter) && (
+                                    <button onClick={() => selectCell(null, null)} className="text-sm text-indigo-600 hover:underline dark:text-indigo-400">
+                                        Show all
+                                    </button>
+                                )}
+                            </div>
+                            <ul className="divide-y divide-zinc-100 rounded-xl border border-zinc-200 bg-white dark:divide-zinc-800 dark:border-zinc-800 dark:bg-zinc-900">
+                                {filteredIssues.map((issue, i) => (
+                                    <li key={`${issue.questionId}-${issue.type}-${i}`} className="flex items-start gap-3 px-4 py-3">
+                                        <span className={cn("shrink-0 rounded-full px-2 py-0.5 text-xs font-bold", ISSUE_STYLES[issue.type])}>
+                                            {QUALITY_ISSUE_LABELS[issue.type]}
+                                        </span>
+                                        <div className="min-w-0 flex-1 space-y-1">
+                                            <p className="line-clamp-2 text-sm text-zinc-900 dark:text-zinc-100">{issue.questionText}</p>
+                                            <p className="break-words text-xs text-zinc-500 dark:text-zinc-400">
+                                                {issue.subjectTitle} • {issue.unitTitle} • {issue.field}: {issue.detail}
+                                            </p>
+                                        </div>
+                                        <Link
+                                            href={editLink(issue)}
+                                            target="_blank"
+                                            className="flex shrink-0 items-center gap-1 text-xs font-medium text-indigo-600 hover:underline dark:text-indigo-400"
+                                        >
+                                            Edit
+                                            <ExternalLink className="h-3 w-3" />
+                                        </Link>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    </>
+                )
+            )}
+        </div>
+    );
+}
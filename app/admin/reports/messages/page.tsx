@@ -4,22 +4,32 @@ import { useEffect, useState } from "react";
 import { collection, query, orderBy, onSnapshot, doc, updateDoc, deleteDoc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { Button } from "@/components/ui/button";
-import { Loader2, Trash, CheckCircle } from "lucide-react";
+import { Loader2, Trash, CheckCircle, Send, ShieldAlert } from "lucide-react";
 import { MarkdownRenderer } from "@/components/MarkdownRenderer";
+import { AttachmentGallery } from "@/components/AttachmentGallery";
+import { deleteChatAttachments } from "@/lib/chatAttachments";
+import { approveHeldMessage, discardHeldMessage } from "@/lib/moderationUtils";
+import { ChatAttachment } from "@/lib/types";
 
 interface MessageReport {
     id: string;
     messageId: string;
     messageContent: string;
+    messageAttachments?: ChatAttachment[];
     channelId: string;
     reportedBy: string;
     reportedUser: string;
     reason: string;
     details?: string;
     status: "pending" | "resolved";
+    held?: boolean; // Filed by moderation, the message is waiting in held_messages instead of the channel
+    resolution?: "approved" | "discarded";
     createdAt: any;
 }
 
+// reportedBy on reports the moderation pipeline filed
+const SYSTEM_REPORTER = "system";
+
 export default function AdminMessageReportsPage() {
     const [reports, setReports] = useState<MessageReport[]>([]);
     const [loading, setLoading] = useState(true);
@@ -44,7 +54,7 @@ export default function AdminMessageReportsPage() {
         const fetchNames = async () => {
             const uidsToFetch = new Set<string>();
             reports.forEach(r => {
-                if (!userNames[r.reportedBy]) uidsToFetch.add(r.reportedBy);
+                if (!userNames[r.reportedBy] && r.reportedBy !== SYSTEM_REPORTER) uidsToFetch.add(r.reportedBy);
                 if (!userNames[r.reportedUser]) uidsToFetch.add(r.reportedUser);
             });
 
@@ -88,12 +98,32 @@ export default function AdminMessageReportsPage() {
         }
     };
 
+    const handleReviewHeld = async (report: MessageReport, approve: boolean) => {
+        if (!approve && !confirm("Discard this held message? It will never be posted.")) return;
+        setProcessing(report.id);
+        try {
+            // Resolves the report on the server as well
+            await (approve ? approveHeldMessage(report.messageId) : discardHeldMessage(report.messageId));
+        } catch (error) {
+            console.error("Error reviewing held message:", error);
+            alert(error instanceof Error ? error.message : "Failed to review the held message.");
+        } finally {
+            setProcessing(null);
+        }
+    };
+
     const handleDeleteMessage = async (report: MessageReport) => {
         if (!confirm("Are you sure you want to delete this message? This action cannot be undone.")) return;
         setProcessing(report.id);
         try {
-            // Delete the message
-            await deleteDoc(doc(db, "channels", report.channelId, "messages", report.messageId));
+            // The message may have more files than the report captured, prefer its own list
+            const messageRef = doc(db, "channels", report.channelId, "messages", report.messageId);
+            const messageSnap = await getDoc(messageRef);
+            const attachments: ChatAttachment[] = (messageSnap.exists() ? messageSnap.data().attachments : null) || report.messageAttachments || [];
+
+            // Delete the message, then its files
+            await deleteDoc(messageRef);
+            await deleteChatAttachments(attachments);
 
             // Mark report as resolved
             await updateDoc(doc(db, "message_reports", report.id), {
@@ -145,6 +175,12 @@ export default function AdminMessageReportsPage() {
                                             }`}>
                                             {report.status.toUpperCase()}
                                         </span>
+                                        {(report.held || report.resolution) && (
+                                            <span className="inline-flex items-center gap-1 rounded-full bg-orange-100 px-2 py-0.5 text-xs font-medium text-orange-800 dark:bg-orange-900/30 dark:text-orange-400">
+                                                <ShieldAlert className="h-3 w-3" />
+                                                {report.resolution ? report.resolution.toUpperCase() : "HELD"}
+                                            </span>
+                                        )}
                                         <span className="text-sm font-semibold text-red-600 dark:text-red-400">
                                             {report.reason}
                                         </span>
@@ -155,7 +191,7 @@ export default function AdminMessageReportsPage() {
                                     <div className="text-xs text-zinc-500 flex gap-1">
                                         Reported by:
                                         <span className="font-semibold text-zinc-700 dark:text-zinc-300">
-                                            {userNames[report.reportedBy] || "Loading..."}
+                                            {report.reportedBy === SYSTEM_REPORTER ? "Moderation" : userNames[report.reportedBy] || "Loading..."}
                                         </span>
                                         <span className="font-mono text-[10px] text-zinc-400">({report.reportedBy})</span>
                                         •
@@ -170,7 +206,31 @@ export default function AdminMessageReportsPage() {
                                     )}
                                 </div>
                                 <div className="flex gap-2">
-                                    {report.status === 'pending' && (
+                                    {report.status === 'pending' && report.held && (
+                                        <>
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => handleReviewHeld(report, true)}
+                                                disabled={!!processing}
+                                                className="h-8 gap-1"
+                                            >
+                                                {processing === report.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Send className="h-3.5 w-3.5" />}
+                                                Approve
+                                            </Button>
+                                            <Button
+                                                variant="destructive"
+                                                size="sm"
+                                                onClick={() => handleReviewHeld(report, false)}
+                                                disabled={!!processing}
+                                                className="h-8 gap-1"
+                                            >
+                                                <Trash className="h-3.5 w-3.5" />
+                                                Discard
+                                            </Button>
+                                        </>
+                                    )}
+                                    {report.status === 'pending' && !report.held && (
                                         <>
                                             <Button
                                                 variant="outline"
@@ -198,7 +258,12 @@ export default function AdminMessageReportsPage() {
                             </div>
 
                             <div className="rounded-md bg-zinc-100 p-3 text-sm dark:bg-zinc-900">
-                                <MarkdownRenderer content={report.messageContent} className="text-sm max-h-32 overflow-y-auto" />
+                                {report.messageContent && (
+                                    <MarkdownRenderer content={report.messageContent} className="text-sm max-h-32 overflow-y-auto" />
+                                )}
+                                {report.messageAttachments && report.messageAttachments.length > 0 && (
+                                    <AttachmentGallery attachments={report.messageAttachments} compact className="mt-2 max-w-md" />
+                                )}
                             </div>
                         </div>
                     ))}
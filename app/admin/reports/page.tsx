@@ -11,7 +11,7 @@ import ReactMarkdown from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import { cn } from '@/lib/utils';
-import { PROFESSOR_BASE_SYSTEM_PROMPT, COMPARISON_OVERRIDE_TEXT } from '@/lib/prompts';
+import { PROFESSOR_BASE_SYSTEM_PROMPT, COMPARISON_OVERRIDE_TEXT, getDepthInstruction, isComparisonQuestion } from '@/lib/prompts';
 
 export default function ReportsPage() {
     const { isAdmin, loading: authLoading } = useAuth();
@@ -83,37 +83,6 @@ export default function ReportsPage() {
 
 
 
-    // Prompt Generation Helpers
-    const isComparison = (text: string): boolean => {
-        if (!text) return false;
-        const keywords = ['compare', 'difference', 'distinguish', 'vs', 'versus'];
-        const lowerText = text.toLowerCase();
-        return keywords.some(keyword => lowerText.includes(keyword));
-    };
-
-    const getDepthInstruction = (history: { year: string; marks: string }[] | undefined): string => {
-        if (!history || history.length === 0) return "Provide a comprehensive answer (approx. 2-3 pages).";
-
-        let totalMarks = 0;
-        let count = 0;
-
-        history.forEach(item => {
-            const marks = parseInt(item.marks);
-            if (!isNaN(marks)) {
-                totalMarks += marks;
-                count++;
-            }
-        });
-
-        if (count === 0) return "Provide a comprehensive answer (approx. 2-3 pages).";
-
-        const avg = totalMarks / count;
-
-        if (avg < 5) return "Provide a concise answer (3-4 marks).";
-        if (avg > 10) return "Provide an extensive, in-depth answer (13 marks).";
-        return "Provide a comprehensive answer (approx. 2-3 pages).";
-    };
-
     const handleCopyPrompt = async (report: Report) => {
         const questionText = report.questionSnapshot?.text || '';
         if (!questionText) {
@@ -122,7 +91,7 @@ export default function ReportsPage() {
         }
 
         const depthInstruction = getDepthInstruction(report.questionSnapshot?.history);
-        const isComp = isComparison(questionText);
+        const isComp = isComparisonQuestion(questionText);
 
         let previousSolution = report.questionSnapshot?.solution || '';
 
@@ -0,0 +1,330 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, Check, ExternalLink, Loader2, Pencil, Play, RotateCcw, Sparkles, Square, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/context/AuthContext';
+import { SolutionDraft, SolutionDraftStatus } from '@/lib/types';
+import { approveSolutionDraft, enqueueSolutions, fetchSolutionDrafts, processSolutionQueue, rejectSolutionDraft } from '@/lib/solutionDraftUtils';
+import { MarkdownRenderer } from '@/components/MarkdownRenderer';
+import { cn } from '@/lib/utils';
+
+const STATUS_TABS: { value: SolutionDraftStatus | 'all'; label: string }[] = [
+    { value: 'draft', label: 'To review' },
+    { value: 'queued', label: 'Queued' },
+    { value: 'generating', label: 'Generating' },
+    { value: 'failed', label: 'Failed' },
+    { value: 'approved', label: 'Approved' },
+    { value: 'rejected', label: 'Rejected' },
+    { value: 'all', label: 'All' },
+];
+
+const STATUS_STYLES: Record<SolutionDraftStatus, string> = {
+    queued: 'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300',
+    generating: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+    draft: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+    approved: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+    rejected: 'bg-zinc-100 text-zinc-500 dark:bg-zinc-800 dark:text-zinc-400',
+    failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+export default function AdminSolutionDraftsPage() {
+    const { isAdmin, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const [statusFilter, setStatusFilter] = useState<SolutionDraftStatus | 'all'>('draft');
+    const [drafts, setDrafts] = useState<SolutionDraft[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [editing, setEditing] = useState<Record<string, string>>({});
+    const [queueStatus, setQueueStatus] = useState<string | null>(null);
+    const stopQueueRef = useRef(false);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) {
+            router.push('/');
+        }
+    }, [isAdmin, authLoading, router]);
+
+    const fetchDrafts = useCallback(async () => {
+        setLoading(true);
+        try {
+            setDrafts(await fetchSolutionDrafts(statusFilter === 'all' ? undefined : statusFilter));
+        } catch (error) {
+            console.error('Error fetching drafts:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to load drafts');
+        } finally {
+            setLoading(false);
+        }
+    }, [statusFilter]);
+
+    useEffect(() => {
+        if (isAdmin) {
+            fetchDrafts();
+        }
+    }, [isAdmin, fetchDrafts]);
+
+    // Keeps calling the server while jobs remain, waiting out the rate limit in between
+    const handleRunQueue = async () => {
+        stopQueueRef.current = false;
+        let generated = 0;
+        let failed = 0;
+        try {
+            while (!stopQueueRef.current) {
+                setQueueStatus(`Generating... ${generated} done`);
+                const result = await processSolutionQueue();
+                generated += result.generated;
+                failed += result.failed;
+                // Nothing left that this run could claim, the rest is being generated elsewhere
+                if (result.remaining === 0 || (result.processed === 0 && !result.retryAfterMs)) break;
+
+                if (result.retryAfterMs) {
+                    setQueueStatus(`Rate limited, ${result.remaining} queued. Resuming in ${Math.ceil(result.retryAfterMs / 1000)}s...`);
+                    await new Promise(resolve => setTimeout(resolve, result.retryAfterMs! + 250));
+                }
+            }
+            toast.success(`Generated ${generated} draft${generated === 1 ? '' : 's'}${failed ? `, ${failed} failed` : ''}`);
+        } catch (error) {
+            console.error('Error running queue:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to run the queue');
+        } finally {
+            setQueueStatus(null);
+            fetchDrafts();
+        }
+    };
+
+    const stopEditing = (draftId: string) => {
+        setEditing(prev => {
+            const next = { ...prev };
+            delete next[draftId];
+            return next;
+        });
+    };
+
+    // Edits stay in the textarea state until approval sends them along
+    const toggleEditing = (draft: SolutionDraft) => {
+        if (editing[draft.id] !== undefined) stopEditing(draft.id);
+        else setEditing(prev => ({ ...prev, [draft.id]: draft.text || '' }));
+    };
+
+    const replaceDraft = (draft: SolutionDraft) => {
+        setDrafts(prev => statusFilter === 'all' || statusFilter === draft.status
+            ? prev.map(d => d.id === draft.id ? draft : d)
+            : prev.filter(d => d.id !== draft.id));
+        stopEditing(draft.id);
+    };
+
+    const handleApprove = async (draft: SolutionDraft) => {
+        setBusyId(draft.id);
+        try {
+            replaceDraft(await approveSolutionDraft(draft.id, editing[draft.id]));
+            toast.success('Solution published');
+        } catch (error) {
+            console.error('Error approving draft:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to approve draft');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleReject = async (draft: SolutionDraft) => {
+        const note = prompt('Why is this draft rejected? (optional)');
+        if (note === null) return;
+
+        setBusyId(draft.id);
+        try {
+            replaceDraft(await rejectSolutionDraft(draft.id, note));
+        } catch (error) {
+            console.error('Error rejecting draft:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to reject draft');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleRetry = async (draft: SolutionDraft) => {
+        setBusyId(draft.id);
+        try {
+            const { queued } = await enqueueSolutions(draft.subjectId, [draft.questionId]);
+            if (queued.length === 0) {
+                toast.error('This question could not be queued again');
+                return;
+            }
+            replaceDraft({ ...draft, status: 'queued', attempts: 0 });
+            toast.success('Queued again');
+        } catch (error) {
+            console.error('Error re-queueing draft:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to queue the question');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    if (authLoading) {
+        return <div className="flex h-screen items-center justify-center text-zinc-500">Loading...</div>;
+    }
+
+    if (!isAdmin) return null;
+
+    const secondaryButton = "flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700";
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-5xl space-y-8">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-4">
+                    <button
+                        onClick={() => router.push('/admin/solutions')}
+                        className="rounded-full p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                    >
+                        <ArrowLeft className="h-6 w-6 text-zinc-600 dark:text-zinc-400" />
+                    </button>
+                    <div>
+                        <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">Generated Drafts</h1>
+                        <p className="mt-1 text-zinc-500 dark:text-zinc-400">Drafts stay hidden from students until they are approved.</p>
+                    </div>
+                </div>
+                {queueStatus ? (
+                    <button onClick={() => { stopQueueRef.current = true; }} className={secondaryButton}>
+                        <Square className="h-4 w-4" />
+                        Stop
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleRunQueue}
+                        className="flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500"
+                    >
+                        <Play className="h-4 w-4" />
+                        Run queue
+                    </button>
+                )}
+            </div>
+
+            {queueStatus && (
+                <div className="flex items-center gap-2 rounded-lg border border-indigo-200 bg-indigo-50 px-4 py-3 text-sm text-indigo-700 dark:border-indigo-900/30 dark:bg-indigo-900/20 dark:text-indigo-300">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    {queueStatus}
+                </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+                {STATUS_TABS.map(tab => (
+                    <button
+                        key={tab.value}
+                        onClick={() => setStatusFilter(tab.value)}
+                        className={cn(
+                            "rounded-full px-3 py-1 text-sm font-medium transition-colors",
+                            statusFilter === tab.value
+                                ? "bg-indigo-600 text-white"
+                                : "bg-zinc-100 text-zinc-600 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-400 dark:hover:bg-zinc-700"
+                        )}
+                    >
+                        {tab.label}
+                    </button>
+                ))}
+            </div>
+
+            {loading ? (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+                </div>
+            ) : drafts.length === 0 ? (
+                <div className="text-center py-12 bg-white rounded-xl border border-zinc-200 dark:bg-zinc-900 dark:border-zinc-800">
+                    <Sparkles className="h-12 w-12 text-zinc-300 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-zinc-900 dark:text-zinc-100">No drafts here</h3>
+                    <p className="text-zinc-500">Queue questions for generation from the Solution Authoring page.</p>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    {drafts.map(draft => {
+                        const isEditing = editing[draft.id] !== undefined;
+                        return (
+                            <div key={draft.id} className="space-y-3 rounded-xl border border-zinc-200 bg-white p-4 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+                                <div className="flex items-start justify-between gap-4">
+                                    <div className="space-y-1">
+                                        <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">{draft.questionText}</p>
+                                        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                                            {draft.subjectId} • {draft.questionId}
+                                            {draft.provider && ` • ${draft.provider} (${draft.model})`}
+                                            {draft.attempts > 1 && ` • ${draft.attempts} attempts`}
+                                        </p>
+                                    </div>
+                                    <div className="flex shrink-0 items-center gap-2">
+                                        <span className={cn("rounded-full px-2 py-0.5 text-xs font-bold", STATUS_STYLES[draft.status])}>{draft.status}</span>
+                                        <Link
+                                            href={`/study/${draft.subjectId}?unit=${draft.unitId}&question=${draft.questionId}`}
+                                            target="_blank"
+                                            className="text-zinc-400 hover:text-indigo-600"
+                                            title="Open in study page"
+                                        >
+                                            <ExternalLink className="h-4 w-4" />
+                                        </Link>
+                                    </div>
+                                </div>
+
+                                {draft.error && draft.status !== 'draft' && draft.status !== 'approved' && (
+                                    <p className="rounded bg-red-50 px-2 py-1 text-xs text-red-700 dark:bg-red-900/10 dark:text-red-300">{draft.error}</p>
+                                )}
+                                {draft.reviewNote && <p className="text-xs text-zinc-500">Rejected: {draft.reviewNote}</p>}
+
+                                {draft.text && (
+                                    isEditing ? (
+                                        <textarea
+                                            className="h-72 w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 font-mono text-xs text-zinc-900 focus:border-indigo-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-950 dark:text-zinc-100"
+                                            value={editing[draft.id]}
+                                            onChange={(e) => setEditing(prev => ({ ...prev, [draft.id]: e.target.value }))}
+                                        />
+                                    ) : (
+                                        <div className="max-h-96 overflow-y-auto rounded-lg bg-zinc-50 p-4 dark:bg-zinc-950">
+                                            <MarkdownRenderer content={draft.text} />
+                                        </div>
+                                    )
+                                )}
+
+                                {(draft.status === 'draft' || draft.status === 'failed') && (
+                                    <div className="flex flex-wrap justify-end gap-2">
+                                        {draft.status === 'draft' ? (
+                                            <>
+                                                <button
+                                                    onClick={() => toggleEditing(draft)}
+                                                    disabled={busyId === draft.id}
+                                                    className={secondaryButton}
+                                                >
+                                                    <Pencil className="h-4 w-4" />
+                                                    {isEditing ? 'Preview' : 'Edit'}
+                                                </button>
+                                                <button onClick={() => handleReject(draft)} disabled={busyId === draft.id} className={secondaryButton}>
+                                                    <X className="h-4 w-4" />
+                                                    Reject
+                                                </button>
+                                                <button
+                                                    onClick={() => handleApprove(draft)}
+                                                    disabled={busyId === draft.id}
+                                                    className="flex items-center gap-2 rounded-lg bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-500 disabled:opacity-50"
+                                                >
+                                                    {busyId === draft.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                                                    Approve
+                                                </button>
+                                            </>
+                                        ) : (
+                                            <>
+                                                <button onClick={() => handleReject(draft)} disabled={busyId === draft.id} className={secondaryButton}>
+                                                    <X className="h-4 w-4" />
+                                                    Dismiss
+                                                </button>
+                                                <button onClick={() => handleRetry(draft)} disabled={busyId === draft.id} className={secondaryButton}>
+                                                    <RotateCcw className="h-4 w-4" />
+                                                    Retry
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+}
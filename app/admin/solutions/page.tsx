@@ -0,0 +1,447 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { collection, doc, getDoc, getDocs } from 'firebase/firestore';
+import { AlertTriangle, ArrowLeft, CheckCircle2, Clipboard, Download, ExternalLink, FileText, Loader2, Save, Sparkles, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/context/AuthContext';
+import { SubjectMetadata, Unit } from '@/lib/types';
+import { BatchQuestion, DEFAULT_BATCH_SIZE, ParsedSolutionBatch, buildSolutionBatches, parseSolutionBatch, toBatchQuestions } from '@/lib/solutionBatch';
+import { commitSolutionBatch } from '@/lib/contentHistory';
+import { enqueueSolutions } from '@/lib/solutionDraftUtils';
+import { MarkdownRenderer } from '@/components/MarkdownRenderer';
+import { cn } from '@/lib/utils';
+
+type KindFilter = 'all' | 'comparison' | 'regular';
+
+const downloadText = (content: string, fileName: string) => {
+    const blob = new Blob([content], { type: 'text/markdown;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.setAttribute('href', url);
+    link.setAttribute('download', fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+};
+
+export default function AdminSolutionsPage() {
+    const { user, isAdmin, loading: authLoading } = useAuth();
+    const router = useRouter();
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [subjects, setSubjects] = useState<SubjectMetadata[]>([]);
+    const [subjectId, setSubjectId] = useState('');
+    const [pending, setPending] = useState<BatchQuestion[] | null>(null);
+    const [loadingQuestions, setLoadingQuestions] = useState(false);
+    const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+    const [unitFilter, setUnitFilter] = useState('');
+    const [batchSize, setBatchSize] = useState(DEFAULT_BATCH_SIZE);
+    const [answerText, setAnswerText] = useState('');
+    const [parsed, setParsed] = useState<ParsedSolutionBatch | null>(null);
+    const [excluded, setExcluded] = useState<Set<string>>(new Set());
+    const [saving, setSaving] = useState(false);
+    const [queueing, setQueueing] = useState(false);
+
+    useEffect(() => {
+        if (!authLoading && !isAdmin) {
+            router.push('/');
+        }
+    }, [isAdmin, authLoading, router]);
+
+    useEffect(() => {
+        if (isAdmin) {
+            fetchSubjects();
+        }
+    }, [isAdmin]);
+
+    const fetchSubjects = async () => {
+        try {
+            const snapshot = await getDocs(collection(db, 'subjects_metadata'));
+            setSubjects(snapshot.docs
+                .map(d => ({ ...d.data(), id: d.id } as SubjectMetadata))
+                .sort((a, b) => a.title.localeCompare(b.title)));
+        } catch (error) {
+            console.error('Error fetching subjects:', error);
+        }
+    };
+
+    const loadQuestions = async (id: string) => {
+        setSubjectId(id);
+        setPending(null);
+        setParsed(null);
+        setUnitFilter('');
+        if (!id) return;
+
+        setLoadingQuestions(true);
+        try {
+            const [metadataSnap, unitsSnap] = await Promise.all([
+                getDoc(doc(db, 'subjects_metadata', id)),
+                getDocs(collection(db, 'subjects', id, 'units')),
+            ]);
+            const order = new Map(((metadataSnap.data() as SubjectMetadata | undefined)?.units || []).map((u, i) => [u.id, i]));
+            const units = unitsSnap.docs
+                .map(d => ({ ...d.data(), id: d.id } as Unit))
+                .sort((a, b) => (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity))
+                .map(unit => ({ ...unit, questions: (unit.questions || []).filter(q => !q.hasSolution && !q.solution) }));
+            setPending(toBatchQuestions(units));
+        } catch (error) {
+            console.error('Error loading questions:', error);
+            toast.error('Failed to load questions');
+        } finally {
+            setLoadingQuestions(false);
+        }
+    };
+
+    const subject = subjects.find(s => s.id === subjectId);
+
+    const unitOptions = useMemo(() => {
+        const seen = new Map<string, string>();
+        (pending || []).forEach(q => seen.set(q.unitId, q.unitTitle));
+        return [...seen.entries()];
+    }, [pending]);
+
+    const filtered = useMemo(() => (pending || []).filter(q =>
+        (!unitFilter || q.unitId === unitFilter)
+        && (kindFilter === 'all' || (kindFilter === 'comparison') === q.isComparison)
+    ), [pending, unitFilter, kindFilter]);
+
+    const batches = useMemo(
+        () => buildSolutionBatches(subject?.title || '', filtered, batchSize),
+        [subject?.title, filtered, batchSize]
+    );
+
+    const byId = useMemo(() => new Map((pending || []).map(q => [q.question.id, q])), [pending]);
+
+    // Questions of a batch that got some answers but not this one, likely cut off by the model
+    const unanswered = useMemo(() => {
+        if (!parsed) return [];
+        const answered = new Set(parsed.answers.map(a => a.questionId));
+        return batches
+            .filter(batch => batch.questions.some(q => answered.has(q.question.id)))
+            .flatMap(batch => batch.questions.filter(q => !answered.has(q.question.id)));
+    }, [parsed, batches]);
+
+    const batchFileName = (index: number) => `${subjectId}_solutions_batch_${String(index).padStart(2, '0')}.md`;
+
+    const handleCopyPrompt = async (prompt: string) => {
+        try {
+            await navigator.clipboard.writeText(prompt);
+            toast.success('Prompt copied to clipboard');
+        } catch (err) {
+            console.error('Failed to copy prompt:', err);
+            toast.error('Failed to copy prompt to clipboard');
+        }
+    };
+
+    const handleDownloadAll = () => {
+        batches.forEach(batch => downloadText(batch.prompt, batchFileName(batch.index)));
+    };
+
+    // Queues the listed questions for the API provider, drafts are reviewed on the drafts page
+    const handleGenerateDrafts = async () => {
+        if (!confirm(`Generate draft solutions for ${filtered.length} question${filtered.length === 1 ? '' : 's'} with the configured provider?`)) return;
+
+        setQueueing(true);
+        try {
+            const { queued, skipped } = await enqueueSolutions(subjectId, filtered.map(q => q.question.id));
+            toast.success(`Queued ${queued.length} question${queued.length === 1 ? '' : 's'}${skipped.length ? `, ${skipped.length} already have a draft` : ''}`);
+        } catch (error) {
+            console.error('Error queueing solutions:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to queue questions');
+        } finally {
+            setQueueing(false);
+        }
+    };
+
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        if (files.length === 0) return;
+        const contents = await Promise.all(files.map(file => file.text()));
+        setAnswerText(prev => [prev.trim(), ...contents.map(c => c.trim())].filter(Boolean).join('\n\n'));
+        setParsed(null);
+        e.target.value = '';
+    };
+
+    const handleMatch = () => {
+        const result = parseSolutionBatch(answerText, (pending || []).map(q => q.question.id));
+        setParsed(result);
+        setExcluded(new Set());
+        if (result.answers.length === 0) {
+            toast.error('No answers matched. Each answer must start with its "=== SOLUTION: <id> ===" line.');
+        }
+    };
+
+    const toggleExcluded = (id: string) => {
+        setExcluded(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id); else next.add(id);
+            return next;
+        });
+    };
+
+    const handleSave = async () => {
+        if (!parsed || !user) return;
+        const selected = parsed.answers.filter(a => !excluded.has(a.questionId));
+        if (selected.length === 0) return;
+
+        setSaving(true);
+        try {
+            const { saved, missing } = await commitSolutionBatch(
+                subjectId,
+                Object.fromEntries(selected.map(a => [a.questionId, a.markdown])),
+                { uid: user.uid, email: user.email }
+            );
+            toast.success(`Saved ${saved.length} solution${saved.length === 1 ? '' : 's'}`);
+            if (missing.length > 0) toast.error(`${missing.length} question${missing.length === 1 ? ' was' : 's were'} removed in the meantime and skipped`);
+
+            const done = new Set(saved);
+            setPending(prev => prev?.filter(q => !done.has(q.question.id)) ?? null);
+            setParsed(null);
+            setAnswerText('');
+        } catch (error) {
+            console.error('Error saving solutions:', error);
+            toast.error(error instanceof Error ? error.message : 'Failed to save solutions');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (authLoading) {
+        return <div className="flex h-screen items-center justify-center text-zinc-500">Loading...</div>;
+    }
+
+    if (!isAdmin) return null;
+
+    const inputClass = "w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-950 dark:text-zinc-100";
+    const labelClass = "mb-1 block text-xs font-semibold uppercase text-zinc-500";
+    const secondaryButton = "flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700";
+    const selectedCount = parsed ? parsed.answers.filter(a => !excluded.has(a.questionId)).length : 0;
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-5xl space-y-8">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-4">
+                    <button
+                        onClick={() => router.push('/admin')}
+                        className="rounded-full p-2 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+                    >
+                        <ArrowLeft className="h-6 w-6 text-zinc-600 dark:text-zinc-400" />
+                    </button>
+                    <div>
+                        <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">Solution Authoring</h1>
+                        <p className="mt-1 text-zinc-500 dark:text-zinc-400">
+                            Batch prompts for every question without a solution, then paste the answers back in.
+                        </p>
+                    </div>
+                </div>
+                <Link href="/admin/solutions/drafts" className="flex shrink-0 items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700">
+                    <Sparkles className="h-4 w-4" />
+                    Review drafts
+                </Link>
+            </div>
+
+            <div className="grid gap-4 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900 md:grid-cols-4">
+                <div className="md:col-span-2">
+                    <label className={labelClass}>Subject</label>
+                    <select className={inputClass} value={subjectId} onChange={(e) => loadQuestions(e.target.value)}>
+                        <option value="">Select a subject</option>
+                        {subjects.map(s => (
+                            <option key={s.id} value={s.id}>
+                                {s.title}{s.branch ? ` (${s.branch}, ${s.semester})` : ''}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className={labelClass}>Unit</label>
+                    <select className={inputClass} value={unitFilter} onChange={(e) => setUnitFilter(e.target.value)} disabled={!pending}>
+                        <option value="">All units</option>
+                        {unitOptions.map(([id, title]) => <option key={id} value={id}>{title}</option>)}
+                    </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                    <div>
+                        <label className={labelClass}>Type</label>
+                        <select className={inputClass} value={kindFilter} onChange={(e) => setKindFilter(e.target.value as KindFilter)}>
+                            <option value="all">All</option>
+                            <option value="comparison">Comparison</option>
+                            <option value="regular">Regular</option>
+                        </select>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Per batch</label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={50}
+                            className={inputClass}
+                            value={batchSize}
+                            onChange={(e) => setBatchSize(Math.min(50, Math.max(1, parseInt(e.target.value) || 1)))}
+                        />
+                    </div>
+                </div>
+            </div>
+
+            {loadingQuestions && (
+                <div className="flex justify-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-indigo-600" />
+                </div>
+            )}
+
+            {pending && !loadingQuestions && (
+                pending.length === 0 ? (
+                    <div className="text-center py-12 bg-white rounded-xl border border-zinc-200 dark:bg-zinc-900 dark:border-zinc-800">
+                        <CheckCircle2 className="h-12 w-12 text-green-400 mx-auto mb-4" />
+                        <h3 className="text-lg font-medium text-zinc-900 dark:text-zinc-100">Every question has a solution</h3>
+                    </div>
+                ) : (
+                    <>
+                        {/* Prompt batches */}
+                        <div className="space-y-3">
+                            <div className="flex items-center justify-between">
+                                <h2 className="font-semibold text-zinc-900 dark:text-zinc-100">
+                                    {filtered.length} question{filtered.length === 1 ? '' : 's'} without a solution
+                                    <span className="ml-2 text-sm font-normal text-zinc-500">
+                                        {filtered.filter(q => q.isComparison).length} comparison • {batches.length} batch{batches.length === 1 ? '' : 'es'}
+                                    </span>
+                                </h2>
+                                <div className="flex gap-2">
+                                    <button onClick={handleGenerateDrafts} disabled={filtered.length === 0 || queueing} className={secondaryButton}>
+                                        {queueing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Sparkles className="h-4 w-4" />}
+                                        Generate drafts
+                                    </button>
+                                    <button onClick={handleDownloadAll} disabled={batches.length === 0} className={secondaryButton}>
+                                        <Download className="h-4 w-4" />
+                                        Download all
+                                    </button>
+                                </div>
+                            </div>
+                            <div className="divide-y divide-zinc-100 rounded-xl border border-zinc-200 bg-white dark:divide-zinc-800 dark:border-zinc-800 dark:bg-zinc-900">
+                                {batches.map(batch => (
+                                    <details key={batch.index} className="group px-4 py-3">
+                                        <summary className="flex cursor-pointer list-none items-center justify-between gap-4">
+                                            <span className="flex items-center gap-2 text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                                                <FileText className="h-4 w-4 text-zinc-400" />
+                                                Batch {batch.index}
+                                                <span className="font-normal text-zinc-500">
+                                                    {batch.questions.length} question{batch.questions.length === 1 ? '' : 's'}
+                                                    {batch.questions.some(q => q.isComparison) && ` • ${batch.questions.filter(q => q.isComparison).length} comparison`}
+                                                </span>
+                                            </span>
+                                            <span className="flex gap-2">
+                                                <button onClick={(e) => { e.preventDefault(); handleCopyPrompt(batch.prompt); }} className={secondaryButton}>
+                                                    <Clipboard className="h-4 w-4" />
+                                                    Copy
+                                                </button>
+                                                <button onClick={(e) => { e.preventDefault(); downloadText(batch.prompt, batchFileName(batch.index)); }} className={secondaryButton}>
+                                                    <Download className="h-4 w-4" />
+                                                    .md
+                                                </button>
+                                            </span>
+                                        </summary>
+                                        <ul className="mt-3 space-y-2">
+                                            {batch.questions.map(({ question, unitId, unitTitle, isComparison }) => (
+                                                <li key={question.id} className="flex items-start gap-2 text-sm">
+                                                    {isComparison && (
+                                                        <span className="shrink-0 rounded-full bg-purple-100 px-2 py-0.5 text-xs font-bold text-purple-700 dark:bg-purple-900/30 dark:text-purple-300">
+                                                            Comparison
+                                                        </span>
+                                                    )}
+                                                    <span className="flex-1 text-zinc-700 dark:text-zinc-300">{question.text}</span>
+                                                    <span className="shrink-0 text-xs text-zinc-400">{unitTitle}</span>
+                                                    <Link
+                                                        href={`/study/${subjectId}?unit=${unitId}&question=${question.id}`}
+                                                        target="_blank"
+                                                        className="shrink-0 text-zinc-400 hover:text-indigo-600"
+                                                        title="Open in study page"
+                                                    >
+                                                        <ExternalLink className="h-4 w-4" />
+                                                    </Link>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </details>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Answers */}
+                        <div className="space-y-3 rounded-xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+                            <div className="flex items-center justify-between">
+                                <h2 className="font-semibold text-zinc-900 dark:text-zinc-100">Answers</h2>
+                                <button onClick={() => fileInputRef.current?.click()} className={secondaryButton}>
+                                    <Upload className="h-4 w-4" />
+                                    Upload .md
+                                </button>
+                                <input ref={fileInputRef} type="file" accept=".md,.markdown,.txt" multiple className="hidden" onChange={handleUpload} />
+                            </div>
+                            <textarea
+                                className={cn(inputClass, "h-48 font-mono text-xs")}
+                                placeholder={'Paste the model replies here. Each answer starts with its marker line, e.g.\n=== SOLUTION: <question id> ==='}
+                                value={answerText}
+                                onChange={(e) => { setAnswerText(e.target.value); setParsed(null); }}
+                            />
+                            <button
+                                onClick={handleMatch}
+                                disabled={!answerText.trim()}
+                                className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                            >
+                                Match answers
+                            </button>
+                        </div>
+
+                        {/* Preview */}
+                        {parsed && parsed.answers.length > 0 && (
+                            <div className="space-y-4">
+                                {(parsed.unknownIds.length > 0 || parsed.duplicateIds.length > 0 || unanswered.length > 0) && (
+                                    <div className="space-y-1 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-900/30 dark:bg-amber-900/10 dark:text-amber-300">
+                                        <p className="flex items-center gap-2 font-medium"><AlertTriangle className="h-4 w-4" /> Check before saving</p>
+                                        {parsed.unknownIds.length > 0 && <p>Not in this workspace (already solved or wrong id): {parsed.unknownIds.join(', ')}</p>}
+                                        {parsed.duplicateIds.length > 0 && <p>Answered twice, the last answer is used: {parsed.duplicateIds.join(', ')}</p>}
+                                        {unanswered.length > 0 && <p>No answer in the reply for: {unanswered.map(q => q.question.id).join(', ')}</p>}
+                                    </div>
+                                )}
+
+                                {parsed.answers.map(answer => {
+                                    const entry = byId.get(answer.questionId);
+                                    const isExcluded = excluded.has(answer.questionId);
+                                    return (
+                                        <div key={answer.questionId} className={cn("space-y-3 rounded-xl border border-zinc-200 bg-white p-4 shadow-sm dark:border-zinc-800 dark:bg-zinc-900", isExcluded && "opacity-50")}>
+                                            <label className="flex items-start gap-3">
+                                                <input type="checkbox" className="mt-1" checked={!isExcluded} onChange={() => toggleExcluded(answer.questionId)} />
+                                                <span className="space-y-1">
+                                                    <span className="block text-sm font-medium text-zinc-900 dark:text-zinc-100">{entry?.question.text}</span>
+                                                    <span className="block text-xs text-zinc-500">{entry?.unitTitle} • {answer.questionId}</span>
+                                                </span>
+                                            </label>
+                                            {!isExcluded && (
+                                                <div className="max-h-96 overflow-y-auto rounded-lg bg-zinc-50 p-4 dark:bg-zinc-950">
+                                                    <MarkdownRenderer content={answer.markdown} />
+                                                </div>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+
+                                <div className="flex justify-end">
+                                    <button
+                                        onClick={handleSave}
+                                        disabled={saving || selectedCount === 0}
+                                        className="flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50"
+                                    >
+                                        {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                                        Save {selectedCount} solution{selectedCount === 1 ? '' : 's'}
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </>
+                )
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebase-admin';
+import { BundleTargetInput, rebuildAllBundles, syncBundles } from '@/lib/bundleService';
+
+// Bundle aggregation for the admin tools.
+// { action: 'sync', targets: [{ branch, semester }] } re-aggregates only the affected bundles (null for the catch-all ones),
+// { action: 'rebuild', dryRun } rebuilds everything and returns the diff.
+export async function POST(req: Request) {
+    try {
+        const authHeader = req.headers.get('Authorization');
+        if (!authHeader?.startsWith('Bearer ')) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        try {
+            const decodedToken = await adminAuth.verifyIdToken(authHeader.split('Bearer ')[1]);
+            if (decodedToken.admin !== true) {
+                return NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 });
+            }
+        } catch (error) {
+            console.error("Token verification failed:", error);
+            return NextResponse.json({ error: 'Unauthorized: Invalid token' }, { status: 401 });
+        }
+
+        const { action, targets, dryRun } = await req.json();
+
+        if (action === 'sync') {
+            if (!Array.isArray(targets) || targets.length === 0) {
+                return NextResponse.json({ error: 'targets are required' }, { status: 400 });
+            }
+            const isOptionalString = (value: unknown) => value == null || typeof value === 'string';
+            const validTargets: BundleTargetInput[] = targets
+                .filter((t: BundleTargetInput) => t && typeof t === 'object' && isOptionalString(t.branch) && isOptionalString(t.semester))
+                .map((t: BundleTargetInput) => ({ branch: t.branch ?? null, semester: t.semester ?? null }));
+
+            const { changes, failures } = await syncBundles(validTargets);
+            return NextResponse.json(
+                { success: failures.length === 0, changes, failures },
+                { status: failures.length > 0 ? 500 : 200 }
+            );
+        }
+
+        if (action === 'rebuild') {
+            const { changes } = await rebuildAllBundles(dryRun !== false);
+            return NextResponse.json({ success: true, dryRun: dryRun !== false, changes });
+        }
+
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    } catch (error) {
+        console.error('Error syncing bundles:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebase-admin';
+import { DuplicateMergeError, listUnfinishedMerges, mergeDuplicateQuestionSet, scanSubjectDuplicates } from '@/lib/duplicateService';
+
+// Duplicate question tooling for admins.
+// { action: 'scan', subjectId, threshold } lists clusters of near-duplicates and merges left half-way,
+// { action: 'merge', subjectId, keepId, mergeIds, solutionId } merges one cluster and migrates user progress
+// (or resumes an unfinished merge into keepId).
+export async function POST(req: Request) {
+    try {
+        const authHeader = req.headers.get('Authorization');
+        if (!authHeader?.startsWith('Bearer ')) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        let decodedToken;
+        try {
+            decodedToken = await adminAuth.verifyIdToken(authHeader.split('Bearer ')[1]);
+            if (decodedToken.admin !== true) {
+                return NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 });
+            }
+        } catch (error) {
+            console.error("Token verification failed:", error);
+            return NextResponse.json({ error: 'Unauthorized: Invalid token' }, { status: 401 });
+        }
+
+        const { action, subjectId, threshold, keepId, mergeIds, solutionId } = await req.json();
+
+        if (typeof subjectId !== 'string' || !subjectId) {
+            return NextResponse.json({ error: 'subjectId is required' }, { status: 400 });
+        }
+
+        if (action === 'scan') {
+            const value = typeof threshold === 'number' && threshold > 0 && threshold <= 1 ? threshold : undefined;
+            const [clusters, unfinishedMerges] = await Promise.all([scanSubjectDuplicates(subjectId, value), listUnfinishedMerges(subjectId)]);
+            return NextResponse.json({ success: true, clusters, unfinishedMerges });
+        }
+
+        if (action === 'merge') {
+            if (typeof keepId !== 'string' || !Array.isArray(mergeIds) || mergeIds.some(id => typeof id !== 'string')) {
+                return NextResponse.json({ error: 'keepId and mergeIds are required' }, { status: 400 });
+            }
+            try {
+                const result = await mergeDuplicateQuestionSet(
+                    subjectId,
+                    { keepId, mergeIds, solutionId: typeof solutionId === 'string' ? solutionId : null },
+                    { uid: decodedToken.uid, email: decodedToken.email ?? null },
+                );
+                return NextResponse.json({ success: true, ...result });
+            } catch (error) {
+                // Stale clusters (questions edited or merged since the scan) are the admin's to rescan
+                if (error instanceof DuplicateMergeError) {
+                    return NextResponse.json({ error: error.message }, { status: 409 });
+                }
+                // The content merge is saved with its job, merging again resumes the progress migration
+                console.error('Duplicate merge failed:', error);
+                return NextResponse.json({ error: 'Moving student progress failed, merge again to resume' }, { status: 500 });
+            }
+        }
+
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    } catch (error) {
+        console.error('Error handling duplicates:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
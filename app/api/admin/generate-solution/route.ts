@@ -0,0 +1,79 @@
+import { NextResponse } from 'next/server';
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { SolutionDraftStatus } from '@/lib/types';
+import { MAX_JOBS_PER_RUN, createSolutionDraftService } from '@/lib/solutionDraftService';
+import { getSolutionProvider } from '@/lib/solutionProviders';
+
+const STATUSES: SolutionDraftStatus[] = ['queued', 'generating', 'draft', 'approved', 'rejected', 'failed'];
+
+// Generated solutions for admins, nothing is visible to students before approval.
+// { action: 'enqueue', subjectId, questionIds } queues questions for generation,
+// { action: 'process', maxJobs } runs the queue within the provider rate limit,
+// { action: 'list', status } lists drafts, { action: 'approve', draftId, text } publishes one,
+// { action: 'reject', draftId, note } discards one.
+export async function POST(req: Request) {
+    try {
+        const authHeader = req.headers.get('Authorization');
+        if (!authHeader?.startsWith('Bearer ')) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        let decodedToken: DecodedIdToken;
+        try {
+            decodedToken = await adminAuth.verifyIdToken(authHeader.split('Bearer ')[1]);
+            if (decodedToken.admin !== true) {
+                return NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 });
+            }
+        } catch (error) {
+            console.error("Token verification failed:", error);
+            return NextResponse.json({ error: 'Unauthorized: Invalid token' }, { status: 401 });
+        }
+
+        const { action, subjectId, questionIds, maxJobs, status, draftId, text, note } = await req.json();
+        const reviewer = { uid: decodedToken.uid, email: decodedToken.email };
+        const drafts = createSolutionDraftService(adminDb, getSolutionProvider());
+
+        if (action === 'enqueue') {
+            if (typeof subjectId !== 'string' || !subjectId || !Array.isArray(questionIds) || questionIds.some(id => typeof id !== 'string')) {
+                return NextResponse.json({ error: 'subjectId and questionIds are required' }, { status: 400 });
+            }
+            const result = await drafts.enqueueSolutionDrafts(subjectId, questionIds, decodedToken.uid);
+            return NextResponse.json({ success: true, ...result });
+        }
+
+        if (action === 'process') {
+            const limit = typeof maxJobs === 'number' && maxJobs > 0 ? Math.min(Math.floor(maxJobs), MAX_JOBS_PER_RUN) : MAX_JOBS_PER_RUN;
+            const result = await drafts.processSolutionQueue(limit);
+            return NextResponse.json({ success: true, ...result });
+        }
+
+        if (action === 'list') {
+            if (status !== undefined && !STATUSES.includes(status)) {
+                return NextResponse.json({ error: 'Unknown status' }, { status: 400 });
+            }
+            return NextResponse.json({ success: true, drafts: await drafts.listSolutionDrafts(status) });
+        }
+
+        if (action === 'approve' || action === 'reject') {
+            if (typeof draftId !== 'string' || !draftId) {
+                return NextResponse.json({ error: 'draftId is required' }, { status: 400 });
+            }
+            try {
+                const draft = action === 'approve'
+                    ? await drafts.approveSolutionDraft(draftId, reviewer, typeof text === 'string' ? text : undefined)
+                    : await drafts.rejectSolutionDraft(draftId, reviewer, typeof note === 'string' ? note : undefined);
+                return NextResponse.json({ success: true, draft });
+            } catch (error) {
+                // Already reviewed elsewhere, or the question changed since generation
+                const message = error instanceof Error ? error.message : 'Review failed';
+                return NextResponse.json({ error: message }, { status: 409 });
+            }
+        }
+
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    } catch (error) {
+        console.error('Error handling solution generation:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { adminAuth } from '@/lib/firebase-admin';
+import { moderateText } from '@/lib/moderation';
+import {
+    ModerationError,
+    approveHeldMessage,
+    discardHeldMessage,
+    getModerationConfig,
+    saveModerationConfig,
+} from '@/lib/moderationService';
+
+// Community moderation for admins.
+// { action: 'getConfig' } and { action: 'saveConfig', config } read and replace the pipeline settings,
+// { action: 'test', text } shows what a message would be flagged for,
+// { action: 'approve', messageId } posts a held message, { action: 'discard', messageId } drops it.
+export async function POST(req: Request) {
+    try {
+        const authHeader = req.headers.get('Authorization');
+        if (!authHeader?.startsWith('Bearer ')) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        let decodedToken: DecodedIdToken;
+        try {
+            decodedToken = await adminAuth.verifyIdToken(authHeader.split('Bearer ')[1]);
+            if (decodedToken.admin !== true) {
+                return NextResponse.json({ error: 'Forbidden: Admin access required' }, { status: 403 });
+            }
+        } catch (error) {
+            console.error("Token verification failed:", error);
+            return NextResponse.json({ error: 'Unauthorized: Invalid token' }, { status: 401 });
+        }
+
+        const { action, config, text, messageId } = await req.json();
+
+        if (action === 'getConfig') {
+            return NextResponse.json({ config: await getModerationConfig() });
+        }
+
+        if (action === 'saveConfig') {
+            if (!config || typeof config !== 'object') {
+                return NextResponse.json({ error: 'config is required' }, { status: 400 });
+            }
+            return NextResponse.json({ config: await saveModerationConfig(config, decodedToken.uid) });
+        }
+
+        if (action === 'test') {
+            if (typeof text !== 'string') {
+                return NextResponse.json({ error: 'text is required' }, { status: 400 });
+            }
+            // Tests the saved config, unsaved edits on the page don't apply
+            return NextResponse.json({ flags: moderateText(text, await getModerationConfig()) });
+        }
+
+        if (action === 'approve' || action === 'discard') {
+            if (typeof messageId !== 'string' || !messageId) {
+                return NextResponse.json({ error: 'messageId is required' }, { status: 400 });
+            }
+            try {
+                if (action === 'approve') {
+                    await approveHeldMessage(messageId, decodedToken.uid);
+                    return NextResponse.json({ success: true });
+                }
+                const attachments = await discardHeldMessage(messageId, decodedToken.uid);
+                return NextResponse.json({ success: true, attachments });
+            } catch (error) {
+                if (error instanceof ModerationError) {
+                    return NextResponse.json({ error: error.message }, { status: error.status });
+                }
+                throw error;
+            }
+        }
+
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    } catch (error) {
+        console.error('Error handling moderation:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { adminAuth } from '@/lib/firebase-admin';
+import { ModerationError, editModeratedMessage, sendModeratedMessage } from '@/lib/moderationService';
+
+// Firestore auto IDs, generated by the client so the optimistic copy can be matched up
+const ID_PATTERN = /^[A-Za-z0-9]{1,40}$/;
+
+// Community messages are only written here, after moderation (see lib/moderation.ts).
+// { action: 'send', channelId, messageId, message: { text, replyToId, attachments, questionRef } } posts or holds one,
+// { action: 'edit', channelId, messageId, text } changes the text of the sender's own message.
+export async function POST(req: Request) {
+    try {
+        const authHeader = req.headers.get('Authorization');
+        if (!authHeader?.startsWith('Bearer ')) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        let decodedToken: DecodedIdToken;
+        try {
+            decodedToken = await adminAuth.verifyIdToken(authHeader.split('Bearer ')[1]);
+        } catch (error) {
+            console.error("Token verification failed:", error);
+            return NextResponse.json({ error: 'Unauthorized: Invalid token' }, { status: 401 });
+        }
+
+        const { action, channelId, messageId, message, text } = await req.json();
+        if (typeof channelId !== 'string' || !ID_PATTERN.test(channelId) || typeof messageId !== 'string' || !ID_PATTERN.test(messageId)) {
+            return NextResponse.json({ error: 'channelId and messageId are required' }, { status: 400 });
+        }
+
+        const sender = {
+            uid: decodedToken.uid,
+            name: decodedToken.name || 'Anonymous',
+            photoURL: decodedToken.picture,
+            isAdmin: decodedToken.admin === true,
+        };
+
+        try {
+            if (action === 'send') {
+                if (!message || typeof message !== 'object') {
+                    return NextResponse.json({ error: 'message is required' }, { status: 400 });
+                }
+                const result = await sendModeratedMessage(channelId, messageId, message, sender);
+                return NextResponse.json(result);
+            }
+
+            if (action === 'edit') {
+                if (typeof text !== 'string') {
+                    return NextResponse.json({ error: 'text is required' }, { status: 400 });
+                }
+                await editModeratedMessage(channelId, messageId, text, sender);
+                return NextResponse.json({ success: true });
+            }
+        } catch (error) {
+            if (error instanceof ModerationError) {
+                return NextResponse.json({ error: error.message }, { status: error.status });
+            }
+            throw error;
+        }
+
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    } catch (error) {
+        console.error('Error handling chat message:', error);
+        return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+    }
+}
@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server';
 import { adminDb, adminAuth } from '@/lib/firebase-admin';
 import { FieldValue } from 'firebase-admin/firestore';
+import { UserProfile } from '@/lib/types';
+import { buildPurchaseRecord } from '@/lib/enrollment';
+import { needsRenewal } from '@/lib/purchaseExpiry';
 
 export async function POST(req: Request) {
     try {
@@ -41,27 +44,27 @@ export async function POST(req: Request) {
         // 1. Fetch Course Duration Settings
         const durationMonths = settingsDoc.exists ? (settingsDoc.data()?.courseDurationMonths || 1) : 1;
 
-        // 2. Calculate Expiry
-        const purchaseDate = Date.now();
-        const expiryDateObj = new Date();
-        expiryDateObj.setMonth(expiryDateObj.getMonth() + durationMonths);
-        const expiryDate = expiryDateObj.getTime();
+        // 2. Extend existing purchases instead of replacing them.
+        // Courses that are active and outside the renewal window are left alone.
+        const userSnap = await adminDb.collection('users').doc(userId).get();
+        const purchases: UserProfile['purchases'] = userSnap.data()?.purchases || {};
+        const ownedCourseIds: string[] = userSnap.data()?.purchasedCourseIds || [];
 
-        const purchaseData = {
-            purchaseDate,
-            expiryDate,
-            durationMonths,
-            type: 'manual_enrollment'
-        };
+        const requestedCourseIds: string[] = (courseIds && Array.isArray(courseIds)) ? courseIds : [courseId];
+        const coursesToEnroll = requestedCourseIds.filter(cid =>
+            !ownedCourseIds.includes(cid) || !purchases?.[cid] || needsRenewal(purchases[cid])
+        );
 
-        const updates: any = {};
-        const coursesToEnroll = (courseIds && Array.isArray(courseIds)) ? courseIds : [courseId];
+        if (coursesToEnroll.length === 0) {
+            return NextResponse.json({ success: true });
+        }
 
+        const updates: any = {};
         updates.purchasedCourseIds = FieldValue.arrayUnion(...coursesToEnroll);
 
         // Add purchase details for EACH course
         coursesToEnroll.forEach((cid: string) => {
-            updates[`purchases.${cid}`] = purchaseData;
+            updates[`purchases.${cid}`] = buildPurchaseRecord(durationMonths, { type: 'manual_enrollment' }, purchases?.[cid]);
         });
 
         await adminDb.collection('users').doc(userId).update(updates);
@@ -1,10 +1,29 @@
 import { NextResponse } from 'next/server';
 import { razorpay } from '@/lib/razorpay';
-import { adminDb } from '@/lib/firebase-admin';
+import { adminAuth } from '@/lib/firebase-admin';
+import { createOrderRecord } from '@/lib/orders';
+import { CheckoutError, priceCheckout } from '@/lib/checkout';
 
 export async function POST(req: Request) {
     try {
-        const { courseId, courseIds } = await req.json();
+        const { courseId, courseIds, couponCode, bundleId } = await req.json();
+
+        // Authenticate so the order can be tied to the buyer (the webhook enrolls from the order notes)
+        const authHeader = req.headers.get('Authorization');
+        if (!authHeader?.startsWith('Bearer ')) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        let userId: string;
+        let userEmail: string | undefined;
+        try {
+            const decodedToken = await adminAuth.verifyIdToken(authHeader.split('Bearer ')[1]);
+            userId = decodedToken.uid;
+            userEmail = decodedToken.email;
+        } catch (error) {
+            console.error("Token verification failed:", error);
+            return NextResponse.json({ error: 'Unauthorized: Invalid token' }, { status: 401 });
+        }
 
         if (!courseId && (!courseIds || courseIds.length === 0)) {
             return NextResponse.json(
@@ -13,56 +32,53 @@ export async function POST(req: Request) {
             );
         }
 
-        let totalAmount = 0;
         const targetIds: string[] = courseIds || [courseId];
 
-        // Fetch prices from Firestore (Server-Side Validation)
-        const refs = targetIds.map(id => adminDb.collection('subjects_metadata').doc(id));
-        const snapshots = await adminDb.getAll(...refs);
-
-        for (const snap of snapshots) {
-            if (snap.exists) {
-                const data = snap.data();
-                // Ensure we have a valid price, default to 0 (or handle error)
-                // Assuming price is required for paid courses.
-                if (data?.price) {
-                    totalAmount += data.price;
-                }
-            } else {
-                return NextResponse.json(
-                    { error: `Course not found: ${snap.id}` },
-                    { status: 404 }
-                );
-            }
-        }
-
-        if (totalAmount <= 0) {
-            return NextResponse.json(
-                { error: 'Invalid total amount' },
-                { status: 400 }
-            );
-        }
+        // Prices and coupon are resolved server-side, the client-sent amount is ignored.
+        // Semester checkouts enroll exactly the chosen subjects that aren't owned yet.
+        const quote = await priceCheckout(userId, targetIds, couponCode, bundleId);
+        const enrollIds = quote.items.map(item => item.id);
 
         const receiptId = courseIds
             ? `receipt_bundle_${Date.now()}`
             : `receipt_${courseId}_${Date.now()}`;
 
         const options = {
-            amount: Math.round(totalAmount * 100), // Razorpay expects amount in paise
+            amount: Math.round(quote.amount * 100), // Razorpay expects amount in paise
             currency: 'INR',
             receipt: receiptId,
             notes: {
-                courseIds: targetIds.join(','),
-                type: courseIds ? 'bundle' : 'single'
+                courseIds: enrollIds.join(','),
+                type: courseIds ? 'bundle' : 'single',
+                userId,
+                ...(quote.coupon ? { coupon: quote.coupon } : {})
             }
         };
 
         const order = await razorpay.orders.create(options);
 
+        // Ledger entry, moved along by verify and the webhook
+        await createOrderRecord({
+            id: order.id,
+            userId,
+            ...(userEmail ? { userEmail } : {}),
+            courseIds: enrollIds,
+            courseTitles: quote.items.map(item => item.title),
+            amount: quote.amount,
+            currency: options.currency,
+            coupon: quote.coupon,
+            ...(quote.coupon ? { discount: quote.discount, originalAmount: quote.subtotal } : {}),
+            ...(quote.bundleId ? { bundleId: quote.bundleId, bundleDiscount: quote.bundleDiscount } : {}),
+            receipt: receiptId,
+        });
+
         // Security: Return the calculated amount so frontend knows what was actually charged
         // (Optional but good for UX debugging if they differ)
-        return NextResponse.json({ ...order, calculatedAmount: totalAmount });
+        return NextResponse.json({ ...order, calculatedAmount: quote.amount, discount: quote.discount });
     } catch (error: any) {
+        if (error instanceof CheckoutError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
         console.error('Error creating order:', error);
         return NextResponse.json(
             { error: 'Error creating order: ' + error.message },
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebase-admin';
+import { CheckoutError, priceCheckout } from '@/lib/checkout';
+
+// Lets PaymentButton preview a coupon. create-order prices the cart again, nothing here is trusted later.
+export async function POST(req: Request) {
+    try {
+        const { courseId, courseIds, couponCode, bundleId } = await req.json();
+
+        const authHeader = req.headers.get('Authorization');
+        if (!authHeader?.startsWith('Bearer ')) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        let userId: string;
+        try {
+            const decodedToken = await adminAuth.verifyIdToken(authHeader.split('Bearer ')[1]);
+            userId = decodedToken.uid;
+        } catch (error) {
+            console.error("Token verification failed:", error);
+            return NextResponse.json({ error: 'Unauthorized: Invalid token' }, { status: 401 });
+        }
+
+        if (!couponCode || (!courseId && (!courseIds || courseIds.length === 0))) {
+            return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+        }
+
+        const quote = await priceCheckout(userId, courseIds || [courseId], couponCode, bundleId);
+
+        return NextResponse.json({
+            success: true,
+            coupon: quote.coupon,
+            subtotal: quote.subtotal,
+            discount: quote.discount,
+            amount: quote.amount,
+        });
+    } catch (error) {
+        if (error instanceof CheckoutError) {
+            return NextResponse.json({ error: error.message }, { status: error.status });
+        }
+        console.error('Error validating coupon:', error);
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
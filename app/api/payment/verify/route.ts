@@ -1,7 +1,9 @@
 import { NextResponse } from 'next/server';
-import crypto from 'crypto';
-import { adminDb, adminAuth } from '@/lib/firebase-admin';
-import { FieldValue } from 'firebase-admin/firestore';
+import { adminAuth } from '@/lib/firebase-admin';
+import { verifyPaymentSignature } from '@/lib/razorpay';
+import { enrollPaidCourses } from '@/lib/enrollment';
+import { isClosedOrder, resolveOrder, updateOrderStatus } from '@/lib/orders';
+import { recordCouponRedemption } from '@/lib/checkout';
 
 export async function POST(req: Request) {
     try {
@@ -9,10 +11,7 @@ export async function POST(req: Request) {
             razorpay_order_id,
             razorpay_payment_id,
             razorpay_signature,
-            courseId,
-            courseIds,
         } = await req.json();
-        const reqBody = { courseId, courseIds }; // Keep ref for logic below
 
         // 1. Authenticate Request
         const authHeader = req.headers.get('Authorization');
@@ -33,8 +32,7 @@ export async function POST(req: Request) {
         if (
             !razorpay_order_id ||
             !razorpay_payment_id ||
-            !razorpay_signature ||
-            (!courseId && !courseIds)
+            !razorpay_signature
         ) {
             return NextResponse.json(
                 { error: 'Missing required fields' },
@@ -43,48 +41,31 @@ export async function POST(req: Request) {
         }
 
 
-        const body = razorpay_order_id + '|' + razorpay_payment_id;
-        const expectedSignature = crypto
-            .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET!)
-            .update(body.toString())
-            .digest('hex');
-
-        if (expectedSignature === razorpay_signature) {
+        if (verifyPaymentSignature(razorpay_order_id, razorpay_payment_id, razorpay_signature)) {
             // Signature is valid
+            // Courses come from the ledger or the order notes, never from the request body
+            const { userId: buyerId, courseIds: coursesToEnroll, order } = await resolveOrder(razorpay_order_id);
+            if (!buyerId || coursesToEnroll.length === 0) {
+                return NextResponse.json({ error: 'Order has no buyer or courses' }, { status: 400 });
+            }
+            if (buyerId !== userId) {
+                return NextResponse.json({ error: 'Order belongs to another account' }, { status: 403 });
+            }
 
-            // 1. Fetch Course Duration Settings
-            const settingsDoc = await adminDb.collection('settings').doc('global').get();
-            const durationMonths = settingsDoc.exists ? (settingsDoc.data()?.courseDurationMonths || 1) : 1;
-
-            // 2. Calculate Expiry
-            const purchaseDate = Date.now();
-            const expiryDateObj = new Date();
-            expiryDateObj.setMonth(expiryDateObj.getMonth() + durationMonths);
-            const expiryDate = expiryDateObj.getTime();
+            const markedPaid = await updateOrderStatus(razorpay_order_id, 'paid', 'verify', { paymentId: razorpay_payment_id });
+            // A failed attempt that is now paid moved on above; a refunded order stays closed, replays enroll nothing
+            if (!markedPaid && order && isClosedOrder(order)) {
+                return NextResponse.json({ error: `This order was ${order.status}` }, { status: 409 });
+            }
+            if (markedPaid && order) await recordCouponRedemption(order);
 
-            const purchaseData = {
-                purchaseDate,
-                expiryDate,
-                durationMonths,
+            // Skips courses the webhook already enrolled for this payment
+            await enrollPaidCourses(userId, coursesToEnroll, {
                 orderId: razorpay_order_id,
-                paymentId: razorpay_payment_id
-            };
-
-            // 3. Prepare Updates
-            const updates: any = {};
-            const coursesToEnroll = (reqBody.courseIds && Array.isArray(reqBody.courseIds))
-                ? reqBody.courseIds
-                : [courseId];
-
-            // Add IDs to array
-            updates.purchasedCourseIds = FieldValue.arrayUnion(...coursesToEnroll);
-
-            // Add purchase details for EACH course
-            coursesToEnroll.forEach((cid: string) => {
-                updates[`purchases.${cid}`] = purchaseData;
+                paymentId: razorpay_payment_id,
             });
 
-            await adminDb.collection('users').doc(userId).update(updates);
+            await updateOrderStatus(razorpay_order_id, 'enrolled', 'verify');
 
             return NextResponse.json({ success: true });
         } else {
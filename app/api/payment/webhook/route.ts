@@ -0,0 +1,147 @@
+import { NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { verifyWebhookSignature } from '@/lib/razorpay';
+import { enrollPaidCourses, revokeRefundedCourses } from '@/lib/enrollment';
+import { isClosedOrder, resolveOrder, updateOrderStatus } from '@/lib/orders';
+import { recordCouponRedemption } from '@/lib/checkout';
+
+// Only the fields this route reads, see https://razorpay.com/docs/webhooks/payloads/
+interface PaymentEntity {
+    id: string;
+    order_id: string;
+    amount: number;
+    amount_refunded?: number;
+    status: string;
+    refund_status?: 'partial' | 'full' | null;
+    error_code?: string | null;
+    error_description?: string | null;
+}
+
+interface OrderEntity {
+    id: string;
+    notes?: Record<string, string>;
+}
+
+interface RazorpayWebhookEvent {
+    event: string;
+    created_at: number;
+    payload: {
+        payment?: { entity: PaymentEntity };
+        order?: { entity: OrderEntity };
+        refund?: { entity: { id: string; payment_id: string; amount: number } };
+    };
+}
+
+interface EventOutcome {
+    status: 'processed' | 'ignored';
+    detail: string;
+    userId?: string;
+    courseIds?: string[];
+}
+
+async function handleEvent(event: RazorpayWebhookEvent): Promise<EventOutcome> {
+    const payment = event.payload.payment?.entity;
+    if (!payment) return { status: 'ignored', detail: 'No payment in payload' };
+
+    switch (event.event) {
+        case 'payment.captured':
+        case 'order.paid': {
+            const { userId, courseIds, order } = await resolveOrder(payment.order_id, event.payload.order?.entity.notes);
+            // Orders created before the buyer was recorded can only be enrolled by the verify route
+            if (!userId || courseIds.length === 0) return { status: 'ignored', detail: 'Order has no buyer or courses' };
+
+            const markedPaid = await updateOrderStatus(payment.order_id, 'paid', 'webhook', { paymentId: payment.id });
+            // A late capture event for a refunded order must not enroll again
+            if (!markedPaid && order && isClosedOrder(order)) return { status: 'ignored', detail: `Order was ${order.status}` };
+            if (markedPaid && order) await recordCouponRedemption(order);
+            const enrolled = await enrollPaidCourses(userId, courseIds, { orderId: payment.order_id, paymentId: payment.id });
+            await updateOrderStatus(payment.order_id, 'enrolled', 'webhook');
+            return {
+                status: 'processed',
+                detail: enrolled.length > 0 ? `Enrolled ${enrolled.length} course(s)` : 'Already enrolled',
+                userId,
+                courseIds: enrolled,
+            };
+        }
+
+        case 'payment.failed': {
+            // Nothing to undo, the order keeps the reason for support
+            const reason = payment.error_description || payment.error_code || 'Payment failed';
+            await updateOrderStatus(payment.order_id, 'failed', 'webhook', { paymentId: payment.id, failureReason: reason });
+            return { status: 'processed', detail: reason };
+        }
+
+        case 'refund.processed': {
+            const fullyRefunded = payment.refund_status === 'full' || (payment.amount_refunded ?? 0) >= payment.amount;
+            if (!fullyRefunded) return { status: 'ignored', detail: 'Partial refund, access kept' };
+
+            const { userId, courseIds } = await resolveOrder(payment.order_id, event.payload.order?.entity.notes);
+            if (!userId) return { status: 'ignored', detail: 'Order has no buyer' };
+
+            const revoked = await revokeRefundedCourses(userId, courseIds, payment.id);
+            await updateOrderStatus(payment.order_id, 'refunded', 'webhook', { note: event.payload.refund?.entity.id });
+            return {
+                status: 'processed',
+                detail: revoked.length > 0 ? `Revoked ${revoked.length} course(s)` : 'Nothing to revoke',
+                userId,
+                courseIds: revoked,
+            };
+        }
+
+        default:
+            return { status: 'ignored', detail: `Unhandled event ${event.event}` };
+    }
+}
+
+export async function POST(req: Request) {
+    // The signature covers the exact bytes sent, so read the body as text before parsing
+    const rawBody = await req.text();
+    const signature = req.headers.get('x-razorpay-signature');
+
+    if (!signature || !verifyWebhookSignature(rawBody, signature)) {
+        return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+    }
+
+    let event: RazorpayWebhookEvent;
+    try {
+        event = JSON.parse(rawBody);
+    } catch {
+        return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+
+    // Razorpay retries deliveries with the same event id, processed ones are acknowledged without side effects
+    const paymentId = event.payload.payment?.entity.id || 'unknown';
+    const eventId = req.headers.get('x-razorpay-event-id') || `${event.event}_${paymentId}_${event.created_at}`;
+    const eventRef = adminDb.collection('payment_events').doc(eventId);
+
+    try {
+        const existing = await eventRef.get();
+        if (existing.exists && existing.data()?.status !== 'failed') {
+            return NextResponse.json({ success: true, duplicate: true });
+        }
+
+        const outcome = await handleEvent(event);
+
+        await eventRef.set({
+            event: event.event,
+            paymentId,
+            orderId: event.payload.payment?.entity.order_id || null,
+            receivedAt: Date.now(),
+            ...outcome,
+        });
+
+        return NextResponse.json({ success: true, ...outcome });
+    } catch (error) {
+        console.error('Error handling Razorpay webhook:', error);
+        await eventRef.set({
+            event: event.event,
+            paymentId,
+            receivedAt: Date.now(),
+            status: 'failed',
+            detail: error instanceof Error ? error.message : 'Unknown error',
+        }).catch(() => { });
+
+        // A non-2xx response makes Razorpay retry the delivery
+        return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+}
@@ -5,41 +5,53 @@ import { Channel } from "@/hooks/useBranchChat";
 import { useAuth } from "@/context/AuthContext";
 import { db } from "@/lib/firebase";
 import {
-    collection,
     addDoc,
     serverTimestamp,
     deleteDoc,
     doc,
     updateDoc,
-    setDoc,
+    deleteField,
+    FieldPath,
     Timestamp
 } from "firebase/firestore";
+import { useQueryClient } from "@tanstack/react-query";
 import { MarkdownRenderer } from "@/components/MarkdownRenderer";
-import { Send, Loader2, ArrowLeft, X, Check, Reply } from "lucide-react";
+import { Send, Loader2, ArrowLeft, X, Check, Reply, ArrowUp, Pin, Paperclip, FileText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
-import { containsProfanity } from "@/lib/profanityFilter";
 import { MessageMenu } from "./MessageMenu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { DeleteMessageDialog } from "./DeleteMessageDialog";
 import { useChannelMessages } from "@/hooks/useChannelMessages";
+import { useChannelReads } from "@/hooks/useChannelReads";
+import { useChannelPins } from "@/hooks/useChannelPins";
 import { Virtuoso, VirtuosoHandle } from "react-virtuoso";
-import { Message } from "@/lib/types";
+import { ChatAttachment, Message } from "@/lib/types";
+import { HELD_MESSAGE_NOTICE, editChannelMessage, newMessageId, sendChannelMessage } from "@/lib/chatMessages";
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS_PER_MESSAGE, deleteChatAttachments, isImageType, uploadChatAttachment, validateAttachment } from "@/lib/chatAttachments";
 import { MessageBubble } from "./MessageBubble";
+import { ThreadDialog } from "./ThreadDialog";
+import { PinnedPanel } from "./PinnedPanel";
 
 interface ChatAreaProps {
     channel: Channel;
     onBack: () => void;
+    focusMessageId?: string | null; // Scrolled to (or opened) once the channel loads
 }
 
-export function ChatArea({ channel, onBack }: ChatAreaProps) {
-    const { user } = useAuth();
-    const { messages, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useChannelMessages(channel.id);
+export function ChatArea({ channel, onBack, focusMessageId }: ChatAreaProps) {
+    const { user, isAdmin } = useAuth();
+    const queryClient = useQueryClient();
+    const { messages, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading, patchMessage } = useChannelMessages(channel.id);
+    const pins = useChannelPins(channel.id);
+    const { loaded: readsLoaded, lastReadAt, markRead } = useChannelReads();
 
     // Local UI State
     const [newMessage, setNewMessage] = useState("");
     const [sending, setSending] = useState(false);
+    const [attachmentDrafts, setAttachmentDrafts] = useState<{ file: File; previewUrl: string }[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
     const [editingDetails, setEditingDetails] = useState<{ id: string, text: string } | null>(null);
     const [updating, setUpdating] = useState(false);
     const [replyingTo, setReplyingTo] = useState<Message | null>(null);
@@ -49,6 +61,23 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
 
     // Virtuoso Ref
     const virtuosoRef = useRef<VirtuosoHandle>(null);
+    const [visibleStartIndex, setVisibleStartIndex] = useState<number | null>(null);
+
+    // Last-read marker as it was when the channel was opened, so the divider stays put while we mark messages read
+    const [unreadAnchor, setUnreadAnchor] = useState<{ channelId: string; readAt: number } | null>(null);
+    const [jumping, setJumping] = useState(false);
+    const [pendingJump, setPendingJump] = useState(false);
+
+    // Threads and pins
+    const [threadMessageId, setThreadMessageId] = useState<string | null>(null);
+    const [showPins, setShowPins] = useState(false);
+    const [panelChannelId, setPanelChannelId] = useState(channel.id);
+    if (panelChannelId !== channel.id) {
+        // Close them when switching channels
+        setPanelChannelId(channel.id);
+        setThreadMessageId(null);
+        setShowPins(false);
+    }
 
     // Delete state
     const [messageToDelete, setMessageToDelete] = useState<string | null>(null);
@@ -68,6 +97,12 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
         });
     })();
 
+    // Replies per message among what is loaded
+    const replyCounts: Record<string, number> = {};
+    combinedMessages.forEach(m => {
+        if (m.replyToId) replyCounts[m.replyToId] = (replyCounts[m.replyToId] || 0) + 1;
+    });
+
     // Cleanup pending messages that are confirmed or too old?
     // Actually the derived state `activePending` handles the "confirmed" part visually.
     // We should periodically clean `pendingMessages` state to avoid memory leaks if desired, 
@@ -81,20 +116,103 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
         }
     }, [messages, pendingMessages]);
 
-    const sendMessageLogic = async () => {
-        if (!newMessage.trim() || !user) return;
+    useEffect(() => {
+        if (!readsLoaded || unreadAnchor?.channelId === channel.id) return;
+        setUnreadAnchor({ channelId: channel.id, readAt: lastReadAt(channel.id) ?? 0 });
+    }, [channel.id, readsLoaded, lastReadAt, unreadAnchor]);
+
+    const toMillis = (createdAt: Message['createdAt']): number | null =>
+        typeof createdAt?.toMillis === 'function' ? createdAt.toMillis() : null;
+
+    const anchorReadAt = unreadAnchor?.channelId === channel.id ? unreadAnchor.readAt : null;
+
+    // First message from someone else after the marker, -1 when everything loaded was already read
+    const firstUnreadIndex = (() => {
+        if (anchorReadAt === null) return -1;
+        return combinedMessages.findIndex(m => m.senderId !== user?.uid && (toMillis(m.createdAt) ?? 0) > anchorReadAt);
+    })();
+    const unreadLoadedCount = firstUnreadIndex < 0 ? 0 : combinedMessages.slice(firstUnreadIndex).filter(m => m.senderId !== user?.uid).length;
+
+    // Move the marker to the newest message whenever it is on screen
+    const newestServerTime = messages.length > 0 ? toMillis(messages[messages.length - 1].createdAt) : null;
+    useEffect(() => {
+        if (newestServerTime === null) return;
+        const markIfVisible = () => {
+            if (document.visibilityState === 'visible') markRead(channel.id, newestServerTime);
+        };
+        markIfVisible();
+        document.addEventListener('visibilitychange', markIfVisible);
+        return () => document.removeEventListener('visibilitychange', markIfVisible);
+    }, [channel.id, newestServerTime, markRead]);
+
+    const firstItemIndex = Math.max(0, 10000 - combinedMessages.length);
+    const firstUnreadVisible = visibleStartIndex !== null && firstUnreadIndex >= 0 && firstItemIndex + firstUnreadIndex >= visibleStartIndex;
+
+    // Older pages are loaded until the first unread message is among them
+    const jumpToFirstUnread = async () => {
+        if (anchorReadAt === null) return;
+        setJumping(true);
+        try {
+            let oldestLoaded = messages.length > 0 ? toMillis(messages[0].createdAt) : null;
+            let more = hasNextPage;
+            for (let page = 0; more && oldestLoaded !== null && oldestLoaded > anchorReadAt && page < 10; page++) {
+                const result = await fetchNextPage();
+                const loaded = result.data?.pages.flat() || [];
+                oldestLoaded = loaded.reduce<number | null>((min, m) => {
+                    const time = toMillis(m.createdAt);
+                    return time !== null && (min === null || time < min) ? time : min;
+                }, null);
+                more = result.hasNextPage;
+            }
+            setPendingJump(true);
+        } finally {
+            setJumping(false);
+        }
+    };
 
-        if (containsProfanity(newMessage)) {
-            alert("Your message contains inappropriate language and cannot be sent.");
-            return;
+    useEffect(() => {
+        if (!pendingJump) return;
+        setPendingJump(false);
+        if (firstUnreadIndex >= 0) {
+            virtuosoRef.current?.scrollToIndex({ index: firstUnreadIndex, align: 'start', behavior: 'smooth' });
         }
+    }, [pendingJump, firstUnreadIndex]);
+
+    const handleSelectFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = ""; // Allow picking the same file again
+
+        const errors: string[] = [];
+        const accepted = files.filter(file => {
+            const error = validateAttachment(file);
+            if (error) errors.push(error);
+            return !error;
+        });
+
+        const room = MAX_ATTACHMENTS_PER_MESSAGE - attachmentDrafts.length;
+        if (accepted.length > room) {
+            errors.push(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message.`);
+        }
+        if (errors.length > 0) alert(errors.join("\n"));
+
+        const added = accepted.slice(0, Math.max(0, room)).map(file => ({ file, previewUrl: URL.createObjectURL(file) }));
+        if (added.length > 0) setAttachmentDrafts(prev => [...prev, ...added]);
+    };
+
+    const removeAttachmentDraft = (index: number) => {
+        setAttachmentDrafts(prev => {
+            URL.revokeObjectURL(prev[index].previewUrl);
+            return prev.filter((_, i) => i !== index);
+        });
+    };
+
+    const sendMessageLogic = async () => {
+        if ((!newMessage.trim() && attachmentDrafts.length === 0) || !user || sending) return;
 
         // 1. Prepare Data
         const text = newMessage.trim();
-        const messagesRef = collection(db, "channels", channel.id, "messages");
         // Generate ID client-side
-        const newMsgRef = doc(messagesRef);
-        const newMsgId = newMsgRef.id;
+        const newMsgId = newMessageId(channel.id);
 
         const baseMessageData = {
             text: text,
@@ -105,16 +223,28 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
 
         const replyData = replyingTo ? {
             replyToId: replyingTo.id,
-            replyToSnippet: replyingTo.text.substring(0, 100),
+            replyToSnippet: replyingTo.text.substring(0, 100) || (replyingTo.attachments?.length ? "📎 Attachment" : ""),
             replyToSenderName: replyingTo.senderName,
             replyToSenderId: replyingTo.senderId
         } : {};
 
+        // Local previews stand in for the uploads until they finish
+        const drafts = attachmentDrafts;
+        const previewAttachments: ChatAttachment[] = drafts.map(({ file, previewUrl }) => ({
+            url: previewUrl,
+            path: "",
+            name: file.name,
+            contentType: file.type,
+            size: file.size,
+            kind: isImageType(file.type) ? 'image' : 'file'
+        }));
+
         // 2. Optimistic Update
         const optimisticMessage: Message = {
             id: newMsgId,
             ...baseMessageData,
             ...replyData,
+            ...(drafts.length > 0 ? { attachments: previewAttachments } : {}),
             createdAt: Timestamp.now(), // Use real Timestamp for compatibility
             status: 'sending'
         };
@@ -122,6 +252,7 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
         setPendingMessages(prev => [...prev, optimisticMessage]);
         setNewMessage("");
         setReplyingTo(null);
+        setAttachmentDrafts([]);
 
         // Scroll immediately
         requestAnimationFrame(() => {
@@ -129,13 +260,25 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
         });
 
         // 3. Send to Server
-        // We use setDoc with the ID we generated
+        // We use the ID we generated
+        let uploaded: ChatAttachment[] = [];
         try {
-            await setDoc(newMsgRef, {
-                ...baseMessageData,
-                ...replyData,
-                createdAt: serverTimestamp() // Server overwrites time
+            if (drafts.length > 0) {
+                setSending(true);
+                uploaded = await Promise.all(drafts.map(({ file }) => uploadChatAttachment(file, channel.id)));
+            }
+
+            // The server moderates it and fills in the sender and reply details
+            const result = await sendChannelMessage(channel.id, newMsgId, {
+                text,
+                replyToId: replyingTo?.id,
+                ...(uploaded.length > 0 ? { attachments: uploaded } : {})
             });
+            if (result.status === 'held') {
+                // Nothing was posted, the uploads stay for the admins to review
+                setPendingMessages(prev => prev.filter(m => m.id !== newMsgId));
+                alert(HELD_MESSAGE_NOTICE);
+            }
             // Success! The snapshot listener will eventually pick it up.
             // When it picks it up, it will be in `messages`, so `activePending` will hide this optimistic one.
 
@@ -143,7 +286,12 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
             console.error("Error sending message:", error);
             // Mark as error
             setPendingMessages(prev => prev.map(m => m.id === newMsgId ? { ...m, status: 'error' } : m));
-            alert("Failed to send message.");
+            // Don't leave orphaned uploads behind
+            deleteChatAttachments(uploaded);
+            // Rate limit and validation errors explain themselves
+            alert(error instanceof Error ? error.message : "Failed to send message.");
+        } finally {
+            setSending(false);
         }
     };
 
@@ -159,10 +307,12 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
     const confirmDeleteMessage = async () => {
         if (!messageToDelete) return;
         const idToDelete = messageToDelete;
+        const attachments = combinedMessages.find(m => m.id === idToDelete)?.attachments;
         setIsDeleting(true);
 
         try {
             await deleteDoc(doc(db, "channels", channel.id, "messages", idToDelete));
+            await deleteChatAttachments(attachments);
         } catch (error) {
             console.error("Error deleting message:", error);
             alert("Failed to delete message.");
@@ -175,22 +325,13 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
     const updateMessageWithArgs = async (id: string, text: string) => {
         if (!text.trim()) return;
 
-        if (containsProfanity(text)) {
-            alert("Your edited message contains inappropriate language.");
-            return;
-        }
-
         setUpdating(true);
         try {
-            const msgRef = doc(db, "channels", channel.id, "messages", id);
-            await updateDoc(msgRef, {
-                text: text.trim(),
-                editedAt: serverTimestamp()
-            });
+            await editChannelMessage(channel.id, id, text);
             setEditingDetails(null);
         } catch (error) {
             console.error("Error updating message:", error);
-            alert("Failed to update message.");
+            alert(error instanceof Error ? error.message : "Failed to update message.");
         } finally {
             setUpdating(false);
         }
@@ -203,6 +344,77 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
         }
     };
 
+    const handleToggleReaction = async (target: Message, emoji: string) => {
+        if (!user || target.status) return; // Not saved yet
+        // The thread view may hold an older copy, the cache has the latest reactions
+        const msg = combinedMessages.find(m => m.id === target.id) ?? target;
+        const reacted = !!msg.reactions?.[emoji]?.[user.uid];
+        const name = user.displayName || "Anonymous";
+
+        const applyReaction = (m: Message, add: boolean): Message => {
+            const users = { ...(m.reactions?.[emoji] || {}) };
+            if (add) users[user.uid] = name;
+            else delete users[user.uid];
+            return { ...m, reactions: { ...(m.reactions || {}), [emoji]: users } };
+        };
+
+        patchMessage(msg.id, m => applyReaction(m, !reacted));
+        try {
+            await updateDoc(
+                doc(db, "channels", channel.id, "messages", msg.id),
+                new FieldPath("reactions", emoji, user.uid),
+                reacted ? deleteField() : name
+            );
+            queryClient.invalidateQueries({ queryKey: ["thread", channel.id] });
+        } catch (error) {
+            console.error("Error updating reaction:", error);
+            patchMessage(msg.id, m => applyReaction(m, reacted));
+        }
+    };
+
+    const handleTogglePin = async (msg: Message) => {
+        if (!user || !isAdmin || msg.status) return;
+        const update = msg.pinned
+            ? { pinned: deleteField(), pinnedAt: deleteField(), pinnedByName: deleteField() }
+            : { pinned: true, pinnedAt: serverTimestamp(), pinnedByName: user.displayName || "Admin" };
+
+        patchMessage(msg.id, m => ({ ...m, pinned: !msg.pinned }));
+        try {
+            await updateDoc(doc(db, "channels", channel.id, "messages", msg.id), update);
+        } catch (error) {
+            console.error("Error pinning message:", error);
+            patchMessage(msg.id, m => ({ ...m, pinned: msg.pinned }));
+            alert("Failed to update pin.");
+        }
+    };
+
+    // Loaded messages are scrolled to, older ones open in the thread view
+    const showMessage = (messageId: string) => {
+        const index = combinedMessages.findIndex(m => m.id === messageId);
+        if (index >= 0) {
+            virtuosoRef.current?.scrollToIndex({ index, align: 'center', behavior: 'smooth' });
+        } else {
+            setThreadMessageId(messageId);
+        }
+    };
+
+    const handleSelectPin = (msg: Message) => {
+        setShowPins(false);
+        showMessage(msg.id);
+    };
+
+    const focusedMessageRef = useRef<string | null>(null);
+    useEffect(() => {
+        if (!focusMessageId || isLoading || focusedMessageRef.current === focusMessageId) return;
+        focusedMessageRef.current = focusMessageId;
+        requestAnimationFrame(() => showMessage(focusMessageId));
+    });
+
+    const handleReplyFromThread = (msg: Message) => {
+        setThreadMessageId(null);
+        setReplyingTo(msg);
+    };
+
     const handleKeyDown = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
@@ -234,6 +446,13 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
 
         return (
             <div className={cn(isSameSenderNext ? "mb-0.5" : "mb-4")}>
+                {msg.id === combinedMessages[firstUnreadIndex]?.id && (
+                    <div className="my-3 flex items-center gap-3 px-4" role="separator">
+                        <div className="h-px flex-1 bg-red-400/60" />
+                        <span className="text-xs font-bold uppercase tracking-wide text-red-500">New messages</span>
+                        <div className="h-px flex-1 bg-red-400/60" />
+                    </div>
+                )}
                 <MessageBubble
                     message={msg}
                     isMe={isMe}
@@ -261,6 +480,11 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
                         updateMessageWithArgs(id, text);
                     }}
                     onCancelEdit={() => setEditingDetails(null)}
+                    currentUserId={user?.uid}
+                    replyCount={replyCounts[msg.id]}
+                    onReact={handleToggleReaction}
+                    onOpenThread={(m) => setThreadMessageId(m.id)}
+                    onTogglePin={isAdmin ? handleTogglePin : undefined}
                 />
             </div>
         );
@@ -272,12 +496,22 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
                 <Button variant="ghost" size="icon" className="md:hidden -ml-2 shrink-0 rounded-full" onClick={onBack}>
                     <ArrowLeft className="h-5 w-5 text-zinc-600 dark:text-zinc-400" />
                 </Button>
-                <div>
+                <div className="min-w-0 flex-1">
                     <h1 className="text-lg font-bold text-zinc-900 dark:text-zinc-50 md:text-xl leading-tight"># {channel.name}</h1>
                     {channel.description && (
                         <p className="line-clamp-1 text-xs text-zinc-500 dark:text-zinc-400 font-medium">{channel.description}</p>
                     )}
                 </div>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className={cn("shrink-0 gap-1.5 rounded-full", showPins && "bg-zinc-100 dark:bg-zinc-800")}
+                    onClick={() => setShowPins(prev => !prev)}
+                    title="Pinned messages"
+                >
+                    <Pin className="h-4 w-4" />
+                    {pins.length > 0 && <span className="text-xs font-semibold tabular-nums">{pins.length}</span>}
+                </Button>
             </div>
 
             <div className="flex-1 overflow-hidden relative"
@@ -287,6 +521,15 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
                 }}>
                 <div className="absolute inset-0 pointer-events-none bg-white/90 dark:bg-black/90 mix-blend-overlay z-0" />
 
+                {showPins && (
+                    <PinnedPanel
+                        pins={pins}
+                        onClose={() => setShowPins(false)}
+                        onSelect={handleSelectPin}
+                        onUnpin={isAdmin ? handleTogglePin : undefined}
+                    />
+                )}
+
                 {isLoading && messages.length === 0 && (
                     <div className="absolute inset-0 flex items-center justify-center z-10">
                         <Loader2 className="h-8 w-8 animate-spin text-zinc-400" />
@@ -303,16 +546,29 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
                     </div>
                 )}
 
+                {/* Jump back to the first unread message while it is scrolled out of view (or not loaded yet) */}
+                {anchorReadAt !== null && !firstUnreadVisible && (firstUnreadIndex >= 0 || (hasNextPage && combinedMessages.length > 0 && (toMillis(combinedMessages[0].createdAt) ?? 0) > anchorReadAt && combinedMessages[0].senderId !== user?.uid)) && (
+                    <button
+                        onClick={jumpToFirstUnread}
+                        disabled={jumping}
+                        className="absolute left-1/2 top-3 z-20 flex -translate-x-1/2 items-center gap-1.5 rounded-full bg-indigo-600 px-4 py-1.5 text-xs font-semibold text-white shadow-md hover:bg-indigo-700 disabled:opacity-70"
+                    >
+                        {jumping ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <ArrowUp className="h-3.5 w-3.5" />}
+                        {unreadLoadedCount > 0 ? `${unreadLoadedCount}${hasNextPage && firstUnreadIndex === 0 ? '+' : ''} new message${unreadLoadedCount === 1 ? '' : 's'}` : 'Jump to first unread'}
+                    </button>
+                )}
+
                 <Virtuoso
                     ref={virtuosoRef}
                     data={combinedMessages}
                     itemContent={itemContent}
+                    rangeChanged={(range) => setVisibleStartIndex(range.startIndex)}
                     startReached={() => {
                         if (hasNextPage && !isFetchingNextPage) {
                             fetchNextPage();
                         }
                     }}
-                    firstItemIndex={Math.max(0, 10000 - combinedMessages.length)}
+                    firstItemIndex={firstItemIndex}
                     initialTopMostItemIndex={Math.max(0, 10000 - 1)}
                     followOutput="auto"
                     alignToBottom
@@ -327,7 +583,7 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
                             <Reply className="h-4 w-4 text-indigo-500 shrink-0" />
                             <div className="flex flex-col text-xs">
                                 <span className="font-bold text-indigo-500">Replying to {replyingTo.senderName}</span>
-                                <span className="truncate text-zinc-500 max-w-[200px] sm:max-w-md">{replyingTo.text}</span>
+                                <span className="truncate text-zinc-500 max-w-[200px] sm:max-w-md">{replyingTo.text || (replyingTo.attachments?.length ? "📎 Attachment" : "")}</span>
                             </div>
                         </div>
                         <button onClick={() => setReplyingTo(null)} className="p-1 hover:bg-zinc-200 dark:hover:bg-zinc-800 rounded-full">
@@ -337,10 +593,53 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
                 )}
 
                 <div className="p-4 max-w-4xl mx-auto">
+                    {attachmentDrafts.length > 0 && (
+                        <div className="mb-2 flex gap-2 overflow-x-auto">
+                            {attachmentDrafts.map(({ file, previewUrl }, i) => (
+                                <div key={previewUrl} className="relative shrink-0">
+                                    {isImageType(file.type) ? (
+                                        // eslint-disable-next-line @next/next/no-img-element
+                                        <img src={previewUrl} alt={file.name} className="h-16 w-16 rounded-lg object-cover ring-1 ring-zinc-200 dark:ring-zinc-700" />
+                                    ) : (
+                                        <div className="flex h-16 w-32 items-center gap-1.5 rounded-lg bg-zinc-100 px-2 ring-1 ring-zinc-200 dark:bg-zinc-900 dark:ring-zinc-700">
+                                            <FileText className="h-5 w-5 shrink-0 text-indigo-500" />
+                                            <span className="line-clamp-2 text-[11px] text-zinc-600 dark:text-zinc-300">{file.name}</span>
+                                        </div>
+                                    )}
+                                    <button
+                                        type="button"
+                                        onClick={() => removeAttachmentDraft(i)}
+                                        className="absolute -right-1.5 -top-1.5 rounded-full bg-zinc-800 p-0.5 text-white shadow hover:bg-zinc-700"
+                                    >
+                                        <X className="h-3 w-3" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                     <form
                         onSubmit={handleSendMessage}
                         className="flex items-end gap-2 bg-zinc-100 dark:bg-zinc-900 p-2 pl-4 rounded-[24px] shadow-sm border border-transparent focus-within:border-indigo-500/50 focus-within:ring-2 focus-within:ring-indigo-500/10 transition-all dark:border-zinc-800"
                     >
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept={ATTACHMENT_ACCEPT}
+                            multiple
+                            onChange={handleSelectFiles}
+                            className="hidden"
+                        />
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={sending || attachmentDrafts.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+                            className="-ml-2 mb-1 h-10 w-10 shrink-0 rounded-full text-zinc-500"
+                            title="Attach image or file"
+                        >
+                            <Paperclip className="h-5 w-5" />
+                        </Button>
                         <Textarea
                             value={newMessage}
                             onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setNewMessage(e.target.value)}
@@ -352,11 +651,11 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
                         />
                         <Button
                             type="submit"
-                            disabled={sending || !newMessage.trim()}
+                            disabled={sending || (!newMessage.trim() && attachmentDrafts.length === 0)}
                             size="icon"
                             className={cn(
                                 "h-10 w-10 shrink-0 rounded-full transition-all mb-1 mr-1",
-                                newMessage.trim()
+                                newMessage.trim() || attachmentDrafts.length > 0
                                     ? "bg-indigo-600 hover:bg-indigo-700 text-white shadow-md transform hover:scale-105 active:scale-95"
                                     : "bg-zinc-200 text-zinc-400 dark:bg-zinc-800 dark:text-zinc-600"
                             )}
@@ -373,6 +672,15 @@ export function ChatArea({ channel, onBack }: ChatAreaProps) {
                 onConfirm={confirmDeleteMessage}
                 isDeleting={isDeleting}
             />
+
+            <ThreadDialog
+                channelId={channel.id}
+                messageId={threadMessageId}
+                onOpenChange={(open) => !open && setThreadMessageId(null)}
+                currentUserId={user?.uid}
+                onReply={handleReplyFromThread}
+                onReact={handleToggleReaction}
+            />
         </div>
     );
 }
@@ -6,7 +6,10 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { MessageMenu } from "./MessageMenu";
 import { MarkdownRenderer } from "@/components/MarkdownRenderer";
 import { Textarea } from "@/components/ui/textarea";
-import { X, Check, Loader2 } from "lucide-react";
+import { X, Check, Loader2, Pin, MessagesSquare, BookOpen } from "lucide-react";
+import Link from "next/link";
+import { MessageReactions } from "./MessageReactions";
+import { AttachmentGallery } from "@/components/AttachmentGallery";
 import { useState, useEffect } from "react";
 
 interface MessageBubbleProps {
@@ -24,6 +27,11 @@ interface MessageBubbleProps {
     onDelete: (messageId: string) => void;
     onUpdate: (id: string, newText: string) => void;
     onCancelEdit: () => void;
+    currentUserId?: string;
+    replyCount?: number; // Loaded replies to this message
+    onReact: (message: Message, emoji: string) => void;
+    onOpenThread: (message: Message) => void;
+    onTogglePin?: (message: Message) => void; // Admins only
 }
 
 export function MessageBubble({
@@ -40,7 +48,12 @@ export function MessageBubble({
     onEdit,
     onDelete,
     onUpdate,
-    onCancelEdit
+    onCancelEdit,
+    currentUserId,
+    replyCount = 0,
+    onReact,
+    onOpenThread,
+    onTogglePin
 }: MessageBubbleProps) {
     const [editText, setEditText] = useState(msg.text);
 
@@ -105,8 +118,13 @@ export function MessageBubble({
                                 onEdit={() => onEdit(msg)}
                                 onDelete={() => onDelete(msg.id)}
                                 onReply={() => onReply(msg)}
+                                onReact={(emoji) => onReact(msg, emoji)}
+                                onViewThread={() => onOpenThread(msg)}
+                                onTogglePin={onTogglePin && (() => onTogglePin(msg))}
+                                isPinned={msg.pinned}
                                 messageId={msg.id}
                                 messageContent={msg.text}
+                                messageAttachments={msg.attachments}
                                 messageSenderId={msg.senderId}
                                 channelId={channelId}
                             />
@@ -125,13 +143,16 @@ export function MessageBubble({
                         )}
                     >
                         {msg.replyToId && !isEditing && (
-                            <div className={cn(
-                                "mb-1 rounded border-l-2 p-1 text-xs opacity-90",
-                                isMe ? "bg-indigo-700/50 border-indigo-300" : "bg-zinc-100 dark:bg-zinc-700/50 border-indigo-500"
-                            )}>
+                            <button
+                                onClick={() => onOpenThread(msg)}
+                                className={cn(
+                                    "mb-1 block w-full rounded border-l-2 p-1 text-left text-xs opacity-90 hover:opacity-100",
+                                    isMe ? "bg-indigo-700/50 border-indigo-300" : "bg-zinc-100 dark:bg-zinc-700/50 border-indigo-500"
+                                )}
+                            >
                                 <div className="font-bold mb-0.5 text-[10px]">{msg.replyToSenderName}</div>
                                 <div className="line-clamp-1 opacity-80">{msg.replyToSnippet}</div>
-                            </div>
+                            </button>
                         )}
 
                         {!isMe && showName && (
@@ -166,11 +187,36 @@ export function MessageBubble({
                             </div>
                         ) : (
                             <>
-                                <MarkdownRenderer content={msg.text} className={cn("text-[14.5px]", isMe ? "text-white" : "")} />
+                                {msg.questionRef && (
+                                    <Link
+                                        href={`/study/${msg.questionRef.subjectId}?unit=${msg.questionRef.unitId}&question=${msg.questionRef.questionId}`}
+                                        className={cn(
+                                            "mb-1 block min-w-[220px] rounded-lg border p-2 text-left transition-colors",
+                                            isMe
+                                                ? "border-indigo-400/60 bg-indigo-700/40 hover:bg-indigo-700/60"
+                                                : "border-zinc-200 bg-zinc-50 hover:bg-zinc-100 dark:border-zinc-700 dark:bg-zinc-900 dark:hover:bg-zinc-900/70"
+                                        )}
+                                    >
+                                        <span className={cn("mb-1 flex items-center gap-1 text-[10px] font-bold uppercase tracking-wide", isMe ? "text-indigo-100" : "text-indigo-600 dark:text-indigo-400")}>
+                                            <BookOpen className="h-3 w-3" />
+                                            Question
+                                        </span>
+                                        <span className="line-clamp-3 text-xs opacity-90">{msg.questionRef.questionText}</span>
+                                    </Link>
+                                )}
+                                {msg.attachments && msg.attachments.length > 0 && (
+                                    <AttachmentGallery attachments={msg.attachments} className={cn("min-w-[200px]", msg.text && "mb-1")} />
+                                )}
+                                {msg.text && (
+                                    <MarkdownRenderer content={msg.text} className={cn("text-[14.5px]", isMe ? "text-white" : "")} />
+                                )}
                                 <div className={cn(
                                     "flex items-center justify-end gap-1 mt-0.5 select-none",
                                     isMe ? "text-indigo-100/70" : "text-zinc-400"
                                 )}>
+                                    {msg.pinned && (
+                                        <Pin className="h-2.5 w-2.5" aria-label="Pinned" />
+                                    )}
                                     {msg.editedAt && (
                                         <span className="text-[9px] italic">edited</span>
                                     )}
@@ -192,14 +238,36 @@ export function MessageBubble({
                                 onEdit={() => { }} // Sender other than me cannot edit
                                 onDelete={() => { }} // Handle report or delete if admin? MessageMenu has logic
                                 onReply={() => onReply(msg)}
+                                onReact={(emoji) => onReact(msg, emoji)}
+                                onViewThread={() => onOpenThread(msg)}
+                                onTogglePin={onTogglePin && (() => onTogglePin(msg))}
+                                isPinned={msg.pinned}
                                 messageId={msg.id}
                                 messageContent={msg.text}
+                                messageAttachments={msg.attachments}
                                 messageSenderId={msg.senderId}
                                 channelId={channelId}
                             />
                         </div>
                     )}
                 </div>
+
+                <MessageReactions
+                    reactions={msg.reactions}
+                    currentUserId={currentUserId}
+                    isMe={isMe}
+                    onToggle={(emoji) => onReact(msg, emoji)}
+                />
+
+                {replyCount > 0 && (
+                    <button
+                        onClick={() => onOpenThread(msg)}
+                        className="mt-1 flex items-center gap-1 px-1 text-[11px] font-semibold text-indigo-600 hover:underline dark:text-indigo-400"
+                    >
+                        <MessagesSquare className="h-3 w-3" />
+                        {replyCount} {replyCount === 1 ? 'reply' : 'replies'}
+                    </button>
+                )}
             </div>
         </div>
     );
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { MoreVertical, Trash, Pencil, Flag, Reply } from "lucide-react";
+import { MoreVertical, Trash, Pencil, Flag, Reply, Pin, PinOff, MessagesSquare } from "lucide-react";
 import {
     DropdownMenu,
     DropdownMenuContent,
@@ -9,6 +9,8 @@ import {
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { ReportMessageDialog } from "./ReportMessageDialog";
+import { REACTION_EMOJIS } from "./MessageReactions";
+import { ChatAttachment } from "@/lib/types";
 
 interface MessageMenuProps {
     isMe: boolean;
@@ -16,8 +18,13 @@ interface MessageMenuProps {
     onReply: () => void;
     onEdit: () => void;
     onDelete: () => void;
+    onReact: (emoji: string) => void;
+    onViewThread: () => void;
+    onTogglePin?: () => void; // Admins only
+    isPinned?: boolean;
     messageId: string;
     messageContent: string;
+    messageAttachments?: ChatAttachment[];
     messageSenderId: string;
     channelId: string;
 }
@@ -27,8 +34,13 @@ export function MessageMenu({
     onReply,
     onEdit,
     onDelete,
+    onReact,
+    onViewThread,
+    onTogglePin,
+    isPinned,
     messageId,
     messageContent,
+    messageAttachments,
     messageSenderId,
     channelId
 }: MessageMenuProps) {
@@ -41,10 +53,27 @@ export function MessageMenu({
                     <MoreVertical className="h-5 w-5 text-zinc-500 dark:text-zinc-400" strokeWidth={2.5} />
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align={isMe ? "end" : "start"}>
+                    <div className="flex gap-0.5 px-1 pb-1">
+                        {REACTION_EMOJIS.map(emoji => (
+                            <DropdownMenuItem key={emoji} onClick={() => onReact(emoji)} className="cursor-pointer px-1.5 text-lg">
+                                {emoji}
+                            </DropdownMenuItem>
+                        ))}
+                    </div>
                     <DropdownMenuItem onClick={onReply} className="gap-2 cursor-pointer">
                         <Reply className="h-4 w-4" />
                         Reply
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={onViewThread} className="gap-2 cursor-pointer">
+                        <MessagesSquare className="h-4 w-4" />
+                        View thread
+                    </DropdownMenuItem>
+                    {onTogglePin && (
+                        <DropdownMenuItem onClick={onTogglePin} className="gap-2 cursor-pointer">
+                            {isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                            {isPinned ? "Unpin" : "Pin"}
+                        </DropdownMenuItem>
+                    )}
                     {isMe ? (
                         <>
                             <DropdownMenuItem onClick={onEdit} className="gap-2 cursor-pointer">
@@ -70,6 +99,7 @@ export function MessageMenu({
                 onOpenChange={setReportOpen}
                 messageId={messageId}
                 messageContent={messageContent}
+                messageAttachments={messageAttachments}
                 messageSenderId={messageSenderId}
                 channelId={channelId}
             />
@@ -0,0 +1,44 @@
+"use client";
+
+import { Message } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+// Also listed in firestore.rules, members can only react with these
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "😮", "🎉", "🙏"];
+
+interface MessageReactionsProps {
+    reactions: Message['reactions'];
+    currentUserId?: string;
+    isMe: boolean;
+    onToggle: (emoji: string) => void;
+}
+
+// Reaction chips under a bubble; hovering one lists who reacted
+export function MessageReactions({ reactions, currentUserId, isMe, onToggle }: MessageReactionsProps) {
+    const entries = Object.entries(reactions || {})
+        .map(([emoji, users]) => ({ emoji, names: Object.values(users || {}), mine: !!currentUserId && !!users?.[currentUserId] }))
+        .filter(entry => entry.names.length > 0);
+
+    if (entries.length === 0) return null;
+
+    return (
+        <div className={cn("flex flex-wrap gap-1 mt-1", isMe ? "justify-end" : "justify-start")}>
+            {entries.map(({ emoji, names, mine }) => (
+                <button
+                    key={emoji}
+                    onClick={() => onToggle(emoji)}
+                    title={names.join(", ")}
+                    className={cn(
+                        "flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors",
+                        mine
+                            ? "border-indigo-300 bg-indigo-50 text-indigo-700 dark:border-indigo-700 dark:bg-indigo-900/40 dark:text-indigo-300"
+                            : "border-zinc-200 bg-white text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+                    )}
+                >
+                    <span>{emoji}</span>
+                    <span className="font-semibold tabular-nums">{names.length}</span>
+                </button>
+            ))}
+        </div>
+    );
+}
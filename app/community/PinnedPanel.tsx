@@ -0,0 +1,67 @@
+"use client";
+
+import { MarkdownRenderer } from "@/components/MarkdownRenderer";
+import { Message } from "@/lib/types";
+import { Pin, PinOff, X } from "lucide-react";
+
+interface PinnedPanelProps {
+    pins: Message[];
+    onClose: () => void;
+    onSelect: (message: Message) => void;
+    onUnpin?: (message: Message) => void; // Admins only
+}
+
+export function PinnedPanel({ pins, onClose, onSelect, onUnpin }: PinnedPanelProps) {
+    return (
+        <div className="absolute inset-x-0 top-0 z-30 max-h-[60%] overflow-y-auto border-b border-zinc-200 bg-white shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
+            <div className="sticky top-0 flex items-center justify-between border-b border-zinc-100 bg-white px-4 py-2 dark:border-zinc-800 dark:bg-zinc-900">
+                <h2 className="flex items-center gap-2 text-sm font-bold text-zinc-900 dark:text-zinc-100">
+                    <Pin className="h-4 w-4 text-indigo-600" />
+                    Pinned messages
+                </h2>
+                <button onClick={onClose} className="rounded-full p-1 text-zinc-500 hover:bg-zinc-100 dark:hover:bg-zinc-800">
+                    <X className="h-4 w-4" />
+                </button>
+            </div>
+
+            {pins.length === 0 ? (
+                <p className="px-4 py-6 text-center text-sm text-zinc-500">Nothing pinned in this channel yet.</p>
+            ) : (
+                <ul className="divide-y divide-zinc-100 dark:divide-zinc-800">
+                    {pins.map(msg => (
+                        <li key={msg.id} className="group flex gap-2 px-4 py-3 hover:bg-zinc-50 dark:hover:bg-zinc-800/50">
+                            <button onClick={() => onSelect(msg)} className="min-w-0 flex-1 text-left">
+                                <div className="flex items-baseline gap-2">
+                                    <span className="text-xs font-bold text-zinc-900 dark:text-zinc-100">{msg.senderName}</span>
+                                    {msg.createdAt?.seconds && (
+                                        <span className="text-[11px] text-zinc-400">
+                                            {new Date(msg.createdAt.seconds * 1000).toLocaleDateString()}
+                                        </span>
+                                    )}
+                                </div>
+                                <div className="line-clamp-3">
+                                    <MarkdownRenderer content={msg.text} className="text-sm" />
+                                </div>
+                                {msg.attachments && msg.attachments.length > 0 && (
+                                    <p className="mt-1 text-[11px] text-zinc-500">📎 {msg.attachments.length} {msg.attachments.length === 1 ? "attachment" : "attachments"}</p>
+                                )}
+                                {msg.pinnedByName && (
+                                    <p className="mt-1 text-[11px] text-zinc-400">Pinned by {msg.pinnedByName}</p>
+                                )}
+                            </button>
+                            {onUnpin && (
+                                <button
+                                    onClick={() => onUnpin(msg)}
+                                    title="Unpin"
+                                    className="self-start rounded-full p-1.5 text-zinc-400 opacity-0 transition-opacity hover:bg-zinc-100 hover:text-zinc-700 group-hover:opacity-100 dark:hover:bg-zinc-800"
+                                >
+                                    <PinOff className="h-4 w-4" />
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
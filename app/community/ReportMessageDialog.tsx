@@ -10,12 +10,14 @@ import { db } from "@/lib/firebase";
 import { addDoc, collection, serverTimestamp } from "firebase/firestore";
 import { useAuth } from "@/context/AuthContext";
 import { Loader2 } from "lucide-react";
+import { ChatAttachment } from "@/lib/types";
 
 interface ReportMessageDialogProps {
     open: boolean;
     onOpenChange: (open: boolean) => void;
     messageId: string;
     messageContent: string;
+    messageAttachments?: ChatAttachment[];
     messageSenderId: string;
     channelId: string;
 }
@@ -34,6 +36,7 @@ export function ReportMessageDialog({
     onOpenChange,
     messageId,
     messageContent,
+    messageAttachments,
     messageSenderId,
     channelId
 }: ReportMessageDialogProps) {
@@ -58,6 +61,8 @@ export function ReportMessageDialog({
                 messageId: messageId || "unknown",
                 channelId: channelId || "unknown",
                 messageContent: messageContent || "",
+                // Kept with the report so admins can review (and remove) the files
+                messageAttachments: messageAttachments || [],
                 reportedBy: user.uid,
                 reportedUser: messageSenderId || "unknown",
                 reason: reason || "Other",
@@ -88,6 +93,12 @@ export function ReportMessageDialog({
                 </DialogHeader>
 
                 <form onSubmit={handleSubmit} className="space-y-5 py-4">
+                    {messageAttachments && messageAttachments.length > 0 && (
+                        <p className="rounded-md bg-zinc-100 px-3 py-2 text-xs text-zinc-600 dark:bg-zinc-800 dark:text-zinc-300">
+                            The {messageAttachments.length === 1 ? "attachment" : `${messageAttachments.length} attachments`} on this message will be included in the report.
+                        </p>
+                    )}
+
                     <div className="space-y-2">
                         <Label htmlFor="reason" className="text-zinc-900 dark:text-zinc-200">Reason</Label>
                         <NativeSelect
@@ -1,4 +1,4 @@
-import { Channel } from "@/hooks/useBranchChat";
+import { Channel, isYearVisible } from "@/hooks/useBranchChat";
 import { cn } from "@/lib/utils";
 import { Hash, Loader2, PlusCircle, ChevronDown, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -13,9 +13,10 @@ interface SidebarProps {
     userBranch?: string;
     userYear?: string;
     className?: string;
+    unreadCounts?: Record<string, number>;
 }
 
-export function Sidebar({ channels, activeChannelId, onSelectChannel, loading, userBranch, userYear, className }: SidebarProps) {
+export function Sidebar({ channels, activeChannelId, onSelectChannel, loading, userBranch, userYear, className, unreadCounts = {} }: SidebarProps) {
     const [seeding, setSeeding] = useState(false);
     const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>({});
 
@@ -33,22 +34,10 @@ export function Sidebar({ channels, activeChannelId, onSelectChannel, loading, u
             groups[year].push(channel);
         });
 
-        // Helper to normalize year for comparison (e.g., "4th Year" vs "Fourth Year")
-        const normalize = (y: string) => {
-            if (!y) return "";
-            return y.toLowerCase().replace(/^(1st|first)\s*year/i, "1")
-                .replace(/^(2nd|second)\s*year/i, "2")
-                .replace(/^(3rd|third)\s*year/i, "3")
-                .replace(/^(4th|fourth)\s*year/i, "4");
-        };
-
-        const userYearNorm = normalize(userYear || "");
-
         // Sort groups: Put user's year first, then others sorted
         const sortedKeys = Object.keys(groups)
-            .filter(year => year !== "General") // Hide legacy General group
-            // Filter to show ONLY the user's year (handling formatting differences)
-            .filter(year => !userYear || normalize(year) === userYearNorm)
+            // Show ONLY the user's year (handling formatting differences), no legacy General group
+            .filter(year => isYearVisible(year, userYear))
             .sort((a, b) => {
                 if (a === userYear) return -1;
                 if (b === userYear) return 1;
@@ -83,6 +72,8 @@ export function Sidebar({ channels, activeChannelId, onSelectChannel, loading, u
         setSeeding(false);
     }
 
+    const formatCount = (count: number) => count > 99 ? '99+' : count;
+
     const getYearColor = (year: string) => {
         const colors: Record<string, string> = {
             "First Year": "bg-gradient-to-br from-blue-400 to-blue-600",
@@ -170,6 +161,10 @@ export function Sidebar({ channels, activeChannelId, onSelectChannel, loading, u
                                 </span>
                             </div>
 
+                            {/* Collapsed groups still show what is waiting inside */}
+                            {!expandedGroups[group.year] && group.channels.some(c => unreadCounts[c.id] > 0) && (
+                                <span className="ml-auto mr-2 h-2.5 w-2.5 rounded-full bg-indigo-600" />
+                            )}
                             {expandedGroups[group.year] ? (
                                 <ChevronDown className="h-4 w-4 text-zinc-400" />
                             ) : (
@@ -194,7 +189,12 @@ export function Sidebar({ channels, activeChannelId, onSelectChannel, loading, u
                                             "h-5 w-5 shrink-0",
                                             activeChannelId === channel.id ? "text-indigo-600 dark:text-indigo-400" : "text-zinc-400 group-hover:text-zinc-500"
                                         )} />
-                                        <span className="truncate">{channel.name}</span>
+                                        <span className={cn("truncate", unreadCounts[channel.id] > 0 && activeChannelId !== channel.id && "font-bold text-zinc-900 dark:text-zinc-100")}>{channel.name}</span>
+                                        {unreadCounts[channel.id] > 0 && activeChannelId !== channel.id && (
+                                            <span className="ml-auto flex h-5 min-w-[20px] shrink-0 items-center justify-center rounded-full bg-indigo-600 px-1.5 text-[10px] font-bold text-white">
+                                                {formatCount(unreadCounts[channel.id])}
+                                            </span>
+                                        )}
                                     </button>
                                 ))}
                             </div>
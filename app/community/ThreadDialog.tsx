@@ -0,0 +1,106 @@
+"use client";
+
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { MarkdownRenderer } from "@/components/MarkdownRenderer";
+import { Button } from "@/components/ui/button";
+import { useMessageThread } from "@/hooks/useMessageThread";
+import { Message } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { Loader2, Reply } from "lucide-react";
+import { MessageReactions } from "./MessageReactions";
+import { AttachmentGallery } from "@/components/AttachmentGallery";
+
+interface ThreadDialogProps {
+    channelId: string;
+    messageId: string | null;
+    onOpenChange: (open: boolean) => void;
+    currentUserId?: string;
+    onReply: (message: Message) => void;
+    onReact: (message: Message, emoji: string) => void;
+}
+
+export function ThreadDialog({ channelId, messageId, onOpenChange, currentUserId, onReply, onReact }: ThreadDialogProps) {
+    const { data: thread, isLoading } = useMessageThread(channelId, messageId);
+
+    const renderMessage = (msg: Message, isRoot: boolean) => (
+        <div key={msg.id} className={cn("flex gap-3 py-3", !isRoot && "border-t border-zinc-100 dark:border-zinc-800")}>
+            <Avatar className="h-8 w-8 shrink-0">
+                <AvatarImage src={msg.senderPhotoURL || ""} alt={msg.senderName} />
+                <AvatarFallback className="bg-indigo-100 text-indigo-700 text-[10px] font-bold">
+                    {msg.senderName.substring(0, 2).toUpperCase()}
+                </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0 flex-1">
+                <div className="flex items-baseline gap-2">
+                    <span className="text-sm font-bold text-zinc-900 dark:text-zinc-100">{msg.senderName}</span>
+                    {msg.createdAt?.seconds && (
+                        <span className="text-[11px] text-zinc-400">
+                            {new Date(msg.createdAt.seconds * 1000).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                        </span>
+                    )}
+                </div>
+                {!isRoot && msg.replyToId !== thread?.root?.id && msg.replyToSenderName && (
+                    <p className="text-[11px] text-zinc-500">replying to {msg.replyToSenderName}</p>
+                )}
+                {msg.attachments && msg.attachments.length > 0 && (
+                    <AttachmentGallery attachments={msg.attachments} compact className="my-1 max-w-xs" />
+                )}
+                {msg.text && <MarkdownRenderer content={msg.text} className="text-sm" />}
+                <div className="flex items-center gap-2">
+                    <MessageReactions
+                        reactions={msg.reactions}
+                        currentUserId={currentUserId}
+                        isMe={false}
+                        onToggle={(emoji) => onReact(msg, emoji)}
+                    />
+                    <button
+                        onClick={() => onReply(msg)}
+                        className="mt-1 flex items-center gap-1 text-[11px] font-semibold text-zinc-500 hover:text-indigo-600"
+                    >
+                        <Reply className="h-3 w-3" />
+                        Reply
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+
+    return (
+        <Dialog open={!!messageId} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Thread</DialogTitle>
+                    <DialogDescription>
+                        {thread ? `${thread.replies.length} ${thread.replies.length === 1 ? 'reply' : 'replies'}` : 'Loading conversation...'}
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading || !thread ? (
+                    <div className="flex justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-zinc-400" />
+                    </div>
+                ) : (
+                    <div>
+                        {thread.root ? renderMessage(thread.root, true) : (
+                            <p className="py-3 text-sm italic text-zinc-500">The original message was deleted.</p>
+                        )}
+                        {thread.replies.length === 0 ? (
+                            <div className="border-t border-zinc-100 py-6 text-center dark:border-zinc-800">
+                                <p className="mb-3 text-sm text-zinc-500">No replies yet.</p>
+                                {thread.root && (
+                                    <Button variant="outline" size="sm" className="gap-2" onClick={() => onReply(thread.root!)}>
+                                        <Reply className="h-4 w-4" />
+                                        Reply
+                                    </Button>
+                                )}
+                            </div>
+                        ) : (
+                            thread.replies.map(reply => renderMessage(reply, false))
+                        )}
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
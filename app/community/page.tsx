@@ -1,7 +1,9 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, Suspense } from "react";
+import { useSearchParams } from "next/navigation";
 import { useBranchChat } from "@/hooks/useBranchChat";
+import { useUnreadCounts } from "@/hooks/useChannelReads";
 import { useAuth } from '@/context/AuthContext';
 import { useSettings } from '@/hooks/useSettings';
 import Link from 'next/link';
@@ -11,19 +13,26 @@ import { MessageSquare, Settings } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 
-export default function CommunityPage() {
+function CommunityContent() {
+    const searchParams = useSearchParams();
+    // Deep link from a question's discussions: /community?channel=...&message=...
+    const linkedChannelId = searchParams.get('channel');
+    const linkedMessageId = searchParams.get('message');
     const { user, branch, year, isAdmin } = useAuth();
     const { settings, loading: settingsLoading } = useSettings() as any;
     const { channels, loading, requiresSetup } = useBranchChat();
+    const { counts: unreadCounts } = useUnreadCounts(channels);
     const [activeChannelId, setActiveChannelId] = useState<string | null>(null);
     const [showMobileChat, setShowMobileChat] = useState(false);
 
-    // Auto-select first channel when channels load
+    // Auto-select the linked channel, or the first one, when channels load
     useEffect(() => {
         if (channels.length > 0 && !activeChannelId) {
-            setActiveChannelId(channels[0].id);
+            const linked = channels.find(c => c.id === linkedChannelId);
+            setActiveChannelId(linked ? linked.id : channels[0].id);
+            if (linked) setShowMobileChat(true);
         }
-    }, [channels, activeChannelId]);
+    }, [channels, activeChannelId, linkedChannelId]);
 
     // 1. Check Global Chat Lock (Coming Soon)
     // We wait for settings to load to avoid flickering, or just show loading state.
@@ -114,6 +123,7 @@ export default function CommunityPage() {
                     loading={loading}
                     userBranch={branch}
                     userYear={year}
+                    unreadCounts={unreadCounts}
                     className="w-full h-full"
                 />
             </div>
@@ -127,6 +137,7 @@ export default function CommunityPage() {
                     <ChatArea
                         channel={activeChannel}
                         onBack={handleMobileBack}
+                        focusMessageId={activeChannel.id === linkedChannelId ? linkedMessageId : null}
                     />
                 ) : (
                     <div className="flex h-full items-center justify-center bg-zinc-50/50 dark:bg-zinc-900/20">
@@ -148,3 +159,11 @@ export default function CommunityPage() {
         </div>
     );
 }
+
+export default function CommunityPage() {
+    return (
+        <Suspense fallback={<div className="flex h-[calc(100vh-4rem)] items-center justify-center bg-white dark:bg-zinc-950" />}>
+            <CommunityContent />
+        </Suspense>
+    );
+}
@@ -4,12 +4,13 @@ import { useMemo, useState, useEffect, Suspense } from "react";
 import { SubjectMetadata } from "@/lib/types";
 import { useSubjects } from '@/hooks/useSubjects';
 import { useAuth } from '@/context/AuthContext';
-import { BookOpen, AlertCircle, PlayCircle, ArrowLeft, Search } from 'lucide-react';
+import { BookOpen, AlertCircle, PlayCircle, ArrowLeft, Search, FileSearch } from 'lucide-react';
 import { cn, getInitials, getColorClass } from '@/lib/utils';
 import { QuestionProgress } from '@/lib/types';
 import Link from 'next/link';
 import { useSearchParams } from 'next/navigation';
 import { EmptyState } from '@/components/EmptyState';
+import { ExpiryBanner } from '@/components/ExpiryBanner';
 
 function MyCoursesContent() {
     // const { subjects, loading } = useSubjects(); // REMOVED: Fetching all subjects is inefficient
@@ -316,19 +317,30 @@ function MyCoursesContent() {
 
                 {/* Search Input */}
                 {myCourses.length > 0 && (
-                    <div className="relative w-full md:w-72">
-                        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-zinc-400" />
-                        <input
-                            type="text"
-                            placeholder="Search your courses..."
-                            value={searchQuery}
-                            onChange={(e) => setSearchQuery(e.target.value)}
-                            className="w-full rounded-lg border border-zinc-200 bg-white pl-10 pr-4 py-2 text-sm font-medium text-zinc-700 focus:border-indigo-500 focus:outline-none dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-300"
-                        />
+                    <div className="flex w-full items-center gap-2 md:w-auto">
+                        <Link
+                            href="/search"
+                            className="flex shrink-0 items-center gap-2 rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                        >
+                            <FileSearch className="h-4 w-4" />
+                            Search Questions
+                        </Link>
+                        <div className="relative w-full md:w-72">
+                            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-zinc-400" />
+                            <input
+                                type="text"
+                                placeholder="Search your courses..."
+                                value={searchQuery}
+                                onChange={(e) => setSearchQuery(e.target.value)}
+                                className="w-full rounded-lg border border-zinc-200 bg-white pl-10 pr-4 py-2 text-sm font-medium text-zinc-700 focus:border-indigo-500 focus:outline-none dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-300"
+                            />
+                        </div>
                     </div>
                 )}
             </div>
 
+            <ExpiryBanner subjects={myCourses} className="mb-8" />
+
             {/* Navigation: Back Buttons */}
             {!searchQuery && (
                 <>
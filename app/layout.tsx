@@ -17,6 +17,7 @@ import { SpeedInsights } from "@vercel/speed-insights/next";
 import { BottomNav } from "@/components/BottomNav";
 import { GlobalDataProvider } from "@/context/GlobalDataContext";
 import { QueryProvider } from "@/components/QueryProvider";
+import { OfflineSync } from "@/components/OfflineSync";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -98,8 +99,9 @@ export default function RootLayout({
                   <Analytics />
                   <SpeedInsights />
                   <FeedbackReminder />
+                  <OfflineSync />
                   <WelcomeModalContainer />
-                  <div className="flex min-h-screen flex-col bg-white dark:bg-black pt-16">
+                  <div className="flex min-h-screen flex-col bg-white dark:bg-black pt-16 print:pt-0">
                     <Navbar />
                     <LayoutWrapper>
                       {children}
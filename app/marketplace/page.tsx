@@ -1,6 +1,8 @@
 import { adminDb } from "@/lib/firebase-admin";
 import { SubjectMetadata } from "@/lib/types";
 import { MarketplaceContent } from "@/components/MarketplaceContent";
+import { rebuildAllBundles } from "@/lib/bundleService";
+import { FIRST_YEAR_BUNDLE_ID } from "@/lib/bundlePricing";
 
 export const revalidate = 3600; // Revalidate every hour
 
@@ -14,11 +16,14 @@ async function getBundles(): Promise<any[]> {
             })) as any[];
 
             // Post-processing: Split "First Year" into Group A and Group B
-            const firstYearBundleIndex = bundles.findIndex(b => b.branch === 'First Year' || b.id === 'First Year-First Year');
+            const pricingIndex = bundles.findIndex(b => b.id === FIRST_YEAR_BUNDLE_ID);
+            const firstYearBundleIndex = pricingIndex !== -1 ? pricingIndex : bundles.findIndex(b => b.branch === 'First Year');
 
             if (firstYearBundleIndex !== -1) {
                 const fyBundle = bundles[firstYearBundleIndex];
                 const fySubjects = fyBundle.subjects || [];
+                // Checkout only reads group prices from this doc
+                const groupPrices = pricingIndex !== -1 ? bundles[pricingIndex].groupPrices : undefined;
 
                 // Group A
                 const subjectsA = fySubjects.filter((s: any) => s.group === 'A' || s.isCommon);
@@ -30,6 +35,7 @@ async function getBundles(): Promise<any[]> {
                     subjects: subjectsA,
                     title: 'First Year - Group A',
                     subjectCount: subjectsA.length,
+                    bundlePrice: groupPrices?.A ?? null,
                     totalPrice: subjectsA.reduce((sum: number, s: any) => sum + (s.price || 0), 0),
                     totalOriginalPrice: subjectsA.reduce((sum: number, s: any) => sum + (s.originalPrice || s.price || 0), 0)
                 };
@@ -44,6 +50,7 @@ async function getBundles(): Promise<any[]> {
                     subjects: subjectsB,
                     title: 'First Year - Group B',
                     subjectCount: subjectsB.length,
+                    bundlePrice: groupPrices?.B ?? null,
                     totalPrice: subjectsB.reduce((sum: number, s: any) => sum + (s.price || 0), 0),
                     totalOriginalPrice: subjectsB.reduce((sum: number, s: any) => sum + (s.originalPrice || s.price || 0), 0)
                 };
@@ -55,75 +62,12 @@ async function getBundles(): Promise<any[]> {
             return bundles;
         }
 
-        console.log("Bundles collection empty. Attempting fallback generation...");
+        console.log("Bundles collection empty. Rebuilding from subjects_metadata...");
 
-        // Fallback: Fetch metadata and aggregate on the fly (Self-healing)
-        const metaSnapshot = await adminDb.collection("subjects_metadata").get();
-        if (metaSnapshot.empty) {
-            console.log("No subjects_metadata found either.");
-            return [];
-        }
-
-        const groups: Record<string, any> = {};
-
-        metaSnapshot.docs.forEach(docSnap => {
-            const subject = { id: docSnap.id, ...docSnap.data() } as any;
-            const branch = (subject.branch || "General").trim();
-            const semester = (subject.semester || "All Semesters").trim();
-            const key = `${branch}-${semester}`;
-
-            if (!groups[key]) {
-                groups[key] = {
-                    id: key,
-                    branch,
-                    semester,
-                    subjects: [],
-                    totalPrice: 0,
-                    totalOriginalPrice: 0,
-                    subjectCount: 0
-                };
-            }
-
-            // Minimal subject data for the bundle
-            groups[key].subjects.push({
-                id: subject.id,
-                title: subject.title,
-                price: subject.price || 0,
-                originalPrice: subject.originalPrice || 0,
-                unitCount: subject.unitCount || 0,
-                questionCount: subject.questionCount || 0,
-                branch: subject.branch,
-                semester: subject.semester,
-                isElective: subject.isElective || false,
-                electiveCategory: subject.electiveCategory || "",
-                isCommon: subject.isCommon || false,
-                group: subject.group || null
-            });
-
-            groups[key].totalPrice += subject.price || 0;
-            groups[key].totalOriginalPrice += subject.originalPrice || subject.price || 0;
-            groups[key].subjectCount++;
-        });
-
-        const generatedBundles = Object.values(groups);
-
-        // Attempt to heal Firestore asynchronously (don't await strictly if not needed, but for reliability we will)
-        // Note: Batch limit is 500, we likely have fewer bundles
-        if (generatedBundles.length > 0) {
-            try {
-                const batch = adminDb.batch();
-                generatedBundles.forEach(bundle => {
-                    const safeId = bundle.id.replace(/\//g, "_");
-                    batch.set(adminDb.collection("bundles").doc(safeId), bundle);
-                });
-                await batch.commit();
-                console.log(`Self-healed ${generatedBundles.length} bundles.`);
-            } catch (e) {
-                console.error("Failed to self-heal bundles:", e);
-            }
-        }
-
-        return generatedBundles;
+        // Self-healing: same aggregation the admin rebuild uses
+        const { bundles } = await rebuildAllBundles(false);
+        console.log(`Self-healed ${bundles.length} bundles.`);
+        return bundles;
 
     } catch (error) {
         console.error("Error fetching bundles for marketplace:", error);
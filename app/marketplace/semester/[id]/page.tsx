@@ -13,12 +13,24 @@ import { useSettings } from "@/hooks/useSettings";
 
 import { cn } from "@/lib/utils";
 
-import { SubjectMetadata } from "@/lib/types";
+import { Bundle, SubjectMetadata } from "@/lib/types";
+import {
+    FIRST_YEAR_BUNDLE_ID,
+    FIRST_YEAR_BUNDLES,
+    FIRST_YEAR_SEMESTERS,
+    getDefaultSelection,
+    isInFirstYearBundle,
+    priceBundleSelection,
+    toBundleSubject,
+    validateBundleSelection,
+} from "@/lib/bundlePricing";
+import { isPurchaseActive } from "@/lib/purchaseExpiry";
 
 interface BundleData {
     branch: string;
     semester: string;
     subjects: SubjectMetadata[];
+    bundlePrice?: Bundle['bundlePrice'];
 }
 
 export default function SemesterBundlePage() {
@@ -27,9 +39,11 @@ export default function SemesterBundlePage() {
     // const { subjects, loading } = useSubjects(); // REMOVED
     const [bundleData, setBundleData] = useState<BundleData | null>(null);
     const [loading, setLoading] = useState(true);
-    const { user, purchasedCourseIds } = useAuth();
+    const { user, purchasedCourseIds, purchases } = useAuth();
     const { settings } = useSettings() as any; // distinct hook call, temporary cast if needed based on previous context
     const [viewingCategory, setViewingCategory] = useState<string | null>(null);
+    // null until the student changes an elective, the default selection applies until then
+    const [selection, setSelection] = useState<string[] | null>(null);
 
     // Decode ID: "Branch-Semester"
     const bundleId = decodeURIComponent(params.id as string);
@@ -42,7 +56,7 @@ export default function SemesterBundlePage() {
                 const db = getFirestore();
 
                 // Special handling for synthetic 1st Year bundles
-                if (bundleId === 'FirstYear-GroupA' || bundleId === 'FirstYear-GroupB' || bundleId === 'FirstYear-General') {
+                if (bundleId in FIRST_YEAR_BUNDLES) {
                     // Fetch all 1st year subjects
                     // We need subjects from Sem 1, Sem 2, or First Year
                     // OR just fetch all and filter client side if the dataset is small (subjects_metadata)
@@ -51,30 +65,26 @@ export default function SemesterBundlePage() {
 
                     const q = query(
                         collection(db, "subjects_metadata"),
-                        where('semester', 'in', ['Semester 1', 'Semester 2', 'First Year'])
+                        where('semester', 'in', FIRST_YEAR_SEMESTERS)
                     );
 
-                    const snap = await getDocs(q);
+                    // Group prices live on the FIRST_YEAR_BUNDLE_ID doc, same as checkout reads them
+                    const [snap, pricingSnap] = await Promise.all([
+                        getDocs(q),
+                        getDoc(doc(db, "bundles", FIRST_YEAR_BUNDLE_ID)),
+                    ]);
                     const allFirstYear = snap.docs.map(d => ({ id: d.id, ...d.data() } as SubjectMetadata));
 
-                    let targetGroup = null;
-                    if (bundleId === 'FirstYear-GroupA') targetGroup = 'A';
-                    else if (bundleId === 'FirstYear-GroupB') targetGroup = 'B';
-
-                    const validSubjects = allFirstYear.filter(s => {
-                        if (targetGroup) {
-                            return s.group === targetGroup || s.isCommon;
-                        } else {
-                            // General: Not A, Not B, Not Common
-                            return s.group !== 'A' && s.group !== 'B' && !s.isCommon;
-                        }
-                    });
+                    const targetGroup = FIRST_YEAR_BUNDLES[bundleId];
+                    const validSubjects = allFirstYear.filter(s => isInFirstYearBundle({ group: s.group || null, isCommon: s.isCommon }, targetGroup));
+                    const groupPrices = (pricingSnap.data() as Bundle | undefined)?.groupPrices;
 
                     if (validSubjects.length > 0) {
                         setBundleData({
                             branch: targetGroup ? `First Year - Group ${targetGroup}` : 'First Year',
                             semester: 'First Year',
-                            subjects: validSubjects
+                            subjects: validSubjects,
+                            bundlePrice: targetGroup ? groupPrices?.[targetGroup] ?? null : null,
                         });
                         return; // Done
                     }
@@ -105,18 +115,32 @@ export default function SemesterBundlePage() {
     const branch = bundleData?.branch;
     const semester = bundleData?.semester;
 
-    const totalPrice = bundleSubjects.reduce((sum, s) => sum + (s.price || 0), 0);
-    const totalOriginalPrice = bundleSubjects.reduce((sum, s) => sum + (s.originalPrice || s.price || 0), 0);
-    const courseIds = bundleSubjects.map(s => s.id);
-
-    // Check if user already owns ALL courses in this bundle
-    const isFullyOwned = courseIds.length > 0 && courseIds.every(id => purchasedCourseIds.includes(id));
-
-    // Calculate price only for unowned courses
-    const unownedSubjects = bundleSubjects.filter(s => !purchasedCourseIds.includes(s.id));
-    const bundlePrice = unownedSubjects.reduce((sum, s) => sum + (s.price || 0), 0);
-    const bundleOriginalPrice = unownedSubjects.reduce((sum, s) => sum + (s.originalPrice || s.price || 0), 0);
-    const unownedCourseIds = unownedSubjects.map(s => s.id);
+    // Same rules and pricing as create-order, which re-checks everything server-side
+    const pricingSubjects = useMemo(() => bundleSubjects.map(s => toBundleSubject(s.id, s)), [bundleSubjects]);
+    // Expired subjects count as not owned, so they can be renewed through the bundle
+    const ownedIds = useMemo(() => purchasedCourseIds.filter(id => isPurchaseActive(purchases?.[id])), [purchasedCourseIds, purchases]);
+    const selectedIds = selection ?? getDefaultSelection(pricingSubjects, ownedIds);
+    const selectionCheck = validateBundleSelection(pricingSubjects, selectedIds);
+    const quote = priceBundleSelection({ subjects: pricingSubjects, bundlePrice: bundleData?.bundlePrice }, selectedIds, ownedIds);
+
+    // Check if user already owns every chosen subject
+    const isFullyOwned = selectedIds.length > 0 && selectedIds.every(id => ownedIds.includes(id));
+
+    // Price only covers the chosen subjects that aren't owned yet
+    const bundlePrice = quote.amount;
+    const bundleOriginalPrice = bundleSubjects
+        .filter(s => quote.items.some(item => item.id === s.id))
+        .reduce((sum, s) => sum + (s.originalPrice || s.price || 0), 0);
+
+    const chooseElective = (subject: SubjectMetadata) => {
+        setSelection([
+            ...selectedIds.filter(id => {
+                const current = bundleSubjects.find(s => s.id === id);
+                return !(current?.isElective && current.electiveCategory === subject.electiveCategory);
+            }),
+            subject.id,
+        ]);
+    };
 
     // Previous implementation returned early here
     if (loading) {
@@ -212,14 +236,33 @@ export default function SemesterBundlePage() {
                                     /* 2. View Specific Elective Category */
                                     bundleSubjects
                                         .filter(s => s.isElective && s.electiveCategory === viewingCategory)
-                                        .map(subject => (
-                                            <SubjectCard
-                                                key={subject.id}
-                                                subject={subject}
-                                                href={`/marketplace/${subject.id}`}
-                                                actionLabel="View Details"
-                                            />
-                                        ))
+                                        .map(subject => {
+                                            const isChosen = selectedIds.includes(subject.id);
+                                            return (
+                                                <div key={subject.id} className="flex flex-col gap-2">
+                                                    <SubjectCard
+                                                        subject={subject}
+                                                        href={`/marketplace/${subject.id}`}
+                                                        actionLabel="View Details"
+                                                    />
+                                                    {!isFullyOwned || isChosen ? (
+                                                        <button
+                                                            onClick={() => chooseElective(subject)}
+                                                            disabled={isChosen}
+                                                            className={cn(
+                                                                "flex items-center justify-center gap-2 rounded-xl border px-4 py-2 text-sm font-semibold transition-colors",
+                                                                isChosen
+                                                                    ? "border-indigo-600 bg-indigo-50 text-indigo-700 dark:border-indigo-500 dark:bg-indigo-900/20 dark:text-indigo-300"
+                                                                    : "border-zinc-200 text-zinc-700 hover:border-indigo-500 hover:text-indigo-600 dark:border-zinc-800 dark:text-zinc-300"
+                                                            )}
+                                                        >
+                                                            {isChosen && <CheckCircle2 className="h-4 w-4" />}
+                                                            {isChosen ? 'Chosen for your bundle' : 'Choose this elective'}
+                                                        </button>
+                                                    ) : null}
+                                                </div>
+                                            );
+                                        })
                                 )
                             ) : (
                                 /* View: Top Level (Core + Folders) */
@@ -278,6 +321,9 @@ export default function SemesterBundlePage() {
                                                 <p className="mt-2 text-sm text-zinc-500 dark:text-zinc-400">
                                                     {bundleSubjects.filter(s => s.electiveCategory === category).length} Options
                                                 </p>
+                                                <p className="mt-1 text-xs font-medium text-indigo-600 dark:text-indigo-400">
+                                                    {bundleSubjects.find(s => s.isElective && s.electiveCategory === category && selectedIds.includes(s.id))?.title || 'Choose one'}
+                                                </p>
                                             </div>
                                             <div className="flex w-full items-center justify-center border-t border-zinc-200 bg-white py-3 text-sm font-medium text-indigo-600 transition-colors group-hover:bg-indigo-50 dark:border-zinc-800 dark:bg-zinc-900 dark:text-indigo-400 dark:group-hover:bg-zinc-800">
                                                 View Electives
@@ -315,6 +361,12 @@ export default function SemesterBundlePage() {
                                     </div>
                                 ) : (
                                     <>
+                                        {quote.bundleDiscount > 0 && (
+                                            <div className="flex items-center justify-between text-sm">
+                                                <span className="text-zinc-500 dark:text-zinc-400">Bundle discount</span>
+                                                <span className="font-medium text-green-600 dark:text-green-400">−₹{quote.bundleDiscount}</span>
+                                            </div>
+                                        )}
                                         <div className="flex items-center justify-between">
                                             <span className="text-base font-medium text-zinc-900 dark:text-zinc-100">Total Price</span>
                                             <div className="flex items-baseline gap-2">
@@ -335,9 +387,15 @@ export default function SemesterBundlePage() {
                                         <BookOpen className="h-5 w-5" />
                                         Go to Bundle
                                     </Link>
+                                ) : !selectionCheck.valid ? (
+                                    <p className="rounded-lg bg-amber-50 px-4 py-3 text-sm text-amber-700 dark:bg-amber-900/20 dark:text-amber-300">
+                                        {selectionCheck.reason}
+                                    </p>
                                 ) : (
                                     <PaymentButton
-                                        courseIds={unownedCourseIds}
+                                        key={selectedIds.join(',')}
+                                        courseIds={selectedIds}
+                                        bundleId={bundleId}
                                         amount={bundlePrice}
                                         courseName={`${branch} - ${semester} Bundle`}
                                     />
@@ -377,9 +435,13 @@ export default function SemesterBundlePage() {
                                 <BookOpen className="h-4 w-4" />
                                 Go to Bundle
                             </Link>
+                        ) : !selectionCheck.valid ? (
+                            <p className="text-sm text-amber-700 dark:text-amber-300">{selectionCheck.reason}</p>
                         ) : (
                             <PaymentButton
-                                courseIds={unownedCourseIds}
+                                key={selectedIds.join(',')}
+                                courseIds={selectedIds}
+                                bundleId={bundleId}
                                 amount={bundlePrice}
                                 courseName={`${branch} - ${semester} Bundle`}
                                 className="w-full py-3"
@@ -2,7 +2,7 @@
 
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { User, Mail, LogOut, Settings, GraduationCap, Calendar } from 'lucide-react';
+import { User, Mail, LogOut, Settings, GraduationCap, Calendar, Receipt, ChevronRight } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 import Link from 'next/link';
 
@@ -77,6 +77,20 @@ export default function ProfilePage() {
                     </div>
                 </div>
 
+                <Link
+                    href="/purchases"
+                    className="flex items-center justify-between rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm transition-colors hover:border-indigo-500 dark:border-zinc-800 dark:bg-zinc-900 dark:hover:border-indigo-500"
+                >
+                    <div className="flex items-center gap-3">
+                        <Receipt className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+                        <div>
+                            <h3 className="font-semibold text-zinc-900 dark:text-zinc-100">My Purchases</h3>
+                            <p className="text-sm text-zinc-500 dark:text-zinc-400">Orders, payment status and receipts</p>
+                        </div>
+                    </div>
+                    <ChevronRight className="h-5 w-5 text-zinc-400" />
+                </Link>
+
                 {/* Support & Policies Links */}
                 <div className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
                     <h3 className="mb-6 text-lg font-semibold text-zinc-900 dark:text-zinc-100">
@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { ArrowLeft, Copy, Receipt } from 'lucide-react';
+import { toast } from 'sonner';
+import { db } from '@/lib/firebase';
+import { useAuth } from '@/context/AuthContext';
+import { Order } from '@/lib/types';
+import { EmptyState } from '@/components/EmptyState';
+import { OrderStatusBadge } from '@/components/OrderStatusBadge';
+
+export default function PurchasesPage() {
+    const { user, loading: authLoading, checkAccess } = useAuth();
+    const router = useRouter();
+    const [orders, setOrders] = useState<Order[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        if (!authLoading && !user) {
+            router.push('/login');
+        }
+    }, [user, authLoading, router]);
+
+    useEffect(() => {
+        if (!user) return;
+
+        const fetchOrders = async () => {
+            try {
+                // Sorted client-side to avoid a composite index on userId + createdAt
+                const snapshot = await getDocs(query(collection(db, 'orders'), where('userId', '==', user.uid)));
+                const data = snapshot.docs.map(d => ({ id: d.id, ...d.data() } as Order));
+                setOrders(data.sort((a, b) => b.createdAt - a.createdAt));
+            } catch (error) {
+                console.error('Error fetching orders:', error);
+                toast.error('Failed to load your purchases');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchOrders();
+    }, [user]);
+
+    const copySupportDetails = (order: Order) => {
+        const details = [`Order: ${order.id}`, order.paymentId ? `Payment: ${order.paymentId}` : '', `Status: ${order.status}`]
+            .filter(Boolean)
+            .join('\n');
+        navigator.clipboard.writeText(details);
+        toast.success('Order details copied');
+    };
+
+    if (authLoading || !user || loading) {
+        return <div className="flex h-screen items-center justify-center text-zinc-500">Loading...</div>;
+    }
+
+    return (
+        <div className="container mx-auto max-w-3xl px-4 py-12 space-y-6">
+            <div>
+                <Link
+                    href="/profile"
+                    className="mb-6 inline-flex items-center gap-2 text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+                >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back to Profile
+                </Link>
+                <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">My Purchases</h1>
+                <p className="mt-2 text-sm text-zinc-500 dark:text-zinc-400">
+                    Paid but can&apos;t access a course? Copy the order details and send them to support.
+                </p>
+            </div>
+
+            {orders.length === 0 ? (
+                <EmptyState
+                    icon={Receipt}
+                    title="No purchases yet"
+                    description="Orders you place in the marketplace will show up here."
+                    actionLabel="Browse Marketplace"
+                    actionHref="/marketplace"
+                />
+            ) : (
+                <div className="space-y-4">
+                    {orders.map(order => (
+                        <div key={order.id} className="rounded-xl border border-zinc-200 bg-white p-5 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+                            <div className="flex flex-wrap items-start justify-between gap-3">
+                                <div>
+                                    <div className="flex items-center gap-2">
+                                        <OrderStatusBadge status={order.status} />
+                                        <span className="text-xs text-zinc-400">{new Date(order.createdAt).toLocaleString()}</span>
+                                    </div>
+                                    <p className="mt-2 text-lg font-bold text-zinc-900 dark:text-zinc-100">₹{order.amount}</p>
+                                    {order.coupon && (
+                                        <p className="text-xs text-zinc-500 dark:text-zinc-400">Coupon {order.coupon}</p>
+                                    )}
+                                </div>
+                                <button
+                                    onClick={() => copySupportDetails(order)}
+                                    className="flex items-center gap-2 rounded-lg border border-zinc-200 px-3 py-1.5 text-xs font-medium text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                                >
+                                    <Copy className="h-3.5 w-3.5" />
+                                    Copy for support
+                                </button>
+                            </div>
+
+                            <ul className="mt-4 space-y-2 border-t border-zinc-100 pt-4 dark:border-zinc-800">
+                                {order.courseIds.map((courseId, i) => (
+                                    <li key={courseId} className="flex items-center justify-between gap-2 text-sm">
+                                        <span className="text-zinc-700 dark:text-zinc-300">{order.courseTitles?.[i] || courseId}</span>
+                                        {order.status === 'enrolled' && checkAccess(courseId) && (
+                                            <Link href={`/study/${courseId}`} className="text-xs font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">
+                                                Study
+                                            </Link>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+
+                            {order.status === 'failed' && order.failureReason && (
+                                <p className="mt-3 text-xs text-red-600 dark:text-red-400">{order.failureReason}</p>
+                            )}
+                            {order.status === 'paid' && (
+                                <p className="mt-3 text-xs text-blue-600 dark:text-blue-400">
+                                    Payment received, enrollment is being completed. Refresh in a minute.
+                                </p>
+                            )}
+                            <p className="mt-3 font-mono text-[11px] text-zinc-400">
+                                {order.id}{order.paymentId ? ` • ${order.paymentId}` : ''}
+                            </p>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
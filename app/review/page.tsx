@@ -0,0 +1,331 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import dynamic from "next/dynamic";
+import { ArrowLeft, BrainCircuit, CheckCircle2, ChevronDown, ChevronUp, ExternalLink, PlayCircle } from "lucide-react";
+import { doc, getDoc } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Question, QuestionStatus, SubjectMetadata, Unit } from "@/lib/types";
+import { useReviewQueue, ReviewItem } from "@/hooks/useReviewQueue";
+import { useAuth } from "@/context/AuthContext";
+import { scheduleReview } from "@/lib/spacedRepetition";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { EmptyState } from "@/components/EmptyState";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+const MarkdownRenderer = dynamic(() => import('@/components/MarkdownRenderer').then(mod => mod.MarkdownRenderer), {
+    loading: () => <Skeleton className="h-20 w-full" />,
+});
+
+interface LoadedReviewQuestion {
+    item: ReviewItem;
+    question: Question;
+    subjectTitle: string;
+    unitId: string;
+    unitTitle: string;
+}
+
+const GRADES: { status: Exclude<QuestionStatus, null>; label: string; className: string }[] = [
+    { status: 'hard', label: 'Hard', className: "border-red-200 bg-red-50 text-red-700 hover:bg-red-100 dark:border-red-900/50 dark:bg-red-900/20 dark:text-red-300" },
+    { status: 'medium', label: 'Medium', className: "border-orange-200 bg-orange-50 text-orange-700 hover:bg-orange-100 dark:border-orange-900/50 dark:bg-orange-900/20 dark:text-orange-300" },
+    { status: 'easy', label: 'Easy', className: "border-green-200 bg-green-50 text-green-700 hover:bg-green-100 dark:border-green-900/50 dark:bg-green-900/20 dark:text-green-300" },
+];
+
+export default function ReviewPage() {
+    const router = useRouter();
+    const { user, loading: authLoading } = useAuth();
+    const { dueItems, dueCount, gradeQuestion } = useReviewQueue();
+
+    // The queue is snapshotted when a session starts, graded items then leave `dueItems` on their own
+    const [session, setSession] = useState<ReviewItem[] | null>(null);
+    const [position, setPosition] = useState(0);
+    const [current, setCurrent] = useState<LoadedReviewQuestion | null>(null);
+    const [loadingQuestion, setLoadingQuestion] = useState(false);
+    const [revealed, setRevealed] = useState(false);
+    const [solution, setSolution] = useState<string | null>(null);
+    const [loadingSolution, setLoadingSolution] = useState(false);
+    const [grading, setGrading] = useState(false);
+    const [results, setResults] = useState<Record<string, number>>({ easy: 0, medium: 0, hard: 0 });
+
+    // Subject metadata and unit docs are fetched lazily, once per session
+    const subjectCache = useRef<Record<string, SubjectMetadata | null>>({});
+    const unitCache = useRef<Record<string, Unit>>({});
+
+    useEffect(() => {
+        if (!authLoading && !user) {
+            router.push('/login');
+        }
+    }, [user, authLoading, router]);
+
+    const locateQuestion = async (item: ReviewItem): Promise<LoadedReviewQuestion | null> => {
+        if (!(item.subjectId in subjectCache.current)) {
+            const metaSnap = await getDoc(doc(db, "subjects", item.subjectId));
+            subjectCache.current[item.subjectId] = metaSnap.exists()
+                ? ({ id: metaSnap.id, ...metaSnap.data() } as SubjectMetadata)
+                : null;
+        }
+
+        const metadata = subjectCache.current[item.subjectId];
+        if (!metadata) return null;
+
+        for (const unitSummary of metadata.units || []) {
+            const cacheKey = `${item.subjectId}/${unitSummary.id}`;
+            if (!unitCache.current[cacheKey]) {
+                const unitSnap = await getDoc(doc(db, "subjects", item.subjectId, "units", unitSummary.id));
+                if (!unitSnap.exists()) continue;
+                unitCache.current[cacheKey] = unitSnap.data() as Unit;
+            }
+
+            const question = unitCache.current[cacheKey].questions?.find(q => q.id === item.questionId);
+            if (question) {
+                return {
+                    item,
+                    question,
+                    subjectTitle: metadata.title,
+                    unitId: unitSummary.id,
+                    unitTitle: unitSummary.title,
+                };
+            }
+        }
+
+        return null;
+    };
+
+    // Loads the question at `index`, skipping over questions that were removed from their subject
+    const loadPosition = async (queue: ReviewItem[], index: number) => {
+        setRevealed(false);
+        setSolution(null);
+        setLoadingQuestion(true);
+
+        try {
+            let next = index;
+            while (next < queue.length) {
+                const loaded = await locateQuestion(queue[next]);
+                if (loaded) {
+                    setCurrent(loaded);
+                    setPosition(next);
+                    return;
+                }
+                next++;
+            }
+            setCurrent(null);
+            setPosition(queue.length);
+        } catch (err) {
+            console.error("Error loading review question:", err);
+            setCurrent(null);
+        } finally {
+            setLoadingQuestion(false);
+        }
+    };
+
+    const startSession = () => {
+        const queue = [...dueItems];
+        setSession(queue);
+        setResults({ easy: 0, medium: 0, hard: 0 });
+        loadPosition(queue, 0);
+    };
+
+    const handleReveal = async () => {
+        if (!current) return;
+        setRevealed(true);
+
+        const { question } = current;
+        if (question.solution) {
+            setSolution(question.solution);
+            return;
+        }
+        if (!question.hasSolution) return;
+
+        setLoadingSolution(true);
+        try {
+            const solutionSnap = await getDoc(doc(db, "subjects", current.item.subjectId, "solutions", question.id));
+            setSolution(solutionSnap.exists() ? solutionSnap.data().text : null);
+        } catch (err) {
+            console.error("Error fetching solution:", err);
+        } finally {
+            setLoadingSolution(false);
+        }
+    };
+
+    const handleGrade = async (status: Exclude<QuestionStatus, null>) => {
+        if (!current || !session) return;
+
+        setGrading(true);
+        try {
+            await gradeQuestion(current.item.subjectId, current.item.questionId, status);
+            setResults(prev => ({ ...prev, [status]: prev[status] + 1 }));
+            await loadPosition(session, position + 1);
+        } catch {
+            // gradeQuestion already logged it, keep the card so the student can retry
+        } finally {
+            setGrading(false);
+        }
+    };
+
+    if (authLoading || !user) {
+        return (
+            <div className="space-y-4">
+                <div className="h-8 w-48 animate-pulse rounded-lg bg-zinc-200 dark:bg-zinc-800" />
+                <div className="h-64 animate-pulse rounded-2xl bg-zinc-100 dark:bg-zinc-900/50" />
+            </div>
+        );
+    }
+
+    const isFinished = session !== null && !loadingQuestion && position >= session.length;
+    const reviewedCount = results.easy + results.medium + results.hard;
+
+    return (
+        <div className="container mx-auto max-w-3xl px-1 py-8 space-y-8 md:px-4">
+            <div>
+                <Link
+                    href="/courses"
+                    className="mb-6 inline-flex items-center gap-2 text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+                >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back to My Courses
+                </Link>
+                <div className="flex items-center justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">Due for Review</h1>
+                        <p className="mt-2 text-sm text-zinc-500 dark:text-zinc-400">
+                            Questions from all your courses that are scheduled for revision today.
+                        </p>
+                    </div>
+                    {session && !isFinished && (
+                        <span className="rounded-full bg-indigo-50 px-3 py-1 text-sm font-semibold text-indigo-600 dark:bg-indigo-900/30 dark:text-indigo-400">
+                            {Math.min(position + 1, session.length)} / {session.length}
+                        </span>
+                    )}
+                </div>
+            </div>
+
+            {!session && (
+                dueCount === 0 ? (
+                    <EmptyState
+                        icon={CheckCircle2}
+                        title="You're all caught up"
+                        description="No questions are due today. Mark questions as done on the study page and they will come back here when it's time to revise."
+                        actionLabel="Go to My Courses"
+                        actionHref="/courses"
+                    />
+                ) : (
+                    <div className="flex flex-col items-center rounded-2xl border border-zinc-200 bg-white p-8 text-center shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+                        <div className="mb-4 rounded-full bg-indigo-50 p-4 dark:bg-indigo-900/30">
+                            <BrainCircuit className="h-8 w-8 text-indigo-600 dark:text-indigo-400" />
+                        </div>
+                        <p className="text-4xl font-bold text-zinc-900 dark:text-zinc-100">{dueCount}</p>
+                        <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+                            {dueCount === 1 ? "question is" : "questions are"} due across {new Set(dueItems.map(i => i.subjectId)).size} {new Set(dueItems.map(i => i.subjectId)).size === 1 ? "subject" : "subjects"}
+                        </p>
+                        <button
+                            onClick={startSession}
+                            className="mt-6 flex items-center gap-2 rounded-lg bg-indigo-600 px-5 py-2.5 text-sm font-medium text-white shadow-sm transition-colors hover:bg-indigo-500"
+                        >
+                            <PlayCircle className="h-4 w-4" />
+                            Start Review
+                        </button>
+                    </div>
+                )
+            )}
+
+            {session && loadingQuestion && (
+                <div className="space-y-4 rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+                    <Skeleton className="h-4 w-40" />
+                    <Skeleton className="h-24 w-full" />
+                </div>
+            )}
+
+            {session && !loadingQuestion && current && !isFinished && (
+                <div className="space-y-4 rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="text-xs font-medium uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
+                            {current.subjectTitle} • {current.unitTitle}
+                        </p>
+                        <Link
+                            href={`/study/${current.item.subjectId}?unit=${current.unitId}&question=${current.question.id}`}
+                            className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-500 dark:text-indigo-400"
+                        >
+                            <ExternalLink className="h-3 w-3" />
+                            Open in subject
+                        </Link>
+                    </div>
+
+                    <div className="space-y-4">
+                        {current.question.text.split('@').map((text, index) => (
+                            <div key={index} className={cn("prose prose-zinc max-w-none dark:prose-invert", index > 0 && "border-t border-zinc-100 pt-3 dark:border-zinc-800")}>
+                                {index > 0 && <span className="mb-1 block text-xs font-medium uppercase text-zinc-400">OR</span>}
+                                <ErrorBoundary label="review question">
+                                    <MarkdownRenderer content={text.split('/&').join('  \n').trim()} />
+                                </ErrorBoundary>
+                            </div>
+                        ))}
+                    </div>
+
+                    {!revealed ? (
+                        <button
+                            onClick={handleReveal}
+                            className="flex items-center gap-1.5 rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-xs font-medium text-zinc-600 transition-all hover:bg-zinc-50 hover:text-zinc-900 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-400 dark:hover:bg-zinc-800 dark:hover:text-zinc-100"
+                        >
+                            <ChevronDown className="h-3.5 w-3.5" />
+                            Reveal Solution
+                        </button>
+                    ) : (
+                        <div className="overflow-hidden rounded-xl border border-zinc-200 bg-zinc-50 p-6 dark:border-zinc-800 dark:bg-zinc-900/50">
+                            <div className="mb-2 flex items-center gap-1.5 text-xs font-medium text-zinc-500">
+                                <ChevronUp className="h-3.5 w-3.5" />
+                                Solution
+                            </div>
+                            {loadingSolution ? (
+                                <Skeleton className="h-20 w-full" />
+                            ) : solution ? (
+                                <div className="prose prose-zinc max-w-none dark:prose-invert">
+                                    <ErrorBoundary label="review solution">
+                                        <MarkdownRenderer content={solution} />
+                                    </ErrorBoundary>
+                                </div>
+                            ) : (
+                                <p className="text-sm text-zinc-500 dark:text-zinc-400">No solution available for this question yet. Grade yourself from memory.</p>
+                            )}
+                        </div>
+                    )}
+
+                    <div className="border-t border-zinc-100 pt-4 dark:border-zinc-800">
+                        <p className="mb-3 text-xs font-medium text-zinc-500 dark:text-zinc-400">How well did you remember it?</p>
+                        <div className="grid grid-cols-3 gap-2">
+                            {GRADES.map(({ status, label, className }) => (
+                                <button
+                                    key={status}
+                                    onClick={() => handleGrade(status)}
+                                    disabled={grading}
+                                    className={cn(
+                                        "flex flex-col items-center rounded-lg border px-3 py-2 text-sm font-medium transition-colors disabled:cursor-wait disabled:opacity-60",
+                                        className
+                                    )}
+                                >
+                                    {label}
+                                    <span className="text-[10px] font-normal opacity-80">
+                                        {scheduleReview(current.item.progress, status).interval}d
+                                    </span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {isFinished && (
+                <EmptyState
+                    icon={CheckCircle2}
+                    title="Review complete"
+                    description={`You reviewed ${reviewedCount} ${reviewedCount === 1 ? "question" : "questions"}: ${results.easy} easy, ${results.medium} medium, ${results.hard} hard.`}
+                    actionLabel={dueCount > 0 ? `Review ${dueCount} more` : "Back to My Courses"}
+                    actionHref={dueCount > 0 ? undefined : "/courses"}
+                    onAction={dueCount > 0 ? startSession : undefined}
+                />
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, FileSearch, Search } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { useSearchIndex } from "@/hooks/useSearchIndex";
+import { searchIndexes } from "@/lib/searchIndex";
+import { EmptyState } from "@/components/EmptyState";
+import { cn } from "@/lib/utils";
+
+const MATCH_LABELS = {
+    question: "Question",
+    topic: "Unit topic",
+    solution: "Solution",
+} as const;
+
+function SearchContent() {
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const { user, loading: authLoading, purchasedCourseIds, checkAccess } = useAuth();
+
+    const [query, setQuery] = useState(searchParams.get('q') || '');
+    const [subjectFilter, setSubjectFilter] = useState(searchParams.get('subject') || 'all');
+
+    useEffect(() => {
+        if (!authLoading && !user) {
+            router.push('/login');
+        }
+    }, [user, authLoading, router]);
+
+    // Only subjects the student can currently open are searchable
+    const ownedSubjectIds = useMemo(
+        () => purchasedCourseIds.filter(id => checkAccess(id)),
+        [purchasedCourseIds, checkAccess]
+    );
+
+    const { indexes, indexing, indexedCount, totalCount } = useSearchIndex(ownedSubjectIds);
+
+    const results = useMemo(() => {
+        const scoped = subjectFilter === 'all' ? indexes : indexes.filter(i => i.subjectId === subjectFilter);
+        return searchIndexes(scoped, query);
+    }, [indexes, query, subjectFilter]);
+
+    const sortedIndexes = useMemo(
+        () => [...indexes].sort((a, b) => a.subjectTitle.localeCompare(b.subjectTitle)),
+        [indexes]
+    );
+
+    if (authLoading || !user) {
+        return <div className="h-48 animate-pulse rounded-2xl bg-zinc-100 dark:bg-zinc-900/50" />;
+    }
+
+    return (
+        <div className="container mx-auto max-w-4xl px-1 py-8 space-y-6 md:px-4">
+            <div>
+                <Link
+                    href="/courses"
+                    className="mb-6 inline-flex items-center gap-2 text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+                >
+                    <ArrowLeft className="h-4 w-4" />
+                    Back to My Courses
+                </Link>
+                <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">Search Questions</h1>
+                <p className="mt-2 text-sm text-zinc-500 dark:text-zinc-400">
+                    Search question text, unit topics and solutions across all your courses.
+                </p>
+            </div>
+
+            <div className="flex flex-col gap-3 md:flex-row">
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-zinc-400" />
+                    <input
+                        type="text"
+                        autoFocus
+                        placeholder='e.g. "Gantt chart"'
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        className="w-full rounded-lg border border-zinc-200 bg-white py-2 pl-10 pr-4 text-sm font-medium text-zinc-700 focus:border-indigo-500 focus:outline-none dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-300"
+                    />
+                </div>
+                <select
+                    value={subjectFilter}
+                    onChange={(e) => setSubjectFilter(e.target.value)}
+                    className="rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm dark:border-zinc-800 dark:bg-zinc-900 md:w-64"
+                >
+                    <option value="all">All my subjects</option>
+                    {sortedIndexes.map(index => (
+                        <option key={index.subjectId} value={index.subjectId}>{index.subjectTitle}</option>
+                    ))}
+                </select>
+            </div>
+
+            {indexing && (
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                    Updating search index… {indexedCount} / {totalCount} subjects
+                </p>
+            )}
+
+            {ownedSubjectIds.length === 0 ? (
+                <EmptyState
+                    icon={FileSearch}
+                    title="Nothing to search yet"
+                    description="Search works across the subjects you have enrolled in."
+                    actionLabel="Browse Marketplace"
+                    actionHref="/marketplace"
+                />
+            ) : query.trim().length < 2 ? null : results.length === 0 ? (
+                <div className="py-12 text-center">
+                    <p className="text-zinc-500 dark:text-zinc-400">No questions match &quot;{query}&quot;.</p>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    <p className="text-sm font-medium text-zinc-500 dark:text-zinc-400">{results.length} results</p>
+                    {results.map(({ document, matchedIn, snippet }) => (
+                        <Link
+                            key={`${document.subjectId}-${document.questionId}`}
+                            href={`/study/${document.subjectId}?unit=${document.unitId}&question=${document.questionId}`}
+                            className="block rounded-xl border border-zinc-200 bg-white p-4 transition-all hover:border-indigo-500 hover:shadow-md dark:border-zinc-800 dark:bg-zinc-900 dark:hover:border-indigo-500"
+                        >
+                            <div className="mb-1 flex flex-wrap items-center justify-between gap-2">
+                                <p className="text-xs font-medium uppercase tracking-wider text-zinc-500 dark:text-zinc-400">
+                                    {document.subjectTitle} • {document.unitTitle}
+                                </p>
+                                <span className={cn(
+                                    "rounded-md px-2 py-0.5 text-[10px] font-semibold",
+                                    matchedIn === 'solution'
+                                        ? "bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300"
+                                        : "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400"
+                                )}>
+                                    {MATCH_LABELS[matchedIn]}
+                                </span>
+                            </div>
+                            <p className="line-clamp-2 text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                                {document.questionText}
+                            </p>
+                            {matchedIn !== 'question' && (
+                                <p className="mt-1 line-clamp-2 text-xs text-zinc-500 dark:text-zinc-400">{snippet}</p>
+                            )}
+                        </Link>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+export default function SearchPage() {
+    return (
+        <Suspense fallback={<div className="min-h-screen bg-zinc-50 dark:bg-black" />}>
+            <SearchContent />
+        </Suspense>
+    );
+}
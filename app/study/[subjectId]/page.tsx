@@ -1,19 +1,26 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { ArrowLeft, BookOpen, AlertCircle, Plus, ListChecks, Settings, Download, Star, ChevronDown, ChevronUp } from "lucide-react";
-import { doc, getDoc, updateDoc, setDoc } from "firebase/firestore"; // Added updateDoc, setDoc
+import { ArrowLeft, BookOpen, AlertCircle, Plus, ListChecks, Settings, Download, Star, ChevronDown, ChevronUp, Timer, Printer, Search } from "lucide-react";
+import { doc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
-import { Subject, SubjectMetadata, Unit, Question } from "@/lib/types"; // Added Question
+import { Subject, SubjectMetadata, Unit, Question, ContentRevision } from "@/lib/types";
 import { QuestionItem } from "@/components/QuestionItem";
 import { EmptyState } from "@/components/EmptyState";
 import { SyllabusView } from "@/components/SyllabusView";
 import { useProgress } from "@/hooks/useProgress";
 import { useAuth } from "@/context/AuthContext";
+import { useSettings } from "@/hooks/useSettings";
+import { useQuestionDiscussions } from "@/hooks/useQuestionDiscussions";
 import { cn } from "@/lib/utils";
 import { QuestionGuideModal } from "@/components/modals/QuestionGuideModal";
+import { MockExam } from "@/components/MockExam";
+import { OfflineDownloadButton } from "@/components/OfflineDownloadButton";
+import { ExpiryBanner } from "@/components/ExpiryBanner";
+import { getOfflineSubject, isOffline } from "@/lib/offlineStore";
+import { RevisionSession, commitQuestionEdit, continueRevisionSession, revertRevision, snapshotQuestion } from "@/lib/contentHistory";
 
 export default function SubjectPage() {
     const params = useParams();
@@ -24,16 +31,20 @@ export default function SubjectPage() {
     const [metadata, setMetadata] = useState<SubjectMetadata | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
-    const [activeTab, setActiveTab] = useState<'questions' | 'syllabus' | 'favourites'>('questions');
+    const [activeTab, setActiveTab] = useState<'questions' | 'syllabus' | 'favourites' | 'mock'>('questions');
     const [isEditing, setIsEditing] = useState(false);
     const [expandedUnits, setExpandedUnits] = useState<Set<string>>(new Set());
     const [loadedUnits, setLoadedUnits] = useState<Record<string, Unit>>({});
     const [loadingUnit, setLoadingUnit] = useState<string | null>(null);
     const [loadedSolutions, setLoadedSolutions] = useState<Record<string, string>>({});
     const [showGuide, setShowGuide] = useState(false);
+    // Open revision per question, keystroke-level edits extend it instead of creating new revisions
+    const revisionSessions = useRef<Record<string, RevisionSession>>({});
 
     const { progressMap, updateStatus, toggleStar, saveNote, getNote, loading: progressLoading } = useProgress(subjectId);
     const { isAdmin, user, checkAccess, loading: authLoading } = useAuth(); // Removed purchasedCourseIds
+    const { settings } = useSettings();
+    const { discussions } = useQuestionDiscussions(subjectId);
 
     useEffect(() => {
         if (user) {
@@ -73,6 +84,16 @@ export default function SubjectPage() {
     const fetchSolution = async (questionId: string) => {
         if (loadedSolutions[questionId]) return;
 
+        // Downloaded subjects are served from the device while offline
+        const loadOffline = async () => {
+            const offline = await getOfflineSubject(subjectId);
+            const text = offline?.solutions[questionId];
+            if (text) setLoadedSolutions(prev => ({ ...prev, [questionId]: text }));
+            return !!offline;
+        };
+
+        if (isOffline() && await loadOffline()) return;
+
         try {
             const solutionSnap = await getDoc(doc(db, "subjects", subjectId, "solutions", questionId));
             if (solutionSnap.exists()) {
@@ -83,23 +104,33 @@ export default function SubjectPage() {
             }
         } catch (err) {
             console.error("Error fetching solution:", err);
+            await loadOffline();
         }
     };
 
     const toggleUnit = async (unitId: string) => {
         // If expanding and not loaded, fetch data
         if (!expandedUnits.has(unitId) && !loadedUnits[unitId]) {
+            const loadOffline = async () => {
+                const offlineUnit = (await getOfflineSubject(subjectId))?.units[unitId];
+                if (offlineUnit) setLoadedUnits(prev => ({ ...prev, [unitId]: offlineUnit }));
+                return !!offlineUnit;
+            };
+
             try {
                 setLoadingUnit(unitId);
-                const unitSnap = await getDoc(doc(db, "subjects", subjectId, "units", unitId));
-                if (unitSnap.exists()) {
-                    setLoadedUnits(prev => ({
-                        ...prev,
-                        [unitId]: unitSnap.data() as Unit
-                    }));
+                if (!(isOffline() && await loadOffline())) {
+                    const unitSnap = await getDoc(doc(db, "subjects", subjectId, "units", unitId));
+                    if (unitSnap.exists()) {
+                        setLoadedUnits(prev => ({
+                            ...prev,
+                            [unitId]: unitSnap.data() as Unit
+                        }));
+                    }
                 }
             } catch (err) {
                 console.error("Error loading unit:", err);
+                await loadOffline();
             } finally {
                 setLoadingUnit(null);
             }
@@ -116,6 +147,34 @@ export default function SubjectPage() {
         });
     };
 
+    // Loads every unit that isn't cached yet (used by the mock paper generator)
+    const loadAllUnits = async (): Promise<Unit[]> => {
+        if (!metadata) return [];
+
+        const missing = metadata.units.filter(u => !loadedUnits[u.id]);
+        const offline = isOffline() ? await getOfflineSubject(subjectId) : undefined;
+
+        const fetched: Record<string, Unit> = {};
+        if (offline) {
+            missing.forEach(u => {
+                if (offline.units[u.id]) fetched[u.id] = offline.units[u.id];
+            });
+        } else {
+            const snapshots = await Promise.all(
+                missing.map(u => getDoc(doc(db, "subjects", subjectId, "units", u.id)))
+            );
+            snapshots.forEach((snap, i) => {
+                if (snap.exists()) fetched[missing[i].id] = snap.data() as Unit;
+            });
+        }
+        setLoadedUnits(prev => ({ ...prev, ...fetched }));
+
+        const all = { ...loadedUnits, ...fetched };
+        return metadata.units
+            .filter(u => all[u.id])
+            .map(u => ({ ...all[u.id], id: u.id, title: all[u.id].title || u.title }));
+    };
+
     const handleUpdateQuestion = async (questionId: string, updates: Partial<Question>, unitId: string) => {
         // 1. Optimistic Update
         setLoadedUnits(prev => {
@@ -135,28 +194,33 @@ export default function SubjectPage() {
             };
         });
 
-        // 2. Persist to Firestore
+        // 2. Persist to Firestore, together with a revision in the history subcollection
         try {
             const unit = loadedUnits[unitId];
-            if (!unit) return;
+            const current = unit?.questions.find(q => q.id === questionId);
+            if (!unit || !current || !user) return;
 
             const updatedQuestions = unit.questions.map(q =>
                 q.id === questionId ? { ...q, ...updates } : q
             );
 
-            // Update Unit
-            await updateDoc(doc(db, "subjects", subjectId, "units", unitId), {
-                questions: updatedQuestions
+            const session = continueRevisionSession(subjectId, revisionSessions.current[questionId], current, loadedSolutions[questionId]);
+            revisionSessions.current[questionId] = session;
+
+            await commitQuestionEdit({
+                subjectId,
+                unitId,
+                questions: updatedQuestions,
+                solution: updates.solution,
+                revisionId: session.revisionId,
+                before: session.before,
+                after: snapshotQuestion({ ...current, ...updates }, updates.solution ?? loadedSolutions[questionId]),
+                createdAt: session.createdAt,
+                editor: { uid: user.uid, email: user.email },
             });
 
-            // Update Solution Subcollection if solution text is provided
+            // Also update local loadedSolutions state
             if (updates.solution !== undefined) {
-                // We use setDoc with merge: true so it creates if not exists
-                await setDoc(doc(db, "subjects", subjectId, "solutions", questionId), {
-                    text: updates.solution
-                }, { merge: true });
-
-                // Also update local loadedSolutions state
                 setLoadedSolutions(prev => ({
                     ...prev,
                     [questionId]: updates.solution as string
@@ -170,9 +234,27 @@ export default function SubjectPage() {
         }
     };
 
+    const handleRevertRevision = async (revision: ContentRevision) => {
+        if (!user) return;
+        const { unit, solution } = await revertRevision(revision, { uid: user.uid, email: user.email });
+
+        // The next edit starts a fresh revision on top of the restored content
+        delete revisionSessions.current[revision.questionId];
+        setLoadedUnits(prev => ({ ...prev, [revision.unitId]: { ...prev[revision.unitId], ...unit } }));
+        setLoadedSolutions(prev => ({ ...prev, [revision.questionId]: solution }));
+    };
+
     useEffect(() => {
         const fetchSubjectData = async () => {
             try {
+                if (isOffline()) {
+                    const offline = await getOfflineSubject(subjectId);
+                    if (offline) {
+                        setMetadata(offline.metadata);
+                        return;
+                    }
+                }
+
                 // Only fetch metadata initially
                 const metaSnap = await getDoc(doc(db, "subjects", subjectId));
 
@@ -185,7 +267,12 @@ export default function SubjectPage() {
                 }
             } catch (err) {
                 console.error("Error fetching subject:", err);
-                setError("Failed to load subject data");
+                const offline = await getOfflineSubject(subjectId);
+                if (offline) {
+                    setMetadata(offline.metadata);
+                } else {
+                    setError(isOffline() ? "You are offline and this subject has not been downloaded" : "Failed to load subject data");
+                }
             } finally {
                 setLoading(false);
             }
@@ -195,6 +282,11 @@ export default function SubjectPage() {
         fetchSubjectData();
     }, [subjectId]);
 
+    // Admin tools link here with ?edit=1 to open the question in edit mode
+    useEffect(() => {
+        if (isAdmin && searchParams.get('edit') === '1') setIsEditing(true);
+    }, [isAdmin, searchParams]);
+
     // Handle Deep Linking
     useEffect(() => {
         if (loading) return;
@@ -323,6 +415,21 @@ export default function SubjectPage() {
                             </div>
                         </div>
 
+                        <Link
+                            href={`/search?subject=${subjectId}`}
+                            className="flex items-center justify-center rounded-lg border border-zinc-200 bg-white p-2 text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 dark:hover:text-white"
+                            title="Search this subject"
+                        >
+                            <Search className="h-5 w-5" />
+                        </Link>
+                        <OfflineDownloadButton subjectId={subjectId} metadata={metadata} />
+                        <Link
+                            href={`/study/${subjectId}/print`}
+                            className="flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700 dark:hover:text-white"
+                        >
+                            <Printer className="h-4 w-4" />
+                            Print / PDF
+                        </Link>
                         {isAdmin && (
                             <button
                                 onClick={() => setIsEditing(!isEditing)}
@@ -349,6 +456,8 @@ export default function SubjectPage() {
                     </div>
                 </div>
 
+                <ExpiryBanner subjects={[{ id: subjectId, title: metadata.title }]} className="mt-6" />
+
                 <div className="mt-6 flex items-center gap-2 rounded-lg bg-zinc-100 p-1 w-fit dark:bg-zinc-900">
                     <button
                         onClick={() => setActiveTab('questions')}
@@ -374,6 +483,18 @@ export default function SubjectPage() {
                         <Star className="h-4 w-4" />
                         Favourites
                     </button>
+                    <button
+                        onClick={() => setActiveTab('mock')}
+                        className={cn(
+                            "flex items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium transition-all whitespace-nowrap",
+                            activeTab === 'mock'
+                                ? "bg-white text-zinc-900 shadow-sm dark:bg-zinc-800 dark:text-zinc-100"
+                                : "text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-200"
+                        )}
+                    >
+                        <Timer className="h-4 w-4" />
+                        Mock Test
+                    </button>
                     <button
                         onClick={() => setActiveTab('syllabus')}
                         className={cn(
@@ -457,7 +578,10 @@ export default function SubjectPage() {
                                                         cachedSolution={loadedSolutions[question.id]}
                                                         subjectId={subjectId}
                                                         unitId={unitSummary.id}
+                                                        canDiscuss={settings.isCommunityEnabled || isAdmin}
+                                                        discussion={discussions[question.id]}
                                                         onUpdate={(id, updates) => handleUpdateQuestion(id, updates, unitSummary.id)}
+                                                        onRevertRevision={isAdmin ? handleRevertRevision : undefined}
                                                     />
                                                 );
                                             })}
@@ -494,6 +618,14 @@ export default function SubjectPage() {
                             </button>
                         )}
                     </div>
+                ) : activeTab === 'mock' ? (
+                    <MockExam
+                        subjectId={subjectId}
+                        subjectTitle={metadata.title}
+                        loadAllUnits={loadAllUnits}
+                        onLoadSolution={fetchSolution}
+                        cachedSolutions={loadedSolutions}
+                    />
                 ) : (
                     metadata && <SyllabusView units={metadata.units} />
                 )}
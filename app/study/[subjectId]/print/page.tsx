@@ -0,0 +1,301 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
+import dynamic from "next/dynamic";
+import { ArrowLeft, Printer } from "lucide-react";
+import { doc, getDoc } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { SubjectMetadata, Unit } from "@/lib/types";
+import { useAuth } from "@/context/AuthContext";
+import { useProgress } from "@/hooks/useProgress";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+
+const MarkdownRenderer = dynamic(() => import('@/components/MarkdownRenderer').then(mod => mod.MarkdownRenderer), {
+    loading: () => <Skeleton className="h-20 w-full" />,
+});
+
+const formatText = (text: string) => text.split('/&').join('  \n').trim();
+
+export default function PrintSubjectPage() {
+    const params = useParams();
+    const subjectId = params.subjectId as string;
+    const router = useRouter();
+    const { user, isAdmin, checkAccess, loading: authLoading } = useAuth();
+    const { progressMap } = useProgress(subjectId);
+
+    const [metadata, setMetadata] = useState<SubjectMetadata | null>(null);
+    const [units, setUnits] = useState<Record<string, Unit>>({});
+    const [solutions, setSolutions] = useState<Record<string, string>>({});
+    const [loading, setLoading] = useState(true);
+    const [loadingSolutions, setLoadingSolutions] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Export options
+    const [selectedUnits, setSelectedUnits] = useState<Set<string>>(new Set());
+    const [starredOnly, setStarredOnly] = useState(false);
+    const [includeSolutions, setIncludeSolutions] = useState(true);
+
+    const canAccess = isAdmin || checkAccess(subjectId);
+
+    // Route Guard: same rules as the study page
+    useEffect(() => {
+        if (authLoading) return;
+        if (!user) {
+            router.push('/login');
+        } else if (!canAccess) {
+            router.push(`/marketplace/${subjectId}`);
+        }
+    }, [user, authLoading, canAccess, subjectId, router]);
+
+    useEffect(() => {
+        if (authLoading || !user || !canAccess) return;
+
+        const fetchAll = async () => {
+            try {
+                const metaSnap = await getDoc(doc(db, "subjects", subjectId));
+                if (!metaSnap.exists()) {
+                    setError("Subject not found");
+                    return;
+                }
+                const meta = { id: metaSnap.id, ...metaSnap.data() } as SubjectMetadata;
+
+                const unitSnaps = await Promise.all(
+                    meta.units.map(u => getDoc(doc(db, "subjects", subjectId, "units", u.id)))
+                );
+                const fetched: Record<string, Unit> = {};
+                unitSnaps.forEach((snap, i) => {
+                    if (snap.exists()) fetched[meta.units[i].id] = snap.data() as Unit;
+                });
+
+                setMetadata(meta);
+                setUnits(fetched);
+                setSelectedUnits(new Set(meta.units.map(u => u.id)));
+            } catch (err) {
+                console.error("Error loading subject for export:", err);
+                setError("Failed to load subject data");
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchAll();
+    }, [subjectId, user, authLoading, canAccess]);
+
+    // Units and questions that make it into the document, in syllabus order
+    const sections = useMemo(() => {
+        if (!metadata) return [];
+        return metadata.units
+            .filter(u => selectedUnits.has(u.id) && units[u.id])
+            .map(u => {
+                let questions = [...(units[u.id].questions || [])];
+                if (starredOnly) {
+                    questions = questions.filter(q => progressMap[q.id]?.isStarred);
+                }
+                questions.sort((a, b) => b.frequency - a.frequency);
+                return { id: u.id, title: u.title, questions };
+            })
+            .filter(section => section.questions.length > 0);
+    }, [metadata, units, selectedUnits, starredOnly, progressMap]);
+
+    // Solutions are fetched lazily, only for the questions that are actually exported
+    useEffect(() => {
+        if (!includeSolutions) return;
+
+        const missing = sections
+            .flatMap(section => section.questions)
+            .filter(q => !q.solution && q.hasSolution && solutions[q.id] === undefined)
+            .map(q => q.id);
+        if (missing.length === 0) return;
+
+        let cancelled = false;
+        const fetchSolutions = async () => {
+            setLoadingSolutions(true);
+            try {
+                const snaps = await Promise.all(
+                    missing.map(id => getDoc(doc(db, "subjects", subjectId, "solutions", id)))
+                );
+                if (cancelled) return;
+                const fetched: Record<string, string> = {};
+                snaps.forEach((snap, i) => {
+                    fetched[missing[i]] = snap.exists() ? snap.data().text || '' : '';
+                });
+                setSolutions(prev => ({ ...prev, ...fetched }));
+            } catch (err) {
+                console.error("Error fetching solutions for export:", err);
+            } finally {
+                if (!cancelled) setLoadingSolutions(false);
+            }
+        };
+
+        fetchSolutions();
+        return () => { cancelled = true; };
+    }, [sections, includeSolutions, subjectId, solutions]);
+
+    const toggleUnit = (unitId: string) => {
+        setSelectedUnits(prev => {
+            const next = new Set(prev);
+            if (next.has(unitId)) next.delete(unitId);
+            else next.add(unitId);
+            return next;
+        });
+    };
+
+    if (authLoading || loading) {
+        return (
+            <div className="space-y-4">
+                <div className="h-8 w-48 animate-pulse rounded-lg bg-zinc-200 dark:bg-zinc-800" />
+                <div className="h-96 animate-pulse rounded-2xl bg-zinc-100 dark:bg-zinc-900/50" />
+            </div>
+        );
+    }
+
+    if (error || !metadata) {
+        return (
+            <div className="flex h-[50vh] flex-col items-center justify-center text-center">
+                <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100">Error Loading Subject</h2>
+                <p className="mt-2 text-zinc-500 dark:text-zinc-400">{error || "Subject not found"}</p>
+            </div>
+        );
+    }
+
+    const totalQuestions = sections.reduce((sum, s) => sum + s.questions.length, 0);
+    let questionNumber = 0;
+
+    return (
+        <div className="py-8 print:py-0">
+            {/* Options (screen only) */}
+            <div className="mb-8 space-y-4 rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900 print:hidden">
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                    <Link
+                        href={`/study/${subjectId}`}
+                        className="inline-flex items-center gap-2 text-sm font-medium text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+                    >
+                        <ArrowLeft className="h-4 w-4" />
+                        Back to Subject
+                    </Link>
+                    <button
+                        onClick={() => window.print()}
+                        disabled={loadingSolutions || totalQuestions === 0}
+                        className="flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-500 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                        <Printer className="h-4 w-4" />
+                        {loadingSolutions ? "Loading solutions..." : "Print / Save as PDF"}
+                    </button>
+                </div>
+
+                <div className="flex flex-wrap gap-4 text-sm text-zinc-700 dark:text-zinc-300">
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={starredOnly} onChange={(e) => setStarredOnly(e.target.checked)} className="accent-indigo-600" />
+                        Starred questions only
+                    </label>
+                    <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={includeSolutions} onChange={(e) => setIncludeSolutions(e.target.checked)} className="accent-indigo-600" />
+                        Include solutions
+                    </label>
+                </div>
+
+                <div>
+                    <p className="mb-2 text-xs font-semibold uppercase text-zinc-500">Units</p>
+                    <div className="flex flex-wrap gap-2">
+                        {metadata.units.map(u => (
+                            <button
+                                key={u.id}
+                                onClick={() => toggleUnit(u.id)}
+                                className={cn(
+                                    "rounded-md border px-2.5 py-1 text-xs font-medium transition-colors",
+                                    selectedUnits.has(u.id)
+                                        ? "border-indigo-200 bg-indigo-50 text-indigo-700 dark:border-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300"
+                                        : "border-zinc-200 bg-white text-zinc-500 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-400"
+                                )}
+                            >
+                                {u.title}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+
+            {/* Printable document: always rendered light so it prints the same in dark mode */}
+            <article className="mx-auto max-w-4xl rounded-2xl bg-white p-8 text-zinc-900 shadow-sm ring-1 ring-zinc-200 print:max-w-none print:rounded-none print:p-0 print:shadow-none print:ring-0">
+                <header className="border-b border-zinc-200 pb-6">
+                    <h1 className="text-3xl font-bold">{metadata.title}</h1>
+                    <p className="mt-2 text-sm text-zinc-500">
+                        {totalQuestions} questions{includeSolutions ? " with solutions" : ""}{starredOnly ? " • starred only" : ""} • Generated {new Date().toLocaleDateString()}
+                    </p>
+                </header>
+
+                <nav className="border-b border-zinc-200 py-6">
+                    <h2 className="mb-3 text-lg font-semibold">Contents</h2>
+                    <ol className="space-y-1 text-sm">
+                        {sections.map((section, i) => (
+                            <li key={section.id} className="flex justify-between gap-4">
+                                <a href={`#print-${section.id}`} className="hover:text-indigo-600">
+                                    {i + 1}. {section.title}
+                                </a>
+                                <span className="text-zinc-500">{section.questions.length} questions</span>
+                            </li>
+                        ))}
+                    </ol>
+                    {sections.length === 0 && (
+                        <p className="text-sm text-zinc-500">No questions match the selected filters.</p>
+                    )}
+                </nav>
+
+                {sections.map((section, i) => (
+                    <section key={section.id} id={`print-${section.id}`} className="pt-8 print:break-before-page">
+                        <h2 className="mb-6 border-b-2 border-zinc-900 pb-2 text-2xl font-bold">
+                            {i + 1}. {section.title}
+                        </h2>
+                        <div className="space-y-8">
+                            {section.questions.map(question => {
+                                questionNumber++;
+                                const solution = question.solution || solutions[question.id];
+                                return (
+                                    <div key={question.id} className="break-inside-avoid-page">
+                                        <div className="flex items-start gap-3">
+                                            <span className="shrink-0 font-semibold">Q{questionNumber}.</span>
+                                            <div className="min-w-0 flex-1 space-y-3">
+                                                {question.text.split('@').map((text, index) => (
+                                                    <div key={index} className={cn("prose prose-zinc max-w-none", index > 0 && "border-t border-zinc-200 pt-2")}>
+                                                        {index > 0 && <span className="mb-1 block text-xs font-medium uppercase text-zinc-400">OR</span>}
+                                                        <ErrorBoundary label="printed question">
+                                                            <MarkdownRenderer content={formatText(text)} />
+                                                        </ErrorBoundary>
+                                                    </div>
+                                                ))}
+                                                {(question.frequency > 0 || (question.history && question.history.length > 0)) && (
+                                                    <div className="flex flex-wrap gap-1 text-[10px] font-medium text-zinc-600">
+                                                        {question.frequency > 0 && (
+                                                            <span className="rounded border border-zinc-300 px-1.5 py-0.5">Asked {question.frequency} times</span>
+                                                        )}
+                                                        {question.history?.map((h, idx) => (
+                                                            <span key={idx} className="rounded border border-zinc-300 px-1.5 py-0.5">{h.year} ({h.marks}m)</span>
+                                                        ))}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        </div>
+                                        {includeSolutions && solution && (
+                                            <div className="mt-4 rounded-lg border border-zinc-200 p-4 print:border-zinc-300">
+                                                <p className="mb-2 text-xs font-semibold uppercase text-zinc-500">Solution</p>
+                                                <div className="prose prose-zinc max-w-none">
+                                                    <ErrorBoundary label="printed solution">
+                                                        <MarkdownRenderer content={solution} />
+                                                    </ErrorBoundary>
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </section>
+                ))}
+            </article>
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { ChatAttachment } from "@/lib/types";
+import { formatFileSize } from "@/lib/chatAttachments";
+import { cn } from "@/lib/utils";
+import { ChevronLeft, ChevronRight, Download, FileText } from "lucide-react";
+
+interface AttachmentGalleryProps {
+    attachments: ChatAttachment[];
+    className?: string;
+    compact?: boolean; // Smaller thumbnails, e.g. in admin lists
+}
+
+// Image thumbnails open in a lightbox, other files are download links
+export function AttachmentGallery({ attachments, className, compact }: AttachmentGalleryProps) {
+    const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+    const images = attachments.filter(a => a.kind === 'image');
+    const files = attachments.filter(a => a.kind !== 'image');
+    const current = lightboxIndex !== null ? images[lightboxIndex] : null;
+
+    const step = (delta: number) => {
+        setLightboxIndex(prev => prev === null ? prev : (prev + delta + images.length) % images.length);
+    };
+
+    return (
+        <div className={cn("flex flex-col gap-1.5", className)}>
+            {images.length > 0 && (
+                <div className={cn("grid gap-1", images.length > 1 ? "grid-cols-2" : "grid-cols-1")}>
+                    {images.map((image, i) => (
+                        <button
+                            key={image.path || image.url}
+                            type="button"
+                            onClick={() => setLightboxIndex(i)}
+                            className="overflow-hidden rounded-lg bg-zinc-100 dark:bg-zinc-800"
+                        >
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img
+                                src={image.url}
+                                alt={image.name}
+                                loading="lazy"
+                                className={cn("w-full object-cover", compact ? "h-20" : images.length > 1 ? "h-32" : "max-h-64")}
+                            />
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {files.map(file => (
+                <a
+                    key={file.path || file.url}
+                    href={file.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    download={file.name}
+                    className="flex items-center gap-2 rounded-lg border border-zinc-200 bg-white px-3 py-2 text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-200 dark:hover:bg-zinc-800"
+                >
+                    <FileText className="h-5 w-5 shrink-0 text-indigo-500" />
+                    <span className="min-w-0 flex-1">
+                        <span className="block truncate text-sm font-medium">{file.name}</span>
+                        <span className="block text-[11px] text-zinc-400">{formatFileSize(file.size)}</span>
+                    </span>
+                    <Download className="h-4 w-4 shrink-0 text-zinc-400" />
+                </a>
+            ))}
+
+            <Dialog open={!!current} onOpenChange={(open) => !open && setLightboxIndex(null)}>
+                <DialogContent className="max-w-4xl border-none bg-black/95 p-2 sm:p-4">
+                    <DialogTitle className="sr-only">{current?.name || "Image"}</DialogTitle>
+                    {current && (
+                        <div className="relative flex flex-col items-center gap-3">
+                            {/* eslint-disable-next-line @next/next/no-img-element */}
+                            <img src={current.url} alt={current.name} className="max-h-[75vh] w-auto rounded object-contain" />
+                            {images.length > 1 && (
+                                <>
+                                    <button
+                                        type="button"
+                                        onClick={() => step(-1)}
+                                        className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full bg-black/60 p-2 text-white hover:bg-black/80"
+                                    >
+                                        <ChevronLeft className="h-5 w-5" />
+                                    </button>
+                                    <button
+                                        type="button"
+                                        onClick={() => step(1)}
+                                        className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full bg-black/60 p-2 text-white hover:bg-black/80"
+                                    >
+                                        <ChevronRight className="h-5 w-5" />
+                                    </button>
+                                </>
+                            )}
+                            <div className="flex w-full items-center justify-between gap-4 text-xs text-zinc-300">
+                                <span className="truncate">{current.name}</span>
+                                <a href={current.url} target="_blank" rel="noopener noreferrer" className="flex shrink-0 items-center gap-1 hover:text-white">
+                                    <Download className="h-3.5 w-3.5" />
+                                    Open original
+                                </a>
+                            </div>
+                        </div>
+                    )}
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -1,15 +1,24 @@
 "use client";
 
+import { useMemo } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Home, BookOpen, ShoppingBag, MessageSquare, User } from "lucide-react";
+import { Home, BookOpen, ShoppingBag, MessageSquare, User, BrainCircuit } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 import { useAuth } from "@/context/AuthContext";
+import { useReviewQueue } from "@/hooks/useReviewQueue";
+import { useBranchChat, isYearVisible } from "@/hooks/useBranchChat";
+import { useUnreadCounts } from "@/hooks/useChannelReads";
 
 export function BottomNav() {
     const pathname = usePathname();
-    const { user } = useAuth();
+    const { user, year } = useAuth();
+    const { dueCount } = useReviewQueue();
+    const { channels } = useBranchChat();
+    // Same channels the community sidebar lists
+    const visibleChannels = useMemo(() => channels.filter(c => isYearVisible(c.year || "General", year)), [channels, year]);
+    const { total: unreadTotal } = useUnreadCounts(visibleChannels);
 
     if (!user) return null;
 
@@ -26,6 +35,13 @@ export function BottomNav() {
             icon: BookOpen,
             active: pathname.startsWith("/courses")
         },
+        {
+            href: "/review",
+            label: "Review",
+            icon: BrainCircuit,
+            active: pathname.startsWith("/review"),
+            badge: dueCount
+        },
         {
             href: "/marketplace",
             label: "Marketplace",
@@ -36,7 +52,8 @@ export function BottomNav() {
             href: "/community",
             label: "Community",
             icon: MessageSquare,
-            active: pathname.startsWith("/community")
+            active: pathname.startsWith("/community"),
+            badge: unreadTotal
         },
         {
             href: "/profile",
@@ -47,7 +64,7 @@ export function BottomNav() {
     ];
 
     return (
-        <div className="fixed bottom-0 left-0 right-0 z-50 border-t border-zinc-200 bg-white/80 px-4 py-2 backdrop-blur-lg dark:border-zinc-800 dark:bg-black/80 lg:hidden safe-area-bottom">
+        <div className="fixed bottom-0 left-0 right-0 z-50 border-t border-zinc-200 bg-white/80 px-4 py-2 backdrop-blur-lg dark:border-zinc-800 dark:bg-black/80 lg:hidden safe-area-bottom print:hidden">
             <nav className="flex items-center justify-around">
                 {links.map((link) => (
                     <Link
@@ -68,6 +85,11 @@ export function BottomNav() {
                                 )}
                                 strokeWidth={link.active ? 2.5 : 2}
                             />
+                            {!!link.badge && (
+                                <span className="absolute -right-2 -top-1.5 min-w-[16px] rounded-full bg-indigo-600 px-1 py-0.5 text-center text-[9px] font-bold leading-none text-white">
+                                    {link.badge > 99 ? '99+' : link.badge}
+                                </span>
+                            )}
                         </div>
                         {/* 
                          Instagram style usually hides labels or keeps them very small. 
@@ -0,0 +1,169 @@
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { useQueryClient } from '@tanstack/react-query';
+import { X, MessageSquare, Loader2 } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { isYearVisible, useBranchChat } from '@/hooks/useBranchChat';
+import { HELD_MESSAGE_NOTICE, newMessageId, sendChannelMessage } from '@/lib/chatMessages';
+import { Question } from '@/lib/types';
+
+// Mount only while open, it subscribes to the user's channels
+interface DiscussQuestionDialogProps {
+    onClose: () => void;
+    question: Question;
+    subjectId: string;
+    unitId: string;
+}
+
+// Question text kept on the message for its card
+const SNAPSHOT_LENGTH = 280;
+
+export function DiscussQuestionDialog({ onClose, question, subjectId, unitId }: DiscussQuestionDialogProps) {
+    const { user, year } = useAuth();
+    const router = useRouter();
+    const queryClient = useQueryClient();
+    const { channels, loading, requiresSetup } = useBranchChat();
+    const [selectedChannelId, setSelectedChannelId] = useState('');
+    const [text, setText] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const visibleChannels = useMemo(
+        () => channels.filter(c => isYearVisible(c.year || 'General', year)),
+        [channels, year]
+    );
+    // Doubts is where these belong unless the user picks another channel
+    const channelId = selectedChannelId || visibleChannels.find(c => c.name === 'Doubts')?.id || visibleChannels[0]?.id || '';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!user || !channelId) return;
+
+        setIsSubmitting(true);
+        try {
+            const messageId = newMessageId(channelId);
+            const result = await sendChannelMessage(channelId, messageId, {
+                text: text.trim(),
+                questionRef: {
+                    subjectId,
+                    unitId,
+                    questionId: question.id,
+                    questionText: question.text.slice(0, SNAPSHOT_LENGTH)
+                }
+            });
+            if (result.status === 'held') {
+                toast.info(HELD_MESSAGE_NOTICE);
+                setText('');
+                onClose();
+                return;
+            }
+            queryClient.invalidateQueries({ queryKey: ['discussions', subjectId] });
+
+            const channelName = visibleChannels.find(c => c.id === channelId)?.name;
+            toast.success(`Posted to #${channelName}`, {
+                action: {
+                    label: 'Open',
+                    onClick: () => router.push(`/community?channel=${channelId}&message=${messageId}`)
+                }
+            });
+            setText('');
+            onClose();
+        } catch (err) {
+            console.error('Error posting discussion:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to post. Please try again.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200">
+            <div
+                className="w-full max-w-md rounded-2xl bg-white p-6 shadow-xl dark:bg-zinc-900 animate-in zoom-in-95 duration-200"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="mb-4 flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 flex items-center gap-2">
+                        <MessageSquare className="h-5 w-5 text-indigo-500" />
+                        Discuss in Community
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className="rounded-full p-1 text-zinc-400 hover:bg-zinc-100 hover:text-zinc-500 dark:hover:bg-zinc-800"
+                    >
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="flex justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-zinc-400" />
+                    </div>
+                ) : requiresSetup || visibleChannels.length === 0 ? (
+                    <div className="py-6 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                        <p>Select your branch and year in your profile to join your community channels.</p>
+                        <Link href="/profile" className="mt-3 inline-block font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400">
+                            Update Profile
+                        </Link>
+                    </div>
+                ) : (
+                    <form onSubmit={handleSubmit} className="space-y-4">
+                        <div className="rounded-lg border border-zinc-200 bg-zinc-50 p-3 text-sm text-zinc-700 line-clamp-4 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-300">
+                            {question.text}
+                        </div>
+
+                        <div>
+                            <label htmlFor="discuss-channel" className="mb-1.5 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                                Channel
+                            </label>
+                            <select
+                                id="discuss-channel"
+                                value={channelId}
+                                onChange={(e) => setSelectedChannelId(e.target.value)}
+                                className="w-full rounded-lg border border-zinc-200 bg-zinc-50 p-2.5 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-100"
+                            >
+                                {visibleChannels.map(c => (
+                                    <option key={c.id} value={c.id}># {c.name}</option>
+                                ))}
+                            </select>
+                        </div>
+
+                        <div>
+                            <label htmlFor="discuss-text" className="mb-1.5 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                                Your doubt
+                            </label>
+                            <textarea
+                                id="discuss-text"
+                                value={text}
+                                onChange={(e) => setText(e.target.value)}
+                                placeholder="What would you like to ask about this question?"
+                                rows={4}
+                                className="w-full rounded-lg border border-zinc-200 bg-zinc-50 p-3 text-sm text-zinc-900 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-100"
+                            />
+                        </div>
+
+                        <div className="flex justify-end gap-3 pt-2">
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                disabled={isSubmitting}
+                                className="rounded-lg px-4 py-2 text-sm font-medium text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={isSubmitting || !text.trim() || !channelId}
+                                className="flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                                Post
+                            </button>
+                        </div>
+                    </form>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -68,20 +68,15 @@ export function EditSubjectModal({ isOpen, onClose, subject, onUpdate }: EditSub
             await updateDoc(doc(db, "subjects", subject.id), updates);
             await updateDoc(doc(db, "subjects_metadata", subject.id), updates);
 
-            // Sync Bundles (Client-Side Automation)
-            if (updates.branch && updates.semester) {
-                await updateBundle(updates.branch, updates.semester);
-            } else if (subject.branch && subject.semester) {
-                await updateBundle(subject.branch, subject.semester);
-            }
-
-            const oldBranch = subject.branch;
-            const oldSemester = subject.semester;
-            const newBranch = updates.branch || oldBranch;
-            const newSemester = updates.semester || oldSemester;
-
-            if (oldBranch && oldSemester && (oldBranch !== newBranch || oldSemester !== newSemester)) {
-                await updateBundle(oldBranch, oldSemester);
+            // Sync the new bundle and, if the subject moved, the one it left
+            try {
+                await updateBundle(
+                    { branch: updates.branch || subject.branch, semester: updates.semester || subject.semester },
+                    { branch: subject.branch, semester: subject.semester }
+                );
+            } catch (bundleError) {
+                console.error('Error syncing bundles:', bundleError);
+                alert(`Subject saved, but ${bundleError instanceof Error ? bundleError.message : 'bundle sync failed'}. Rebuild bundles from the admin Bundles page.`);
             }
 
             onUpdate();
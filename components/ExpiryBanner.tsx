@@ -0,0 +1,60 @@
+"use client";
+
+import Link from 'next/link';
+import { AlertTriangle, Clock } from 'lucide-react';
+import { useAuth } from '@/context/AuthContext';
+import { getDaysRemaining, needsRenewal } from '@/lib/purchaseExpiry';
+import { cn } from '@/lib/utils';
+
+interface ExpiryBannerProps {
+    subjects: { id: string; title: string }[];
+    className?: string;
+}
+
+// Lists purchased subjects that expired or expire within EXPIRY_WARNING_DAYS, each with a renew link
+export function ExpiryBanner({ subjects, className }: ExpiryBannerProps) {
+    const { purchases, isAdmin } = useAuth();
+
+    if (isAdmin) return null;
+
+    const expiring = subjects
+        .filter(s => needsRenewal(purchases?.[s.id]))
+        .map(s => ({ ...s, daysRemaining: getDaysRemaining(purchases![s.id]) }))
+        .sort((a, b) => a.daysRemaining - b.daysRemaining);
+
+    if (expiring.length === 0) return null;
+
+    const anyExpired = expiring.some(s => s.daysRemaining <= 0);
+
+    return (
+        <div className={cn(
+            "rounded-xl border p-4",
+            anyExpired
+                ? "border-red-200 bg-red-50 dark:border-red-900/50 dark:bg-red-900/10"
+                : "border-amber-200 bg-amber-50 dark:border-amber-900/50 dark:bg-amber-900/10",
+            className
+        )}>
+            <ul className="space-y-2">
+                {expiring.map(subject => (
+                    <li key={subject.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <span className={cn(
+                            "flex items-center gap-2 font-medium",
+                            subject.daysRemaining <= 0 ? "text-red-700 dark:text-red-300" : "text-amber-800 dark:text-amber-300"
+                        )}>
+                            {subject.daysRemaining <= 0 ? <AlertTriangle className="h-4 w-4 shrink-0" /> : <Clock className="h-4 w-4 shrink-0" />}
+                            {subject.daysRemaining <= 0
+                                ? `${subject.title} has expired`
+                                : `${subject.title} expires in ${subject.daysRemaining} day${subject.daysRemaining === 1 ? '' : 's'}`}
+                        </span>
+                        <Link
+                            href={`/marketplace/${subject.id}`}
+                            className="rounded-lg bg-white px-3 py-1 text-xs font-semibold text-zinc-900 shadow-sm hover:bg-zinc-50 dark:bg-zinc-800 dark:text-zinc-100 dark:hover:bg-zinc-700"
+                        >
+                            Renew
+                        </Link>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -12,7 +12,7 @@ export function Footer() {
 
     return (
         <footer className={cn(
-            "border-t border-zinc-200 bg-white py-12 dark:border-zinc-800 dark:bg-zinc-950",
+            "border-t border-zinc-200 bg-white py-12 dark:border-zinc-800 dark:bg-zinc-950 print:hidden",
             user ? "hidden lg:block" : "block" // Hide on mobile only if logged in (App mode)
         )}>
             <div className="w-full max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -1,9 +1,28 @@
 import { useState } from 'react';
-import { X, Upload, AlertCircle, FileJson, AlertTriangle } from 'lucide-react';
+import { X, Upload, AlertCircle, FileJson, FileText, AlertTriangle, ArrowLeft, CheckCircle2 } from 'lucide-react';
 import { doc, writeBatch, getDoc, getDocs, collection, query, where } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { Subject, SubjectMetadata } from '@/lib/types';
+import { Subject, SubjectMetadata, Unit } from '@/lib/types';
 import { updateBundle } from '@/lib/bundleUtils';
+import { diffSubjectImport, ImportValidation, parseSubjectImport, UnitDiff, UnitDiffStatus } from '@/lib/importSchema';
+import { IncomingSubject, mergeSubjectUnits, MissingQuestion } from '@/lib/importMerge';
+import { buildPaperImport, PaperMatch, PaperMatchStatus } from '@/lib/paperImport';
+import { commitImportRevisions } from '@/lib/contentHistory';
+import { useAuth } from '@/context/AuthContext';
+import { cn } from '@/lib/utils';
+
+const DIFF_STYLES: Record<UnitDiffStatus, string> = {
+    added: 'bg-green-900/30 text-green-400',
+    removed: 'bg-red-900/30 text-red-400',
+    changed: 'bg-yellow-900/30 text-yellow-400',
+    unchanged: 'bg-zinc-800 text-zinc-400',
+};
+
+const PAPER_MATCH_STYLES: Record<PaperMatchStatus, string> = {
+    matched: 'bg-green-900/30 text-green-400',
+    new: 'bg-indigo-900/30 text-indigo-300',
+    'already-recorded': 'bg-zinc-800 text-zinc-400',
+};
 
 interface JsonImportModalProps {
     isOpen: boolean;
@@ -45,11 +64,36 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
         type: 'id' | 'duplicate';
         existingSubject: SubjectMetadata;
         payload: Subject;
+        validation: ImportValidation;
     } | null>(null);
 
+    // Update mode can also take a raw exam paper instead of JSON
+    const [source, setSource] = useState<'json' | 'paper'>('json');
+    const [paperSession, setPaperSession] = useState('');
+    const [paperText, setPaperText] = useState('');
+
     // Rename state for conflict resolution
     const [renameTitle, setRenameTitle] = useState('');
 
+    // Dry-run preview, nothing is written until the admin confirms it
+    const [preview, setPreview] = useState<{
+        validation: ImportValidation;
+        payload: Subject | null;
+        diff: UnitDiff[] | null; // Against the stored subject when updating or overwriting
+        merge?: {
+            existingUnits: Unit[];
+            incoming: IncomingSubject;
+            missing: MissingQuestion[];
+            removedUnitIds: string[];
+        };
+        paper?: PaperMatch[]; // How each question of an imported paper was matched
+    } | null>(null);
+
+    // Update mode keeps stored questions the file doesn't mention unless this is ticked
+    const [removeMissing, setRemoveMissing] = useState(false);
+
+    const { user } = useAuth();
+
     if (!isOpen) return null;
 
     const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -84,7 +128,23 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
         reader.readAsText(file);
     };
 
-    const executeImport = async (finalSubject: Subject) => {
+    const handlePaperUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            setPaperText(event.target?.result as string);
+            // "Summer 2024.txt" names the session
+            const session = file.name.match(/(summer|winter)[\s_-]*(\d{4})/i);
+            if (session && !paperSession) setPaperSession(`${session[1][0].toUpperCase()}${session[1].slice(1).toLowerCase()} ${session[2]}`);
+            setError(null);
+        };
+        reader.readAsText(file);
+    };
+
+    const executeImport = async (finalSubject: Subject, removedUnitIds: string[] = []) => {
+        if (!user) return;
         try {
             setImporting(true);
 
@@ -116,13 +176,17 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
 
             // 1. Save Metadata to lightweight collection
             const metadataRef = doc(db, "subjects_metadata", finalSubject.id);
-            batch.set(metadataRef, metadata);
+            // Stored subjects may lack optional fields, Firestore rejects undefined values
+            const definedMetadata = Object.fromEntries(Object.entries(metadata).filter(([, value]) => value !== undefined));
+            batch.set(metadataRef, definedMetadata);
 
             // 1b. Save Metadata to main collection (for backward compatibility / full access)
             const subjectRef = doc(db, "subjects", finalSubject.id);
-            batch.set(subjectRef, metadata);
+            batch.set(subjectRef, definedMetadata);
 
             // 2. Save Each Unit and its Solutions
+            const writtenUnits: Unit[] = [];
+            const importedSolutions: Record<string, string> = {};
             finalSubject.units.forEach(unit => {
                 // Process questions to extract solutions
                 const processedQuestions = unit.questions.map(q => {
@@ -132,26 +196,40 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
                     if (solution) {
                         const solutionRef = doc(db, "subjects", finalSubject.id, "solutions", q.id);
                         batch.set(solutionRef, { text: solution });
+                        importedSolutions[q.id] = solution;
                     }
 
                     return {
                         ...rest,
-                        hasSolution: !!solution // Set flag
+                        // Merged updates keep the flag for solutions already stored
+                        hasSolution: !!solution || (mode === 'update' && !!rest.hasSolution)
                     };
                 });
 
                 const unitRef = doc(db, "subjects", finalSubject.id, "units", unit.id);
                 batch.set(unitRef, { ...unit, questions: processedQuestions });
+                writtenUnits.push({ ...unit, questions: processedQuestions });
             });
 
+            // 2b. Units dropped by a merged update
+            removedUnitIds.forEach(unitId => batch.delete(doc(db, "subjects", finalSubject.id, "units", unitId)));
+
             // 3. Delete legacy content doc if it exists (cleanup)
             const legacyRef = doc(db, "subject_contents", finalSubject.id);
             batch.delete(legacyRef);
 
+            // Overwritten questions get a revision, like edits made on the study page
+            await commitImportRevisions(finalSubject.id, writtenUnits, importedSolutions, { uid: user.uid, email: user.email });
             await batch.commit();
 
-            // Sync Bundles (Client-Side Automation)
-            await updateBundle(finalSubject.branch, finalSubject.semester);
+            // Content is saved at this point, a failed bundle sync is reported but not rolled back
+            try {
+                await updateBundle({ branch: finalSubject.branch, semester: finalSubject.semester });
+            } catch (bundleError) {
+                console.error("Error syncing bundle:", bundleError);
+                setError(`Subject imported, but ${bundleError instanceof Error ? bundleError.message : 'bundle sync failed'}. Rebuild bundles from the admin Bundles page.`);
+                return;
+            }
 
             onClose();
             // Force reload or notify parent
@@ -161,6 +239,80 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
         } finally {
             setImporting(false);
             setConflict(null);
+            setPreview(null);
+        }
+    };
+
+    const fetchExistingUnits = async (subjectId: string): Promise<Unit[]> => {
+        const unitsSnap = await getDocs(collection(db, "subjects", subjectId, "units"));
+        return unitsSnap.docs.map(d => ({ ...d.data(), id: d.id } as Unit));
+    };
+
+    const openPreview = async (payload: Subject, validation: ImportValidation) => {
+        let diff: UnitDiff[] | null = null;
+        try {
+            // An overwrite replaces the stored units, show what changes
+            if (conflict) diff = diffSubjectImport(await fetchExistingUnits(payload.id), payload);
+        } catch (e) {
+            console.error("Failed to load existing subject for diff:", e);
+        }
+        setConflict(null);
+        setPreview({ validation, payload, diff });
+        setImporting(false);
+    };
+
+    // Merges the file into the stored units, question ids stay stable so progress and notes still match
+    const buildMergePreview = (merge: { existingUnits: Unit[]; incoming: IncomingSubject }, removeMissingQuestions: boolean) => {
+        const result = mergeSubjectUnits(merge.existingUnits, merge.incoming.units, removeMissingQuestions);
+        const keptUnitIds = new Set(result.units.map(u => u.id));
+        return {
+            payload: { ...merge.incoming, units: result.units },
+            diff: result.diff,
+            merge: {
+                ...merge,
+                missing: result.missingQuestions,
+                removedUnitIds: merge.existingUnits.filter(u => !keptUnitIds.has(u.id)).map(u => u.id),
+            },
+        };
+    };
+
+    const toggleRemoveMissing = (checked: boolean) => {
+        setRemoveMissing(checked);
+        setPreview(prev => prev?.merge ? { ...prev, ...buildMergePreview(prev.merge, checked) } : prev);
+    };
+
+    const handlePaperImportCheck = async () => {
+        if (!targetSubjectId) return;
+        try {
+            setError(null);
+            setImporting(true);
+
+            if (!paperSession.trim()) throw new Error('Enter the exam session, e.g. "Summer 2024".');
+
+            const [metadataSnap, existingUnits] = await Promise.all([
+                getDoc(doc(db, "subjects_metadata", targetSubjectId)),
+                fetchExistingUnits(targetSubjectId),
+            ]);
+            if (!metadataSnap.exists()) throw new Error("Subject not found.");
+
+            const paper = buildPaperImport(existingUnits, paperSession, paperText);
+            if (paper.matches.length === 0) {
+                throw new Error('No questions found. Questions should be numbered like "1. (a)" or "Q.1".');
+            }
+
+            // Subject details stay as stored, only the questions change
+            const { units: _summaries, unitCount: _unitCount, questionCount: _questionCount, ...stored } = metadataSnap.data() as SubjectMetadata;
+            const incoming: IncomingSubject = { ...stored, id: targetSubjectId, units: paper.units };
+
+            setPreview({
+                validation: { data: null, errors: [], warnings: paper.warnings },
+                paper: paper.matches,
+                ...buildMergePreview({ existingUnits, incoming }, false),
+            });
+        } catch (err) {
+            setError(err instanceof Error ? err.message : "Failed to read the paper");
+        } finally {
+            setImporting(false);
         }
     };
 
@@ -168,11 +320,14 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
         try {
             setError(null);
             setImporting(true); // Temporary loading state for checks
-            const parsed = JSON.parse(jsonInput);
 
-            // Basic validation
-            if (!parsed.title || !Array.isArray(parsed.units)) {
-                throw new Error("Invalid JSON structure. Missing 'title' or 'units' array.");
+            // Schema check before anything else, errors are listed in the preview
+            const validation = parseSubjectImport(jsonInput);
+            const parsed = validation.data;
+            if (!parsed) {
+                setPreview({ validation, payload: null, diff: null });
+                setImporting(false);
+                return;
             }
 
             if (!branch || !semester) {
@@ -200,29 +355,17 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
 
             // Mode-specific ID handling
             let finalId = parsedId || crypto.randomUUID();
-            let unitMap = new Map<string, string>(); // Title -> ID
-            let questionMap = new Map<string, string>(); // Text -> ID
+            let existingUnits: Unit[] | undefined;
 
             if (mode === 'update' && targetSubjectId) {
                 finalId = targetSubjectId;
 
-                // Fetch existing structure to preserve IDs
+                // Stored units to merge into. Without them every question would get a new id and orphan progress.
                 try {
-                    const unitsSnap = await getDocs(collection(db, "subjects", targetSubjectId, "units"));
-                    unitsSnap.docs.forEach(doc => {
-                        const data = doc.data();
-                        if (data.title) unitMap.set(data.title, doc.id);
-                        if (Array.isArray(data.questions)) {
-                            data.questions.forEach((q: any) => {
-                                if (q.text) questionMap.set(q.text, q.id);
-                            });
-                        }
-                    });
+                    existingUnits = await fetchExistingUnits(targetSubjectId);
                 } catch (e) {
-                    console.error("Failed to fetch existing IDs for merge:", e);
-                    // Fallback to new IDs if fetch fails, or maybe abort? 
-                    // Proceeding risks duplicating, but blocking prevents update. 
-                    // Warn user? For now proceed.
+                    console.error("Failed to fetch existing units for merge:", e);
+                    throw new Error("Could not load the current subject to merge into. Please try again.");
                 }
             }
 
@@ -239,32 +382,25 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
                 group: group ? (group as 'A' | 'B') : (parsed.group || null) as any,
                 isCommon: isCommon || parsed.isCommon || false,
 
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                units: parsed.units.map((u: any) => {
+                units: parsed.units.map(u => {
                     const { id: uId, ...uRest } = u;
-                    // Try to reuse ID if Update mode
-                    const matchedUnitId = mode === 'update' ? unitMap.get(u.title) : null;
-                    const finalUnitId = matchedUnitId || uId || crypto.randomUUID();
 
                     return {
                         ...uRest,
-                        id: finalUnitId,
+                        id: uId || crypto.randomUUID(),
                         topics: u.topics || [],
-                        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                        questions: u.questions?.map((q: any) => {
+                        questions: u.questions.map(q => {
                             const { id: qId, ...qRest } = q;
-                            // Try to reuse ID if Update mode
-                            const matchedQuestionId = mode === 'update' ? questionMap.get(q.text) : null;
-                            const finalQuestionId = matchedQuestionId || qId || crypto.randomUUID();
 
                             return {
                                 ...qRest,
-                                id: finalQuestionId,
+                                id: qId || crypto.randomUUID(),
                                 isChecked: false, // This is just initial state for new docs, existing user progress is in User document, not here.
+                                frequency: q.frequency ?? (q.history?.length || 0),
                                 hasDiagram: q.hasDiagram || 0,
                                 history: q.history || []
                             };
-                        }) || []
+                        })
                     };
                 })
             };
@@ -277,7 +413,8 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
                     setConflict({
                         type: 'id',
                         existingSubject: existingData,
-                        payload: subjectPayload
+                        payload: subjectPayload,
+                        validation
                     });
                     setRenameTitle(subjectPayload.title); // Init rename
                     setImporting(false);
@@ -302,7 +439,8 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
                     setConflict({
                         type: 'duplicate',
                         existingSubject: { id: querySnap.docs[0].id, ...restOfExistingData },
-                        payload: subjectPayload
+                        payload: subjectPayload,
+                        validation
                     });
                     setRenameTitle(subjectPayload.title);
                     setImporting(false);
@@ -310,8 +448,26 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
                 }
             }
 
-            // No conflicts, proceed
-            await executeImport(subjectPayload);
+            if (existingUnits) {
+                // Merge as read from the file, so fields it omits fall back to the stored question
+                const incoming: IncomingSubject = {
+                    ...subjectPayload,
+                    units: subjectPayload.units.map((unit, u) => ({
+                        ...unit,
+                        questions: unit.questions.map((q, i) => ({
+                            ...q,
+                            frequency: parsed.units[u].questions[i].frequency,
+                            hasDiagram: parsed.units[u].questions[i].hasDiagram,
+                        })),
+                    })),
+                };
+                setPreview({ validation, ...buildMergePreview({ existingUnits, incoming }, removeMissing) });
+                setImporting(false);
+                return;
+            }
+
+            // No conflicts, show the dry run
+            await openPreview(subjectPayload, validation);
 
         } catch (err) {
             setError(err instanceof Error ? err.message : "Failed to check JSON");
@@ -342,7 +498,8 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
             finalPayload.title = renameTitle;
             // Now what? If they clicked "Rename and Import as New":
             finalPayload.id = crypto.randomUUID(); // Force new ID
-            executeImport(finalPayload);
+            setConflict(null);
+            setPreview({ validation: conflict.validation, payload: finalPayload, diff: null });
             return;
         }
 
@@ -354,7 +511,7 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
             if (renameTitle !== conflict.payload.title) {
                 finalPayload.title = renameTitle;
             }
-            executeImport(finalPayload);
+            openPreview(finalPayload, conflict.validation);
         } else if (action === 'new') {
             // Force new ID
             finalPayload.id = crypto.randomUUID();
@@ -362,13 +519,167 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
             if (renameTitle !== conflict.payload.title) {
                 finalPayload.title = renameTitle;
             }
-            executeImport(finalPayload);
+            setConflict(null);
+            setPreview({ validation: conflict.validation, payload: finalPayload, diff: null });
         }
     };
 
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
-            {conflict ? (
+            {preview ? (
+                <div className="w-full max-w-2xl rounded-xl border border-zinc-800 bg-zinc-950 p-6 shadow-2xl overflow-y-auto max-h-[90vh]">
+                    <div className="flex items-center justify-between mb-4">
+                        <h2 className="text-xl font-semibold text-zinc-100">Import Preview</h2>
+                        <button onClick={onClose} className="text-zinc-500 hover:text-zinc-300">
+                            <X className="h-5 w-5" />
+                        </button>
+                    </div>
+
+                    {preview.payload && (
+                        <div className="space-y-3">
+                            <div className="rounded bg-zinc-900 border border-zinc-800 p-3 text-sm">
+                                <p className="text-zinc-200 font-medium">{preview.payload.title}</p>
+                                <p className="text-xs text-zinc-500 mt-1">
+                                    {preview.payload.branch} • {preview.payload.semester} • {preview.payload.units.length} units • {preview.payload.units.reduce((acc, u) => acc + u.questions.length, 0)} questions
+                                </p>
+                            </div>
+
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs uppercase text-zinc-500">
+                                        <th className="py-1 font-medium">Unit</th>
+                                        <th className="py-1 font-medium text-right">Questions</th>
+                                        {preview.diff && <th className="py-1 font-medium text-right">Changes</th>}
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-zinc-900">
+                                    {(preview.diff ?? preview.payload.units.map(u => ({ unitId: u.id, title: u.title, questionCount: u.questions.length } as UnitDiff))).map(unit => (
+                                        <tr key={unit.unitId}>
+                                            <td className="py-1.5 text-zinc-300">{unit.title}</td>
+                                            <td className="py-1.5 text-right text-zinc-400">{unit.status === 'removed' ? '—' : unit.questionCount}</td>
+                                            {preview.diff && (
+                                                <td className="py-1.5 text-right">
+                                                    <span className={cn("rounded px-1.5 py-0.5 text-xs font-medium", DIFF_STYLES[unit.status])}>
+                                                        {unit.status === 'changed'
+                                                            ? [unit.added && `+${unit.added}`, unit.removed && `−${unit.removed}`, unit.changed && `~${unit.changed}`].filter(Boolean).join(' ') || 'renamed'
+                                                            : unit.status}
+                                                    </span>
+                                                </td>
+                                            )}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {preview.diff && (
+                                <p className="text-xs text-zinc-500">+ added, − removed, ~ changed questions compared with the stored subject.</p>
+                            )}
+
+                            {preview.paper && (
+                                <div className="rounded border border-zinc-800 bg-zinc-900/50 p-3">
+                                    <p className="mb-2 text-sm text-zinc-300">
+                                        {preview.paper.filter(m => m.status === 'matched').length} repeated, {preview.paper.filter(m => m.status === 'new').length} new
+                                        {preview.paper.some(m => m.status === 'already-recorded') && `, ${preview.paper.filter(m => m.status === 'already-recorded').length} already recorded`}
+                                    </p>
+                                    <ul className="max-h-48 space-y-1.5 overflow-y-auto text-xs">
+                                        {preview.paper.map((match, i) => (
+                                            <li key={`${match.question.label}-${i}`} className="flex items-start gap-2">
+                                                <span className="w-12 shrink-0 font-mono text-zinc-500">{match.question.label}</span>
+                                                <span className="flex-1 text-zinc-400">
+                                                    {match.question.text}
+                                                    {match.matchedText && (
+                                                        <span className="block text-zinc-500">≈ {match.matchedText} ({Math.round(match.score * 100)}%)</span>
+                                                    )}
+                                                </span>
+                                                <span className={cn("shrink-0 rounded px-1.5 py-0.5 font-medium", PAPER_MATCH_STYLES[match.status])}>
+                                                    {match.status === 'already-recorded' ? 'recorded' : match.status}
+                                                </span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            {preview.merge && preview.merge.missing.length > 0 && (
+                                <div className="rounded border border-zinc-800 bg-zinc-900/50 p-3">
+                                    <label className="flex items-center gap-2 text-sm text-zinc-300 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={removeMissing}
+                                            onChange={(e) => toggleRemoveMissing(e.target.checked)}
+                                            className="rounded border-zinc-700 bg-zinc-900 text-indigo-600 focus:ring-indigo-500"
+                                        />
+                                        Remove {preview.merge.missing.length} stored question{preview.merge.missing.length === 1 ? '' : 's'} not in the file
+                                    </label>
+                                    <p className="mt-1 text-xs text-zinc-500">
+                                        {removeMissing
+                                            ? 'These questions will be deleted and students lose their progress on them.'
+                                            : 'Left unticked, they stay in their units unchanged.'}
+                                    </p>
+                                    <ul className="mt-2 max-h-32 space-y-1 overflow-y-auto text-xs text-zinc-400">
+                                        {preview.merge.missing.map(q => (
+                                            <li key={q.id} className="truncate"><span className="text-zinc-500">{q.unitTitle}:</span> {q.text}</li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {preview.validation.errors.length > 0 && (
+                        <div className="mt-4 rounded border border-red-900/50 bg-red-900/20 p-3">
+                            <p className="mb-2 flex items-center gap-2 text-sm font-medium text-red-300">
+                                <AlertCircle className="h-4 w-4" />
+                                {preview.validation.errors.length} error{preview.validation.errors.length === 1 ? '' : 's'}, fix the JSON before importing
+                            </p>
+                            <ul className="max-h-48 space-y-1 overflow-y-auto text-xs">
+                                {preview.validation.errors.map((issue, i) => (
+                                    <li key={i} className="text-red-300"><code className="text-red-400">{issue.path}</code> {issue.message}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {preview.validation.warnings.length > 0 && (
+                        <div className="mt-4 rounded border border-yellow-900/50 bg-yellow-900/10 p-3">
+                            <p className="mb-2 flex items-center gap-2 text-sm font-medium text-yellow-400">
+                                <AlertTriangle className="h-4 w-4" />
+                                {preview.validation.warnings.length} warning{preview.validation.warnings.length === 1 ? '' : 's'}
+                            </p>
+                            <ul className="max-h-48 space-y-1 overflow-y-auto text-xs">
+                                {preview.validation.warnings.map((issue, i) => (
+                                    <li key={i} className="text-yellow-300/80"><code className="text-yellow-400">{issue.path}</code> {issue.message}</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    {error && (
+                        <div className="flex items-center gap-2 rounded bg-red-900/20 p-3 text-sm text-red-300 border border-red-900/50 mt-4">
+                            <AlertCircle className="h-4 w-4 shrink-0" />
+                            {error}
+                        </div>
+                    )}
+
+                    <div className="flex justify-between gap-3 pt-6">
+                        <button
+                            onClick={() => setPreview(null)}
+                            disabled={importing}
+                            className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-zinc-400 hover:text-zinc-200 hover:bg-zinc-900"
+                        >
+                            <ArrowLeft className="h-4 w-4" />
+                            Back to Edit
+                        </button>
+                        <button
+                            onClick={() => preview.payload && executeImport(preview.payload, preview.merge?.removedUnitIds)}
+                            disabled={!preview.payload || importing}
+                            className="flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <CheckCircle2 className="h-4 w-4" />
+                            {importing ? 'Importing...' : (mode === 'update' ? 'Confirm Update' : 'Confirm Import')}
+                        </button>
+                    </div>
+                </div>
+            ) : conflict ? (
                 <div className="w-full max-w-lg rounded-xl border border-yellow-700/50 bg-zinc-950 p-6 shadow-2xl animate-in zoom-in-95">
                     <div className="flex items-start gap-4 mb-4">
                         <div className="p-3 rounded-full bg-yellow-900/20 text-yellow-500">
@@ -447,225 +758,287 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
                     </div>
 
                     <div className="space-y-4">
-                        <div className="grid grid-cols-2 gap-4">
-                            <div>
-                                <label className="mb-1.5 block text-xs font-medium text-zinc-400">
-                                    Branch
-                                </label>
-                                <select
-                                    value={branch}
-                                    onChange={(e) => {
-                                        const newBranch = e.target.value;
-                                        setBranch(newBranch);
-                                        if (newBranch === 'First Year') {
-                                            setSemester('First Year');
-                                        }
-                                    }}
-                                    className="w-full rounded-lg border border-zinc-700 bg-black/50 px-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
-                                >
-                                    <option value="">Select Branch</option>
-                                    <option value="First Year">First Year (General)</option>
-                                    <option value="Computer Science & Engineering">Computer Science & Engineering</option>
-                                    <option value="Information Technology">Information Technology</option>
-                                    <option value="Electronics & Telecommunication">Electronics & Telecommunication</option>
-                                    <option value="Mechanical Engineering">Mechanical Engineering</option>
-                                    <option value="Electrical Engineering">Electrical Engineering</option>
-                                    <option value="Common Electives">Common Electives</option>
-                                </select>
+                        {mode === 'update' && (
+                            <div className="flex rounded-lg border border-zinc-800 bg-zinc-900 p-1 text-sm">
+                                {(['json', 'paper'] as const).map(option => (
+                                    <button
+                                        key={option}
+                                        onClick={() => { setSource(option); setError(null); }}
+                                        className={cn(
+                                            "flex flex-1 items-center justify-center gap-2 rounded-md px-3 py-1.5 font-medium transition-colors",
+                                            source === option ? "bg-zinc-800 text-zinc-100" : "text-zinc-500 hover:text-zinc-300"
+                                        )}
+                                    >
+                                        {option === 'json' ? <FileJson className="h-4 w-4" /> : <FileText className="h-4 w-4" />}
+                                        {option === 'json' ? 'JSON' : 'Past Paper'}
+                                    </button>
+                                ))}
                             </div>
+                        )}
 
-                            {/* Semester Dropdown - Hidden if Branch is First Year (Auto-set) */}
-                            {branch !== 'First Year' && (
+                        {mode === 'update' && source === 'paper' ? (
+                            <>
+                                <div>
+                                    <label className="mb-1.5 block text-xs font-medium text-zinc-400">
+                                        Exam Session
+                                    </label>
+                                    <input
+                                        type="text"
+                                        value={paperSession}
+                                        onChange={(e) => setPaperSession(e.target.value)}
+                                        placeholder="Summer 2024"
+                                        className="w-full rounded-lg border border-zinc-700 bg-black/50 px-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
+                                    />
+                                </div>
+                                <div className="flex items-center justify-between pt-2">
+                                    <p className="text-sm text-zinc-400">
+                                        Paste the paper text (copy it out of the PDF) or upload a .txt file.
+                                    </p>
+                                    <label className="flex cursor-pointer items-center gap-2 rounded-lg border border-zinc-700 bg-zinc-900 px-3 py-1.5 text-xs font-medium text-zinc-300 hover:bg-zinc-800 transition-colors">
+                                        <FileText className="h-3.5 w-3.5" />
+                                        Upload Text File
+                                        <input
+                                            type="file"
+                                            accept=".txt,text/plain"
+                                            className="hidden"
+                                            onChange={handlePaperUpload}
+                                        />
+                                    </label>
+                                </div>
+                                <textarea
+                                    value={paperText}
+                                    onChange={(e) => setPaperText(e.target.value)}
+                                    placeholder={'1. (a) Explain the waterfall model.  8\n    (b) Define software engineering.  6'}
+                                    className="h-48 w-full rounded bg-black/50 p-4 font-mono text-sm text-zinc-300 focus:outline-none focus:ring-1 focus:ring-indigo-500 resize-none"
+                                />
+                                <p className="text-xs text-zinc-500">
+                                    Questions are matched against this subject. Repeats get their frequency and history updated,
+                                    new ones go to the unit whose topics fit best. Nothing is saved until you confirm the preview.
+                                </p>
+                            </>
+                        ) : (
+                            <>
+                            <div className="grid grid-cols-2 gap-4">
                                 <div>
                                     <label className="mb-1.5 block text-xs font-medium text-zinc-400">
-                                        Semester
+                                        Branch
                                     </label>
                                     <select
-                                        value={semester}
-                                        onChange={(e) => setSemester(e.target.value)}
+                                        value={branch}
+                                        onChange={(e) => {
+                                            const newBranch = e.target.value;
+                                            setBranch(newBranch);
+                                            if (newBranch === 'First Year') {
+                                                setSemester('First Year');
+                                            }
+                                        }}
                                         className="w-full rounded-lg border border-zinc-700 bg-black/50 px-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
                                     >
-                                        <option value="">Select Semester</option>
-                                        <option value="First Year">First Year</option>
-                                        {[1, 2, 3, 4, 5, 6, 7, 8].map((sem) => (
-                                            <option key={sem} value={`Semester ${sem}`}>
-                                                Semester {sem}
-                                            </option>
-                                        ))}
+                                        <option value="">Select Branch</option>
+                                        <option value="First Year">First Year (General)</option>
+                                        <option value="Computer Science & Engineering">Computer Science & Engineering</option>
+                                        <option value="Information Technology">Information Technology</option>
+                                        <option value="Electronics & Telecommunication">Electronics & Telecommunication</option>
+                                        <option value="Mechanical Engineering">Mechanical Engineering</option>
+                                        <option value="Electrical Engineering">Electrical Engineering</option>
+                                        <option value="Common Electives">Common Electives</option>
                                     </select>
                                 </div>
-                            )}
-                        </div>
-
-                        <div className="grid grid-cols-2 gap-4">
-                            <div>
-                                <label className="mb-1.5 block text-xs font-medium text-zinc-400">
-                                    Price (Discounted)
-                                </label>
-                                <div className="relative">
-                                    <span className="absolute left-3 top-2 text-zinc-500">₹</span>
-                                    <input
-                                        type="number"
-                                        min="0"
-                                        value={price}
-                                        onChange={(e) => setPrice(e.target.value)}
-                                        className="w-full rounded-lg border border-zinc-700 bg-black/50 pl-7 pr-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
-                                        placeholder="0"
-                                    />
-                                </div>
-                            </div>
-                            <div>
-                                <label className="mb-1.5 block text-xs font-medium text-zinc-400">
-                                    Original Price
-                                </label>
-                                <div className="relative">
-                                    <span className="absolute left-3 top-2 text-zinc-500">₹</span>
-                                    <input
-                                        type="number"
-                                        min="0"
-                                        value={originalPrice}
-                                        onChange={(e) => setOriginalPrice(e.target.value)}
-                                        className="w-full rounded-lg border border-zinc-700 bg-black/50 pl-7 pr-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
-                                        placeholder="0"
-                                    />
-                                </div>
-                            </div>
-                        </div>
 
-                        {/* Group Selection - Refined for First Year */}
-                        {(semester === 'Semester 1' || semester === 'Semester 2' || semester === 'First Year' || branch === 'First Year') && (
-                            <div className="p-3 bg-zinc-900/50 rounded-lg border border-zinc-800">
-                                {branch === 'First Year' ? (
-                                    /* NEW PCC / Group UI for First Year Branch */
+                                {/* Semester Dropdown - Hidden if Branch is First Year (Auto-set) */}
+                                {branch !== 'First Year' && (
                                     <div>
                                         <label className="mb-1.5 block text-xs font-medium text-zinc-400">
-                                            Category / Group
+                                            Semester
                                         </label>
                                         <select
-                                            value={isCommon ? 'PCC' : (group || '')}
-                                            onChange={(e) => {
-                                                const val = e.target.value;
-                                                if (val === 'PCC') {
-                                                    setGroup('');
-                                                    setIsCommon(true);
-                                                } else {
-                                                    setGroup(val);
-                                                    setIsCommon(false);
-                                                }
-                                            }}
+                                            value={semester}
+                                            onChange={(e) => setSemester(e.target.value)}
                                             className="w-full rounded-lg border border-zinc-700 bg-black/50 px-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
                                         >
-                                            <option value="">Select Category</option>
-                                            <option value="A">Group A</option>
-                                            <option value="B">Group B</option>
-                                            <option value="PCC">PCC / Common (Both Groups)</option>
+                                            <option value="">Select Semester</option>
+                                            <option value="First Year">First Year</option>
+                                            {[1, 2, 3, 4, 5, 6, 7, 8].map((sem) => (
+                                                <option key={sem} value={`Semester ${sem}`}>
+                                                    Semester {sem}
+                                                </option>
+                                            ))}
                                         </select>
-                                        <p className="mt-2 text-xs text-zinc-500">
-                                            <strong>Group A/B:</strong> Appears in specific bundle. <br />
-                                            <strong>PCC:</strong> Appears in BOTH bundles.
-                                        </p>
                                     </div>
-                                ) : (
-                                    /* Old UI for legacy Sem 1/2 selections */
-                                    <div className="grid grid-cols-2 gap-4">
+                                )}
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="mb-1.5 block text-xs font-medium text-zinc-400">
+                                        Price (Discounted)
+                                    </label>
+                                    <div className="relative">
+                                        <span className="absolute left-3 top-2 text-zinc-500">₹</span>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={price}
+                                            onChange={(e) => setPrice(e.target.value)}
+                                            className="w-full rounded-lg border border-zinc-700 bg-black/50 pl-7 pr-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
+                                            placeholder="0"
+                                        />
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className="mb-1.5 block text-xs font-medium text-zinc-400">
+                                        Original Price
+                                    </label>
+                                    <div className="relative">
+                                        <span className="absolute left-3 top-2 text-zinc-500">₹</span>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            value={originalPrice}
+                                            onChange={(e) => setOriginalPrice(e.target.value)}
+                                            className="w-full rounded-lg border border-zinc-700 bg-black/50 pl-7 pr-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
+                                            placeholder="0"
+                                        />
+                                    </div>
+                                </div>
+                            </div>
+
+                            {/* Group Selection - Refined for First Year */}
+                            {(semester === 'Semester 1' || semester === 'Semester 2' || semester === 'First Year' || branch === 'First Year') && (
+                                <div className="p-3 bg-zinc-900/50 rounded-lg border border-zinc-800">
+                                    {branch === 'First Year' ? (
+                                        /* NEW PCC / Group UI for First Year Branch */
                                         <div>
                                             <label className="mb-1.5 block text-xs font-medium text-zinc-400">
-                                                Subject Group
+                                                Category / Group
                                             </label>
                                             <select
-                                                value={group}
-                                                onChange={(e) => setGroup(e.target.value)}
+                                                value={isCommon ? 'PCC' : (group || '')}
+                                                onChange={(e) => {
+                                                    const val = e.target.value;
+                                                    if (val === 'PCC') {
+                                                        setGroup('');
+                                                        setIsCommon(true);
+                                                    } else {
+                                                        setGroup(val);
+                                                        setIsCommon(false);
+                                                    }
+                                                }}
                                                 className="w-full rounded-lg border border-zinc-700 bg-black/50 px-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
                                             >
-                                                <option value="">None / All Groups</option>
+                                                <option value="">Select Category</option>
                                                 <option value="A">Group A</option>
                                                 <option value="B">Group B</option>
+                                                <option value="PCC">PCC / Common (Both Groups)</option>
                                             </select>
+                                            <p className="mt-2 text-xs text-zinc-500">
+                                                <strong>Group A/B:</strong> Appears in specific bundle. <br />
+                                                <strong>PCC:</strong> Appears in BOTH bundles.
+                                            </p>
                                         </div>
-                                        <div className="flex items-center pt-6">
-                                            <div className="flex items-center gap-2">
-                                                <input
-                                                    type="checkbox"
-                                                    id="isCommonImport"
-                                                    checked={isCommon}
-                                                    onChange={(e) => setIsCommon(e.target.checked)}
-                                                    className="h-4 w-4 rounded border-zinc-700 bg-black/50 text-indigo-600 focus:ring-indigo-500"
-                                                />
-                                                <label htmlFor="isCommonImport" className="text-sm font-medium text-zinc-300">
-                                                    Common (All Branches)
+                                    ) : (
+                                        /* Old UI for legacy Sem 1/2 selections */
+                                        <div className="grid grid-cols-2 gap-4">
+                                            <div>
+                                                <label className="mb-1.5 block text-xs font-medium text-zinc-400">
+                                                    Subject Group
                                                 </label>
+                                                <select
+                                                    value={group}
+                                                    onChange={(e) => setGroup(e.target.value)}
+                                                    className="w-full rounded-lg border border-zinc-700 bg-black/50 px-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
+                                                >
+                                                    <option value="">None / All Groups</option>
+                                                    <option value="A">Group A</option>
+                                                    <option value="B">Group B</option>
+                                                </select>
+                                            </div>
+                                            <div className="flex items-center pt-6">
+                                                <div className="flex items-center gap-2">
+                                                    <input
+                                                        type="checkbox"
+                                                        id="isCommonImport"
+                                                        checked={isCommon}
+                                                        onChange={(e) => setIsCommon(e.target.checked)}
+                                                        className="h-4 w-4 rounded border-zinc-700 bg-black/50 text-indigo-600 focus:ring-indigo-500"
+                                                    />
+                                                    <label htmlFor="isCommonImport" className="text-sm font-medium text-zinc-300">
+                                                        Common (All Branches)
+                                                    </label>
+                                                </div>
                                             </div>
                                         </div>
+                                    )}
+                                </div>
+                            )}
+
+                            <div className="space-y-3 pt-2 border-t border-zinc-800">
+                                <div className="flex items-center gap-2">
+                                    <input
+                                        type="checkbox"
+                                        id="isElectiveImport"
+                                        checked={isElective}
+                                        onChange={(e) => setIsElective(e.target.checked)}
+                                        className="h-4 w-4 rounded border-zinc-700 bg-black/50 text-indigo-600 focus:ring-indigo-500"
+                                    />
+                                    <label htmlFor="isElectiveImport" className="text-sm font-medium text-zinc-300">
+                                        This is an Elective Subject
+                                    </label>
+                                </div>
+
+                                {isElective && (
+                                    <div>
+                                        <label className="mb-1.5 block text-xs font-medium text-zinc-400">
+                                            Elective Category
+                                        </label>
+                                        <div className="space-y-2">
+                                            <select
+                                                value={electiveCategory}
+                                                onChange={(e) => setElectiveCategory(e.target.value)}
+                                                className="w-full rounded-lg border border-zinc-700 bg-black/50 px-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
+                                            >
+                                                <option value="">Select Category</option>
+                                                <option value="Elective I">Elective I</option>
+                                                <option value="Elective II">Elective II</option>
+                                                <option value="Elective III">Elective III</option>
+                                                <option value="Open Elective I">Open Elective I</option>
+                                                <option value="Open Elective II">Open Elective II</option>
+                                            </select>
+                                            <input
+                                                type="text"
+                                                placeholder="Or type custom category..."
+                                                value={electiveCategory}
+                                                onChange={(e) => setElectiveCategory(e.target.value)}
+                                                className="w-full rounded-lg border border-zinc-700 bg-black/50 px-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
+                                            />
+                                        </div>
                                     </div>
                                 )}
                             </div>
-                        )}
 
-                        <div className="space-y-3 pt-2 border-t border-zinc-800">
-                            <div className="flex items-center gap-2">
-                                <input
-                                    type="checkbox"
-                                    id="isElectiveImport"
-                                    checked={isElective}
-                                    onChange={(e) => setIsElective(e.target.checked)}
-                                    className="h-4 w-4 rounded border-zinc-700 bg-black/50 text-indigo-600 focus:ring-indigo-500"
-                                />
-                                <label htmlFor="isElectiveImport" className="text-sm font-medium text-zinc-300">
-                                    This is an Elective Subject
+                            <div className="flex items-center justify-between pt-2">
+                                <p className="text-sm text-zinc-400">
+                                    Paste JSON below or upload a file.
+                                </p>
+                                <label className="flex cursor-pointer items-center gap-2 rounded-lg border border-zinc-700 bg-zinc-900 px-3 py-1.5 text-xs font-medium text-zinc-300 hover:bg-zinc-800 transition-colors">
+                                    <FileJson className="h-3.5 w-3.5" />
+                                    Upload JSON File
+                                    <input
+                                        type="file"
+                                        accept=".json"
+                                        className="hidden"
+                                        onChange={handleFileUpload}
+                                    />
                                 </label>
                             </div>
-
-                            {isElective && (
-                                <div>
-                                    <label className="mb-1.5 block text-xs font-medium text-zinc-400">
-                                        Elective Category
-                                    </label>
-                                    <div className="space-y-2">
-                                        <select
-                                            value={electiveCategory}
-                                            onChange={(e) => setElectiveCategory(e.target.value)}
-                                            className="w-full rounded-lg border border-zinc-700 bg-black/50 px-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
-                                        >
-                                            <option value="">Select Category</option>
-                                            <option value="Elective I">Elective I</option>
-                                            <option value="Elective II">Elective II</option>
-                                            <option value="Elective III">Elective III</option>
-                                            <option value="Open Elective I">Open Elective I</option>
-                                            <option value="Open Elective II">Open Elective II</option>
-                                        </select>
-                                        <input
-                                            type="text"
-                                            placeholder="Or type custom category..."
-                                            value={electiveCategory}
-                                            onChange={(e) => setElectiveCategory(e.target.value)}
-                                            className="w-full rounded-lg border border-zinc-700 bg-black/50 px-3 py-2 text-sm text-zinc-300 focus:border-indigo-500 focus:outline-none"
-                                        />
-                                    </div>
-                                </div>
-                            )}
-                        </div>
-
-                        <div className="flex items-center justify-between pt-2">
-                            <p className="text-sm text-zinc-400">
-                                Paste JSON below or upload a file.
-                            </p>
-                            <label className="flex cursor-pointer items-center gap-2 rounded-lg border border-zinc-700 bg-zinc-900 px-3 py-1.5 text-xs font-medium text-zinc-300 hover:bg-zinc-800 transition-colors">
-                                <FileJson className="h-3.5 w-3.5" />
-                                Upload JSON File
-                                <input
-                                    type="file"
-                                    accept=".json"
-                                    className="hidden"
-                                    onChange={handleFileUpload}
-                                />
-                            </label>
-                        </div>
-                        <textarea
-                            value={jsonInput}
-                            onChange={(e) => setJsonInput(e.target.value)}
-                            placeholder='{ "title": "Subject Name", "units": [...] }'
-                            className="h-48 w-full rounded bg-black/50 p-4 font-mono text-sm text-zinc-300 focus:outline-none focus:ring-1 focus:ring-indigo-500 resize-none"
-                        />
+                            <textarea
+                                value={jsonInput}
+                                onChange={(e) => setJsonInput(e.target.value)}
+                                placeholder='{ "title": "Subject Name", "units": [...] }'
+                                className="h-48 w-full rounded bg-black/50 p-4 font-mono text-sm text-zinc-300 focus:outline-none focus:ring-1 focus:ring-indigo-500 resize-none"
+                            />
+                            </>
+                        )}
                     </div>
 
                     {error && (
@@ -683,12 +1056,12 @@ export function JsonImportModal({ isOpen, onClose, mode = 'create', targetSubjec
                             Cancel
                         </button>
                         <button
-                            onClick={handleImportCheck}
-                            disabled={!jsonInput.trim() || importing}
+                            onClick={mode === 'update' && source === 'paper' ? handlePaperImportCheck : handleImportCheck}
+                            disabled={!(mode === 'update' && source === 'paper' ? paperText : jsonInput).trim() || importing}
                             className="flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             <Upload className="h-4 w-4" />
-                            {importing ? 'Processing...' : (mode === 'update' ? 'Update Content' : 'Import Subject')}
+                            {importing ? 'Checking...' : 'Preview Import'}
                         </button>
                     </div>
                 </div>
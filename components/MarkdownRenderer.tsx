@@ -5,6 +5,7 @@ import remarkGfm from 'remark-gfm';
 import rehypeKatex from 'rehype-katex';
 import 'katex/dist/katex.min.css';
 import { cn } from '@/lib/utils';
+import { sanitizeMarkdown } from '@/lib/markdownSanitize';
 import dynamic from 'next/dynamic';
 import { ExternalLink } from 'lucide-react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
@@ -29,58 +30,7 @@ export const MarkdownRenderer = memo(function MarkdownRenderer({ content, classN
     const rehypePlugins = useMemo(() => [rehypeKatex], []);
 
     // Pre-process content to fix common LaTeX issues
-    const sanitizedContent = useMemo(() => {
-        if (!content) return '';
-
-        const lines = content.split('\n');
-        let inCodeBlock = false;
-
-        const processedContent = lines.map(line => {
-            // Check for code block fence
-            const trimmed = line.trim();
-            if (trimmed.startsWith('```') || trimmed.startsWith('~~~')) {
-                inCodeBlock = !inCodeBlock;
-                return line; // Return fence line as is
-            }
-
-            if (inCodeBlock) {
-                return line; // Preserve code block content exactly
-            }
-
-            // Check for list items (keep their indentation)
-            // Matches: optional space + bullet/number + space
-            // e.g. "  * ", "  1. "
-            if (/^\s*([-*+]|\d+\.)\s/.test(line)) {
-                return line;
-            }
-
-            // Check for blockquotes
-            if (/^\s*>/.test(line)) {
-                return line;
-            }
-
-            // For other lines, if they are indented with 4+ spaces or a tab, unindent them
-            // This fixes "    $$" and "    Where:" issues interpreting as code
-            if (line.startsWith('    ') || line.startsWith('\t')) {
-                return line.trimStart();
-            }
-
-            // Also explicitly fix indented display math that might use fewer than 4 spaces but we want cleaner
-            if (/^\s*\$\$/.test(line)) {
-                return line.trimStart();
-            }
-
-            return line;
-        }).join('\n');
-
-        // Post-process: Escape unescaped dollar signs inside $$...$$ blocks
-        // KaTeX fails if it finds unescaped $ inside math mode (e.g. currency $1000)
-        return processedContent.replace(/\$\$([\s\S]*?)\$\$/g, (match: string, inner: string) => {
-            // Replace $ with \$ ONLY if it's not already escaped
-            const escapedInner = inner.replace(/(?<!\\)\$/g, '\\$');
-            return `$$${escapedInner}$$`;
-        });
-    }, [content]);
+    const sanitizedContent = useMemo(() => sanitizeMarkdown(content), [content]);
 
     return (
         <div className={cn("prose prose-zinc w-full max-w-none dark:prose-invert break-words marker:text-black dark:marker:text-zinc-200", className)}>
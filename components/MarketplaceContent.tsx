@@ -191,13 +191,13 @@ export function MarketplaceContent({ initialBundles = [] }: { initialBundles?: a
                                                 </div>
                                             ) : (
                                                 <>
-                                                    {bundle.totalOriginalPrice > bundle.totalPrice && (
+                                                    {bundle.totalOriginalPrice > (bundle.bundlePrice || bundle.totalPrice) && (
                                                         <span className="text-xs text-zinc-400 line-through dark:text-zinc-500">
                                                             ₹{bundle.totalOriginalPrice}
                                                         </span>
                                                     )}
                                                     <div className="flex items-center gap-1 rounded-full bg-green-50 px-2.5 py-0.5 text-sm font-bold text-green-700 dark:bg-green-900/20 dark:text-green-400">
-                                                        ₹{bundle.totalPrice}
+                                                        ₹{bundle.bundlePrice || bundle.totalPrice}
                                                     </div>
                                                 </>
                                             )}
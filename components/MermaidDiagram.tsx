@@ -1,6 +1,7 @@
 import { useEffect, useRef, useState } from 'react';
 import mermaid from 'mermaid';
 import { cn } from '@/lib/utils';
+import { sanitizeMermaid } from '@/lib/markdownSanitize';
 import { Maximize2, Minimize2 } from 'lucide-react';
 
 interface MermaidDiagramProps {
@@ -36,29 +37,7 @@ export default function MermaidDiagram({ content }: MermaidDiagramProps) {
             setError(null);
 
             try {
-                // Hotfix: Auto-correct common syntax errors in data
-                let sanitizedContent = content.replace(/\|\>/g, "|");
-
-                // Fix: Quote node labels that contain parentheses but aren't already quoted
-                // Finds [Text (More Text)] and converts to ["Text (More Text)"]
-                sanitizedContent = sanitizedContent.replace(/\[(?![ "])(.*?\(.*?\).*?)(?<![ "])\]/g, '["$1"]');
-
-                // Fix: Multi-actor notes in sequence diagrams (Note over A,B,C) -> (Note over A,C)
-                // Mermaid only supports start and end actor for notes, not intermediate ones.
-                sanitizedContent = sanitizedContent.replace(
-                    /(Note\s+over\s+)([^,:\n]+)((?:,[^,:\n]+)+)(,[^,:\n]+)(\s*:)/gi,
-                    (match, prefix, first, middle, last, suffix) => {
-                        return `${prefix}${first}${last}${suffix}`;
-                    }
-                );
-
-                // Fix: Force quote ALL edge labels to prevent mismatched parens/chars errors
-                // Matches >|Text| and converts to >|"Text"|
-                // This covers -->|Text| and -.->|Text| etc.
-                sanitizedContent = sanitizedContent.replace(
-                    /(\>\|)([^"\|\n]+?)(\|)/g,
-                    '$1"$2"$3'
-                );
+                const sanitizedContent = sanitizeMermaid(content);
 
                 // Generate unique ID for every render to avoid collisions
                 const uniqueId = `mermaid-${Math.random().toString(36).substr(2, 9)}`;
@@ -0,0 +1,381 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import dynamic from 'next/dynamic';
+import { toast } from 'sonner';
+import { ChevronDown, ChevronUp, ClipboardCheck, History, PlayCircle, Timer } from 'lucide-react';
+import { Unit } from '@/lib/types';
+import { buildMockExam, MockExamPaper } from '@/lib/mockExam';
+import { useMockExams } from '@/hooks/useMockExams';
+import { ErrorBoundary } from './ErrorBoundary';
+import { EmptyState } from './EmptyState';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+
+const MarkdownRenderer = dynamic(() => import('./MarkdownRenderer').then(mod => mod.MarkdownRenderer), {
+    loading: () => <Skeleton className="h-20 w-full" />,
+});
+
+interface MockExamProps {
+    subjectId: string;
+    subjectTitle: string;
+    loadAllUnits: () => Promise<Unit[]>;
+    onLoadSolution: (id: string) => Promise<void>;
+    cachedSolutions: Record<string, string>;
+}
+
+type Phase = 'setup' | 'running' | 'grading';
+
+const formatTime = (totalSeconds: number) => {
+    const seconds = Math.max(0, totalSeconds);
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = seconds % 60;
+    const mmss = `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+    return h > 0 ? `${h}:${mmss}` : mmss;
+};
+
+const formatText = (text: string) => text.split('/&').join('  \n').trim();
+
+export function MockExam({ subjectId, subjectTitle, loadAllUnits, onLoadSolution, cachedSolutions }: MockExamProps) {
+    const { results, saveResult, loading: historyLoading } = useMockExams(subjectId);
+    const [phase, setPhase] = useState<Phase>('setup');
+    const [questionsPerUnit, setQuestionsPerUnit] = useState(2);
+    const [generating, setGenerating] = useState(false);
+    const [paper, setPaper] = useState<MockExamPaper | null>(null);
+    const [startedAt, setStartedAt] = useState(0);
+    const [now, setNow] = useState(0);
+    const [finishedAt, setFinishedAt] = useState(0);
+    const [choices, setChoices] = useState<Record<string, number>>({});
+    const [awarded, setAwarded] = useState<Record<string, number>>({});
+    const [openSolutions, setOpenSolutions] = useState<Set<string>>(new Set());
+    const [saving, setSaving] = useState(false);
+
+    const endsAt = paper ? startedAt + paper.durationMinutes * 60 * 1000 : 0;
+    const remainingSeconds = Math.ceil((endsAt - now) / 1000);
+
+    // Countdown: ticks every second and hands the paper in when time runs out
+    useEffect(() => {
+        if (phase !== 'running') return;
+
+        const interval = setInterval(() => {
+            const tick = Date.now();
+            setNow(tick);
+            if (tick >= endsAt) {
+                toast.info("Time's up! Grade your answers now.");
+                setFinishedAt(tick);
+                setPhase('grading');
+            }
+        }, 1000);
+
+        return () => clearInterval(interval);
+    }, [phase, endsAt]);
+
+    const handleStart = async () => {
+        setGenerating(true);
+        try {
+            const units = await loadAllUnits();
+            const generated = buildMockExam(units, questionsPerUnit);
+            if (generated.sections.length === 0) {
+                toast.error("This subject has no questions to build a paper from yet.");
+                return;
+            }
+            const start = Date.now();
+            setPaper(generated);
+            setChoices({});
+            setAwarded({});
+            setOpenSolutions(new Set());
+            setStartedAt(start);
+            setNow(start);
+            setPhase('running');
+            window.scrollTo({ top: 0, behavior: 'smooth' });
+        } catch (err) {
+            console.error("Error generating mock exam:", err);
+            toast.error("Failed to generate the paper. Please try again.");
+        } finally {
+            setGenerating(false);
+        }
+    };
+
+    const handleSubmitPaper = () => {
+        if (!window.confirm("Submit your paper and start grading?")) return;
+        setFinishedAt(Date.now());
+        setPhase('grading');
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
+    const toggleSolution = async (questionId: string) => {
+        if (!openSolutions.has(questionId) && !cachedSolutions[questionId]) {
+            await onLoadSolution(questionId);
+        }
+        setOpenSolutions(prev => {
+            const next = new Set(prev);
+            if (next.has(questionId)) next.delete(questionId);
+            else next.add(questionId);
+            return next;
+        });
+    };
+
+    const handleSaveResult = async () => {
+        if (!paper) return;
+
+        const questions = paper.sections.flatMap(section => section.questions).map(q => ({
+            questionId: q.question.id,
+            unitId: q.unitId,
+            marks: q.marks,
+            awarded: Math.min(q.marks, Math.max(0, awarded[q.question.id] || 0)),
+            choice: choices[q.question.id] || 0,
+        }));
+
+        setSaving(true);
+        try {
+            await saveResult({
+                subjectId,
+                subjectTitle,
+                createdAt: Date.now(),
+                durationMinutes: paper.durationMinutes,
+                timeTakenSeconds: Math.round((Math.min(finishedAt, endsAt) - startedAt) / 1000),
+                totalMarks: paper.totalMarks,
+                scoredMarks: questions.reduce((sum, q) => sum + q.awarded, 0),
+                questions,
+            });
+            toast.success("Result saved to your score history");
+            setPaper(null);
+            setPhase('setup');
+        } catch {
+            toast.error("Failed to save your result");
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (phase === 'setup' || !paper) {
+        return (
+            <div className="space-y-8">
+                <div className="rounded-2xl border border-zinc-200 bg-white p-6 shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+                    <div className="flex items-start gap-4">
+                        <div className="rounded-full bg-indigo-50 p-3 dark:bg-indigo-900/30">
+                            <Timer className="h-6 w-6 text-indigo-600 dark:text-indigo-400" />
+                        </div>
+                        <div className="flex-1">
+                            <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">Timed Mock Paper</h2>
+                            <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+                                A practice paper picked from every unit, weighted towards questions that are asked often and carry more marks.
+                                Write your answers on paper, then grade yourself against the solutions.
+                            </p>
+                            <div className="mt-4 flex flex-wrap items-center gap-3">
+                                <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300" htmlFor="questions-per-unit">
+                                    Questions per unit
+                                </label>
+                                <select
+                                    id="questions-per-unit"
+                                    value={questionsPerUnit}
+                                    onChange={(e) => setQuestionsPerUnit(Number(e.target.value))}
+                                    className="rounded-md border border-zinc-200 bg-white px-2 py-1.5 text-sm dark:border-zinc-700 dark:bg-zinc-950"
+                                >
+                                    {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                                </select>
+                                <button
+                                    onClick={handleStart}
+                                    disabled={generating}
+                                    className="flex items-center gap-2 rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm transition-colors hover:bg-indigo-500 disabled:cursor-wait disabled:opacity-70"
+                                >
+                                    {generating ? (
+                                        <div className="h-4 w-4 animate-spin rounded-full border-2 border-white/40 border-t-white" />
+                                    ) : (
+                                        <PlayCircle className="h-4 w-4" />
+                                    )}
+                                    Generate &amp; Start
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                <div>
+                    <h3 className="mb-4 flex items-center gap-2 text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+                        <History className="h-5 w-5" />
+                        Score History
+                    </h3>
+                    {historyLoading ? (
+                        <Skeleton className="h-24 w-full" />
+                    ) : results.length === 0 ? (
+                        <EmptyState
+                            icon={ClipboardCheck}
+                            title="No attempts yet"
+                            description="Your graded mock papers will show up here so you can track your progress."
+                            className="py-8"
+                        />
+                    ) : (
+                        <div className="space-y-2">
+                            {results.map(result => {
+                                const percent = result.totalMarks === 0 ? 0 : Math.round((result.scoredMarks / result.totalMarks) * 100);
+                                return (
+                                    <div key={result.id} className="flex items-center gap-4 rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+                                        <div className="w-28 shrink-0">
+                                            <p className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">
+                                                {result.scoredMarks} / {result.totalMarks}
+                                            </p>
+                                            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                                                {new Date(result.createdAt).toLocaleDateString()}
+                                            </p>
+                                        </div>
+                                        <div className="h-2 flex-1 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+                                            <div
+                                                className={cn(
+                                                    "h-full rounded-full",
+                                                    percent >= 70 ? "bg-green-500" : percent >= 40 ? "bg-orange-500" : "bg-red-500"
+                                                )}
+                                                style={{ width: `${percent}%` }}
+                                            />
+                                        </div>
+                                        <div className="w-24 shrink-0 text-right">
+                                            <p className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">{percent}%</p>
+                                            <p className="text-xs text-zinc-500 dark:text-zinc-400">{formatTime(result.timeTakenSeconds)}</p>
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    const isGrading = phase === 'grading';
+    const scored = paper.sections
+        .flatMap(section => section.questions)
+        .reduce((sum, q) => sum + Math.min(q.marks, awarded[q.question.id] || 0), 0);
+
+    return (
+        <div className="space-y-6">
+            <div className="sticky top-16 z-10 flex items-center justify-between gap-4 rounded-xl border border-zinc-200 bg-white/90 p-4 shadow-sm backdrop-blur dark:border-zinc-800 dark:bg-zinc-900/90">
+                <div>
+                    <p className="text-xs font-medium uppercase tracking-wider text-zinc-500">
+                        {isGrading ? "Self Grading" : "Time Remaining"}
+                    </p>
+                    <p className={cn(
+                        "font-mono text-2xl font-bold",
+                        !isGrading && remainingSeconds <= 300 ? "text-red-600 dark:text-red-400" : "text-zinc-900 dark:text-zinc-100"
+                    )}>
+                        {isGrading ? `${scored} / ${paper.totalMarks}` : formatTime(remainingSeconds)}
+                    </p>
+                </div>
+                <div className="text-right text-xs text-zinc-500 dark:text-zinc-400">
+                    <p>{paper.totalMarks} marks • {paper.durationMinutes} min</p>
+                </div>
+                {isGrading ? (
+                    <button
+                        onClick={handleSaveResult}
+                        disabled={saving}
+                        className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 disabled:cursor-wait disabled:opacity-70"
+                    >
+                        {saving ? "Saving..." : "Save Result"}
+                    </button>
+                ) : (
+                    <button
+                        onClick={handleSubmitPaper}
+                        className="rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 dark:bg-white dark:text-zinc-900 dark:hover:bg-zinc-100"
+                    >
+                        Submit Paper
+                    </button>
+                )}
+            </div>
+
+            {paper.sections.map((section, sectionIndex) => (
+                <div key={section.unitId} className="space-y-4">
+                    <h3 className="border-b border-zinc-200 pb-2 text-lg font-bold text-zinc-900 dark:border-zinc-800 dark:text-zinc-100">
+                        {section.unitTitle}
+                    </h3>
+                    {section.questions.map(({ question, marks }, index) => {
+                        const questionNumber = paper.sections
+                            .slice(0, sectionIndex)
+                            .reduce((count, s) => count + s.questions.length, index + 1);
+                        const alternatives = question.text.split('@');
+                        const choice = choices[question.id] || 0;
+                        const solution = question.solution || cachedSolutions[question.id];
+
+                        return (
+                            <div key={question.id} className="rounded-xl border-2 border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+                                <div className="mb-3 flex items-center justify-between">
+                                    <span className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">Q{questionNumber}.</span>
+                                    <span className="rounded-md bg-zinc-100 px-2 py-0.5 text-xs font-medium text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400">
+                                        {marks} marks
+                                    </span>
+                                </div>
+
+                                <div className="space-y-3">
+                                    {alternatives.map((text, index) => {
+                                        // While grading, only the attempted alternative matters
+                                        if (isGrading && alternatives.length > 1 && index !== choice) return null;
+                                        return (
+                                            <div key={index} className={cn(!isGrading && index > 0 && "border-t border-zinc-100 pt-3 dark:border-zinc-800")}>
+                                                {!isGrading && index > 0 && <span className="mb-1 block text-xs font-medium uppercase text-zinc-400">OR</span>}
+                                                <div className="flex gap-3">
+                                                    {!isGrading && alternatives.length > 1 && (
+                                                        <input
+                                                            type="radio"
+                                                            name={`choice-${question.id}`}
+                                                            checked={choice === index}
+                                                            onChange={() => setChoices(prev => ({ ...prev, [question.id]: index }))}
+                                                            className="mt-1.5 h-4 w-4 shrink-0 accent-indigo-600"
+                                                            title="I'm attempting this one"
+                                                        />
+                                                    )}
+                                                    <div className="prose prose-zinc max-w-none flex-1 dark:prose-invert">
+                                                        <ErrorBoundary label="mock question">
+                                                            <MarkdownRenderer content={formatText(text)} />
+                                                        </ErrorBoundary>
+                                                    </div>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+
+                                {isGrading && (
+                                    <div className="mt-4 space-y-3 border-t border-zinc-100 pt-4 dark:border-zinc-800">
+                                        <div className="flex flex-wrap items-center justify-between gap-3">
+                                            {(question.solution || question.hasSolution) ? (
+                                                <button
+                                                    onClick={() => toggleSolution(question.id)}
+                                                    className="flex items-center gap-1.5 rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-xs font-medium text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                                                >
+                                                    {openSolutions.has(question.id) ? <ChevronUp className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+                                                    {openSolutions.has(question.id) ? "Hide Solution" : "Show Solution"}
+                                                </button>
+                                            ) : (
+                                                <span className="text-xs text-zinc-400">No solution available</span>
+                                            )}
+                                            <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+                                                Marks awarded
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    max={marks}
+                                                    step={0.5}
+                                                    value={awarded[question.id] ?? ''}
+                                                    onChange={(e) => setAwarded(prev => ({ ...prev, [question.id]: Number(e.target.value) }))}
+                                                    className="w-20 rounded-md border border-zinc-200 bg-white px-2 py-1 text-sm dark:border-zinc-700 dark:bg-zinc-950"
+                                                />
+                                                <span className="text-zinc-400">/ {marks}</span>
+                                            </label>
+                                        </div>
+                                        {openSolutions.has(question.id) && solution && (
+                                            <div className="prose prose-zinc max-w-none rounded-xl border border-zinc-200 bg-zinc-50 p-4 dark:prose-invert dark:border-zinc-800 dark:bg-zinc-900/50">
+                                                <ErrorBoundary label="mock solution">
+                                                    <MarkdownRenderer content={solution} />
+                                                </ErrorBoundary>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -2,9 +2,10 @@
 
 import { useState } from 'react';
 import Link from 'next/link';
-import { User, Sparkles, LogIn, Shield, LayoutDashboard, Menu, X, BookOpen, ChevronDown, MessageSquare } from 'lucide-react';
+import { User, Sparkles, LogIn, Shield, LayoutDashboard, Menu, X, BookOpen, ChevronDown, MessageSquare, BrainCircuit } from 'lucide-react';
 import { useAuth } from '@/context/AuthContext';
 import { useSettings } from '@/hooks/useSettings';
+import { useReviewQueue } from '@/hooks/useReviewQueue';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { Logo } from '@/components/Logo';
 import { OnboardingModal } from '@/components/OnboardingModal';
@@ -14,6 +15,7 @@ import { BRANCHES, YEARS } from '@/lib/constants';
 export function Navbar() {
     const { user, loading, isAdmin, branch, year, updateProfile } = useAuth();
     const { settings } = useSettings() as any;
+    const { dueCount } = useReviewQueue();
     const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
     const [isBranchMenuOpen, setIsBranchMenuOpen] = useState(false);
 
@@ -30,7 +32,7 @@ export function Navbar() {
     return (
         <>
             <OnboardingModal />
-            <nav className="fixed top-0 z-50 w-full border-b border-zinc-100 bg-white/80 backdrop-blur-md dark:border-zinc-800 dark:bg-zinc-950/80">
+            <nav className="fixed top-0 z-50 w-full print:hidden border-b border-zinc-100 bg-white/80 backdrop-blur-md dark:border-zinc-800 dark:bg-zinc-950/80">
                 <div className="mx-auto flex h-16 max-w-7xl items-center justify-between px-4 sm:px-6 lg:px-8">
                     <div className="flex items-center gap-8">
                         <Link href="/" onClick={() => setIsMobileMenuOpen(false)}>
@@ -109,6 +111,21 @@ export function Navbar() {
                             <span>My Courses</span>
                         </Link>
 
+                        {user && (
+                            <Link
+                                href="/review"
+                                className="flex items-center gap-1.5 text-sm font-medium text-zinc-600 hover:text-indigo-600 transition-colors dark:text-zinc-400 dark:hover:text-indigo-400"
+                            >
+                                <BrainCircuit className="h-4 w-4" />
+                                <span>Review</span>
+                                {dueCount > 0 && (
+                                    <span className="rounded-full bg-indigo-600 px-1.5 py-0.5 text-[10px] font-bold leading-none text-white">
+                                        {dueCount > 99 ? '99+' : dueCount}
+                                    </span>
+                                )}
+                            </Link>
+                        )}
+
                         {/* Community Access Control */}
                         {(isAdmin || settings?.isCommunityEnabled) && (
                             <Link
@@ -226,6 +243,22 @@ export function Navbar() {
                                 My Courses
                             </Link>
 
+                            {user && (
+                                <Link
+                                    href="/review"
+                                    onClick={() => setIsMobileMenuOpen(false)}
+                                    className="flex items-center gap-2 rounded-lg px-4 py-2 text-sm font-medium text-zinc-600 hover:bg-zinc-50 hover:text-indigo-600 dark:text-zinc-400 dark:hover:bg-zinc-900 dark:hover:text-indigo-400"
+                                >
+                                    <BrainCircuit className="h-4 w-4" />
+                                    Review
+                                    {dueCount > 0 && (
+                                        <span className="ml-auto rounded-full bg-indigo-600 px-1.5 py-0.5 text-[10px] font-bold leading-none text-white">
+                                            {dueCount > 99 ? '99+' : dueCount}
+                                        </span>
+                                    )}
+                                </Link>
+                            )}
+
                             {(isAdmin || settings?.isCommunityEnabled) && (
                                 <Link
                                     href="/community"
@@ -0,0 +1,77 @@
+"use client";
+
+import { toast } from 'sonner';
+import { CloudDownload, CloudOff, RefreshCw, Trash2 } from 'lucide-react';
+import { SubjectMetadata } from '@/lib/types';
+import { useOfflineSubject } from '@/hooks/useOfflineSubject';
+import { cn } from '@/lib/utils';
+
+interface OfflineDownloadButtonProps {
+    subjectId: string;
+    metadata?: SubjectMetadata | null;
+}
+
+export function OfflineDownloadButton({ subjectId, metadata }: OfflineDownloadButtonProps) {
+    const { offlineSubject, status, downloading, download, remove } = useOfflineSubject(subjectId, metadata);
+
+    const handleDownload = async () => {
+        try {
+            await download();
+            toast.success("Subject saved for offline study");
+        } catch {
+            toast.error("Download failed. Check your connection and try again.");
+        }
+    };
+
+    const handleRemove = async () => {
+        if (!window.confirm("Remove the offline copy of this subject?")) return;
+        await remove();
+        toast.success("Offline copy removed");
+    };
+
+    const downloadedOn = offlineSubject ? new Date(offlineSubject.downloadedAt).toLocaleDateString() : '';
+
+    return (
+        <div className="flex items-center gap-1">
+            <button
+                onClick={handleDownload}
+                disabled={downloading}
+                title={
+                    status === 'none'
+                        ? "Download for offline study"
+                        : status === 'stale'
+                            ? `Content changed since ${downloadedOn}. Update the offline copy`
+                            : `Available offline (downloaded ${downloadedOn}). Re-download`
+                }
+                className={cn(
+                    "flex items-center gap-2 rounded-lg border px-4 py-2 text-sm font-medium transition-colors disabled:cursor-wait disabled:opacity-70",
+                    status === 'downloaded'
+                        ? "border-green-200 bg-green-50 text-green-700 hover:bg-green-100 dark:border-green-900/50 dark:bg-green-900/20 dark:text-green-300"
+                        : status === 'stale'
+                            ? "border-amber-200 bg-amber-50 text-amber-700 hover:bg-amber-100 dark:border-amber-900/50 dark:bg-amber-900/20 dark:text-amber-300"
+                            : "border-zinc-200 bg-white text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+                )}
+            >
+                {downloading ? (
+                    <RefreshCw className="h-4 w-4 animate-spin" />
+                ) : status === 'none' ? (
+                    <CloudDownload className="h-4 w-4" />
+                ) : status === 'stale' ? (
+                    <RefreshCw className="h-4 w-4" />
+                ) : (
+                    <CloudOff className="h-4 w-4" />
+                )}
+                {downloading ? "Downloading..." : status === 'none' ? "Download" : status === 'stale' ? "Update offline copy" : "Offline ready"}
+            </button>
+            {status !== 'none' && !downloading && (
+                <button
+                    onClick={handleRemove}
+                    className="rounded-lg p-2 text-zinc-400 hover:bg-zinc-100 hover:text-red-500 dark:hover:bg-zinc-800"
+                    title="Remove offline copy"
+                >
+                    <Trash2 className="h-4 w-4" />
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { useAuth } from "@/context/AuthContext";
+import { flushPendingWrites } from "@/lib/offlineStore";
+
+// Registers the app shell service worker and replays progress/notes queued while offline.
+export function OfflineSync() {
+    const { user } = useAuth();
+
+    useEffect(() => {
+        if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+        navigator.serviceWorker.register('/sw.js').catch((error) => {
+            console.error("Service worker registration failed:", error);
+        });
+    }, []);
+
+    useEffect(() => {
+        if (!user) return;
+
+        const sync = async () => {
+            if (!navigator.onLine) return;
+            const synced = await flushPendingWrites(user.uid);
+            if (synced > 0) {
+                toast.success(`Synced ${synced} offline ${synced === 1 ? "change" : "changes"}`);
+            }
+        };
+
+        const handleOffline = () => {
+            toast.info("You're offline. Downloaded subjects stay available and your progress will sync later.");
+        };
+
+        sync();
+        window.addEventListener('online', sync);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', sync);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, [user]);
+
+    return null;
+}
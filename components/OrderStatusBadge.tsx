@@ -0,0 +1,23 @@
+import { OrderStatus } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const STATUS_STYLES: Record<OrderStatus, { label: string; className: string }> = {
+    created: { label: 'Awaiting payment', className: 'bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400' },
+    paid: { label: 'Paid', className: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' },
+    enrolled: { label: 'Enrolled', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+    failed: { label: 'Failed', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+    refunded: { label: 'Refunded', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+};
+
+export const ORDER_STATUS_LABELS = Object.fromEntries(
+    Object.entries(STATUS_STYLES).map(([status, style]) => [status, style.label])
+) as Record<OrderStatus, string>;
+
+export function OrderStatusBadge({ status }: { status: OrderStatus }) {
+    const style = STATUS_STYLES[status] || STATUS_STYLES.created;
+    return (
+        <span className={cn("rounded-full px-2.5 py-0.5 text-xs font-bold uppercase tracking-wide", style.className)}>
+            {style.label}
+        </span>
+    );
+}
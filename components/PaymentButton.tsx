@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { loadRazorpay } from '@/lib/loadRazorpay';
-import { Loader2, Lock } from 'lucide-react';
+import { Loader2, Lock, TicketPercent, X } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/context/AuthContext';
 import { useRouter } from 'next/navigation';
@@ -12,17 +12,64 @@ import { cn } from '@/lib/utils';
 interface PaymentButtonProps {
     courseId?: string;
     courseIds?: string[];
+    // Semester checkout: courseIds are the chosen subjects, priced with the bundle price
+    bundleId?: string;
     amount: number;
     courseName: string;
     className?: string;
+    // Extends an existing purchase; the server stacks the new period on the current expiry
+    isRenewal?: boolean;
 }
 
-export function PaymentButton({ courseId, courseIds, amount, courseName, className }: PaymentButtonProps) {
+export function PaymentButton({ courseId, courseIds, bundleId, amount, courseName, className, isRenewal }: PaymentButtonProps) {
     const [loading, setLoading] = useState(false);
+    const [showCouponInput, setShowCouponInput] = useState(false);
+    const [couponInput, setCouponInput] = useState('');
+    const [applyingCoupon, setApplyingCoupon] = useState(false);
+    const [appliedCoupon, setAppliedCoupon] = useState<{ code: string; discount: number; amount: number } | null>(null);
     const { user, refreshUser } = useAuth();
     const { settings, loading: settingsLoading } = useSettings();
     const router = useRouter();
 
+    const handleApplyCoupon = async () => {
+        if (!user) {
+            router.push('/login');
+            return;
+        }
+        if (!couponInput.trim()) return;
+
+        setApplyingCoupon(true);
+        try {
+            const token = await user.getIdToken();
+            const response = await fetch('/api/payment/validate-coupon', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${token}`
+                },
+                body: JSON.stringify({ courseId, courseIds, bundleId, couponCode: couponInput }),
+            });
+            const result = await response.json();
+
+            if (result.success) {
+                setAppliedCoupon({ code: result.coupon, discount: result.discount, amount: result.amount });
+                toast.success(`Coupon applied: ₹${result.discount} off`);
+            } else {
+                toast.error(result.error || 'Invalid coupon code');
+            }
+        } catch (error) {
+            console.error('Coupon error:', error);
+            toast.error('Could not apply coupon. Please try again.');
+        } finally {
+            setApplyingCoupon(false);
+        }
+    };
+
+    const removeCoupon = () => {
+        setAppliedCoupon(null);
+        setCouponInput('');
+    };
+
     const handlePayment = async () => {
         if (!user) {
             router.push('/login');
@@ -50,7 +97,7 @@ export function PaymentButton({ courseId, courseIds, amount, courseName, classNa
                 const result = await response.json();
 
                 if (result.success) {
-                    toast.success('Enrolled Successfully!');
+                    toast.success(isRenewal ? 'Access extended!' : 'Enrolled Successfully!');
                     await refreshUser(); // Refresh user data immediately
                     router.refresh();
                     if (courseId) {
@@ -74,15 +121,19 @@ export function PaymentButton({ courseId, courseIds, amount, courseName, classNa
             }
 
             // Create Order
+            const orderToken = await user.getIdToken();
             const response = await fetch('/api/payment/create-order', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${orderToken}`
                 },
                 body: JSON.stringify({
                     courseId,
                     courseIds,
+                    bundleId,
                     amount,
+                    couponCode: appliedCoupon?.code,
                 }),
             });
 
@@ -90,6 +141,8 @@ export function PaymentButton({ courseId, courseIds, amount, courseName, classNa
 
             if (order.error) {
                 toast.error(order.error);
+                // A coupon can run out between preview and checkout
+                if (appliedCoupon) setAppliedCoupon(null);
                 setLoading(false);
                 return;
             }
@@ -99,7 +152,7 @@ export function PaymentButton({ courseId, courseIds, amount, courseName, classNa
                 amount: order.amount,
                 currency: order.currency,
                 name: "Saraav",
-                description: `Purchase ${courseName}`,
+                description: `${isRenewal ? 'Renew' : 'Purchase'} ${courseName}`,
                 order_id: order.id,
                 handler: async function (response: any) {
                     try {
@@ -114,15 +167,13 @@ export function PaymentButton({ courseId, courseIds, amount, courseName, classNa
                                 razorpay_order_id: response.razorpay_order_id,
                                 razorpay_payment_id: response.razorpay_payment_id,
                                 razorpay_signature: response.razorpay_signature,
-                                courseId,
-                                courseIds,
                             }),
                         });
 
                         const verifyResult = await verifyResponse.json();
 
                         if (verifyResult.success) {
-                            toast.success('Payment Successful! Course unlocked.');
+                            toast.success(isRenewal ? 'Payment Successful! Access extended.' : 'Payment Successful! Course unlocked.');
                             await refreshUser(); // Refresh user data immediately
                             router.refresh();
                             if (courseId) {
@@ -172,31 +223,80 @@ export function PaymentButton({ courseId, courseIds, amount, courseName, classNa
         );
     }
 
+    const payableAmount = appliedCoupon ? appliedCoupon.amount : amount;
+
     return (
-        <button
-            onClick={handlePayment}
-            disabled={loading}
-            className={cn(
-                "group relative flex w-full items-center justify-center gap-2 overflow-hidden rounded-xl bg-blue-600 px-8 py-4 text-base font-semibold text-white shadow-lg transition-all hover:bg-blue-500 hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed",
-                className
-            )}
-        >
-            {/* Shimmer Effect */}
-            <div className="absolute inset-0 -translate-x-full animate-[shimmer_2s_infinite] bg-gradient-to-r from-transparent via-white/20 to-transparent" />
-
-            <div className="relative flex items-center gap-2">
-                {loading ? (
-                    <>
-                        <Loader2 className="h-5 w-5 animate-spin" />
-                        Processing...
-                    </>
+        <div className="w-full space-y-2">
+            {settings.isPaymentEnabled && (
+                appliedCoupon ? (
+                    <div className="flex items-center justify-between rounded-lg border border-green-200 bg-green-50 px-3 py-2 text-sm text-green-700 dark:border-green-900/50 dark:bg-green-900/20 dark:text-green-300">
+                        <span className="flex items-center gap-2">
+                            <TicketPercent className="h-4 w-4" />
+                            <span className="font-semibold">{appliedCoupon.code}</span>
+                            <span>−₹{appliedCoupon.discount}</span>
+                        </span>
+                        <button onClick={removeCoupon} className="rounded p-0.5 hover:bg-green-100 dark:hover:bg-green-900/40" title="Remove coupon">
+                            <X className="h-4 w-4" />
+                        </button>
+                    </div>
+                ) : showCouponInput ? (
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            value={couponInput}
+                            onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                            onKeyDown={(e) => e.key === 'Enter' && handleApplyCoupon()}
+                            placeholder="Coupon code"
+                            autoFocus
+                            className="min-w-0 flex-1 rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm uppercase text-zinc-900 focus:border-indigo-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+                        />
+                        <button
+                            onClick={handleApplyCoupon}
+                            disabled={applyingCoupon || !couponInput.trim()}
+                            className="flex items-center gap-1 rounded-lg bg-zinc-900 px-4 py-2 text-sm font-medium text-white hover:bg-zinc-800 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+                        >
+                            {applyingCoupon && <Loader2 className="h-4 w-4 animate-spin" />}
+                            Apply
+                        </button>
+                    </div>
                 ) : (
-                    <>
-                        {settings.isPaymentEnabled ? <Lock className="h-5 w-5" /> : <Lock className="h-5 w-5" />}
-                        {settings.isPaymentEnabled ? `Enroll Now - ₹${amount}` : 'Enroll for Free'}
-                    </>
+                    <button
+                        onClick={() => setShowCouponInput(true)}
+                        className="flex items-center gap-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400"
+                    >
+                        <TicketPercent className="h-3.5 w-3.5" />
+                        Have a coupon code?
+                    </button>
+                )
+            )}
+
+            <button
+                onClick={handlePayment}
+                disabled={loading}
+                className={cn(
+                    "group relative flex w-full items-center justify-center gap-2 overflow-hidden rounded-xl bg-blue-600 px-8 py-4 text-base font-semibold text-white shadow-lg transition-all hover:bg-blue-500 hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed",
+                    className
                 )}
-            </div>
-        </button>
+            >
+                {/* Shimmer Effect */}
+                <div className="absolute inset-0 -translate-x-full animate-[shimmer_2s_infinite] bg-gradient-to-r from-transparent via-white/20 to-transparent" />
+
+                <div className="relative flex items-center gap-2">
+                    {loading ? (
+                        <>
+                            <Loader2 className="h-5 w-5 animate-spin" />
+                            Processing...
+                        </>
+                    ) : (
+                        <>
+                            {settings.isPaymentEnabled ? <Lock className="h-5 w-5" /> : <Lock className="h-5 w-5" />}
+                            {isRenewal
+                                ? (settings.isPaymentEnabled ? `Renew - ₹${payableAmount}` : 'Renew for Free')
+                                : (settings.isPaymentEnabled ? `Enroll Now - ₹${payableAmount}` : 'Enroll for Free')}
+                        </>
+                    )}
+                </div>
+            </button>
+        </div>
     );
 }
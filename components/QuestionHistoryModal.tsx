@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+import { ContentRevision } from '@/lib/types';
+import { fetchQuestionHistory } from '@/lib/contentHistory';
+import { diffText } from '@/lib/textDiff';
+import { cn } from '@/lib/utils';
+
+interface QuestionHistoryModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    subjectId: string;
+    questionId: string;
+    onRevert: (revision: ContentRevision) => Promise<void>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+    text: 'Question',
+    solution: 'Solution',
+    frequency: 'Frequency',
+    history: 'Year tags',
+    images: 'Images',
+    questionImageUrl: 'Question image',
+    solutionImageUrl: 'Solution image',
+    hasDiagram: 'Diagram flag',
+    hasSolution: 'Solution flag',
+    video: 'Video',
+};
+
+const formatValue = (value: unknown) => {
+    if (value === undefined || value === null || value === '') return '';
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+};
+
+function FieldDiff({ field, revision }: { field: string; revision: ContentRevision }) {
+    const before = formatValue(revision.before[field as keyof ContentRevision['before']]);
+    const after = formatValue(revision.after[field as keyof ContentRevision['after']]);
+
+    return (
+        <div>
+            <p className="mb-1 text-xs font-semibold uppercase text-zinc-500">{FIELD_LABELS[field] || field}</p>
+            <pre className="max-h-72 overflow-auto whitespace-pre-wrap break-words rounded-lg border border-zinc-200 bg-zinc-50 p-3 font-mono text-xs text-zinc-700 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-300">
+                {diffText(before, after).map((part, i) => (
+                    <span
+                        key={i}
+                        className={cn(
+                            part.type === 'added' && "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
+                            part.type === 'removed' && "bg-red-100 text-red-800 line-through dark:bg-red-900/40 dark:text-red-300"
+                        )}
+                    >
+                        {part.value}
+                    </span>
+                ))}
+            </pre>
+        </div>
+    );
+}
+
+export function QuestionHistoryModal({ isOpen, onClose, subjectId, questionId, onRevert }: QuestionHistoryModalProps) {
+    const [revisions, setRevisions] = useState<ContentRevision[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [reverting, setReverting] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        let cancelled = false;
+        fetchQuestionHistory(subjectId, questionId)
+            .then(history => {
+                if (cancelled) return;
+                setRevisions(history);
+                setSelectedId(history[0]?.id || null);
+            })
+            .catch(error => {
+                console.error("Error loading question history:", error);
+                toast.error("Failed to load history");
+            })
+            .finally(() => {
+                if (!cancelled) setLoading(false);
+            });
+
+        return () => { cancelled = true; };
+    }, [isOpen, subjectId, questionId]);
+
+    if (!isOpen) return null;
+
+    const selected = revisions.find(r => r.id === selectedId);
+
+    const handleRevert = async (revision: ContentRevision) => {
+        if (!window.confirm("Restore this question to how it was before this edit? The restore is recorded as a new revision.")) return;
+
+        setReverting(true);
+        try {
+            await onRevert(revision);
+            toast.success("Question restored");
+            onClose();
+        } catch (error) {
+            console.error("Error restoring revision:", error);
+            toast.error(error instanceof Error ? error.message : "Failed to restore revision");
+        } finally {
+            setReverting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in duration-200" onClick={onClose}>
+            <div
+                className="flex max-h-[85vh] w-full max-w-5xl flex-col rounded-2xl bg-white shadow-xl dark:bg-zinc-900 animate-in zoom-in-95 duration-200"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between border-b border-zinc-200 p-4 dark:border-zinc-800">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+                        <History className="h-5 w-5 text-indigo-500" />
+                        Revision History
+                    </h3>
+                    <button
+                        onClick={onClose}
+                        className="rounded-full p-1 text-zinc-400 hover:bg-zinc-100 hover:text-zinc-500 dark:hover:bg-zinc-800"
+                    >
+                        <X className="h-5 w-5" />
+                    </button>
+                </div>
+
+                {loading ? (
+                    <div className="flex items-center justify-center py-16">
+                        <Loader2 className="h-6 w-6 animate-spin text-zinc-400" />
+                    </div>
+                ) : revisions.length === 0 ? (
+                    <p className="py-16 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                        No edits have been recorded for this question yet.
+                    </p>
+                ) : (
+                    <div className="flex min-h-0 flex-1 flex-col md:flex-row">
+                        {/* Timeline */}
+                        <ol className="max-h-48 shrink-0 overflow-y-auto border-b border-zinc-200 p-2 dark:border-zinc-800 md:max-h-none md:w-72 md:border-b-0 md:border-r">
+                            {revisions.map(revision => (
+                                <li key={revision.id}>
+                                    <button
+                                        onClick={() => setSelectedId(revision.id)}
+                                        className={cn(
+                                            "w-full rounded-lg p-3 text-left transition-colors",
+                                            revision.id === selectedId
+                                                ? "bg-indigo-50 dark:bg-indigo-900/20"
+                                                : "hover:bg-zinc-50 dark:hover:bg-zinc-800/50"
+                                        )}
+                                    >
+                                        <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                                            {new Date(revision.updatedAt).toLocaleString()}
+                                        </p>
+                                        <p className="truncate text-xs text-zinc-500 dark:text-zinc-400">
+                                            {revision.editorEmail || revision.editorUid}
+                                        </p>
+                                        <div className="mt-1.5 flex flex-wrap gap-1">
+                                            {revision.restoredFrom && (
+                                                <span className="rounded bg-amber-100 px-1.5 py-0.5 text-[10px] font-semibold text-amber-700 dark:bg-amber-900/30 dark:text-amber-300">
+                                                    Restore
+                                                </span>
+                                            )}
+                                            {revision.mergedIds && (
+                                                <span className="rounded bg-indigo-100 px-1.5 py-0.5 text-[10px] font-semibold text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300">
+                                                    Merge
+                                                </span>
+                                            )}
+                                            {revision.changedFields.map(field => (
+                                                <span key={field} className="rounded bg-zinc-100 px-1.5 py-0.5 text-[10px] text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400">
+                                                    {FIELD_LABELS[field] || field}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </button>
+                                </li>
+                            ))}
+                        </ol>
+
+                        {/* Diff */}
+                        <div className="min-h-0 flex-1 space-y-4 overflow-y-auto p-4">
+                            {selected && (
+                                <>
+                                    <div className="flex flex-wrap items-center justify-between gap-2">
+                                        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                                            Started {new Date(selected.createdAt).toLocaleString()}
+                                        </p>
+                                        <button
+                                            onClick={() => handleRevert(selected)}
+                                            disabled={reverting}
+                                            className="flex items-center gap-2 rounded-lg border border-zinc-200 px-3 py-1.5 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                                        >
+                                            {reverting ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                                            Restore version before this edit
+                                        </button>
+                                    </div>
+                                    {selected.changedFields.length === 0 ? (
+                                        <p className="text-sm text-zinc-500 dark:text-zinc-400">This revision did not change any content.</p>
+                                    ) : (
+                                        selected.changedFields.map(field => (
+                                            <FieldDiff key={field} field={field} revision={selected} />
+                                        ))
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
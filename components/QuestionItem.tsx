@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
-import { ChevronDown, ChevronUp, Copy, ExternalLink, Flag, ImageIcon, Maximize2, Minimize2, Plus, Star, StickyNote, Trash2, X, Youtube } from 'lucide-react';
+import { ChevronDown, ChevronUp, Copy, ExternalLink, Flag, History, ImageIcon, Maximize2, MessageSquare, Minimize2, Plus, Star, StickyNote, Trash2, X, Youtube } from 'lucide-react';
 import { ErrorBoundary } from './ErrorBoundary';
 import dynamic from 'next/dynamic';
 import Image from 'next/image';
@@ -15,7 +15,11 @@ const MarkdownRenderer = dynamic(() => import('./MarkdownRenderer').then(mod =>
 import { cn } from '@/lib/utils';
 import { SolutionModal } from './SolutionModal';
 import { ReportQuestionModal } from './ReportQuestionModal';
-import { Question } from '@/lib/types';
+import { QuestionHistoryModal } from './QuestionHistoryModal';
+import { DiscussQuestionDialog } from './DiscussQuestionDialog';
+import type { QuestionDiscussion } from '@/hooks/useQuestionDiscussions';
+import Link from 'next/link';
+import { ContentRevision, Question } from '@/lib/types';
 
 interface QuestionItemProps {
     question: Question;
@@ -32,8 +36,11 @@ interface QuestionItemProps {
     isEditing?: boolean;
     onUpdate?: (id: string, updates: Partial<Question>) => void;
     onDelete?: (id: string) => void;
+    onRevertRevision?: (revision: ContentRevision) => Promise<void>;
     subjectId?: string;
     unitId?: string;
+    canDiscuss?: boolean; // Community is enabled for this user
+    discussion?: QuestionDiscussion;
 }
 
 export function QuestionItem({
@@ -51,8 +58,11 @@ export function QuestionItem({
     isEditing,
     onUpdate,
     onDelete,
+    onRevertRevision,
     subjectId,
-    unitId
+    unitId,
+    canDiscuss,
+    discussion
 }: QuestionItemProps) {
     const { isAdmin } = useAuth();
     const [localEditMode, setLocalEditMode] = useState(false);
@@ -64,6 +74,8 @@ export function QuestionItem({
 
     const [loadingNote, setLoadingNote] = useState(false);
     const [isReportModalOpen, setIsReportModalOpen] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isDiscussOpen, setIsDiscussOpen] = useState(false);
 
     const effectiveIsEditing = isEditing || localEditMode;
 
@@ -194,6 +206,16 @@ export function QuestionItem({
                         <StickyNote className="h-6 w-6" />
                     </button>
 
+                    {canDiscuss && subjectId && unitId && (
+                        <button
+                            onClick={() => setIsDiscussOpen(true)}
+                            className="flex h-8 w-8 items-center justify-center rounded-lg text-zinc-300 transition-colors hover:text-indigo-600 dark:text-zinc-600"
+                            title="Discuss"
+                        >
+                            <MessageSquare className="h-6 w-6" />
+                        </button>
+                    )}
+
                     <button
                         onClick={() => setIsReportModalOpen(true)}
                         className="flex h-8 w-8 items-center justify-center rounded-lg text-zinc-300 transition-colors hover:text-red-500 dark:text-zinc-600"
@@ -694,6 +716,17 @@ export function QuestionItem({
                     </button>
                 )}
 
+                {/* Community discussions about this question */}
+                {discussion && discussion.count > 0 && (
+                    <Link
+                        href={`/community?channel=${discussion.channelId}&message=${discussion.messageId}`}
+                        className="inline-flex items-center gap-1.5 rounded-full bg-indigo-50 px-2.5 py-1 text-xs font-medium text-indigo-700 transition-colors hover:bg-indigo-100 dark:bg-indigo-900/30 dark:text-indigo-300 dark:hover:bg-indigo-900/50"
+                    >
+                        <MessageSquare className="h-3.5 w-3.5" />
+                        {discussion.count} {discussion.count === 1 ? 'discussion' : 'discussions'}
+                    </Link>
+                )}
+
                 {/* Note Area */}
                 {isNoteOpen && (
                     <div className="mt-2 border-t border-zinc-100 pt-4 dark:border-zinc-800">
@@ -752,6 +785,16 @@ export function QuestionItem({
                     <StickyNote className="h-6 w-6" />
                 </button>
 
+                {canDiscuss && subjectId && unitId && (
+                    <button
+                        onClick={() => setIsDiscussOpen(true)}
+                        className="flex h-8 w-8 items-center justify-center rounded-lg text-zinc-300 transition-colors hover:text-indigo-600 dark:text-zinc-600"
+                        title="Discuss"
+                    >
+                        <MessageSquare className="h-6 w-6" />
+                    </button>
+                )}
+
                 <button
                     onClick={() => setIsReportModalOpen(true)}
                     className="flex h-8 w-8 items-center justify-center rounded-lg text-zinc-300 transition-colors hover:bg-zinc-100 hover:text-red-500 dark:text-zinc-600 dark:hover:bg-zinc-800"
@@ -778,6 +821,16 @@ export function QuestionItem({
                         )}
                     </button>
                 )}
+
+                {isAdmin && onRevertRevision && subjectId && (
+                    <button
+                        onClick={() => setIsHistoryOpen(true)}
+                        className="flex h-8 w-8 items-center justify-center rounded-lg text-zinc-300 transition-colors hover:text-indigo-600 dark:text-zinc-600"
+                        title="Revision History"
+                    >
+                        <History className="h-5 w-5" />
+                    </button>
+                )}
             </div>
 
             <SolutionModal
@@ -794,6 +847,25 @@ export function QuestionItem({
                 subjectId={subjectId}
                 unitId={unitId}
             />
+
+            {isDiscussOpen && subjectId && unitId && (
+                <DiscussQuestionDialog
+                    onClose={() => setIsDiscussOpen(false)}
+                    question={question}
+                    subjectId={subjectId}
+                    unitId={unitId}
+                />
+            )}
+
+            {onRevertRevision && subjectId && (
+                <QuestionHistoryModal
+                    isOpen={isHistoryOpen}
+                    onClose={() => setIsHistoryOpen(false)}
+                    subjectId={subjectId}
+                    questionId={question.id}
+                    onRevert={onRevertRevision}
+                />
+            )}
         </div >
     );
 }
\ No newline at end of file
@@ -12,6 +12,7 @@ import { useAuth } from "@/context/AuthContext";
 import { useSettings } from "@/hooks/useSettings";
 import { PaymentButton } from "@/components/PaymentButton";
 import { cn } from "@/lib/utils";
+import { getDaysRemaining, needsRenewal } from "@/lib/purchaseExpiry";
 // import { useSubjects } from "@/hooks/useSubjects"; // REMOVED
 
 interface SubjectDetailsProps {
@@ -19,7 +20,7 @@ interface SubjectDetailsProps {
 }
 
 export default function SubjectDetails({ subjectId }: SubjectDetailsProps) {
-    const { user, purchasedCourseIds } = useAuth();
+    const { user, purchasedCourseIds, purchases, checkAccess } = useAuth();
     const { settings, loading: settingsLoading } = useSettings() as any;
     // const { subjects, loading: subjectsLoading } = useSubjects(); // REMOVED
 
@@ -28,6 +29,9 @@ export default function SubjectDetails({ subjectId }: SubjectDetailsProps) {
     const [error, setError] = useState<string | null>(null);
 
     const isPurchased = purchasedCourseIds.includes(subjectId);
+    const hasAccess = checkAccess(subjectId);
+    const canRenew = isPurchased && needsRenewal(purchases?.[subjectId]);
+    const renewalDaysLeft = canRenew && purchases?.[subjectId] ? getDaysRemaining(purchases[subjectId]) : 0;
 
     const [bundleSubjects, setBundleSubjects] = useState<any[]>([]);
     const [loadingBundle, setLoadingBundle] = useState(true);
@@ -240,7 +244,33 @@ export default function SubjectDetails({ subjectId }: SubjectDetailsProps) {
                             )}
                         </div>
 
-                        {isPurchased ? (
+                        {canRenew ? (
+                            <div className="space-y-3">
+                                <p className={cn(
+                                    "text-sm font-medium",
+                                    renewalDaysLeft > 0 ? "text-amber-600 dark:text-amber-400" : "text-red-600 dark:text-red-400"
+                                )}>
+                                    {renewalDaysLeft > 0
+                                        ? `Your access expires in ${renewalDaysLeft} ${renewalDaysLeft === 1 ? 'day' : 'days'}. Renewing adds ${settings.courseDurationMonths || 5} months to it.`
+                                        : 'Your access has expired. Renew to continue studying.'}
+                                </p>
+                                <PaymentButton
+                                    courseId={subjectId}
+                                    amount={metadata.price || 0}
+                                    courseName={metadata.title}
+                                    isRenewal
+                                />
+                                {hasAccess && (
+                                    <Link
+                                        href={`/study/${subjectId}`}
+                                        className="flex w-full items-center justify-center gap-2 rounded-xl border border-zinc-200 px-6 py-3 text-sm font-semibold text-zinc-700 transition-colors hover:bg-zinc-50 dark:border-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                                    >
+                                        <BookOpen className="h-4 w-4" />
+                                        Go to Course
+                                    </Link>
+                                )}
+                            </div>
+                        ) : isPurchased ? (
                             <Link
                                 href={`/study/${subjectId}`}
                                 className="flex w-full items-center justify-center gap-2 rounded-xl bg-green-600 px-6 py-3.5 text-base font-semibold text-white transition-colors hover:bg-green-700"
@@ -8,7 +8,7 @@ import {
     signInWithPopup,
     signOut,
 } from "firebase/auth";
-import { doc, getDoc, setDoc, updateDoc, arrayUnion, getDocFromServer } from "firebase/firestore";
+import { doc, getDoc, setDoc, updateDoc, arrayUnion, getDocFromServer, serverTimestamp } from "firebase/firestore";
 import { auth, db } from "@/lib/firebase";
 import { UserProfile } from "@/lib/types";
 
@@ -135,7 +135,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                             email: user.email,
                             displayName: user.displayName,
                             photoURL: user.photoURL,
-                            createdAt: new Date().toISOString(),
+                            createdAt: serverTimestamp(), // Required by firestore.rules, marks the profile as non-legacy
                             purchasedCourseIds: [],
                             hasSeenWelcomeModal: false
                         });
@@ -10,6 +10,22 @@ export interface Channel {
     branch: string;
     year?: string;
     createdAt?: Timestamp;
+    lastMessageAt?: Timestamp; // Server time of the newest message, written alongside it
+}
+
+// Normalize year for comparison (e.g., "4th Year" vs "Fourth Year")
+const normalizeYear = (y: string) => {
+    if (!y) return "";
+    return y.toLowerCase().replace(/^(1st|first)\s*year/i, "1")
+        .replace(/^(2nd|second)\s*year/i, "2")
+        .replace(/^(3rd|third)\s*year/i, "3")
+        .replace(/^(4th|fourth)\s*year/i, "4");
+};
+
+// Only the user's own year is listed; the legacy General group stays hidden
+export function isYearVisible(channelYear: string, userYear?: string) {
+    if (channelYear === "General") return false;
+    return !userYear || normalizeYear(channelYear) === normalizeYear(userYear);
 }
 
 export function useBranchChat() {
@@ -1,5 +1,5 @@
 import { useInfiniteQuery, useQueryClient } from "@tanstack/react-query";
-import { useEffect } from "react";
+import { useCallback, useEffect } from "react";
 import {
     collection,
     query,
@@ -9,6 +9,7 @@ import {
     startAfter,
     onSnapshot,
     endBefore,
+    startAt,
     Timestamp,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
@@ -16,6 +17,8 @@ import { Message } from "@/lib/types";
 
 const MESSAGES_PER_PAGE = 20;
 
+type MessagePages = { pages: Message[][], pageParams: unknown[] };
+
 export function useChannelMessages(channelId: string) {
     const queryClient = useQueryClient();
 
@@ -70,46 +73,66 @@ export function useChannelMessages(channelId: string) {
     useEffect(() => {
         if (!channelId || isLoading) return;
 
-        // Determine anchor
+        // Determine anchor: the oldest message of the newest page, so edits, reactions and
+        // deletions on the latest messages also arrive live (older pages are patched locally)
         const cachedData = queryClient.getQueryData(["messages", channelId]) as any;
-        let latestTimestamp = null;
+        const messagesRef = collection(db, "channels", channelId, "messages");
+        let q;
 
         if (cachedData?.pages?.[0]?.length > 0) {
-            const firstPage = cachedData.pages[0];
-            latestTimestamp = firstPage[firstPage.length - 1].createdAt;
-        }
-
-        // If no data (and loaded), start from NOW to avoid fetching history as "new"
-        if (!latestTimestamp) {
-            latestTimestamp = Timestamp.now();
+            q = query(
+                messagesRef,
+                orderBy("createdAt", "asc"),
+                startAt(cachedData.pages[0][0].createdAt)
+            );
+        } else {
+            // If no data (and loaded), start from NOW to avoid fetching history as "new"
+            q = query(
+                messagesRef,
+                orderBy("createdAt", "asc"),
+                startAfter(Timestamp.now())
+            );
         }
 
-        const messagesRef = collection(db, "channels", channelId, "messages");
-        const q = query(
-            messagesRef,
-            orderBy("createdAt", "asc"),
-            startAfter(latestTimestamp)
-        );
-
         const unsubscribe = onSnapshot(q, (snapshot) => {
             if (snapshot.empty) return;
 
             const newMessages: Message[] = [];
+            const modified = new Map<string, Message>();
+            const removed = new Set<string>();
 
-            // Iterate over docChanges to only get added/modified docs.
             snapshot.docChanges().forEach((change) => {
+                const message = { id: change.doc.id, ...change.doc.data() } as Message;
                 if (change.type === "added") {
-                    newMessages.push({
-                        id: change.doc.id,
-                        ...change.doc.data()
-                    } as Message);
+                    newMessages.push(message);
+                } else if (change.type === "modified") {
+                    modified.set(message.id, message);
+                } else {
+                    removed.add(message.id);
                 }
             });
 
+            // A new reply may belong to a thread that is open
+            if (newMessages.some(m => m.replyToId) || removed.size > 0) {
+                queryClient.invalidateQueries({ queryKey: ["thread", channelId] });
+            }
+
+            if (modified.size > 0 || removed.size > 0) {
+                queryClient.setQueryData(["messages", channelId], (oldData: MessagePages | undefined) => {
+                    if (!oldData) return oldData;
+                    return {
+                        ...oldData,
+                        pages: oldData.pages.map(page => page
+                            .filter(m => !removed.has(m.id))
+                            .map(m => modified.get(m.id) ?? m))
+                    };
+                });
+            }
+
             if (newMessages.length === 0) return;
 
             // Optimistically update the cache
-            queryClient.setQueryData(["messages", channelId], (oldData: { pages: Message[][], pageParams: any[] } | undefined) => {
+            queryClient.setQueryData(["messages", channelId], (oldData: MessagePages | undefined) => {
                 if (!oldData || !oldData.pages || oldData.pages.length === 0) {
                     return {
                         pages: [newMessages],
@@ -137,6 +160,17 @@ export function useChannelMessages(channelId: string) {
         return () => unsubscribe();
     }, [channelId, isLoading, queryClient]);
 
+    // Apply a local change to a cached message wherever it sits in the loaded pages
+    const patchMessage = useCallback((messageId: string, update: (message: Message) => Message) => {
+        queryClient.setQueryData(["messages", channelId], (oldData: MessagePages | undefined) => {
+            if (!oldData) return oldData;
+            return {
+                ...oldData,
+                pages: oldData.pages.map(page => page.map(m => m.id === messageId ? update(m) : m))
+            };
+        });
+    }, [channelId, queryClient]);
+
     const flattenedMessages = data?.pages
         ? data.pages.flat().sort((a, b) => {
             const tA = a.createdAt?.seconds || 0;
@@ -150,6 +184,7 @@ export function useChannelMessages(channelId: string) {
         fetchNextPage,
         hasNextPage,
         isFetchingNextPage,
-        isLoading
+        isLoading,
+        patchMessage
     };
 }
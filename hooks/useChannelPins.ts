@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Message } from "@/lib/types";
+
+// Messages an admin pinned in the channel, newest pin first
+export function useChannelPins(channelId: string) {
+    const [pins, setPins] = useState<{ channelId: string; messages: Message[] } | null>(null);
+
+    useEffect(() => {
+        const q = query(
+            collection(db, "channels", channelId, "messages"),
+            where("pinned", "==", true)
+        );
+
+        const unsubscribe = onSnapshot(q, (snapshot) => {
+            const messages = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Message);
+            // Sorted here rather than in the query so no composite index is needed
+            messages.sort((a, b) => (b.pinnedAt?.seconds || 0) - (a.pinnedAt?.seconds || 0));
+            setPins({ channelId, messages });
+        }, (err) => {
+            console.error("Error fetching pinned messages:", err);
+        });
+
+        return () => unsubscribe();
+    }, [channelId]);
+
+    return pins?.channelId === channelId ? pins.messages : [];
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useQueries } from "@tanstack/react-query";
+import { collection, doc, getCountFromServer, limit, onSnapshot, query, setDoc, Timestamp, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/context/AuthContext";
+import { Channel } from "@/hooks/useBranchChat";
+
+// Counts stop here, the badge shows "99+"
+export const UNREAD_COUNT_CAP = 100;
+
+// Stored under users/{uid}/community/reads
+interface ReadState {
+    since: number; // First visit, channels never opened count as read up to here
+    channels: Record<string, number>; // Channel id -> createdAt (ms) of the last message seen
+}
+
+const readStateRef = (uid: string) => doc(db, "users", uid, "community", "reads");
+
+/**
+ * Per-channel last-read markers of the signed-in user, kept live.
+ * `markRead` only ever moves a marker forward.
+ */
+export function useChannelReads() {
+    const { user } = useAuth();
+    const [snapshot, setSnapshot] = useState<{ uid: string; reads: ReadState } | null>(null);
+    // Ignore state left over from a previous account
+    const state = user && snapshot?.uid === user.uid ? snapshot.reads : null;
+
+    useEffect(() => {
+        if (!user) return;
+
+        const ref = readStateRef(user.uid);
+        const unsubscribe = onSnapshot(ref, (snap) => {
+            if (snap.exists()) {
+                const data = snap.data();
+                setSnapshot({ uid: user.uid, reads: { since: data.since || 0, channels: data.channels || {} } });
+            } else {
+                // First visit: history from before now is not "new"
+                const initial = { since: Date.now(), channels: {} };
+                setSnapshot({ uid: user.uid, reads: initial });
+                setDoc(ref, initial, { merge: true }).catch(err => console.error("Error creating read state:", err));
+            }
+        }, (err) => {
+            console.error("Error fetching read state:", err);
+        });
+
+        return () => unsubscribe();
+    }, [user]);
+
+    const lastReadAt = useCallback((channelId: string) => {
+        if (!state) return null;
+        return state.channels[channelId] ?? state.since;
+    }, [state]);
+
+    const markRead = useCallback(async (channelId: string, readAt: number) => {
+        if (!user || !state) return;
+        if (readAt <= (state.channels[channelId] ?? 0)) return;
+
+        try {
+            await setDoc(readStateRef(user.uid), { channels: { [channelId]: readAt } }, { merge: true });
+        } catch (error) {
+            console.error("Error saving read marker:", error);
+        }
+    }, [user, state]);
+
+    return { loaded: !!state, lastReadAt, markRead };
+}
+
+// Aggregation query: billed per 1000 index entries, no message documents are read
+async function countUnread(channelId: string, lastReadAt: number): Promise<number> {
+    const snapshot = await getCountFromServer(query(
+        collection(db, "channels", channelId, "messages"),
+        where("createdAt", ">", Timestamp.fromMillis(lastReadAt)),
+        limit(UNREAD_COUNT_CAP)
+    ));
+    return snapshot.data().count;
+}
+
+/**
+ * Unread messages per channel. Channels whose `lastMessageAt` is not newer than the
+ * user's marker are skipped without a query; results are cached until either changes.
+ */
+export function useUnreadCounts(channels: Channel[]) {
+    const { loaded, lastReadAt } = useChannelReads();
+
+    const targets = useMemo(() => channels.map(channel => {
+        const lastRead = lastReadAt(channel.id) ?? 0;
+        const lastMessage = channel.lastMessageAt?.toMillis();
+        // Channels from before lastMessageAt was tracked always need a count
+        const mayHaveUnread = lastMessage === undefined || lastMessage > lastRead;
+        return { channelId: channel.id, lastRead, lastMessage: lastMessage ?? null, mayHaveUnread };
+    }), [channels, lastReadAt]);
+
+    const results = useQueries({
+        queries: targets.map(target => ({
+            queryKey: ["unread", target.channelId, target.lastRead, target.lastMessage],
+            queryFn: () => countUnread(target.channelId, target.lastRead),
+            enabled: loaded && target.mayHaveUnread,
+            staleTime: Infinity,
+        })),
+    });
+
+    const counts: Record<string, number> = {};
+    targets.forEach((target, i) => {
+        counts[target.channelId] = target.mayHaveUnread ? results[i].data ?? 0 : 0;
+    });
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+    return { counts, total };
+}
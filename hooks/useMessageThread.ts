@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { collection, doc, getDoc, getDocs, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Message } from "@/lib/types";
+
+// Reply chains deeper than this are cut off
+const MAX_THREAD_DEPTH = 10;
+// Firestore "in" filters take at most 30 values
+const IN_QUERY_LIMIT = 30;
+
+const chunk = <T,>(items: T[], size: number) =>
+    Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+export interface MessageThread {
+    root: Message | null; // null when the message itself was deleted
+    replies: Message[]; // Every message in a reply chain below the root, oldest first
+}
+
+async function fetchThread(channelId: string, messageId: string): Promise<MessageThread> {
+    const messagesRef = collection(db, "channels", channelId, "messages");
+
+    // Walk up to the message that started the chain
+    let root: Message | null = null;
+    let currentId: string | undefined = messageId;
+    for (let depth = 0; currentId && depth < MAX_THREAD_DEPTH; depth++) {
+        const snap = await getDoc(doc(messagesRef, currentId));
+        if (!snap.exists()) break;
+        root = { id: snap.id, ...snap.data() } as Message;
+        currentId = root.replyToId;
+    }
+
+    // Then collect replies level by level
+    const replies: Message[] = [];
+    const seen = new Set<string>(root ? [root.id] : []);
+    let level = [root?.id ?? messageId];
+    for (let depth = 0; level.length > 0 && depth < MAX_THREAD_DEPTH; depth++) {
+        const snapshots = await Promise.all(chunk(level, IN_QUERY_LIMIT).map(ids =>
+            getDocs(query(messagesRef, where("replyToId", "in", ids)))
+        ));
+        level = [];
+        snapshots.forEach(snapshot => snapshot.docs.forEach(d => {
+            if (seen.has(d.id)) return;
+            seen.add(d.id);
+            replies.push({ id: d.id, ...d.data() } as Message);
+            level.push(d.id);
+        }));
+    }
+
+    replies.sort((a, b) => (a.createdAt?.seconds || 0) - (b.createdAt?.seconds || 0));
+    return { root, replies };
+}
+
+/**
+ * The whole conversation a message belongs to. Cached under ["thread", channelId, ...];
+ * the channel listener invalidates it when new replies arrive.
+ */
+export function useMessageThread(channelId: string, messageId: string | null) {
+    return useQuery({
+        queryKey: ["thread", channelId, messageId],
+        queryFn: () => fetchThread(channelId, messageId!),
+        enabled: !!messageId,
+    });
+}
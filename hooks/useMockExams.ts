@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { addDoc, collection, onSnapshot, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/context/AuthContext";
+import { MockExamResult } from "@/lib/types";
+
+export function useMockExams(subjectId: string) {
+    const { user } = useAuth();
+    const uid = user?.uid;
+    // Tagged with the query it came from, so stale results read as loading after user or subject changes
+    const [loaded, setLoaded] = useState<{ key: string; results: MockExamResult[] } | null>(null);
+    const currentKey = uid && subjectId ? `${uid}/${subjectId}` : null;
+
+    useEffect(() => {
+        if (!uid || !subjectId) return;
+
+        const queryKey = `${uid}/${subjectId}`;
+        // Sorted client-side to avoid needing a composite index
+        const q = query(collection(db, "users", uid, "mockExams"), where("subjectId", "==", subjectId));
+        const unsubscribe = onSnapshot(q, (querySnap) => {
+            const data = querySnap.docs
+                .map(doc => ({ ...doc.data(), id: doc.id } as MockExamResult))
+                .sort((a, b) => b.createdAt - a.createdAt);
+            setLoaded({ key: queryKey, results: data });
+        }, (error) => {
+            console.error("Error fetching mock exam history:", error);
+            setLoaded({ key: queryKey, results: [] });
+        });
+
+        return () => unsubscribe();
+    }, [uid, subjectId]);
+
+    const current = currentKey !== null && loaded?.key === currentKey ? loaded.results : null;
+    const results = current ?? [];
+    const loading = currentKey !== null && current === null;
+
+    const saveResult = async (result: Omit<MockExamResult, 'id'>) => {
+        if (!user) return;
+        try {
+            await addDoc(collection(db, "users", user.uid, "mockExams"), result);
+        } catch (error) {
+            console.error("Error saving mock exam result:", error);
+            throw error;
+        }
+    };
+
+    return { results, saveResult, loading };
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SubjectMetadata } from "@/lib/types";
+import {
+    OfflineSubject,
+    downloadSubject,
+    getOfflineStatus,
+    getOfflineSubject,
+    removeOfflineSubject,
+} from "@/lib/offlineStore";
+
+export function useOfflineSubject(subjectId: string, latestMetadata?: SubjectMetadata | null) {
+    const [offlineSubject, setOfflineSubject] = useState<OfflineSubject | undefined>();
+    const [downloading, setDownloading] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        getOfflineSubject(subjectId).then(stored => {
+            if (!cancelled) setOfflineSubject(stored);
+        });
+        return () => { cancelled = true; };
+    }, [subjectId]);
+
+    const download = async () => {
+        setDownloading(true);
+        try {
+            setOfflineSubject(await downloadSubject(subjectId));
+        } catch (error) {
+            console.error("Error downloading subject for offline use:", error);
+            throw error;
+        } finally {
+            setDownloading(false);
+        }
+    };
+
+    const remove = async () => {
+        await removeOfflineSubject(subjectId);
+        setOfflineSubject(undefined);
+    };
+
+    return {
+        offlineSubject,
+        status: getOfflineStatus(offlineSubject, latestMetadata),
+        downloading,
+        download,
+        remove,
+    };
+}
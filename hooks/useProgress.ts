@@ -5,6 +5,8 @@ import { doc, onSnapshot, setDoc, getDoc } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useAuth } from "@/context/AuthContext";
 import { QuestionProgress, QuestionStatus } from "@/lib/types";
+import { migrateProgressDoc, scheduleReview } from "@/lib/spacedRepetition";
+import { enqueueWrite, getPendingNote, getPendingWrites, isOffline, setProgressEntries } from "@/lib/offlineStore";
 
 export function useProgress(subjectId: string) {
     const { user } = useAuth();
@@ -18,57 +20,53 @@ export function useProgress(subjectId: string) {
             return;
         }
 
+        // Snapshots finish out of order while they wait on the offline queue, only the latest one is applied
+        let latestSeq = 0;
+        let unsubscribed = false;
+
         const docRef = doc(db, "users", user.uid, "progress", subjectId);
-        const unsubscribe = onSnapshot(docRef, (doc) => {
-            if (doc.exists()) {
-                const data = doc.data();
-                // Handle migration from old array format if necessary, or just read new map
-                if (data.questions) {
-                    setProgressMap(data.questions);
-                } else if (data.completedQuestions) {
-                    // Migration logic (optional, or just treat as empty)
-                    const migrated: { [key: string]: QuestionProgress } = {};
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    data.completedQuestions.forEach((qid: string) => {
-                        migrated[qid] = { status: 'easy', lastReviewed: Date.now(), isStarred: false };
-                    });
-                    setProgressMap(migrated);
-                } else {
-                    setProgressMap({});
-                }
-            } else {
-                setProgressMap({});
-            }
+        const unsubscribe = onSnapshot(docRef, async (doc) => {
+            const seq = ++latestSeq;
+            // Handles both the old completedQuestions array and pre-SM-2 progress entries
+            const serverMap = doc.exists() ? migrateProgressDoc(doc.data()) : {};
+
+            // Changes made offline haven't reached Firestore yet, keep showing them
+            const pending = (await getPendingWrites()).find(w =>
+                w.type === 'progress' && w.uid === user.uid && w.subjectId === subjectId
+            );
+            if (unsubscribed || seq !== latestSeq) return;
+            setProgressMap(pending?.type === 'progress' ? { ...serverMap, ...pending.questions } : serverMap);
             setLoading(false);
         });
 
-        return () => unsubscribe();
+        return () => {
+            unsubscribed = true;
+            unsubscribe();
+        };
     }, [user?.uid, subjectId]);
 
-    const updateStatus = async (questionId: string, status: QuestionStatus) => {
+    // Writes just the changed question. Queued while offline, it is replayed by OfflineSync on reconnect.
+    const persistProgress = async (questionId: string, progress: QuestionProgress) => {
         if (!user) return;
 
-        const now = Date.now();
-        let nextReview = now;
+        if (isOffline()) {
+            await enqueueWrite({ type: 'progress', uid: user.uid, subjectId, questions: { [questionId]: progress }, queuedAt: Date.now() });
+            return;
+        }
+
+        await setProgressEntries(user.uid, subjectId, { [questionId]: progress });
+    };
 
-        // SRS Logic
-        if (status === 'hard') nextReview = now + 24 * 60 * 60 * 1000; // 1 day
-        else if (status === 'medium') nextReview = now + 3 * 24 * 60 * 60 * 1000; // 3 days
-        else if (status === 'easy') nextReview = now + 7 * 24 * 60 * 60 * 1000; // 7 days
+    const updateStatus = async (questionId: string, status: QuestionStatus) => {
+        if (!user) return;
 
-        const newProgress: QuestionProgress = {
-            ...progressMap[questionId],
-            status,
-            lastReviewed: now,
-            nextReview,
-        };
+        const newProgress = scheduleReview(progressMap[questionId], status);
 
         const updatedMap = { ...progressMap, [questionId]: newProgress };
         setProgressMap(updatedMap); // Optimistic
 
         try {
-            const docRef = doc(db, "users", user.uid, "progress", subjectId);
-            await setDoc(docRef, { questions: updatedMap }, { merge: true });
+            await persistProgress(questionId, newProgress);
         } catch (error) {
             console.error("Error updating status:", error);
             // Revert would go here
@@ -90,8 +88,7 @@ export function useProgress(subjectId: string) {
         setProgressMap(updatedMap);
 
         try {
-            const docRef = doc(db, "users", user.uid, "progress", subjectId);
-            await setDoc(docRef, { questions: updatedMap }, { merge: true });
+            await persistProgress(questionId, newProgress);
         } catch (error) {
             console.error("Error toggling star:", error);
         }
@@ -100,8 +97,13 @@ export function useProgress(subjectId: string) {
     const saveNote = async (questionId: string, content: string) => {
         if (!user) return;
         try {
+            if (isOffline()) {
+                await enqueueWrite({ type: 'note', uid: user.uid, questionId, content, updatedAt: Date.now(), queuedAt: Date.now() });
+                return;
+            }
             const noteRef = doc(db, "users", user.uid, "notes", questionId);
-            await setDoc(noteRef, { content, updatedAt: Date.now() });
+            // questionId lets a duplicate merge find the notes to move
+            await setDoc(noteRef, { content, questionId, updatedAt: Date.now() });
         } catch (error) {
             console.error("Error saving note:", error);
             throw error;
@@ -111,6 +113,9 @@ export function useProgress(subjectId: string) {
     const getNote = async (questionId: string) => {
         if (!user) return "";
         try {
+            const pendingNote = await getPendingNote(user.uid, questionId);
+            if (pendingNote !== undefined) return pendingNote;
+
             const noteRef = doc(db, "users", user.uid, "notes", questionId);
             const snap = await getDoc(noteRef);
             return snap.exists() ? snap.data().content : "";
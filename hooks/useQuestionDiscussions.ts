@@ -0,0 +1,62 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { collection, getDocs, limit, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/context/AuthContext";
+import { isYearVisible, useBranchChat } from "@/hooks/useBranchChat";
+import { Message } from "@/lib/types";
+
+// Per channel, plenty for one subject's discussions
+const MAX_DISCUSSIONS_PER_CHANNEL = 500;
+
+export interface QuestionDiscussion {
+    count: number;
+    channelId: string; // Where the latest discussion happened
+    messageId: string;
+}
+
+/**
+ * Community messages posted through "Discuss" for a subject, grouped by question.
+ * Only the user's own channels are searched, the same ones the community sidebar lists.
+ */
+export function useQuestionDiscussions(subjectId: string) {
+    const { year } = useAuth();
+    const { channels } = useBranchChat();
+    const channelIds = useMemo(
+        () => channels.filter(c => isYearVisible(c.year || "General", year)).map(c => c.id),
+        [channels, year]
+    );
+
+    const { data } = useQuery({
+        queryKey: ["discussions", subjectId, channelIds],
+        queryFn: async () => {
+            const discussions: Record<string, QuestionDiscussion & { latest: number }> = {};
+            const snapshots = await Promise.all(channelIds.map(channelId => getDocs(query(
+                collection(db, "channels", channelId, "messages"),
+                where("questionRef.subjectId", "==", subjectId),
+                limit(MAX_DISCUSSIONS_PER_CHANNEL)
+            )).then(snapshot => ({ channelId, snapshot }))));
+
+            snapshots.forEach(({ channelId, snapshot }) => snapshot.docs.forEach(d => {
+                const message = d.data() as Message;
+                const questionId = message.questionRef?.questionId;
+                if (!questionId) return;
+
+                const time = message.createdAt?.toMillis?.() || 0;
+                const current = discussions[questionId];
+                if (!current) {
+                    discussions[questionId] = { count: 1, channelId, messageId: d.id, latest: time };
+                } else {
+                    current.count += 1;
+                    if (time > current.latest) Object.assign(current, { channelId, messageId: d.id, latest: time });
+                }
+            }));
+
+            return discussions as Record<string, QuestionDiscussion>;
+        },
+        enabled: !!subjectId && channelIds.length > 0,
+        staleTime: 60 * 1000,
+    });
+
+    return { discussions: data || {}, channelIds };
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { doc, setDoc } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/context/AuthContext";
+import { QuestionProgress, QuestionStatus } from "@/lib/types";
+import { isDueForReview, migrateProgressDoc, scheduleReview } from "@/lib/spacedRepetition";
+
+export interface ReviewItem {
+    subjectId: string;
+    questionId: string;
+    progress: QuestionProgress;
+}
+
+// Everything scheduled before midnight counts towards today's review queue
+const endOfToday = () => {
+    const end = new Date();
+    end.setHours(23, 59, 59, 999);
+    return end.getTime();
+};
+
+export function useReviewQueue() {
+    const { user, isAdmin, progress, checkAccess } = useAuth();
+    // Moves on at midnight, or when a tab that slept through it is shown again, so the queue never keeps yesterday's cutoff
+    const [dueBy, setDueBy] = useState(endOfToday);
+
+    useEffect(() => {
+        const refresh = () => setDueBy(endOfToday());
+        const timer = setTimeout(refresh, Math.max(0, dueBy - Date.now()) + 1);
+        document.addEventListener("visibilitychange", refresh);
+        return () => {
+            clearTimeout(timer);
+            document.removeEventListener("visibilitychange", refresh);
+        };
+    }, [dueBy]);
+
+    const dueItems = useMemo(() => {
+        const items: ReviewItem[] = [];
+
+        Object.keys(progress).forEach((subjectId) => {
+            // Expired or never purchased subjects can't be opened, so don't queue them
+            if (!isAdmin && !checkAccess(subjectId)) return;
+
+            const questions = migrateProgressDoc(progress[subjectId]);
+            Object.entries(questions).forEach(([questionId, questionProgress]) => {
+                if (isDueForReview(questionProgress, dueBy)) {
+                    items.push({ subjectId, questionId, progress: questionProgress });
+                }
+            });
+        });
+
+        // Most overdue first
+        return items.sort((a, b) => (a.progress.nextReview || 0) - (b.progress.nextReview || 0));
+    }, [progress, isAdmin, checkAccess, dueBy]);
+
+    const gradeQuestion = async (subjectId: string, questionId: string, status: QuestionStatus) => {
+        if (!user) return;
+
+        // Write the whole migrated map, so legacy docs are migrated forward too
+        const subjectProgress = migrateProgressDoc(progress[subjectId]);
+        const updatedMap = {
+            ...subjectProgress,
+            [questionId]: scheduleReview(subjectProgress[questionId], status),
+        };
+
+        try {
+            const docRef = doc(db, "users", user.uid, "progress", subjectId);
+            await setDoc(docRef, { questions: updatedMap }, { merge: true });
+        } catch (error) {
+            console.error("Error grading review question:", error);
+            throw error;
+        }
+    };
+
+    return { dueItems, dueCount: dueItems.length, gradeQuestion };
+}
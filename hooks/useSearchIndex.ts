@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, doc, getDoc, getDocs } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { SubjectMetadata, Unit } from "@/lib/types";
+import { getLocal, setLocal } from "@/lib/localStore";
+import {
+    SEARCH_INDEX_VERSION,
+    SEARCH_INDEX_TTL,
+    SubjectSearchIndex,
+    buildUnitDocuments,
+    normalizeSolution,
+} from "@/lib/searchIndex";
+
+const cacheKey = (subjectId: string) => `searchIndex:${subjectId}`;
+
+// Brings the cached index of one subject up to date, fetching only the units whose question count changed
+// until the index expires, then everything.
+async function syncSubjectIndex(subjectId: string): Promise<SubjectSearchIndex | null> {
+    const cached = await getLocal<SubjectSearchIndex>(cacheKey(subjectId));
+    const previous = cached?.version === SEARCH_INDEX_VERSION ? cached : null;
+
+    const metaSnap = await getDoc(doc(db, "subjects", subjectId));
+    if (!metaSnap.exists()) return previous;
+    const metadata = { id: metaSnap.id, ...metaSnap.data() } as SubjectMetadata;
+
+    const unitSignatures: Record<string, number> = {};
+    const changedUnits = (metadata.units || []).filter(u => {
+        unitSignatures[u.id] = u.questionCount;
+        return !previous || previous.unitSignatures[u.id] !== u.questionCount;
+    });
+    const removedUnits = Object.keys(previous?.unitSignatures || {}).filter(id => !(id in unitSignatures));
+    const titleChanged = previous?.subjectTitle !== metadata.title;
+
+    const expired = !previous || Date.now() - previous.indexedAt > SEARCH_INDEX_TTL;
+    if (previous && changedUnits.length === 0 && removedUnits.length === 0 && !titleChanged && !expired) {
+        return previous;
+    }
+
+    const unitsToFetch = titleChanged || expired ? metadata.units : changedUnits;
+    const unitSnaps = await Promise.all(
+        unitsToFetch.map(u => getDoc(doc(db, "subjects", subjectId, "units", u.id)))
+    );
+    const refetchedIds = new Set(unitsToFetch.map(u => u.id));
+
+    const documents = (previous?.documents || []).filter(d => !refetchedIds.has(d.unitId) && d.unitId in unitSignatures);
+    unitSnaps.forEach((snap, i) => {
+        if (!snap.exists()) return;
+        const unit = snap.data() as Unit;
+        documents.push(...buildUnitDocuments(subjectId, metadata.title, unitsToFetch[i].id, { ...unit, title: unit.title || unitsToFetch[i].title }));
+    });
+
+    let solutions = previous?.solutions || {};
+    if (expired || changedUnits.length > 0) {
+        const solutionSnap = await getDocs(collection(db, "subjects", subjectId, "solutions"));
+        solutions = {};
+        solutionSnap.forEach(s => {
+            solutions[s.id] = normalizeSolution(s.data().text || '');
+        });
+    }
+
+    const index: SubjectSearchIndex = {
+        version: SEARCH_INDEX_VERSION,
+        subjectId,
+        subjectTitle: metadata.title,
+        unitSignatures,
+        documents,
+        solutions,
+        indexedAt: expired ? Date.now() : previous.indexedAt,
+    };
+    await setLocal(cacheKey(subjectId), index);
+    return index;
+}
+
+export function useSearchIndex(subjectIds: string[]) {
+    const [indexes, setIndexes] = useState<SubjectSearchIndex[]>([]);
+    const [indexedCount, setIndexedCount] = useState(0);
+    const [indexing, setIndexing] = useState(false);
+
+    const subjectKey = [...subjectIds].sort().join(',');
+
+    useEffect(() => {
+        const ids = subjectKey ? subjectKey.split(',') : [];
+        if (ids.length === 0) return;
+
+        let cancelled = false;
+
+        const build = async () => {
+            setIndexing(true);
+            setIndexedCount(0);
+
+            // Show whatever is cached straight away, then refresh subject by subject
+            const cached = await Promise.all(ids.map(id => getLocal<SubjectSearchIndex>(cacheKey(id))));
+            if (cancelled) return;
+            setIndexes(cached.filter((c): c is SubjectSearchIndex => c?.version === SEARCH_INDEX_VERSION));
+
+            for (const id of ids) {
+                try {
+                    const index = await syncSubjectIndex(id);
+                    if (cancelled) return;
+                    if (index) {
+                        setIndexes(prev => [...prev.filter(i => i.subjectId !== id), index]);
+                    }
+                } catch (error) {
+                    console.error(`Error indexing subject ${id}:`, error);
+                }
+                setIndexedCount(count => count + 1);
+            }
+
+            setIndexing(false);
+        };
+
+        build();
+        return () => { cancelled = true; };
+    }, [subjectKey]);
+
+    return { indexes, indexing, indexedCount, totalCount: subjectIds.length };
+}
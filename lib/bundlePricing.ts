@@ -0,0 +1,150 @@
+import { Bundle, BundleSubject, SubjectMetadata } from "@/lib/types";
+import { CheckoutItem } from "@/lib/coupons";
+
+// First Year has no bundles doc per group, these ids are built from subjects_metadata (see marketplace/semester/[id])
+export const FIRST_YEAR_BUNDLES: Record<string, 'A' | 'B' | null> = {
+    'FirstYear-GroupA': 'A',
+    'FirstYear-GroupB': 'B',
+    'FirstYear-General': null,
+};
+export const FIRST_YEAR_SEMESTERS = ['Semester 1', 'Semester 2', 'First Year'];
+// The one First Year bundle doc whose groupPrices price the Group A / Group B bundles
+export const FIRST_YEAR_BUNDLE_ID = 'First Year-First Year';
+
+export type BundleSelectionResult =
+    | { valid: true }
+    | { valid: false; reason: string };
+
+export interface BundleQuote {
+    items: (CheckoutItem & { title: string })[]; // Subjects to enroll, priced so they add up to `amount`
+    subtotal: number; // Sum of the subject prices
+    amount: number;
+    bundleDiscount: number;
+}
+
+// Minimal subject data stored in bundle docs
+export function toBundleSubject(id: string, data: Partial<Omit<SubjectMetadata, 'group'>> & { group?: 'A' | 'B' | null }): BundleSubject {
+    return {
+        id,
+        title: data.title || id,
+        price: data.price || 0,
+        originalPrice: data.originalPrice || 0,
+        unitCount: data.unitCount || 0,
+        questionCount: data.questionCount || 0,
+        branch: data.branch,
+        semester: data.semester,
+        isElective: data.isElective || false,
+        electiveCategory: data.electiveCategory || "",
+        isCommon: data.isCommon || false,
+        group: data.group || null,
+        units: data.units || [],
+    };
+}
+
+export function isInFirstYearBundle(subject: Pick<BundleSubject, 'group' | 'isCommon'>, group: 'A' | 'B' | null): boolean {
+    if (group) return subject.group === group || !!subject.isCommon;
+    // General: Not A, Not B, Not Common
+    return subject.group !== 'A' && subject.group !== 'B' && !subject.isCommon;
+}
+
+export function getElectiveCategories(subjects: BundleSubject[]): string[] {
+    return Array.from(new Set(
+        subjects.filter(s => s.isElective && s.electiveCategory).map(s => s.electiveCategory as string)
+    ));
+}
+
+const getGroups = (subjects: BundleSubject[]) =>
+    Array.from(new Set(subjects.map(s => s.group).filter((g): g is 'A' | 'B' => g === 'A' || g === 'B'))).sort();
+
+// Core subjects are always part of the bundle. Grouped ones only count for the chosen group.
+function getRequiredSubjects(subjects: BundleSubject[], group: 'A' | 'B' | null): BundleSubject[] {
+    return subjects.filter(s => !s.isElective && (!s.group || s.group === group));
+}
+
+/**
+ * What the semester page pre-selects: every core subject, the owned option (or the first one)
+ * in each elective category, and the owned group (or the first one) when the bundle has groups.
+ */
+export function getDefaultSelection(subjects: BundleSubject[], ownedIds: string[]): string[] {
+    const groups = getGroups(subjects);
+    const ownedGroup = subjects.find(s => s.group && ownedIds.includes(s.id))?.group;
+    const group = ownedGroup || groups[0] || null;
+
+    const selected = getRequiredSubjects(subjects, group).map(s => s.id);
+    getElectiveCategories(subjects).forEach(category => {
+        const options = subjects.filter(s => s.isElective && s.electiveCategory === category && (!s.group || s.group === group));
+        const choice = options.find(s => ownedIds.includes(s.id)) || options[0];
+        if (choice) selected.push(choice.id);
+    });
+    return selected;
+}
+
+/**
+ * Checks a semester selection: every core subject, exactly one subject per elective category,
+ * and never subjects from both Group A and Group B.
+ */
+export function validateBundleSelection(subjects: BundleSubject[], selectedIds: string[]): BundleSelectionResult {
+    const byId = new Map(subjects.map(s => [s.id, s]));
+    const unknown = selectedIds.find(id => !byId.has(id));
+    if (unknown) return { valid: false, reason: `Course ${unknown} is not part of this bundle` };
+
+    const selected = Array.from(new Set(selectedIds)).map(id => byId.get(id)!);
+
+    const bundleGroups = getGroups(subjects);
+    const selectedGroups = getGroups(selected);
+    if (selectedGroups.length > 1) return { valid: false, reason: 'Choose subjects from either Group A or Group B, not both' };
+    if (bundleGroups.length > 0 && selectedGroups.length === 0) return { valid: false, reason: 'Choose Group A or Group B' };
+    const group = selectedGroups[0] || null;
+
+    const missing = getRequiredSubjects(subjects, group).find(s => !selectedIds.includes(s.id));
+    if (missing) return { valid: false, reason: `The bundle must include ${missing.title}` };
+
+    for (const category of getElectiveCategories(subjects)) {
+        const count = selected.filter(s => s.isElective && s.electiveCategory === category).length;
+        if (count === 0) return { valid: false, reason: `Choose one subject from ${category}` };
+        if (count > 1) return { valid: false, reason: `Only one subject can be chosen from ${category}` };
+    }
+
+    return { valid: true };
+}
+
+/**
+ * Prices a validated selection. Owned subjects are skipped and the bundle price is scaled
+ * by the share of the selection still to be paid for, so owning part of a semester never costs more.
+ * Item prices are rescaled to add up to the amount, which keeps coupon scopes working per subject.
+ */
+export function priceBundleSelection(bundle: Pick<Bundle, 'subjects' | 'bundlePrice'>, selectedIds: string[], ownedIds: string[]): BundleQuote {
+    const selected = bundle.subjects.filter(s => selectedIds.includes(s.id));
+    const toBuy = selected.filter(s => !ownedIds.includes(s.id));
+
+    const fullTotal = selected.reduce((sum, s) => sum + s.price, 0);
+    const subtotal = toBuy.reduce((sum, s) => sum + s.price, 0);
+
+    const toItem = (s: BundleSubject, price: number) => ({
+        id: s.id,
+        title: s.title,
+        price,
+        branch: s.branch,
+        semester: s.semester,
+    });
+
+    if (!bundle.bundlePrice || bundle.bundlePrice <= 0 || fullTotal <= 0) {
+        return { items: toBuy.map(s => toItem(s, s.price)), subtotal, amount: subtotal, bundleDiscount: 0 };
+    }
+
+    const amount = Math.min(Math.round(bundle.bundlePrice * subtotal / fullTotal), subtotal);
+
+    // Largest subject absorbs the rounding so the items add up exactly
+    let allocated = 0;
+    const items = toBuy.map(s => {
+        const price = subtotal > 0 ? Math.floor(amount * s.price / subtotal) : 0;
+        allocated += price;
+        return toItem(s, price);
+    });
+    if (items.length > 0) {
+        const largest = items.reduce((max, item) => item.price > max.price ? item : max, items[0]);
+        largest.price += amount - allocated;
+    }
+
+    return { items, subtotal, amount, bundleDiscount: subtotal - amount };
+}
@@ -0,0 +1,182 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { Bundle, BundleSubject } from '@/lib/types';
+import { toBundleSubject } from '@/lib/bundlePricing';
+
+// Subjects without a branch or semester are still listed, under these catch-all bundles
+const DEFAULT_BRANCH = 'General';
+const DEFAULT_SEMESTER = 'All Semesters';
+const BATCH_LIMIT = 450;
+
+export interface BundleTarget {
+    branch: string;
+    semester: string;
+}
+
+// Branch/semester as stored on a subject, either may be missing
+export type BundleTargetInput = { branch?: string | null; semester?: string | null };
+
+export interface BundleChange {
+    bundleId: string;
+    title: string;
+    change: 'created' | 'updated' | 'deleted' | 'unchanged';
+    addedSubjects: string[];
+    removedSubjects: string[];
+    changedSubjects: string[]; // Price, title or elective details differ
+}
+
+export interface BundleRebuildResult {
+    dryRun: boolean;
+    changes: BundleChange[];
+    bundles: Bundle[];
+}
+
+type AggregatedBundle = Omit<Bundle, 'bundlePrice' | 'groupPrices'>;
+type BundleGroups = Map<string, { target: BundleTarget; subjects: BundleSubject[] }>;
+
+export const getBundleDocId = ({ branch, semester }: BundleTarget) => `${branch}-${semester}`.replace(/\//g, '_');
+
+const bundlesCollection = () => adminDb.collection('bundles');
+
+// The bundle a subject is listed under, stray whitespace in the stored values doesn't count
+export const bundleTargetFor = ({ branch, semester }: BundleTargetInput): BundleTarget => ({
+    branch: branch?.trim() || DEFAULT_BRANCH,
+    semester: semester?.trim() || DEFAULT_SEMESTER,
+});
+
+// Every subject grouped by the bundle it belongs in. Read in full: the catch-all bundles and
+// untrimmed values can't be found with an equality query.
+async function loadBundleGroups(): Promise<BundleGroups> {
+    const subjectsSnap = await adminDb.collection('subjects_metadata').get();
+    const groups: BundleGroups = new Map();
+    subjectsSnap.docs.forEach(docSnap => {
+        const subject = toBundleSubject(docSnap.id, docSnap.data());
+        const target = bundleTargetFor(subject);
+        const bundleId = getBundleDocId(target);
+        if (!groups.has(bundleId)) groups.set(bundleId, { target, subjects: [] });
+        groups.get(bundleId)!.subjects.push(subject);
+    });
+    return groups;
+}
+
+function aggregateBundle({ branch, semester }: BundleTarget, subjects: BundleSubject[]): AggregatedBundle {
+    return {
+        id: `${branch}-${semester}`,
+        branch,
+        semester,
+        title: `${branch} - ${semester}`,
+        subjects,
+        totalPrice: subjects.reduce((sum, s) => sum + s.price, 0),
+        totalOriginalPrice: subjects.reduce((sum, s) => sum + (s.originalPrice || s.price), 0),
+        subjectCount: subjects.length,
+        updatedAt: new Date().toISOString(),
+    };
+}
+
+function diffBundle(bundleId: string, existing: Bundle | undefined, next: AggregatedBundle | undefined): BundleChange {
+    const before = new Map((existing?.subjects || []).map(s => [s.id, s]));
+    const after = new Map((next?.subjects || []).map(s => [s.id, s]));
+
+    const addedSubjects = [...after.values()].filter(s => !before.has(s.id)).map(s => s.title);
+    const removedSubjects = [...before.values()].filter(s => !after.has(s.id)).map(s => s.title);
+    const changedSubjects = [...after.values()]
+        .filter(s => before.has(s.id) && JSON.stringify(toBundleSubject(s.id, before.get(s.id)!)) !== JSON.stringify(s))
+        .map(s => s.title);
+
+    let change: BundleChange['change'] = 'unchanged';
+    if (!existing && next) change = 'created';
+    else if (existing && !next) change = 'deleted';
+    else if (addedSubjects.length || removedSubjects.length || changedSubjects.length) change = 'updated';
+
+    return {
+        bundleId,
+        title: next?.title || existing?.title || bundleId,
+        change,
+        addedSubjects,
+        removedSubjects,
+        changedSubjects,
+    };
+}
+
+/**
+ * Re-aggregates the bundles for the given branch/semester pairs from subjects_metadata.
+ * Targets are normalized like the rebuild, so a subject without a branch or semester syncs its catch-all bundle.
+ * Admin-set pricing (bundlePrice, groupPrices) is kept, empty bundles are deleted.
+ * Each target is independent: one failing doesn't stop the others.
+ */
+export async function syncBundles(targets: BundleTargetInput[]): Promise<{ changes: BundleChange[]; failures: { bundleId: string; error: string }[] }> {
+    const unique = Array.from(new Map(targets.map(bundleTargetFor).map(t => [getBundleDocId(t), t])).values());
+
+    const changes: BundleChange[] = [];
+    const failures: { bundleId: string; error: string }[] = [];
+    if (unique.length === 0) return { changes, failures };
+
+    let groups: BundleGroups;
+    try {
+        groups = await loadBundleGroups();
+    } catch (error) {
+        console.error('Failed to load subjects for bundle sync:', error);
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return { changes, failures: unique.map(target => ({ bundleId: getBundleDocId(target), error: message })) };
+    }
+
+    for (const target of unique) {
+        const bundleId = getBundleDocId(target);
+        try {
+            const existingSnap = await bundlesCollection().doc(bundleId).get();
+            const group = groups.get(bundleId);
+            const next = group ? aggregateBundle(group.target, group.subjects) : undefined;
+            const existing = existingSnap.exists ? existingSnap.data() as Bundle : undefined;
+
+            if (next) {
+                await bundlesCollection().doc(bundleId).set(next, { merge: true });
+            } else if (existing) {
+                await bundlesCollection().doc(bundleId).delete();
+            }
+            changes.push(diffBundle(bundleId, existing, next));
+        } catch (error) {
+            console.error(`Failed to sync bundle ${bundleId}:`, error);
+            failures.push({ bundleId, error: error instanceof Error ? error.message : 'Unknown error' });
+        }
+    }
+
+    return { changes, failures };
+}
+
+/**
+ * Rebuilds every bundle from subjects_metadata. With dryRun nothing is written,
+ * the returned changes show what a real run would create, update or delete.
+ */
+export async function rebuildAllBundles(dryRun: boolean): Promise<BundleRebuildResult> {
+    const [groups, bundlesSnap] = await Promise.all([
+        loadBundleGroups(),
+        bundlesCollection().get(),
+    ]);
+
+    const existing = new Map(bundlesSnap.docs.map(d => [d.id, d.data() as Bundle]));
+    const next = new Map([...groups].map(([bundleId, group]) => [bundleId, aggregateBundle(group.target, group.subjects)]));
+
+    const bundleIds = Array.from(new Set([...existing.keys(), ...next.keys()])).sort();
+    const changes = bundleIds.map(bundleId => diffBundle(bundleId, existing.get(bundleId), next.get(bundleId)));
+
+    if (!dryRun) {
+        const writes = changes.filter(c => c.change !== 'unchanged');
+        for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+            const batch = adminDb.batch();
+            writes.slice(i, i + BATCH_LIMIT).forEach(({ bundleId, change }) => {
+                const ref = bundlesCollection().doc(bundleId);
+                if (change === 'deleted') batch.delete(ref);
+                else batch.set(ref, next.get(bundleId)!, { merge: true });
+            });
+            await batch.commit();
+        }
+    }
+
+    // Merged view of what the collection holds (or would hold) afterwards
+    const bundles = [...next].map(([bundleId, bundle]) => ({
+        ...bundle,
+        bundlePrice: existing.get(bundleId)?.bundlePrice ?? null,
+        ...(existing.get(bundleId)?.groupPrices ? { groupPrices: existing.get(bundleId)!.groupPrices } : {}),
+    }));
+
+    return { dryRun, changes, bundles };
+}
@@ -1,81 +1,44 @@
-
-import { collection, query, where, getDocs, doc, setDoc, deleteDoc, getFirestore } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { auth } from '@/lib/firebase';
+import type { BundleChange, BundleTargetInput } from '@/lib/bundleService';
+
+async function postBundles<T>(body: object): Promise<T> {
+    const user = auth.currentUser;
+    if (!user) throw new Error('Sign in as an admin to update bundles');
+
+    const token = await user.getIdToken();
+    const response = await fetch('/api/admin/bundles', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(body),
+    });
+    const result = await response.json();
+
+    if (!response.ok) {
+        const failed = (result.failures || []).map((f: { bundleId: string; error: string }) => `${f.bundleId}: ${f.error}`);
+        throw new Error(failed.length > 0 ? `Bundle sync failed (${failed.join('; ')})` : (result.error || 'Bundle sync failed'));
+    }
+    return result as T;
+}
 
 /**
- * Updates the bundle document for a specific Branch and Semester.
- * It fetches all subjects matching the criteria, aggregates them, and writes to 'bundles'.
- * If no subjects remain, it deletes the bundle document.
+ * Re-aggregates the bundles for the given Branch/Semester pairs on the server.
+ * Subjects without a branch or semester sync their catch-all bundle.
+ * Only the affected bundles are touched. Throws when any of them failed to sync.
  */
-export async function updateBundle(branch: string | undefined | null, semester: string | undefined | null) {
-    if (!branch || !semester) return;
-
-    const bundleKey = `${branch}-${semester}`;
-    const safeId = bundleKey.replace(/\//g, "_");
-
-    console.log(`Syncing bundle: ${safeId} (${branch} - ${semester})...`);
-
-    try {
-        const q = query(
-            collection(db, "subjects_metadata"),
-            where("branch", "==", branch),
-            where("semester", "==", semester)
-        );
-
-        const snapshot = await getDocs(q);
+export async function updateBundle(...targets: BundleTargetInput[]): Promise<BundleChange[]> {
+    if (targets.length === 0) return [];
 
-        if (snapshot.empty) {
-            console.log(`No subjects left for ${safeId}, deleting bundle.`);
-            await deleteDoc(doc(db, "bundles", safeId));
-            return;
-        }
-
-        // Aggregate Data
-        let totalPrice = 0;
-        let totalOriginalPrice = 0;
-        let subjectCount = 0;
-        const subjectsList: any[] = [];
-
-        snapshot.forEach(docSnap => {
-            const s = docSnap.data();
-            totalPrice += s.price || 0;
-            totalOriginalPrice += s.originalPrice || s.price || 0;
-            subjectCount++;
-
-            subjectsList.push({
-                id: docSnap.id,
-                title: s.title,
-                price: s.price || 0,
-                originalPrice: s.originalPrice || 0,
-                unitCount: s.unitCount || 0,
-                questionCount: s.questionCount || 0,
-                branch: s.branch,
-                semester: s.semester,
-                isElective: s.isElective || false,
-                electiveCategory: s.electiveCategory || "",
-                isCommon: s.isCommon || false,
-                group: s.group || null,
-                units: s.units || []
-            });
-        });
-
-        const bundleData = {
-            id: bundleKey,
-            branch,
-            semester,
-            subjects: subjectsList,
-            totalPrice,
-            totalOriginalPrice,
-            subjectCount,
-            title: `${branch} - ${semester}`,
-            updatedAt: new Date().toISOString() // Client-side timestamp
-        };
-
-        await setDoc(doc(db, "bundles", safeId), bundleData);
-        console.log(`Bundle ${safeId} synced successfully with ${subjectCount} subjects.`);
+    // null instead of undefined, so JSON keeps the pair
+    const body = targets.map(t => ({ branch: t.branch ?? null, semester: t.semester ?? null }));
+    const result = await postBundles<{ changes: BundleChange[] }>({ action: 'sync', targets: body });
+    return result.changes;
+}
 
-    } catch (error) {
-        console.error(`Failed to sync bundle ${safeId}:`, error);
-        // We don't throw here to avoid blocking the UI flow, but we log it.
-    }
+// Rebuilds every bundle from subjects_metadata. Dry runs only return the diff.
+export async function rebuildAllBundles(dryRun: boolean): Promise<BundleChange[]> {
+    const result = await postBundles<{ changes: BundleChange[] }>({ action: 'rebuild', dryRun });
+    return result.changes;
 }
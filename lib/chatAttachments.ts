@@ -0,0 +1,74 @@
+import { supabase } from '@/lib/supabase';
+import { ChatAttachment } from '@/lib/types';
+
+// Same bucket ImageUploader writes to, chat files live under chat/{channelId}/
+const BUCKET = 'question-images';
+
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+const FILE_TYPES = ['application/pdf', 'text/plain'];
+
+// For the file input's accept attribute
+export const ATTACHMENT_ACCEPT = [...IMAGE_TYPES, ...FILE_TYPES].join(',');
+
+export const isImageType = (contentType: string) => IMAGE_TYPES.includes(contentType);
+export const isAllowedAttachmentType = (contentType: string) => isImageType(contentType) || FILE_TYPES.includes(contentType);
+
+// Public URL of an uploaded file, the server rebuilds it from the path rather than trusting the client's
+export function chatAttachmentUrl(path: string): string {
+    return supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+export function formatFileSize(bytes: number) {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Returns why the file cannot be attached, or null if it is fine
+export function validateAttachment(file: File): string | null {
+    if (isImageType(file.type)) {
+        return file.size > MAX_IMAGE_BYTES ? `${file.name} is larger than ${formatFileSize(MAX_IMAGE_BYTES)}.` : null;
+    }
+    if (FILE_TYPES.includes(file.type)) {
+        return file.size > MAX_FILE_BYTES ? `${file.name} is larger than ${formatFileSize(MAX_FILE_BYTES)}.` : null;
+    }
+    return `${file.name}: only JPG, PNG, WebP, GIF, PDF and text files can be shared.`;
+}
+
+export async function uploadChatAttachment(file: File, channelId: string): Promise<ChatAttachment> {
+    const fileExt = file.name.split('.').pop();
+    const fileName = `${Math.random().toString(36).substring(2, 15)}_${Date.now()}.${fileExt}`;
+    const filePath = `chat/${channelId}/${fileName}`;
+
+    const { error: uploadError } = await supabase.storage
+        .from(BUCKET)
+        .upload(filePath, file, { contentType: file.type });
+
+    if (uploadError) {
+        throw uploadError;
+    }
+
+    return {
+        url: chatAttachmentUrl(filePath),
+        path: filePath,
+        name: file.name,
+        contentType: file.type,
+        size: file.size,
+        kind: isImageType(file.type) ? 'image' : 'file',
+    };
+}
+
+// Best effort: a message deletion should not fail because its files are already gone
+export async function deleteChatAttachments(attachments: ChatAttachment[] | undefined) {
+    const paths = (attachments || []).map(a => a.path).filter(Boolean);
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage.from(BUCKET).remove(paths);
+    if (error) {
+        console.error('Error deleting attachments:', error);
+    }
+}
@@ -0,0 +1,46 @@
+import { collection, doc } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import type { OutgoingMessage, SendResult } from "@/lib/moderationService";
+
+export type { OutgoingMessage };
+
+// Shown when the server holds a message instead of posting it
+export const HELD_MESSAGE_NOTICE = "Your message was held for review by a moderator. It will appear once approved.";
+
+// Generated client-side so optimistic messages can be matched to the saved ones
+export const newMessageId = (channelId: string) =>
+    doc(collection(db, "channels", channelId, "messages")).id;
+
+async function postChatMessage<T>(body: object): Promise<T> {
+    const user = auth.currentUser;
+    if (!user) throw new Error("Sign in to post in the community");
+
+    const token = await user.getIdToken();
+    const response = await fetch("/api/chat/messages", {
+        method: "POST",
+        headers: {
+            "Content-Type": "application/json",
+            "Authorization": `Bearer ${token}`
+        },
+        body: JSON.stringify(body),
+    });
+    const result = await response.json();
+
+    if (!response.ok) throw new Error(result.error || "Request failed");
+    return result as T;
+}
+
+/**
+ * Sends a message through moderation. The server fills in the sender and reply details,
+ * and either posts it (bumping the channel's lastMessageAt) or holds it for an admin.
+ */
+export async function sendChannelMessage(channelId: string, messageId: string, message: OutgoingMessage): Promise<SendResult> {
+    // JSON drops undefined fields anyway, this keeps the request tidy
+    const data = Object.fromEntries(Object.entries(message).filter(([, value]) => value !== undefined));
+    return postChatMessage<SendResult>({ action: "send", channelId, messageId, message: data });
+}
+
+// Edits that fail moderation are refused with an error, the old text stays
+export async function editChannelMessage(channelId: string, messageId: string, text: string): Promise<void> {
+    await postChatMessage({ action: "edit", channelId, messageId, text });
+}
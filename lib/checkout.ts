@@ -0,0 +1,151 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { CheckoutItem, evaluateCoupon, normalizeCouponCode } from '@/lib/coupons';
+import { Bundle, Coupon, Order, UserProfile } from '@/lib/types';
+import { isPurchaseActive } from '@/lib/purchaseExpiry';
+import {
+    FIRST_YEAR_BUNDLE_ID,
+    FIRST_YEAR_BUNDLES,
+    FIRST_YEAR_SEMESTERS,
+    isInFirstYearBundle,
+    priceBundleSelection,
+    toBundleSubject,
+    validateBundleSelection,
+} from '@/lib/bundlePricing';
+
+export class CheckoutError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+        this.name = 'CheckoutError';
+    }
+}
+
+export interface CheckoutQuote {
+    items: (CheckoutItem & { title: string })[];
+    subtotal: number;
+    discount: number;
+    amount: number;
+    coupon: string | null;
+    bundleId: string | null;
+    bundleDiscount: number;
+}
+
+const couponRef = (code: string) => adminDb.collection('coupons').doc(code);
+
+// First Year group bundles are assembled from subjects_metadata, priced from the FIRST_YEAR_BUNDLE_ID doc
+async function loadBundle(bundleId: string): Promise<Bundle> {
+    if (bundleId in FIRST_YEAR_BUNDLES) {
+        const group = FIRST_YEAR_BUNDLES[bundleId];
+        const [subjectsSnap, pricingSnap] = await Promise.all([
+            adminDb.collection('subjects_metadata').where('semester', 'in', FIRST_YEAR_SEMESTERS).get(),
+            adminDb.collection('bundles').doc(FIRST_YEAR_BUNDLE_ID).get(),
+        ]);
+        const subjects = subjectsSnap.docs
+            .map(d => toBundleSubject(d.id, d.data()))
+            .filter(s => isInFirstYearBundle(s, group));
+        const groupPrices = (pricingSnap.data() as Bundle | undefined)?.groupPrices;
+
+        return {
+            id: bundleId,
+            branch: group ? `First Year - Group ${group}` : 'First Year',
+            semester: 'First Year',
+            title: bundleId,
+            subjects,
+            totalPrice: subjects.reduce((sum, s) => sum + s.price, 0),
+            totalOriginalPrice: subjects.reduce((sum, s) => sum + (s.originalPrice || s.price), 0),
+            subjectCount: subjects.length,
+            bundlePrice: group ? groupPrices?.[group] ?? null : null,
+        };
+    }
+
+    const snap = await adminDb.collection('bundles').doc(bundleId).get();
+    if (!snap.exists) throw new CheckoutError('Bundle not found', 404);
+    return snap.data() as Bundle;
+}
+
+/**
+ * Prices a cart from subjects_metadata and applies the coupon, if any.
+ * With a bundleId the courseIds are the chosen semester subjects: the selection is validated
+ * against the bundle's elective and group rules, owned subjects are dropped and the bundle price applies.
+ * Used by create-order and by the coupon preview so both always agree on the amount.
+ */
+export async function priceCheckout(
+    userId: string,
+    courseIds: string[],
+    couponCode?: string | null,
+    bundleId?: string | null
+): Promise<CheckoutQuote> {
+    let items: CheckoutQuote['items'];
+    let bundleDiscount = 0;
+
+    if (bundleId) {
+        const [bundle, userSnap] = await Promise.all([
+            loadBundle(bundleId),
+            adminDb.collection('users').doc(userId).get(),
+        ]);
+
+        const selection = validateBundleSelection(bundle.subjects, courseIds);
+        if (!selection.valid) throw new CheckoutError(selection.reason);
+
+        // Expired subjects are bought again, that's how a bundle renews them
+        const profile = userSnap.data() as Partial<UserProfile> & { purchasedCourseIds?: string[] } | undefined;
+        const ownedIds = (profile?.purchasedCourseIds || []).filter(id => isPurchaseActive(profile?.purchases?.[id]));
+        const bundleQuote = priceBundleSelection(bundle, courseIds, ownedIds);
+        if (bundleQuote.items.length === 0) throw new CheckoutError('You already own every subject in this selection');
+
+        items = bundleQuote.items;
+        bundleDiscount = bundleQuote.bundleDiscount;
+    } else {
+        const snapshots = await adminDb.getAll(...courseIds.map(id => adminDb.collection('subjects_metadata').doc(id)));
+
+        items = snapshots.map(snap => {
+            if (!snap.exists) throw new CheckoutError(`Course not found: ${snap.id}`, 404);
+            const data = snap.data();
+            return {
+                id: snap.id,
+                title: data?.title || snap.id,
+                price: data?.price || 0,
+                branch: data?.branch,
+                semester: data?.semester,
+            };
+        });
+    }
+
+    const subtotal = items.reduce((sum, item) => sum + item.price, 0);
+    if (subtotal <= 0) throw new CheckoutError('Invalid total amount');
+
+    const bundleFields = { bundleId: bundleId || null, bundleDiscount };
+
+    const code = couponCode ? normalizeCouponCode(couponCode) : '';
+    if (!code) return { items, subtotal, discount: 0, amount: subtotal, coupon: null, ...bundleFields };
+
+    const [couponSnap, userRedemptions] = await Promise.all([
+        couponRef(code).get(),
+        couponRef(code).collection('redemptions').where('userId', '==', userId).count().get(),
+    ]);
+    if (!couponSnap.exists) throw new CheckoutError('Invalid coupon code');
+
+    const evaluation = evaluateCoupon(couponSnap.data() as Coupon, items, userRedemptions.data().count);
+    if (!evaluation.valid) throw new CheckoutError(evaluation.reason);
+
+    return { items, subtotal, discount: evaluation.discount, amount: subtotal - evaluation.discount, coupon: code, ...bundleFields };
+}
+
+// Counts a coupon use once its order is paid. Keyed by order id so verify and the webhook can both call it.
+export async function recordCouponRedemption(order: Pick<Order, 'id' | 'userId' | 'coupon' | 'discount'>): Promise<void> {
+    if (!order.coupon) return;
+
+    const redemptionRef = couponRef(order.coupon).collection('redemptions').doc(order.id);
+    await adminDb.runTransaction(async (transaction) => {
+        const existing = await transaction.get(redemptionRef);
+        if (existing.exists) return;
+
+        transaction.set(redemptionRef, {
+            userId: order.userId,
+            orderId: order.id,
+            discount: order.discount || 0,
+            redeemedAt: Date.now(),
+        });
+        transaction.update(couponRef(order.coupon!), { usedCount: FieldValue.increment(1) });
+    });
+}
@@ -0,0 +1,252 @@
+import { collection, doc, getDoc, getDocs, query, where, writeBatch } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { ContentRevision, Question, Unit } from "@/lib/types";
+import { getChangedFields, snapshotQuestion } from "@/lib/revisionSnapshot";
+
+export { getChangedFields, snapshotQuestion };
+
+// Edits to the same question by the same editor within this window are folded into one revision
+export const REVISION_SESSION_WINDOW = 5 * 60 * 1000;
+
+// Firestore allows 500 writes per batch
+const BATCH_LIMIT = 450;
+
+export interface RevisionEditor {
+    uid: string;
+    email?: string | null;
+}
+
+const historyCollection = (subjectId: string) => collection(db, "subjects", subjectId, "history");
+
+export const newRevisionId = (subjectId: string) => doc(historyCollection(subjectId)).id;
+
+// Open revision of a question in an editor, kept in a ref per question id
+export interface RevisionSession {
+    revisionId: string;
+    before: Question;
+    createdAt: number;
+    lastEditAt: number;
+}
+
+// Keystroke-level edits extend the open revision, a pause longer than the window starts a new one
+export function continueRevisionSession(subjectId: string, previous: RevisionSession | undefined, current: Question, solution?: string, now = Date.now()): RevisionSession {
+    if (previous && now - previous.lastEditAt < REVISION_SESSION_WINDOW) return { ...previous, lastEditAt: now };
+    return { revisionId: newRevisionId(subjectId), before: snapshotQuestion(current, solution), createdAt: now, lastEditAt: now };
+}
+
+interface QuestionEdit {
+    subjectId: string;
+    unitId: string;
+    questions: Question[]; // Full updated questions array of the unit
+    solution?: string; // Written to solutions/{questionId} when provided
+    revisionId: string;
+    before: Question;
+    after: Question;
+    createdAt: number;
+    editor: RevisionEditor;
+    restoredFrom?: string;
+}
+
+/**
+ * Writes the unit, the solution and the revision in one batch so content never changes without a history entry.
+ * Re-using a revisionId overwrites that revision with the newer `after` snapshot.
+ */
+export async function commitQuestionEdit(edit: QuestionEdit): Promise<void> {
+    const batch = writeBatch(db);
+
+    batch.update(doc(db, "subjects", edit.subjectId, "units", edit.unitId), { questions: edit.questions });
+
+    if (edit.solution !== undefined) {
+        batch.set(doc(db, "subjects", edit.subjectId, "solutions", edit.after.id), { text: edit.solution }, { merge: true });
+    }
+
+    const revision: Omit<ContentRevision, 'id'> = {
+        subjectId: edit.subjectId,
+        unitId: edit.unitId,
+        questionId: edit.after.id,
+        editorUid: edit.editor.uid,
+        ...(edit.editor.email ? { editorEmail: edit.editor.email } : {}),
+        createdAt: edit.createdAt,
+        updatedAt: Date.now(),
+        before: edit.before,
+        after: edit.after,
+        changedFields: getChangedFields(edit.before, edit.after),
+        ...(edit.restoredFrom ? { restoredFrom: edit.restoredFrom } : {}),
+    };
+    batch.set(doc(historyCollection(edit.subjectId), edit.revisionId), revision);
+
+    await batch.commit();
+}
+
+/**
+ * Records the stored questions an import is about to overwrite, one revision per question whose content changes.
+ * Added questions have nothing to restore and dropped ones can't be reverted in place, so neither is recorded.
+ * `solutions` holds the solution text the import writes, questions without one keep their stored solution.
+ * Call it before committing the import: history goes first so content never changes without it.
+ */
+export async function commitImportRevisions(subjectId: string, units: Unit[], solutions: Record<string, string>, editor: RevisionEditor): Promise<number> {
+    const unitsSnap = await getDocs(collection(db, "subjects", subjectId, "units"));
+    const stored = new Map<string, Question>();
+    unitsSnap.docs.forEach(d => (d.data() as Unit).questions?.forEach(q => stored.set(q.id, q)));
+
+    const overwritten = units.flatMap(unit => unit.questions
+        .filter(q => stored.has(q.id))
+        .map(q => ({ unitId: unit.id, question: q })));
+    const previous = await Promise.all(overwritten.map(({ question }) => getDoc(doc(db, "subjects", subjectId, "solutions", question.id))));
+
+    const now = Date.now();
+    let batch = writeBatch(db);
+    let pending = 0;
+    let recorded = 0;
+
+    for (let i = 0; i < overwritten.length; i++) {
+        const { unitId, question } = overwritten[i];
+        const previousSolution = previous[i].data()?.text;
+        const before = snapshotQuestion(stored.get(question.id)!, previousSolution);
+        const after = snapshotQuestion(question, solutions[question.id] ?? previousSolution);
+        const changedFields = getChangedFields(before, after);
+        if (changedFields.length === 0) continue;
+
+        const revision: Omit<ContentRevision, 'id'> = {
+            subjectId,
+            unitId,
+            questionId: question.id,
+            editorUid: editor.uid,
+            ...(editor.email ? { editorEmail: editor.email } : {}),
+            createdAt: now,
+            updatedAt: now,
+            before,
+            after,
+            changedFields,
+        };
+        batch.set(doc(historyCollection(subjectId)), revision);
+        pending++;
+        recorded++;
+
+        if (pending >= BATCH_LIMIT) {
+            await batch.commit();
+            batch = writeBatch(db);
+            pending = 0;
+        }
+    }
+
+    if (pending > 0) await batch.commit();
+    return recorded;
+}
+
+export async function fetchQuestionHistory(subjectId: string, questionId: string): Promise<ContentRevision[]> {
+    const snapshot = await getDocs(query(historyCollection(subjectId), where("questionId", "==", questionId)));
+    return snapshot.docs
+        .map(d => ({ id: d.id, ...d.data() } as ContentRevision))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Puts a question back to the state it had before the given revision.
+ * Reads the unit fresh so questions edited elsewhere in the meantime are not clobbered,
+ * and records the rollback as a revision of its own.
+ */
+export async function revertRevision(revision: ContentRevision, editor: RevisionEditor): Promise<{ unit: Unit; solution: string }> {
+    const { subjectId, unitId, questionId } = revision;
+
+    const [unitSnap, solutionSnap] = await Promise.all([
+        getDoc(doc(db, "subjects", subjectId, "units", unitId)),
+        getDoc(doc(db, "subjects", subjectId, "solutions", questionId)),
+    ]);
+    if (!unitSnap.exists()) throw new Error("Unit no longer exists");
+
+    const unit = unitSnap.data() as Unit;
+    const current = unit.questions.find(q => q.id === questionId);
+    if (!current) throw new Error("Question no longer exists in this unit");
+
+    const currentSnapshot = snapshotQuestion(current, solutionSnap.exists() ? solutionSnap.data().text : undefined);
+    const { solution = '', ...restored } = revision.before;
+    // Keep the legacy inline solution in sync only where the unit still stores one
+    const restoredQuestion: Question = current.solution !== undefined ? { ...restored, solution } : restored;
+    const questions = unit.questions.map(q => q.id === questionId ? restoredQuestion : q);
+
+    await commitQuestionEdit({
+        subjectId,
+        unitId,
+        questions,
+        solution,
+        revisionId: newRevisionId(subjectId),
+        before: currentSnapshot,
+        after: snapshotQuestion(restoredQuestion, solution),
+        createdAt: Date.now(),
+        editor,
+        restoredFrom: revision.id,
+    });
+
+    return { unit: { ...unit, questions }, solution };
+}
+
+/**
+ * Stores many authored solutions at once: solution docs, `hasSolution` on the unit and one revision per question.
+ * Units are read fresh so edits made elsewhere in the meantime are kept. Returns the ids that no longer exist.
+ */
+export async function commitSolutionBatch(subjectId: string, solutions: Record<string, string>, editor: RevisionEditor): Promise<{ saved: string[]; missing: string[] }> {
+    const unitsSnap = await getDocs(collection(db, "subjects", subjectId, "units"));
+    const saved: string[] = [];
+    const now = Date.now();
+
+    let batch = writeBatch(db);
+    let pending = 0;
+
+    for (const unitDoc of unitsSnap.docs) {
+        const unit = unitDoc.data() as Unit;
+        const answered = (unit.questions || []).filter(q => solutions[q.id] !== undefined);
+        if (answered.length === 0) continue;
+
+        const previous = await Promise.all(answered.map(q => getDoc(doc(db, "subjects", subjectId, "solutions", q.id))));
+        const questions = unit.questions.map(q => {
+            if (solutions[q.id] === undefined) return q;
+            return { ...q, hasSolution: true, ...(q.solution !== undefined ? { solution: solutions[q.id] } : {}) };
+        });
+
+        for (let i = 0; i < answered.length; i++) {
+            // Every batch carries the unit, so a unit split over several batches is never left half-flagged
+            if (pending === 0) {
+                batch.update(unitDoc.ref, { questions });
+                pending++;
+            }
+
+            const question = answered[i];
+            const solution = solutions[question.id];
+            const before = snapshotQuestion(question, previous[i].data()?.text);
+            const after = snapshotQuestion(questions.find(q => q.id === question.id)!, solution);
+            batch.set(doc(db, "subjects", subjectId, "solutions", question.id), { text: solution }, { merge: true });
+
+            const revision: Omit<ContentRevision, 'id'> = {
+                subjectId,
+                unitId: unitDoc.id,
+                questionId: question.id,
+                editorUid: editor.uid,
+                ...(editor.email ? { editorEmail: editor.email } : {}),
+                createdAt: now,
+                updatedAt: now,
+                before,
+                after,
+                changedFields: getChangedFields(before, after),
+            };
+            batch.set(doc(historyCollection(subjectId)), revision);
+            pending += 2;
+            saved.push(question.id);
+
+            if (pending >= BATCH_LIMIT) {
+                await batch.commit();
+                batch = writeBatch(db);
+                pending = 0;
+            }
+        }
+
+        // The next unit starts on a fresh batch so its update is included
+        if (pending > 0) {
+            await batch.commit();
+            batch = writeBatch(db);
+            pending = 0;
+        }
+    }
+
+    return { saved, missing: Object.keys(solutions).filter(id => !saved.includes(id)) };
+}
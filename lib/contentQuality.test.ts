@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { QualityIssue, qualityIssuesToCsv } from '@/lib/contentQuality';
+
+const issue = (overrides: Partial<QualityIssue>): QualityIssue => ({
+    type: 'latex',
+    subjectId: 's1',
+    subjectTitle: 'Maths',
+    unitId: 'u1',
+    unitTitle: 'Unit 1',
+    questionId: 'q1',
+    questionText: 'Solve it',
+    field: 'question',
+    detail: 'ok',
+    ...overrides,
+});
+
+const rowFor = (overrides: Partial<QualityIssue>) =>
+    qualityIssuesToCsv([issue(overrides)], () => 'https://example.com').split('\n')[1];
+
+describe('qualityIssuesToCsv', () => {
+    it('turns cells that spreadsheets would run as formulas into text', () => {
+        expect(rowFor({ questionText: '=HYPERLINK("http://evil","x")' })).toContain(`"'=HYPERLINK(""http://evil"",""x"")"`);
+        expect(rowFor({ detail: '+1' })).toContain(",'+1,");
+        expect(rowFor({ detail: '-x^2' })).toContain(",'-x^2,");
+        expect(rowFor({ subjectTitle: '@SUM(A1)' }).startsWith("'@SUM(A1),")).toBe(true);
+        expect(rowFor({ detail: '\tcmd' })).toContain(",'\tcmd,");
+    });
+
+    it('leaves other cells as they were', () => {
+        expect(rowFor({ detail: 'Missing $ in a, b' })).toBe('Maths,Unit 1,q1,Solve it,LaTeX error,question,"Missing $ in a, b",https://example.com');
+    });
+});
@@ -0,0 +1,207 @@
+import katex from 'katex';
+import { Question, Unit } from '@/lib/types';
+import { sanitizeMarkdown, sanitizeMermaid } from '@/lib/markdownSanitize';
+
+export type QualityIssueType = 'missing-solution' | 'broken-image' | 'latex' | 'mermaid';
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssueType, string> = {
+    'missing-solution': 'Missing solution',
+    'broken-image': 'Broken image',
+    latex: 'LaTeX error',
+    mermaid: 'Mermaid error',
+};
+
+export interface QualityIssue {
+    type: QualityIssueType;
+    subjectId: string;
+    subjectTitle: string;
+    unitId: string;
+    unitTitle: string;
+    questionId: string;
+    questionText: string;
+    field: 'question' | 'solution';
+    detail: string;
+}
+
+export interface QualityAuditOptions {
+    checkImages: boolean;
+    // Mermaid only runs in the browser, the page passes mermaid.parse in
+    parseMermaid?: (code: string) => Promise<unknown>;
+}
+
+const IMAGE_TIMEOUT_MS = 15000;
+const IMAGE_CONCURRENCY = 6;
+
+// Code can contain $ and ![]() that are not math or images
+const stripCode = (markdown: string) => markdown.replace(/(```|~~~)[\s\S]*?\1/g, ' ').replace(/`[^`\n]*`/g, ' ');
+
+// Every math expression remark-math would hand to KaTeX that KaTeX can't parse
+export function findMathErrors(markdown: string): { tex: string; message: string }[] {
+    const text = stripCode(sanitizeMarkdown(markdown));
+    const expressions: { tex: string; displayMode: boolean }[] = [];
+
+    const withoutDisplay = text.replace(/\$\$([\s\S]+?)\$\$/g, (_match, tex: string) => {
+        expressions.push({ tex, displayMode: true });
+        return ' ';
+    });
+    withoutDisplay.replace(/(^|[^\\$])\$([^$\n]+?)\$/g, (match, _before, tex: string) => {
+        expressions.push({ tex, displayMode: false });
+        return match;
+    });
+
+    return expressions.flatMap(({ tex, displayMode }) => {
+        try {
+            katex.renderToString(tex, { displayMode, throwOnError: true });
+            return [];
+        } catch (error) {
+            return [{ tex: tex.trim(), message: error instanceof Error ? error.message : String(error) }];
+        }
+    });
+}
+
+export function extractMermaidBlocks(markdown: string): string[] {
+    const blocks: string[] = [];
+    markdown.replace(/```mermaid[^\n]*\n([\s\S]*?)```/g, (match, code: string) => {
+        blocks.push(code.replace(/\n$/, ''));
+        return match;
+    });
+    return blocks;
+}
+
+// Attached images plus images embedded in the Markdown
+export function extractImageUrls(question: Question, solution?: string): { url: string; field: 'question' | 'solution' }[] {
+    const urls: { url: string; field: 'question' | 'solution' }[] = [];
+    const embedded = (markdown: string, field: 'question' | 'solution') => {
+        stripCode(markdown).replace(/!\[[^\]]*\]\(\s*<?([^)\s>]+)>?[^)]*\)/g, (match, url: string) => {
+            urls.push({ url, field });
+            return match;
+        });
+    };
+
+    Object.values(question.images || {}).flat().forEach(url => urls.push({ url, field: 'question' }));
+    if (question.questionImageUrl) urls.push({ url: question.questionImageUrl, field: 'question' });
+    if (question.solutionImageUrl) urls.push({ url: question.solutionImageUrl, field: 'solution' });
+    embedded(question.text, 'question');
+    if (solution) embedded(solution, 'solution');
+
+    return urls.filter((entry, i) => urls.findIndex(other => other.url === entry.url) === i);
+}
+
+// Loads the image the way the page would (no CORS needed), anything but a successful load counts as dead
+export function checkImageUrl(url: string): Promise<string | null> {
+    return new Promise(resolve => {
+        const image = new Image();
+        const timer = setTimeout(() => {
+            image.src = '';
+            resolve('Timed out');
+        }, IMAGE_TIMEOUT_MS);
+        image.onload = () => {
+            clearTimeout(timer);
+            resolve(null);
+        };
+        image.onerror = () => {
+            clearTimeout(timer);
+            resolve('Failed to load');
+        };
+        image.src = url;
+    });
+}
+
+async function runWithLimit<T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> {
+    const results: T[] = [];
+    let next = 0;
+    const worker = async () => {
+        while (next < tasks.length) {
+            const index = next++;
+            results[index] = await tasks[index]();
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+    return results;
+}
+
+/**
+ * Checks every question of a unit: solution flag, KaTeX, Mermaid and (optionally) image URLs.
+ * `solutions` holds the stored solution text by question id.
+ */
+export async function auditUnit(
+    subject: { id: string; title: string },
+    unit: Unit,
+    solutions: Record<string, string>,
+    options: QualityAuditOptions
+): Promise<QualityIssue[]> {
+    const issues: QualityIssue[] = [];
+    const imageChecks: (() => Promise<void>)[] = [];
+
+    for (const question of unit.questions || []) {
+        const solution = solutions[question.id] ?? question.solution;
+        const issue = (type: QualityIssueType, field: QualityIssue['field'], detail: string): QualityIssue => ({
+            type,
+            subjectId: subject.id,
+            subjectTitle: subject.title,
+            unitId: unit.id,
+            unitTitle: unit.title,
+            questionId: question.id,
+            questionText: question.text,
+            field,
+            detail,
+        });
+
+        if (!question.hasSolution) {
+            issues.push(issue('missing-solution', 'solution', solution?.trim() ? 'Solution is stored but hasSolution is off' : 'No solution'));
+        }
+
+        const fields: [QualityIssue['field'], string | undefined][] = [['question', question.text], ['solution', solution]];
+        for (const [field, markdown] of fields) {
+            if (!markdown) continue;
+
+            findMathErrors(markdown).forEach(error => issues.push(issue('latex', field, `${error.message} in "${error.tex.slice(0, 80)}"`)));
+
+            if (options.parseMermaid) {
+                for (const block of extractMermaidBlocks(markdown)) {
+                    try {
+                        await options.parseMermaid(sanitizeMermaid(block));
+                    } catch (error) {
+                        const message = error instanceof Error ? error.message : String(error);
+                        issues.push(issue('mermaid', field, message.split('\n').slice(0, 2).join(' ')));
+                    }
+                }
+            }
+        }
+
+        if (options.checkImages) {
+            extractImageUrls(question, solution).forEach(({ url, field }) => {
+                imageChecks.push(async () => {
+                    const failure = await checkImageUrl(url);
+                    if (failure) issues.push(issue('broken-image', field, `${failure}: ${url}`));
+                });
+            });
+        }
+    }
+
+    await runWithLimit(imageChecks, IMAGE_CONCURRENCY);
+    return issues;
+}
+
+// Spreadsheets run cells starting with these as formulas, the ' makes them plain text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (raw: string) => {
+    const value = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export function qualityIssuesToCsv(issues: QualityIssue[], linkFor: (issue: QualityIssue) => string): string {
+    const headers = ['Subject', 'Unit', 'Question ID', 'Question', 'Issue', 'Field', 'Detail', 'Link'];
+    const rows = issues.map(issue => [
+        issue.subjectTitle,
+        issue.unitTitle,
+        issue.questionId,
+        issue.questionText.replace(/\s+/g, ' ').slice(0, 200),
+        QUALITY_ISSUE_LABELS[issue.type],
+        issue.field,
+        issue.detail,
+        linkFor(issue),
+    ].map(csvCell).join(','));
+    return [headers.join(','), ...rows].join('\n');
+}
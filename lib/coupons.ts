@@ -0,0 +1,55 @@
+import { Coupon } from "@/lib/types";
+
+// Razorpay rejects orders below ₹1, so a coupon can never take the total lower than this
+export const MIN_ORDER_AMOUNT = 1;
+
+export interface CheckoutItem {
+    id: string;
+    price: number;
+    branch?: string;
+    semester?: string;
+}
+
+export type CouponEvaluation =
+    | { valid: true; discount: number; eligibleIds: string[] }
+    | { valid: false; reason: string };
+
+export const normalizeCouponCode = (code: string) => code.trim().toUpperCase().replace(/\s+/g, '');
+
+export function isItemInScope(coupon: Pick<Coupon, 'scope'>, item: CheckoutItem): boolean {
+    const { branches, semesters, subjectIds } = coupon.scope;
+    if (subjectIds.length > 0 && !subjectIds.includes(item.id)) return false;
+    if (branches.length > 0 && !branches.includes(item.branch || '')) return false;
+    if (semesters.length > 0 && !semesters.includes(item.semester || '')) return false;
+    return true;
+}
+
+/**
+ * Works out what a coupon takes off a cart. Only items inside the coupon's scope are discounted.
+ * `userRedemptions` is the number of paid orders this user already placed with the code.
+ */
+export function evaluateCoupon(coupon: Coupon, items: CheckoutItem[], userRedemptions: number, now = Date.now()): CouponEvaluation {
+    if (!coupon.isActive) return { valid: false, reason: 'This coupon is no longer active' };
+    if (coupon.expiresAt && now > coupon.expiresAt) return { valid: false, reason: 'This coupon has expired' };
+    if (coupon.maxUses !== null && coupon.usedCount >= coupon.maxUses) {
+        return { valid: false, reason: 'This coupon has reached its usage limit' };
+    }
+    if (coupon.perUserLimit !== null && userRedemptions >= coupon.perUserLimit) {
+        return { valid: false, reason: 'You have already used this coupon' };
+    }
+
+    const eligible = items.filter(item => isItemInScope(coupon, item));
+    if (eligible.length === 0) return { valid: false, reason: 'This coupon does not apply to these courses' };
+
+    const eligibleTotal = eligible.reduce((sum, item) => sum + item.price, 0);
+    const cartTotal = items.reduce((sum, item) => sum + item.price, 0);
+
+    const rawDiscount = coupon.type === 'percent'
+        ? eligibleTotal * Math.min(coupon.value, 100) / 100
+        : Math.min(coupon.value, eligibleTotal);
+    const discount = Math.min(Math.round(rawDiscount), Math.max(cartTotal - MIN_ORDER_AMOUNT, 0));
+
+    if (discount <= 0) return { valid: false, reason: 'This coupon does not reduce the price of these courses' };
+
+    return { valid: true, discount, eligibleIds: eligible.map(item => item.id) };
+}
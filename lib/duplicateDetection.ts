@@ -0,0 +1,109 @@
+import { Question, QuestionProgress, Unit } from '@/lib/types';
+import { questionTokens, tokenSimilarity } from '@/lib/paperImport';
+
+// Questions at least this similar are offered as duplicates
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.8;
+
+export interface DuplicateCandidate {
+    question: Question;
+    unitId: string;
+    unitTitle: string;
+    solutionPreview?: string; // First part of the stored solution, filled in by the scan
+    solutionLength?: number;
+}
+
+export interface DuplicateCluster {
+    questions: DuplicateCandidate[];
+    similarity: number; // Weakest link that joined the cluster, 0-1
+    suggestedKeepId: string;
+    suggestedSolutionId: string | null; // Copy with the longest solution
+}
+
+/**
+ * Groups questions of a subject whose text is at least `threshold` similar.
+ * Similarity is transitive here: if A~B and B~C, all three end up in one cluster.
+ */
+export function findDuplicateClusters(units: Unit[], threshold = DEFAULT_DUPLICATE_THRESHOLD): Omit<DuplicateCluster, 'suggestedKeepId' | 'suggestedSolutionId'>[] {
+    const candidates: DuplicateCandidate[] = units.flatMap(unit =>
+        (unit.questions || []).map(question => ({ question, unitId: unit.id, unitTitle: unit.title }))
+    );
+    const tokens = candidates.map(c => questionTokens(c.question.text));
+
+    // Union-find over the candidate indexes
+    const parent = candidates.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+    const weakest = new Map<number, number>();
+
+    for (let i = 0; i < candidates.length; i++) {
+        for (let j = i + 1; j < candidates.length; j++) {
+            const score = tokenSimilarity(tokens[i], tokens[j]);
+            if (score < threshold) continue;
+
+            const a = find(i);
+            const b = find(j);
+            if (a === b) continue;
+            parent[b] = a;
+            weakest.set(a, Math.min(score, weakest.get(a) ?? 1, weakest.get(b) ?? 1));
+        }
+    }
+
+    const groups = new Map<number, DuplicateCandidate[]>();
+    candidates.forEach((candidate, i) => {
+        const root = find(i);
+        groups.set(root, [...(groups.get(root) || []), candidate]);
+    });
+
+    return [...groups.entries()]
+        .filter(([, questions]) => questions.length > 1)
+        .map(([root, questions]) => ({ questions, similarity: weakest.get(root) ?? 1 }))
+        .sort((a, b) => b.similarity - a.similarity);
+}
+
+// Keeps the copy students are most likely to have progress on: solved first, then the most asked
+export function suggestKeeper(questions: DuplicateCandidate[]): { keepId: string; solutionId: string | null } {
+    const ranked = [...questions].sort((a, b) =>
+        (b.solutionLength || 0) - (a.solutionLength || 0)
+        || (b.question.frequency || 0) - (a.question.frequency || 0)
+        || (b.question.history?.length || 0) - (a.question.history?.length || 0)
+    );
+    const withSolution = ranked.find(c => (c.solutionLength || 0) > 0);
+    return { keepId: ranked[0].question.id, solutionId: withSolution?.question.id ?? null };
+}
+
+/**
+ * The merged question: text and id of the kept copy, frequency summed, history combined
+ * (an exam listed on several copies is kept once), media taken from whichever copy has it.
+ */
+export function mergeDuplicateQuestions(keep: Question, others: Question[]): Question {
+    const all = [keep, ...others];
+    const seen = new Set<string>();
+    const history = all.flatMap(q => q.history || []).filter(entry => {
+        const key = `${entry.year.trim().toLowerCase()}|${entry.marks}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+
+    const merged: Question = {
+        ...keep,
+        frequency: all.reduce((sum, q) => sum + (q.frequency || 0), 0),
+        history,
+        hasSolution: all.some(q => q.hasSolution),
+        hasDiagram: Math.max(...all.map(q => q.hasDiagram || 0)),
+    };
+
+    (['images', 'questionImageUrl', 'solutionImageUrl', 'video'] as const).forEach(field => {
+        if (merged[field] !== undefined) return;
+        const source = others.find(q => q[field] !== undefined);
+        if (source) Object.assign(merged, { [field]: source[field] });
+    });
+
+    return merged;
+}
+
+// Two progress entries for what is now one question: the most recently reviewed one wins, a star on either is kept
+export function mergeQuestionProgress(a: QuestionProgress | undefined, b: QuestionProgress | undefined): QuestionProgress | undefined {
+    if (!a || !b) return a || b;
+    const latest = (b.lastReviewed || 0) > (a.lastReviewed || 0) ? b : a;
+    return { ...latest, isStarred: !!(a.isStarred || b.isStarred) };
+}
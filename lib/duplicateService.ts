@@ -0,0 +1,300 @@
+import { DocumentReference, FieldPath, FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { ContentRevision, QuestionProgress, SubjectMetadata, Unit } from '@/lib/types';
+import { getChangedFields, snapshotQuestion } from '@/lib/revisionSnapshot';
+import { syncBundles } from '@/lib/bundleService';
+import {
+    DEFAULT_DUPLICATE_THRESHOLD,
+    DuplicateCluster,
+    findDuplicateClusters,
+    mergeDuplicateQuestions,
+    mergeQuestionProgress,
+    suggestKeeper,
+} from '@/lib/duplicateDetection';
+
+const BATCH_LIMIT = 450;
+const READ_CHUNK = 100;
+// Firestore 'in' and 'array-contains-any' take at most 30 values
+const IN_LIMIT = 30;
+const SOLUTION_PREVIEW_CHARS = 300;
+
+export interface DuplicateMergeRequest {
+    keepId: string;
+    mergeIds: string[];
+    solutionId?: string | null; // Copy whose solution is kept, defaults to the kept question's own
+}
+
+// Thrown when the cluster is stale (questions edited or merged since the scan), the admin rescans
+export class DuplicateMergeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DuplicateMergeError';
+    }
+}
+
+export interface MergeEditor {
+    uid: string;
+    email?: string | null;
+}
+
+// Stored under duplicate_merges/{subjectId}__{keepId}. Written with the content merge and marked done once
+// every user's progress has moved, so a merge that failed half-way is resumed instead of lost.
+export interface DuplicateMergeJob {
+    subjectId: string;
+    keepId: string;
+    removedIds: string[];
+    status: 'migrating' | 'done';
+    mergedBy: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface DuplicateMergeResult {
+    keepId: string;
+    removedIds: string[];
+    progressDocsUpdated: number;
+    notesMoved: number;
+}
+
+const subjectRef = (subjectId: string) => adminDb.collection('subjects').doc(subjectId);
+
+async function loadUnits(subjectId: string): Promise<Unit[]> {
+    const snapshot = await subjectRef(subjectId).collection('units').get();
+    return snapshot.docs.map(d => ({ ...d.data(), id: d.id } as Unit));
+}
+
+async function loadSolutions(subjectId: string, questionIds: string[]): Promise<Map<string, string>> {
+    const solutions = new Map<string, string>();
+    for (let i = 0; i < questionIds.length; i += READ_CHUNK) {
+        const refs = questionIds.slice(i, i + READ_CHUNK).map(id => subjectRef(subjectId).collection('solutions').doc(id));
+        const snapshots = await adminDb.getAll(...refs);
+        snapshots.forEach(snap => {
+            const text = snap.exists ? snap.data()?.text : undefined;
+            if (typeof text === 'string' && text.trim()) solutions.set(snap.id, text);
+        });
+    }
+    return solutions;
+}
+
+/**
+ * Scans every unit of a subject for near-duplicate questions.
+ * Solutions are only read for questions that ended up in a cluster.
+ */
+export async function scanSubjectDuplicates(subjectId: string, threshold = DEFAULT_DUPLICATE_THRESHOLD): Promise<DuplicateCluster[]> {
+    const clusters = findDuplicateClusters(await loadUnits(subjectId), threshold);
+    const solutions = await loadSolutions(subjectId, clusters.flatMap(c => c.questions.map(q => q.question.id)));
+
+    return clusters.map(cluster => {
+        const questions = cluster.questions.map(candidate => {
+            const solution = solutions.get(candidate.question.id);
+            return solution
+                ? { ...candidate, solutionPreview: solution.slice(0, SOLUTION_PREVIEW_CHARS), solutionLength: solution.length }
+                : candidate;
+        });
+        const { keepId, solutionId } = suggestKeeper(questions);
+        return { ...cluster, questions, suggestedKeepId: keepId, suggestedSolutionId: solutionId };
+    });
+}
+
+const mergeJobRef = (subjectId: string, keepId: string) => adminDb.collection('duplicate_merges').doc(`${subjectId}__${keepId}`);
+
+const chunk = <T,>(items: T[], size: number): T[][] =>
+    Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// Users with progress or notes on any of the removed ids, instead of every user
+async function findAffectedUsers(subjectId: string, removedIds: string[]): Promise<DocumentReference[]> {
+    const progress = adminDb.collectionGroup('progress');
+    const queries = [
+        ...removedIds.map(id => progress.where(new FieldPath('questions', id), '!=', null)),
+        // Pre-SM-2 docs only list completed ids
+        ...chunk(removedIds, IN_LIMIT).map(ids => progress.where('completedQuestions', 'array-contains-any', ids)),
+        // Notes written before they carried questionId are only found through the user's progress
+        ...chunk(removedIds, IN_LIMIT).map(ids => adminDb.collectionGroup('notes').where('questionId', 'in', ids)),
+    ];
+    const snapshots = await Promise.all(queries.map(query => query.select().get()));
+
+    const users = new Map<string, DocumentReference>();
+    snapshots.forEach(snapshot => snapshot.docs.forEach(d => {
+        if (d.ref.parent.id === 'progress' && d.id !== subjectId) return;
+        const user = d.ref.parent.parent;
+        if (user) users.set(user.path, user);
+    }));
+    return Array.from(users.values());
+}
+
+/**
+ * Moves progress and notes of the removed ids onto the kept id. Safe to run again after a failure:
+ * migrated progress no longer has the removed ids, and a user's notes move in a single batch.
+ */
+async function migrateUserData(subjectId: string, keepId: string, removedIds: string[]): Promise<{ progressDocsUpdated: number; notesMoved: number }> {
+    const userRefs = await findAffectedUsers(subjectId, removedIds);
+    let progressDocsUpdated = 0;
+    let notesMoved = 0;
+
+    let batch = adminDb.batch();
+    let pending = 0;
+    // Commits first if the next `count` writes wouldn't fit, so they land together
+    const reserve = async (count: number) => {
+        if (pending + count > BATCH_LIMIT) {
+            await batch.commit();
+            batch = adminDb.batch();
+            pending = 0;
+        }
+        pending += count;
+    };
+
+    for (const users of chunk(userRefs, READ_CHUNK)) {
+        const progressSnaps = await adminDb.getAll(...users.map(ref => ref.collection('progress').doc(subjectId)));
+        for (const snap of progressSnaps) {
+            if (!snap.exists) continue;
+            const data = snap.data()!;
+
+            if (data.questions) {
+                const questions = data.questions as Record<string, QuestionProgress>;
+                if (!removedIds.some(id => questions[id])) continue;
+
+                const merged = [keepId, ...removedIds].reduce<QuestionProgress | undefined>((acc, id) => mergeQuestionProgress(acc, questions[id]), undefined);
+                const update: Record<string, unknown> = { [keepId]: merged };
+                removedIds.forEach(id => { update[id] = FieldValue.delete(); });
+                await reserve(1);
+                batch.set(snap.ref, { questions: update }, { merge: true });
+            } else if (Array.isArray(data.completedQuestions)) {
+                const completed = data.completedQuestions as string[];
+                if (!completed.some(id => removedIds.includes(id))) continue;
+                const next = Array.from(new Set(completed.map(id => removedIds.includes(id) ? keepId : id)));
+                await reserve(1);
+                batch.update(snap.ref, { completedQuestions: next });
+            } else {
+                continue;
+            }
+            progressDocsUpdated++;
+        }
+
+        const noteSnaps = await adminDb.getAll(...users.flatMap(ref => [keepId, ...removedIds].map(id => ref.collection('notes').doc(id))));
+        for (let u = 0; u < users.length; u++) {
+            const [keepNote, ...removedNotes] = noteSnaps.slice(u * (removedIds.length + 1), (u + 1) * (removedIds.length + 1));
+            const existing = removedNotes.filter(snap => snap.exists);
+            if (existing.length === 0) continue;
+            const contents = [keepNote, ...removedNotes]
+                .map(snap => snap.exists ? String(snap.data()?.content || '').trim() : '')
+                .filter(Boolean);
+
+            // Combined note and deletions in one batch, a retry never appends the same notes twice
+            await reserve(1 + existing.length);
+            batch.set(keepNote.ref, { content: contents.join('\n\n---\n\n'), questionId: keepId, updatedAt: Date.now() });
+            existing.forEach(snap => batch.delete(snap.ref));
+            notesMoved += existing.length;
+        }
+    }
+
+    if (pending > 0) await batch.commit();
+    return { progressDocsUpdated, notesMoved };
+}
+
+// Moves user data for a merge whose content is already saved, then marks it done
+async function finishMerge(subjectId: string, keepId: string, removedIds: string[]): Promise<DuplicateMergeResult> {
+    const migrated = await migrateUserData(subjectId, keepId, removedIds);
+    await mergeJobRef(subjectId, keepId).update({ status: 'done', updatedAt: Date.now() });
+    return { keepId, removedIds, ...migrated };
+}
+
+// Merges whose content was saved but whose progress migration didn't finish
+export async function listUnfinishedMerges(subjectId: string): Promise<DuplicateMergeJob[]> {
+    const snapshot = await adminDb.collection('duplicate_merges')
+        .where('subjectId', '==', subjectId)
+        .where('status', '==', 'migrating')
+        .get();
+    return snapshot.docs.map(d => d.data() as DuplicateMergeJob);
+}
+
+/**
+ * Merges duplicate questions into `keepId`: content, metadata counts, a history revision and the
+ * merge job in one transaction, then every affected user's progress and notes, then the bundle counts.
+ * If `keepId` has an unfinished merge of the same questions, that one is resumed instead.
+ */
+export async function mergeDuplicateQuestionSet(subjectId: string, { keepId, mergeIds, solutionId }: DuplicateMergeRequest, editor: MergeEditor): Promise<DuplicateMergeResult> {
+    const removedIds = Array.from(new Set(mergeIds.filter(id => id !== keepId)));
+    if (removedIds.length === 0) throw new DuplicateMergeError('Nothing to merge');
+
+    const jobSnap = await mergeJobRef(subjectId, keepId).get();
+    const job = jobSnap.data() as DuplicateMergeJob | undefined;
+    if (job?.status === 'migrating') {
+        // Only the same merge can be resumed, anything else has to wait until it is finished
+        const sameMerge = job.removedIds.length === removedIds.length && job.removedIds.every(id => removedIds.includes(id));
+        if (!sameMerge) throw new DuplicateMergeError('This question has an unfinished merge of other questions, resume that one first');
+        return finishMerge(subjectId, keepId, job.removedIds);
+    }
+    if (solutionId && solutionId !== keepId && !removedIds.includes(solutionId)) {
+        throw new DuplicateMergeError('The solution must come from one of the merged questions');
+    }
+
+    const solutions = await loadSolutions(subjectId, [keepId, ...removedIds]);
+    const solution = solutions.get(solutionId || keepId) ?? solutions.get(keepId);
+
+    const metadata = await adminDb.runTransaction(async transaction => {
+        const unitsSnap = await transaction.get(subjectRef(subjectId).collection('units'));
+        const metadataRef = adminDb.collection('subjects_metadata').doc(subjectId);
+        const metadataSnap = await transaction.get(metadataRef);
+        if (!metadataSnap.exists) throw new DuplicateMergeError('Subject not found');
+
+        const units = unitsSnap.docs.map(d => ({ ...d.data(), id: d.id } as Unit));
+        const all = units.flatMap(unit => (unit.questions || []).map(question => ({ question, unitId: unit.id })));
+        const keep = all.find(entry => entry.question.id === keepId);
+        const removed = all.filter(entry => removedIds.includes(entry.question.id));
+        if (!keep) throw new DuplicateMergeError('The question to keep no longer exists');
+        if (removed.length !== removedIds.length) throw new DuplicateMergeError('Some of the questions to merge no longer exist');
+
+        const merged = mergeDuplicateQuestions(keep.question, removed.map(entry => entry.question));
+        if (solution) merged.hasSolution = true;
+
+        const touchedUnitIds = new Set([keep.unitId, ...removed.map(entry => entry.unitId)]);
+        const nextUnits = units.map(unit => !touchedUnitIds.has(unit.id) ? unit : {
+            ...unit,
+            questions: unit.questions
+                .filter(q => !removedIds.includes(q.id))
+                .map(q => q.id === keepId ? merged : q),
+        });
+        nextUnits.filter(unit => touchedUnitIds.has(unit.id)).forEach(unit => {
+            transaction.update(subjectRef(subjectId).collection('units').doc(unit.id), { questions: unit.questions });
+        });
+
+        if (solution) transaction.set(subjectRef(subjectId).collection('solutions').doc(keepId), { text: solution }, { merge: true });
+        removedIds.forEach(id => transaction.delete(subjectRef(subjectId).collection('solutions').doc(id)));
+
+        const now = Date.now();
+        const before = snapshotQuestion(keep.question, solutions.get(keepId));
+        const after = snapshotQuestion(merged, solution);
+        const revision: Omit<ContentRevision, 'id'> = {
+            subjectId,
+            unitId: keep.unitId,
+            questionId: keepId,
+            editorUid: editor.uid,
+            ...(editor.email ? { editorEmail: editor.email } : {}),
+            createdAt: now,
+            updatedAt: now,
+            before,
+            after,
+            changedFields: getChangedFields(before, after),
+            mergedIds: removedIds,
+        };
+        transaction.set(subjectRef(subjectId).collection('history').doc(), revision);
+
+        const mergeJob: DuplicateMergeJob = { subjectId, keepId, removedIds, status: 'migrating', mergedBy: editor.uid, createdAt: now, updatedAt: now };
+        transaction.set(mergeJobRef(subjectId, keepId), mergeJob);
+
+        const stored = metadataSnap.data() as SubjectMetadata;
+        const counts = new Map(nextUnits.map(unit => [unit.id, unit.questions.length]));
+        const summary = {
+            questionCount: nextUnits.reduce((sum, unit) => sum + unit.questions.length, 0),
+            units: (stored.units || []).map(unit => ({ ...unit, questionCount: counts.get(unit.id) ?? unit.questionCount })),
+        };
+        transaction.update(metadataRef, summary);
+        transaction.set(subjectRef(subjectId), summary, { merge: true });
+        return stored;
+    });
+
+    const { failures } = await syncBundles([{ branch: metadata.branch, semester: metadata.semester }]);
+    if (failures.length > 0) console.error('Bundle sync after duplicate merge failed:', failures);
+
+    return finishMerge(subjectId, keepId, removedIds);
+}
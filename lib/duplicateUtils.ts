@@ -0,0 +1,33 @@
+import { auth } from '@/lib/firebase';
+import type { DuplicateCluster } from '@/lib/duplicateDetection';
+import type { DuplicateMergeJob, DuplicateMergeRequest, DuplicateMergeResult } from '@/lib/duplicateService';
+
+async function postDuplicates<T>(body: object): Promise<T> {
+    const user = auth.currentUser;
+    if (!user) throw new Error('Sign in as an admin to manage duplicates');
+
+    const token = await user.getIdToken();
+    const response = await fetch('/api/admin/duplicates', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(body),
+    });
+    const result = await response.json();
+
+    if (!response.ok) throw new Error(result.error || 'Request failed');
+    return result as T;
+}
+
+// Also returns merges whose content was saved but whose progress migration failed
+export async function scanDuplicates(subjectId: string, threshold: number): Promise<{ clusters: DuplicateCluster[]; unfinishedMerges: DuplicateMergeJob[] }> {
+    return postDuplicates<{ clusters: DuplicateCluster[]; unfinishedMerges: DuplicateMergeJob[] }>({ action: 'scan', subjectId, threshold });
+}
+
+// Merges one cluster on the server, including every user's progress and notes for the removed ids.
+// Resumes instead if an earlier merge into keepId didn't finish.
+export async function mergeDuplicates(subjectId: string, request: DuplicateMergeRequest): Promise<DuplicateMergeResult> {
+    return postDuplicates<DuplicateMergeResult>({ action: 'merge', subjectId, ...request });
+}
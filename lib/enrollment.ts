@@ -0,0 +1,136 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { UserProfile } from '@/lib/types';
+import { getRenewalStart } from '@/lib/purchaseExpiry';
+
+type PurchaseRecord = NonNullable<UserProfile['purchases']>[string];
+
+export async function getCourseDurationMonths(): Promise<number> {
+    const settingsDoc = await adminDb.collection('settings').doc('global').get();
+    return settingsDoc.exists ? (settingsDoc.data()?.courseDurationMonths || 1) : 1;
+}
+
+/**
+ * Builds the purchases.{courseId} record. When the course is still active the new period
+ * is added to the current expiry (renewal) and the original purchase date is kept, along with
+ * the period it extends so a refund of the renewal can give it back.
+ */
+export function buildPurchaseRecord(durationMonths: number, details: Partial<PurchaseRecord> = {}, existing?: PurchaseRecord): PurchaseRecord {
+    const now = Date.now();
+    const start = getRenewalStart(existing, now);
+    const isRenewal = start > now;
+
+    const expiryDateObj = new Date(start);
+    expiryDateObj.setMonth(expiryDateObj.getMonth() + durationMonths);
+
+    return {
+        purchaseDate: isRenewal && existing ? existing.purchaseDate : now,
+        expiryDate: expiryDateObj.getTime(),
+        durationMonths,
+        ...details,
+        // Kept across new periods so a refunded payment can't be replayed later
+        ...(existing?.refundedPaymentIds?.length ? { refundedPaymentIds: existing.refundedPaymentIds } : {}),
+        ...(isRenewal && existing ? {
+            renewedAt: now,
+            previousExpiryDate: existing.expiryDate,
+            // Firestore rejects undefined fields
+            ...(existing.paymentId ? { previousPaymentId: existing.paymentId } : {}),
+            ...(existing.orderId ? { previousOrderId: existing.orderId } : {}),
+        } : {}),
+    };
+}
+
+/**
+ * Writes purchases.{courseId} for a captured payment, extending courses that are still active.
+ * Both the verify route and the webhook call this, so courses already enrolled
+ * with the same paymentId are skipped instead of getting their expiry pushed out again,
+ * and so are courses that payment was refunded for.
+ * Returns the course ids that were newly enrolled.
+ */
+export async function enrollPaidCourses(
+    userId: string,
+    courseIds: string[],
+    payment: { orderId: string; paymentId: string }
+): Promise<string[]> {
+    const durationMonths = await getCourseDurationMonths();
+    const userRef = adminDb.collection('users').doc(userId);
+
+    return adminDb.runTransaction(async (transaction) => {
+        const userSnap = await transaction.get(userRef);
+        if (!userSnap.exists) throw new Error(`User not found: ${userId}`);
+
+        const purchases: UserProfile['purchases'] = userSnap.data()?.purchases || {};
+        const toEnroll = courseIds.filter(cid => {
+            const purchase = purchases?.[cid];
+            return purchase?.paymentId !== payment.paymentId && !purchase?.refundedPaymentIds?.includes(payment.paymentId);
+        });
+        if (toEnroll.length === 0) return [];
+
+        const updates: Record<string, unknown> = {
+            purchasedCourseIds: FieldValue.arrayUnion(...toEnroll),
+        };
+        toEnroll.forEach(cid => {
+            updates[`purchases.${cid}`] = buildPurchaseRecord(durationMonths, payment, purchases?.[cid]);
+        });
+
+        transaction.update(userRef, updates);
+        return toEnroll;
+    });
+}
+
+// The purchase as it was before its last renewal
+function restorePreviousPeriod(purchase: PurchaseRecord): PurchaseRecord {
+    const { previousExpiryDate, previousPaymentId, previousOrderId, ...rest } = purchase;
+    delete rest.renewedAt;
+    delete rest.paymentId;
+    delete rest.orderId;
+    return {
+        ...rest,
+        expiryDate: previousExpiryDate!,
+        ...(previousPaymentId ? { paymentId: previousPaymentId } : {}),
+        ...(previousOrderId ? { orderId: previousOrderId } : {}),
+    };
+}
+
+/**
+ * Takes back what a refunded payment bought. A refunded renewal only loses its extension:
+ * the period it extended is restored if it hasn't run out yet, and the course stays enrolled.
+ * Otherwise access ends now. Courses renewed with a different payment since then are left alone.
+ * Returns the course ids whose access was revoked or cut back.
+ */
+export async function revokeRefundedCourses(userId: string, courseIds: string[], paymentId: string): Promise<string[]> {
+    const userRef = adminDb.collection('users').doc(userId);
+
+    return adminDb.runTransaction(async (transaction) => {
+        const userSnap = await transaction.get(userRef);
+        if (!userSnap.exists) return [];
+
+        const purchases: UserProfile['purchases'] = userSnap.data()?.purchases || {};
+        const toRevoke = courseIds.filter(cid => {
+            const purchase = purchases?.[cid];
+            return purchase?.paymentId === paymentId && !purchase.refundedAt;
+        });
+        if (toRevoke.length === 0) return [];
+
+        const refundedAt = Date.now();
+        const updates: Record<string, unknown> = {};
+        const removed: string[] = [];
+        toRevoke.forEach(cid => {
+            const purchase = purchases![cid];
+            if (purchase.previousExpiryDate && purchase.previousExpiryDate > refundedAt) {
+                // Back to the earlier paid period, the payment no longer matches so a replayed refund is a no-op
+                const restored = restorePreviousPeriod(purchase);
+                updates[`purchases.${cid}`] = { ...restored, refundedPaymentIds: [...(restored.refundedPaymentIds || []), paymentId] };
+                return;
+            }
+            removed.push(cid);
+            updates[`purchases.${cid}.refundedAt`] = refundedAt;
+            updates[`purchases.${cid}.expiryDate`] = refundedAt;
+            updates[`purchases.${cid}.refundedPaymentIds`] = FieldValue.arrayUnion(paymentId);
+        });
+        if (removed.length > 0) updates.purchasedCourseIds = FieldValue.arrayRemove(...removed);
+
+        transaction.update(userRef, updates);
+        return toRevoke;
+    });
+}
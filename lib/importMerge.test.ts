@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { mergeSubjectUnits, normalizeQuestionText } from '@/lib/importMerge';
+import { Unit } from '@/lib/types';
+
+const unit = (id: string, questions: [string, string][]): Unit => ({
+    id,
+    title: `Unit ${id}`,
+    questions: questions.map(([qid, text]) => ({ id: qid, text, frequency: 1, isChecked: false })),
+});
+
+describe('normalizeQuestionText', () => {
+    it('ignores case, spacing and punctuation', () => {
+        expect(normalizeQuestionText('  Define   Entropy. ')).toBe(normalizeQuestionText('define entropy'));
+        expect(normalizeQuestionText('What is a "process"?')).toBe('what is a process');
+    });
+
+    it('keeps math operators apart', () => {
+        expect(normalizeQuestionText('Prove x^2 + y^2 = 1')).not.toBe(normalizeQuestionText('Prove x^2 - y^2 = 1'));
+        expect(normalizeQuestionText('Find a*b')).not.toBe(normalizeQuestionText('Find a/b'));
+        expect(normalizeQuestionText('Show f(x) < 0')).not.toBe(normalizeQuestionText('Show f(x) > 0'));
+    });
+
+    it('keeps letters outside ASCII', () => {
+        expect(normalizeQuestionText('Find α + β')).not.toBe(normalizeQuestionText('Find γ + δ'));
+        expect(normalizeQuestionText('Find α + β')).toBe('find α + β');
+        expect(normalizeQuestionText('ऊर्जा क्या है?')).toBe('ऊर्जा क्या है');
+    });
+});
+
+describe('mergeSubjectUnits', () => {
+    it('matches reworded punctuation but not near-identical equations', () => {
+        const existing = [unit('u1', [['q1', 'Solve x^2 + y^2 = 25.'], ['q2', 'Compare α and β decay']])];
+        const incoming = [unit('u1', [['n1', 'solve x^2 + y^2 = 25'], ['n2', 'Solve x^2 - y^2 = 25'], ['n3', 'Compare γ and δ decay']])];
+
+        const { units } = mergeSubjectUnits(existing, incoming, true);
+        expect(units[0].questions.map(q => q.id)).toEqual(['q1', 'n2', 'n3']);
+    });
+});
@@ -0,0 +1,161 @@
+import { Question, Subject, Unit } from '@/lib/types';
+import { questionChanged, UnitDiff } from '@/lib/importSchema';
+
+// Question as read from the file: frequency and hasDiagram stay unset when the file omits them
+export type IncomingQuestion = Omit<Question, 'frequency' | 'isChecked'> & { frequency?: number };
+export type IncomingUnit = Omit<Unit, 'questions'> & { questions: IncomingQuestion[] };
+export type IncomingSubject = Omit<Subject, 'units'> & { units: IncomingUnit[] };
+
+export interface MissingQuestion {
+    id: string;
+    text: string;
+    unitTitle: string;
+}
+
+export interface SubjectMergeResult {
+    units: Unit[];
+    diff: UnitDiff[];
+    missingQuestions: MissingQuestion[]; // Stored questions the file doesn't contain, dropped only with removeMissing
+}
+
+// Case, whitespace and punctuation don't count when matching question text.
+// Letters in any script and math operators do, so "x^2 + y^2" and "x^2 - y^2" stay apart.
+export const normalizeQuestionText = (text: string) =>
+    text.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{M}\p{N}+\-*/^=<>()]+/gu, ' ').trim();
+
+// Incoming history wins for a year it lists, years only the stored copy has are kept
+function mergeHistory(existing: Question['history'] = [], incoming: Question['history'] = []): Question['history'] {
+    const years = new Set(incoming.map(h => h.year));
+    return [...incoming, ...existing.filter(h => !years.has(h.year))];
+}
+
+/**
+ * Field-level merge of one question. The file wins for what it provides; solutions, images,
+ * video and history it lacks are kept from the stored copy, and the stored id is always kept.
+ */
+function mergeQuestion(existing: Question, incoming: IncomingQuestion): Question {
+    const history = mergeHistory(existing.history, incoming.history);
+    return {
+        ...existing,
+        ...incoming,
+        id: existing.id,
+        isChecked: false,
+        frequency: incoming.frequency ?? Math.max(existing.frequency || 0, history?.length || 0),
+        hasDiagram: incoming.hasDiagram ?? existing.hasDiagram ?? 0,
+        history,
+        hasSolution: !!existing.hasSolution || !!incoming.solution?.trim(),
+    };
+}
+
+function newQuestion(incoming: IncomingQuestion): Question {
+    return {
+        ...incoming,
+        isChecked: false,
+        frequency: incoming.frequency ?? (incoming.history?.length || 0),
+        hasDiagram: incoming.hasDiagram ?? 0,
+        history: incoming.history || [],
+    };
+}
+
+/**
+ * Merges an update import into the stored units instead of replacing them.
+ * Units match by id, then by title. Questions match by id, then by normalized text,
+ * anywhere in the subject, so a question moved to another unit keeps its id (and students' progress).
+ * Stored units and questions missing from the file are kept unless removeMissing is set.
+ * Unmatched stored units count questions the file moved elsewhere as removed.
+ */
+export function mergeSubjectUnits(existingUnits: Unit[], incomingUnits: IncomingUnit[], removeMissing: boolean): SubjectMergeResult {
+    const existingQuestions = new Map<string, { question: Question; unitId: string }>();
+    const existingByText = new Map<string, string>();
+    existingUnits.forEach(unit => unit.questions.forEach(question => {
+        existingQuestions.set(question.id, { question, unitId: unit.id });
+        const key = normalizeQuestionText(question.text);
+        if (!existingByText.has(key)) existingByText.set(key, question.id);
+    }));
+
+    // First pass: match everything, so a question moved to a later unit isn't also kept in its old one
+    const matchedQuestionIds = new Set<string>();
+    const matches = incomingUnits.map(unit => unit.questions.map(question => {
+        const textMatch = existingByText.get(normalizeQuestionText(question.text));
+        const matchId = existingQuestions.has(question.id) && !matchedQuestionIds.has(question.id)
+            ? question.id
+            : (textMatch && !matchedQuestionIds.has(textMatch) ? textMatch : undefined);
+        if (matchId) matchedQuestionIds.add(matchId);
+        return matchId;
+    }));
+
+    const unitsById = new Map(existingUnits.map(u => [u.id, u]));
+    const unitsByTitle = new Map(existingUnits.map(u => [normalizeQuestionText(u.title), u]));
+    const matchedUnitIds = new Set<string>();
+    const missingQuestions: MissingQuestion[] = [];
+    const units: Unit[] = [];
+    const diff: UnitDiff[] = [];
+
+    incomingUnits.forEach((unit, u) => {
+        const candidate = unitsById.get(unit.id) ?? unitsByTitle.get(normalizeQuestionText(unit.title));
+        const existingUnit = candidate && !matchedUnitIds.has(candidate.id) ? candidate : undefined;
+        if (existingUnit) matchedUnitIds.add(existingUnit.id);
+        const unitId = existingUnit?.id ?? unit.id;
+
+        let added = 0;
+        let changed = 0;
+        const questions = unit.questions.map((question, q) => {
+            const matchId = matches[u][q];
+            if (!matchId) {
+                added++;
+                return newQuestion(question);
+            }
+            const existing = existingQuestions.get(matchId)!;
+            const merged = mergeQuestion(existing.question, question);
+            if (existing.unitId !== unitId || questionChanged(existing.question, merged)) changed++;
+            return merged;
+        });
+
+        const missing = (existingUnit?.questions || []).filter(q => !matchedQuestionIds.has(q.id));
+        missing.forEach(q => missingQuestions.push({ id: q.id, text: q.text, unitTitle: existingUnit!.title }));
+
+        units.push({
+            ...existingUnit,
+            ...unit,
+            id: unitId,
+            topics: unit.topics?.length ? unit.topics : existingUnit?.topics || [],
+            questions: removeMissing ? questions : [...questions, ...missing],
+        });
+
+        const removed = removeMissing ? missing.length : 0;
+        diff.push({
+            unitId,
+            title: unit.title,
+            status: !existingUnit ? 'added' : (added || removed || changed || existingUnit.title !== unit.title ? 'changed' : 'unchanged'),
+            questionCount: questions.length + (removeMissing ? 0 : missing.length),
+            added,
+            removed,
+            changed,
+        });
+    });
+
+    // Units the file doesn't mention at all
+    existingUnits.filter(u => !matchedUnitIds.has(u.id)).forEach(unit => {
+        const missing = unit.questions.filter(q => !matchedQuestionIds.has(q.id));
+        const movedOut = unit.questions.length - missing.length;
+        missing.forEach(q => missingQuestions.push({ id: q.id, text: q.text, unitTitle: unit.title }));
+
+        if (removeMissing) {
+            diff.push({ unitId: unit.id, title: unit.title, status: 'removed', questionCount: 0, added: 0, removed: missing.length, changed: 0 });
+            return;
+        }
+
+        units.push({ ...unit, questions: missing });
+        diff.push({
+            unitId: unit.id,
+            title: unit.title,
+            status: movedOut > 0 ? 'changed' : 'unchanged',
+            questionCount: missing.length,
+            added: 0,
+            removed: movedOut,
+            changed: 0,
+        });
+    });
+
+    return { units, diff, missingQuestions };
+}
@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { Question, Subject, Unit } from '@/lib/types';
+
+// Format accepted by JsonImportModal. Unknown fields are kept so older exports still round-trip.
+
+const textOrNumber = z.union([z.string(), z.number()]).transform(String);
+
+const historyEntrySchema = z.object({
+    year: textOrNumber.pipe(z.string().trim().min(1, 'History year is required')),
+    marks: textOrNumber,
+});
+
+const questionSchema = z.object({
+    id: z.string().trim().min(1, 'Question id cannot be empty').optional(),
+    text: z.string({ required_error: 'Question text is required' }).trim().min(1, 'Question text is required'),
+    frequency: z.number().int().nonnegative().optional(),
+    solution: z.string().optional(),
+    hasDiagram: z.number().int().min(0).max(1).optional(),
+    history: z.array(historyEntrySchema).optional(),
+    questionImageUrl: z.string().url().optional(),
+    solutionImageUrl: z.string().url().optional(),
+    images: z.record(z.array(z.string().url())).optional(),
+}).passthrough();
+
+const unitSchema = z.object({
+    id: z.string().trim().min(1, 'Unit id cannot be empty').optional(),
+    title: z.string({ required_error: 'Unit title is required' }).trim().min(1, 'Unit title is required'),
+    topics: z.array(z.string()).optional(),
+    questions: z.array(questionSchema, { required_error: 'Unit must have a questions array' }),
+}).passthrough();
+
+export const subjectImportSchema = z.object({
+    id: z.string().trim().min(1).optional(),
+    title: z.string({ required_error: 'Subject title is required' }).trim().min(1, 'Subject title is required'),
+    units: z.array(unitSchema, { required_error: 'Subject must have a units array' }).min(1, 'Subject must have at least one unit'),
+    price: z.number().nonnegative().optional(),
+    originalPrice: z.number().nonnegative().optional(),
+    isElective: z.boolean().optional(),
+    electiveCategory: z.string().optional(),
+    group: z.enum(['A', 'B']).nullable().optional(),
+    isCommon: z.boolean().optional(),
+}).passthrough();
+
+export type SubjectImport = z.infer<typeof subjectImportSchema>;
+
+export interface ImportIssue {
+    path: string; // JSON path, e.g. $.units[2].questions[4].text
+    message: string;
+}
+
+export interface ImportValidation {
+    data: SubjectImport | null; // Null when there are errors
+    errors: ImportIssue[];
+    warnings: ImportIssue[];
+}
+
+export type UnitDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface UnitDiff {
+    unitId: string;
+    title: string;
+    status: UnitDiffStatus;
+    questionCount: number;
+    added: number;
+    removed: number;
+    changed: number;
+}
+
+export function formatJsonPath(path: (string | number)[]): string {
+    return path.reduce<string>((acc, key) => typeof key === 'number' ? `${acc}[${key}]` : `${acc}.${key}`, '$');
+}
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Checks parsed JSON against the import schema, then for problems the schema can't express:
+ * duplicate ids are errors, duplicate question text, empty units and missing frequency are warnings.
+ */
+export function validateSubjectImport(input: unknown): ImportValidation {
+    const result = subjectImportSchema.safeParse(input);
+    if (!result.success) {
+        return {
+            data: null,
+            errors: result.error.issues.map(issue => ({ path: formatJsonPath(issue.path), message: issue.message })),
+            warnings: [],
+        };
+    }
+
+    const data = result.data;
+    const errors: ImportIssue[] = [];
+    const warnings: ImportIssue[] = [];
+    const unitIds = new Map<string, string>();
+    const questionIds = new Map<string, string>();
+    const questionTexts = new Map<string, string>();
+
+    data.units.forEach((unit, u) => {
+        const unitPath = formatJsonPath(['units', u]);
+
+        if (unit.id) {
+            if (unitIds.has(unit.id)) errors.push({ path: `${unitPath}.id`, message: `Duplicate unit id "${unit.id}" (also at ${unitIds.get(unit.id)})` });
+            else unitIds.set(unit.id, `${unitPath}.id`);
+        }
+        if (unit.questions.length === 0) warnings.push({ path: `${unitPath}.questions`, message: 'Unit has no questions' });
+
+        unit.questions.forEach((question, q) => {
+            const questionPath = `${unitPath}.questions[${q}]`;
+
+            if (question.id) {
+                if (questionIds.has(question.id)) errors.push({ path: `${questionPath}.id`, message: `Duplicate question id "${question.id}" (also at ${questionIds.get(question.id)})` });
+                else questionIds.set(question.id, `${questionPath}.id`);
+            }
+
+            const text = normalizeText(question.text);
+            if (questionTexts.has(text)) warnings.push({ path: `${questionPath}.text`, message: `Same text as ${questionTexts.get(text)}` });
+            else questionTexts.set(text, `${questionPath}.text`);
+
+            if (question.frequency === undefined) {
+                warnings.push({ path: `${questionPath}.frequency`, message: 'Missing frequency, defaults to the number of history entries' });
+            }
+            if (question.solution !== undefined && !question.solution.trim()) {
+                warnings.push({ path: `${questionPath}.solution`, message: 'Solution is empty and will be skipped' });
+            }
+
+            const years = (question.history || []).map(h => h.year);
+            const repeated = years.find((year, i) => years.indexOf(year) !== i);
+            if (repeated) warnings.push({ path: `${questionPath}.history`, message: `Year ${repeated} appears more than once` });
+        });
+    });
+
+    return { data: errors.length > 0 ? null : data, errors, warnings };
+}
+
+export function parseSubjectImport(json: string): ImportValidation {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        return { data: null, errors: [{ path: '$', message: error instanceof Error ? error.message : 'Invalid JSON' }], warnings: [] };
+    }
+    return validateSubjectImport(parsed);
+}
+
+// Fields compared when deciding whether an imported question changes the stored one
+export function questionChanged(existing: Question, incoming: Question): boolean {
+    return existing.text !== incoming.text
+        || (existing.frequency || 0) !== (incoming.frequency || 0)
+        || JSON.stringify(existing.history || []) !== JSON.stringify(incoming.history || [])
+        || (existing.hasDiagram || 0) !== (incoming.hasDiagram || 0)
+        || (!!incoming.solution && incoming.solution.trim() !== '')
+        || JSON.stringify(existing.images || {}) !== JSON.stringify(incoming.images || {});
+}
+
+/**
+ * Per-unit diff of an update import against the stored units. Units and questions are matched by id,
+ * so run it after ids have been carried over from the existing subject.
+ */
+export function diffSubjectImport(existingUnits: Unit[], incoming: Pick<Subject, 'units'>): UnitDiff[] {
+    const existingById = new Map(existingUnits.map(u => [u.id, u]));
+    const incomingIds = new Set(incoming.units.map(u => u.id));
+
+    const diffs: UnitDiff[] = incoming.units.map(unit => {
+        const existing = existingById.get(unit.id);
+        if (!existing) {
+            return { unitId: unit.id, title: unit.title, status: 'added', questionCount: unit.questions.length, added: unit.questions.length, removed: 0, changed: 0 };
+        }
+
+        const existingQuestions = new Map(existing.questions.map(q => [q.id, q]));
+        const incomingQuestionIds = new Set(unit.questions.map(q => q.id));
+        const added = unit.questions.filter(q => !existingQuestions.has(q.id)).length;
+        const removed = existing.questions.filter(q => !incomingQuestionIds.has(q.id)).length;
+        const changed = unit.questions.filter(q => existingQuestions.has(q.id) && questionChanged(existingQuestions.get(q.id)!, q)).length;
+        const titleChanged = existing.title !== unit.title;
+
+        return {
+            unitId: unit.id,
+            title: unit.title,
+            status: added || removed || changed || titleChanged ? 'changed' : 'unchanged',
+            questionCount: unit.questions.length,
+            added,
+            removed,
+            changed,
+        };
+    });
+
+    existingUnits.filter(u => !incomingIds.has(u.id)).forEach(unit => {
+        diffs.push({ unitId: unit.id, title: unit.title, status: 'removed', questionCount: 0, added: 0, removed: unit.questions.length, changed: 0 });
+    });
+
+    return diffs;
+}
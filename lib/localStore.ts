@@ -0,0 +1,66 @@
+// Minimal IndexedDB key-value store for data that is too large for localStorage.
+// Every helper resolves to a safe default when IndexedDB is unavailable (SSR, private mode).
+
+const DB_NAME = 'saraav-local';
+const DB_VERSION = 1;
+const STORE_NAME = 'keyval';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+    if (typeof window === 'undefined' || !window.indexedDB) return Promise.resolve(null);
+
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve) => {
+            const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                    request.result.createObjectStore(STORE_NAME);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn("IndexedDB unavailable:", request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T | undefined> {
+    return openDatabase().then(db => new Promise((resolve) => {
+        if (!db) {
+            resolve(undefined);
+            return;
+        }
+        try {
+            const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => {
+                console.warn("IndexedDB request failed:", request.error);
+                resolve(undefined);
+            };
+        } catch (error) {
+            console.warn("IndexedDB transaction failed:", error);
+            resolve(undefined);
+        }
+    }));
+}
+
+export function getLocal<T>(key: string): Promise<T | undefined> {
+    return runRequest<T>('readonly', store => store.get(key));
+}
+
+export async function setLocal<T>(key: string, value: T): Promise<void> {
+    await runRequest('readwrite', store => store.put(value, key));
+}
+
+export async function deleteLocal(key: string): Promise<void> {
+    await runRequest('readwrite', store => store.delete(key));
+}
+
+export async function getLocalKeys(prefix: string): Promise<string[]> {
+    const keys = await runRequest<IDBValidKey[]>('readonly', store => store.getAllKeys());
+    return (keys || []).map(String).filter(key => key.startsWith(prefix));
+}
@@ -0,0 +1,85 @@
+// Fix-ups applied to stored Markdown before it is rendered. Shared with the content quality
+// checks so they judge exactly what students would see.
+
+// Unindents lines that would otherwise render as code blocks and escapes stray $ inside display math
+export function sanitizeMarkdown(content: string): string {
+    if (!content) return '';
+
+    const lines = content.split('\n');
+    let inCodeBlock = false;
+
+    const processedContent = lines.map(line => {
+        // Check for code block fence
+        const trimmed = line.trim();
+        if (trimmed.startsWith('```') || trimmed.startsWith('~~~')) {
+            inCodeBlock = !inCodeBlock;
+            return line; // Return fence line as is
+        }
+
+        if (inCodeBlock) {
+            return line; // Preserve code block content exactly
+        }
+
+        // Check for list items (keep their indentation)
+        // Matches: optional space + bullet/number + space
+        // e.g. "  * ", "  1. "
+        if (/^\s*([-*+]|\d+\.)\s/.test(line)) {
+            return line;
+        }
+
+        // Check for blockquotes
+        if (/^\s*>/.test(line)) {
+            return line;
+        }
+
+        // For other lines, if they are indented with 4+ spaces or a tab, unindent them
+        // This fixes "    $$" and "    Where:" issues interpreting as code
+        if (line.startsWith('    ') || line.startsWith('\t')) {
+            return line.trimStart();
+        }
+
+        // Also explicitly fix indented display math that might use fewer than 4 spaces but we want cleaner
+        if (/^\s*\$\$/.test(line)) {
+            return line.trimStart();
+        }
+
+        return line;
+    }).join('\n');
+
+    // Post-process: Escape unescaped dollar signs inside $$...$$ blocks
+    // KaTeX fails if it finds unescaped $ inside math mode (e.g. currency $1000)
+    return processedContent.replace(/\$\$([\s\S]*?)\$\$/g, (match: string, inner: string) => {
+        // Replace $ with \$ ONLY if it's not already escaped
+        const escapedInner = inner.replace(/(?<!\\)\$/g, '\\$');
+        return `$$${escapedInner}$$`;
+    });
+}
+
+// Auto-corrects common syntax errors in stored Mermaid diagrams before rendering
+export function sanitizeMermaid(content: string): string {
+    // Hotfix: Auto-correct common syntax errors in data
+    let sanitizedContent = content.replace(/\|\>/g, "|");
+
+    // Fix: Quote node labels that contain parentheses but aren't already quoted
+    // Finds [Text (More Text)] and converts to ["Text (More Text)"]
+    sanitizedContent = sanitizedContent.replace(/\[(?![ "])(.*?\(.*?\).*?)(?<![ "])\]/g, '["$1"]');
+
+    // Fix: Multi-actor notes in sequence diagrams (Note over A,B,C) -> (Note over A,C)
+    // Mermaid only supports start and end actor for notes, not intermediate ones.
+    sanitizedContent = sanitizedContent.replace(
+        /(Note\s+over\s+)([^,:\n]+)((?:,[^,:\n]+)+)(,[^,:\n]+)(\s*:)/gi,
+        (match, prefix, first, middle, last, suffix) => {
+            return `${prefix}${first}${last}${suffix}`;
+        }
+    );
+
+    // Fix: Force quote ALL edge labels to prevent mismatched parens/chars errors
+    // Matches >|Text| and converts to >|"Text"|
+    // This covers -->|Text| and -.->|Text| etc.
+    sanitizedContent = sanitizedContent.replace(
+        /(\>\|)([^"\|\n]+?)(\|)/g,
+        '$1"$2"$3'
+    );
+
+    return sanitizedContent;
+}
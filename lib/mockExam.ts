@@ -0,0 +1,81 @@
+import { Question, Unit } from "@/lib/types";
+
+export const DEFAULT_QUESTION_MARKS = 7;
+// University papers are 80 marks in 3 hours, roughly 2.25 minutes per mark
+const MINUTES_PER_MARK = 2.25;
+
+export interface MockExamQuestion {
+    question: Question;
+    unitId: string;
+    marks: number;
+}
+
+export interface MockExamSection {
+    unitId: string;
+    unitTitle: string;
+    questions: MockExamQuestion[];
+}
+
+export interface MockExamPaper {
+    sections: MockExamSection[];
+    totalMarks: number;
+    durationMinutes: number;
+}
+
+// History marks are free text from past papers ("7", "6.5", "13M")
+const parseMarks = (marks: string | undefined): number | null => {
+    if (!marks) return null;
+    const value = parseFloat(marks.replace(/[^0-9.]/g, ''));
+    return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+// Marks a question carries in the mock paper: its most recent appearance, else the default.
+export function getQuestionMarks(question: Question): number {
+    const history = question.history || [];
+    for (let i = history.length - 1; i >= 0; i--) {
+        const marks = parseMarks(history[i].marks);
+        if (marks !== null) return marks;
+    }
+    return DEFAULT_QUESTION_MARKS;
+}
+
+// Frequently asked, high-mark questions are the most likely to show up in the real exam.
+const getQuestionWeight = (question: Question) =>
+    Math.max(question.frequency || 0, 1) * getQuestionMarks(question);
+
+// Weighted sampling without replacement (Efraimidis-Spirakis keys).
+function pickWeighted(questions: Question[], count: number, random: () => number): Question[] {
+    return questions
+        .map(question => ({ question, key: Math.pow(random(), 1 / getQuestionWeight(question)) }))
+        .sort((a, b) => b.key - a.key)
+        .slice(0, count)
+        .map(({ question }) => question);
+}
+
+/**
+ * Builds a practice paper with up to `questionsPerUnit` questions from every unit.
+ * Units without questions are left out of the paper.
+ */
+export function buildMockExam(units: Unit[], questionsPerUnit: number, random: () => number = Math.random): MockExamPaper {
+    const sections: MockExamSection[] = units
+        .filter(unit => unit.questions && unit.questions.length > 0)
+        .map(unit => ({
+            unitId: unit.id,
+            unitTitle: unit.title,
+            questions: pickWeighted(unit.questions, questionsPerUnit, random).map(question => ({
+                question,
+                unitId: unit.id,
+                marks: getQuestionMarks(question),
+            })),
+        }));
+
+    const totalMarks = sections.reduce(
+        (sum, section) => sum + section.questions.reduce((s, q) => s + q.marks, 0),
+        0
+    );
+
+    // Round to the nearest 5 minutes, never less than 10
+    const durationMinutes = Math.max(10, Math.round((totalMarks * MINUTES_PER_MARK) / 5) * 5);
+
+    return { sections, totalMarks, durationMinutes };
+}
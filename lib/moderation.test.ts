@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MODERATION_CONFIG, checkSendRate, messageFingerprint, moderateText, normalizeForModeration } from '@/lib/moderation';
+
+const flagsFor = (text: string) => moderateText(text, DEFAULT_MODERATION_CONFIG);
+const isHeld = (text: string) => flagsFor(text).length > 0;
+
+describe('normalizeForModeration', () => {
+    it('maps leetspeak in tokens that mix letters and digits', () => {
+        expect(normalizeForModeration('$h1t')).toEqual(['shit']);
+        expect(normalizeForModeration('F.u.c.k')).toEqual(['fuck']);
+        expect(normalizeForModeration('fück')).toEqual(['fuck']);
+    });
+
+    it('drops numbers instead of reading them as words', () => {
+        expect(normalizeForModeration('The answer is 455 marks')).toEqual(['the', 'answer', 'is', 'marks']);
+        expect(normalizeForModeration('page 7175')).toEqual(['page']);
+    });
+
+    it('joins letters spelled out one by one', () => {
+        expect(normalizeForModeration('f u c k')).toEqual(['fuck']);
+    });
+});
+
+describe('moderateText', () => {
+    it('holds blocked words however they are disguised', () => {
+        for (const text of ['$h1t!', 'F.u.c.k this', 'f u c k', 'fuuuuck you', 'fück', 'shits']) {
+            expect(flagsFor(text)[0]?.rule, text).toBe('blocklist');
+        }
+    });
+
+    it('posts numbers that only look like words in leetspeak', () => {
+        expect(isHeld('The answer is 455 marks')).toBe(false);
+        expect(isHeld('See page 7175 for the derivation')).toBe(false);
+        expect(isHeld('Roll no 5417, scored 1337')).toBe(false);
+    });
+
+    it('only matches whole words', () => {
+        expect(isHeld('class assessment passes')).toBe(false);
+        expect(isHeld('Scunthorpe and Essex')).toBe(false);
+    });
+
+    it('leaves words students use in coursework alone', () => {
+        expect(isHeld('go to hell, it is gay')).toBe(false);
+        expect(isHeld('sex-linked inheritance in biology')).toBe(false);
+    });
+
+    it('posts allowed names and phrases that contain a blocked word', () => {
+        expect(isHeld('Dick Grune compiler design book')).toBe(false);
+        expect(isHeld('kept the lab spic and span')).toBe(false);
+        expect(isHeld('Read Moby Dick for the exam')).toBe(false);
+    });
+
+    it('still holds a blocked word next to an allowed phrase', () => {
+        expect(isHeld('Dick Grune is a dick')).toBe(true);
+    });
+
+    it('lets admins allow single words', () => {
+        const config = { ...DEFAULT_MODERATION_CONFIG, allowList: ['piss'] };
+        expect(moderateText('piss', config)).toEqual([]);
+    });
+
+    it('holds blocked and excessive links', () => {
+        expect(flagsFor('see bit.ly/x')).toEqual([{ rule: 'link', detail: 'Links to bit.ly' }]);
+        expect(flagsFor('a.com b.com c.com')[0].rule).toBe('link');
+        expect(isHeld('https://en.wikipedia.org/a https://youtu.be/b https://github.com/c')).toBe(false);
+    });
+
+    it('holds spam but not code or math', () => {
+        expect(isHeld('HELLO EVERYONE THIS IS LOUD')).toBe(true);
+        expect(isHeld('spam spam spam spam spam spam spam spam spam spam')).toBe(true);
+        expect(isHeld('```\nAAAAAAAAAAAAAAAAAAAAAAAA\n```')).toBe(false);
+    });
+});
+
+describe('checkSendRate', () => {
+    it('refuses the same message past the repeat limit', () => {
+        const fingerprint = messageFingerprint('hi there');
+        let recent = checkSendRate([], fingerprint, 0, DEFAULT_MODERATION_CONFIG).recent;
+        recent = checkSendRate(recent, fingerprint, 1000, DEFAULT_MODERATION_CONFIG).recent;
+        expect(checkSendRate(recent, fingerprint, 2000, DEFAULT_MODERATION_CONFIG).error).not.toBeNull();
+    });
+
+    it('treats leetspeak variants as the same message', () => {
+        expect(messageFingerprint('Buy now!!')).toBe(messageFingerprint('buy n0w'));
+    });
+});
@@ -0,0 +1,241 @@
+import { ModerationConfig, ModerationFlag } from '@/lib/types';
+
+// Words that hold a message. Anatomy, identity and mild words ("hell", "gay", "sex") are left out on purpose,
+// students use them in coursework; admins can add them back on /admin/moderation.
+const DEFAULT_BLOCK_LIST = [
+    "arse", "ass", "asshole", "bastard", "bitch", "cunt", "dick", "dildo", "dyke",
+    "fag", "faggot", "fuck", "fucker", "fucking", "goddamn", "jizz", "kike",
+    "motherfucker", "nigger", "nigga", "piss", "pussy", "retard", "rimjob",
+    "shit", "slut", "spic", "tits", "turd", "twat", "wank", "whore"
+];
+
+// Names and phrases that contain a blocked word but are fine as a whole
+const DEFAULT_ALLOW_LIST = ["dick grune", "moby dick", "philip k dick", "dick tracy", "spic and span", "spick and span"];
+
+// Link shorteners hide where a link goes
+const DEFAULT_BLOCKED_LINK_DOMAINS = ["bit.ly", "tinyurl.com", "t.co", "goo.gl", "is.gd", "cutt.ly", "rebrand.ly"];
+
+export const DEFAULT_MODERATION_CONFIG: ModerationConfig = {
+    blockList: DEFAULT_BLOCK_LIST,
+    allowList: DEFAULT_ALLOW_LIST,
+    maxLinks: 2,
+    allowedLinkDomains: ["youtube.com", "youtu.be", "wikipedia.org", "github.com"],
+    blockedLinkDomains: DEFAULT_BLOCKED_LINK_DOMAINS,
+    maxLength: 4000,
+    maxMessagesPerMinute: 10,
+    maxRepeats: 2,
+    repeatWindowMinutes: 10,
+};
+
+// Characters people swap in for letters to get past a word list
+const LEET_MAP: Record<string, string> = {
+    '0': 'o', '1': 'i', '!': 'i', '|': 'i', '3': 'e', '4': 'a', '@': 'a',
+    '5': 's', '$': 's', '7': 't', '+': 't', '8': 'b', '9': 'g',
+};
+
+// Spam heuristics
+const MIN_LETTERS_FOR_CAPS = 20;
+const MAX_CAPS_RATIO = 0.8;
+const MAX_CHAR_RUN = 12;
+const MIN_FLOOD_WORDS = 10;
+const MAX_WORD_SHARE = 0.5;
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>()\]]+|\b(?:[a-z0-9-]+\.)+(?:com|net|org|io|gg|me|ly|xyz|in|co|info|biz|ru|tk|top|site|online|link)\b(?:\/[^\s<>()\]]*)?/gi;
+
+/**
+ * Lowercases, strips accents and surrounding punctuation, maps leetspeak, then splits into letter-only tokens.
+ * "F.u.c.k" and "fück" both come out as "fuck", "$h1t" becomes "shit". Leetspeak only applies to tokens
+ * that also have letters, so numbers ("455 marks", "page 7175") are dropped instead of read as words.
+ */
+export function normalizeForModeration(text: string): string[] {
+    const folded = text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+    const tokens = folded.split(/\s+/)
+        .map(word => word.replace(/^[("'[]+|[)"'\].,;:?!]+$/g, ''))
+        .filter(word => /[a-z]/.test(word))
+        .map(word => Array.from(word, ch => LEET_MAP[ch] ?? ch).join('').replace(/[^a-z]/g, ''))
+        .filter(Boolean);
+
+    // "f u c k": join runs of single letters into one token
+    const joined: string[] = [];
+    let run = '';
+    for (const token of tokens) {
+        if (token.length === 1) {
+            run += token;
+            continue;
+        }
+        if (run) joined.push(run);
+        run = '';
+        joined.push(token);
+    }
+    if (run) joined.push(run);
+    return joined;
+}
+
+// Spellings a token may match under: as written, with stretched letters squeezed ("fuuuck"), and without a plural "s"
+function tokenVariants(token: string): string[] {
+    const variants = new Set([token, token.replace(/(.)\1{2,}/g, '$1$1'), token.replace(/(.)\1+/g, '$1')]);
+    for (const variant of Array.from(variants)) {
+        if (variant.length > 3 && variant.endsWith('s')) variants.add(variant.slice(0, -1));
+    }
+    return Array.from(variants);
+}
+
+const normalizeEntry = (entry: string) => normalizeForModeration(entry).join(' ');
+
+// Token positions covered by an allowed phrase, e.g. both words of "moby dick"
+function allowedPositions(tokens: string[], phrases: string[][]): Set<number> {
+    const covered = new Set<number>();
+    for (const phrase of phrases) {
+        for (let start = 0; start + phrase.length <= tokens.length; start++) {
+            if (phrase.every((word, i) => tokens[start + i] === word)) {
+                phrase.forEach((_, i) => covered.add(start + i));
+            }
+        }
+    }
+    return covered;
+}
+
+// Blocked words only match whole tokens, "class" or "assess" never match "ass"
+function findBlockedTerms(tokens: string[], config: ModerationConfig): string[] {
+    const allowEntries = config.allowList.map(normalizeEntry).filter(Boolean);
+    const allowed = new Set(allowEntries);
+    const covered = allowedPositions(tokens, allowEntries.filter(entry => entry.includes(' ')).map(entry => entry.split(' ')));
+    const words = new Set<string>();
+    const phrases: string[] = [];
+    config.blockList.map(normalizeEntry).filter(Boolean).forEach(entry => entry.includes(' ') ? phrases.push(entry) : words.add(entry));
+
+    const found = new Set<string>();
+    tokens.forEach((token, i) => {
+        if (covered.has(i) || allowed.has(token)) return;
+        const hit = tokenVariants(token).find(variant => words.has(variant) && !allowed.has(variant));
+        if (hit) found.add(hit);
+    });
+
+    const padded = ` ${tokens.join(' ')} `;
+    phrases.filter(phrase => !allowed.has(phrase) && padded.includes(` ${phrase} `)).forEach(phrase => found.add(phrase));
+    return Array.from(found);
+}
+
+const matchesDomain = (host: string, domain: string) => host === domain || host.endsWith(`.${domain}`);
+
+export function extractLinkHosts(text: string): string[] {
+    return (text.match(LINK_PATTERN) || []).map(link => {
+        const withScheme = /^https?:\/\//i.test(link) ? link : `http://${link}`;
+        try {
+            return new URL(withScheme).hostname.toLowerCase().replace(/^www\./, '');
+        } catch {
+            return link.toLowerCase();
+        }
+    });
+}
+
+function checkLinks(text: string, config: ModerationConfig): ModerationFlag[] {
+    const hosts = extractLinkHosts(text);
+    const flags: ModerationFlag[] = [];
+
+    const blocked = hosts.filter(host => config.blockedLinkDomains.some(domain => matchesDomain(host, domain)));
+    if (blocked.length > 0) {
+        flags.push({ rule: 'link', detail: `Links to ${Array.from(new Set(blocked)).join(', ')}` });
+    }
+
+    const counted = hosts.filter(host => !config.allowedLinkDomains.some(domain => matchesDomain(host, domain)));
+    if (counted.length > config.maxLinks) {
+        flags.push({ rule: 'link', detail: `${counted.length} links (limit ${config.maxLinks})` });
+    }
+    return flags;
+}
+
+function checkSpam(text: string): ModerationFlag[] {
+    // Code and math legitimately repeat characters and use capitals
+    const prose = text.replace(/```[\s\S]*?```/g, ' ').replace(/`[^`]*`/g, ' ').replace(/\$\$[\s\S]*?\$\$/g, ' ').replace(/\$[^$\n]*\$/g, ' ');
+    const flags: ModerationFlag[] = [];
+
+    const letters = prose.replace(/[^a-zA-Z]/g, '');
+    const capitals = letters.replace(/[^A-Z]/g, '').length;
+    if (letters.length >= MIN_LETTERS_FOR_CAPS && capitals / letters.length > MAX_CAPS_RATIO) {
+        flags.push({ rule: 'spam', detail: 'Mostly capital letters' });
+    }
+
+    if (new RegExp(`([a-zA-Z])\\1{${MAX_CHAR_RUN - 1},}`).test(prose)) {
+        flags.push({ rule: 'spam', detail: 'Long run of a repeated letter' });
+    }
+
+    const words = prose.toLowerCase().split(/\s+/).filter(word => word.length > 1);
+    if (words.length >= MIN_FLOOD_WORDS) {
+        const counts = new Map<string, number>();
+        words.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+        const [top, count] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+        if (count / words.length > MAX_WORD_SHARE) {
+            flags.push({ rule: 'spam', detail: `"${top}" repeated ${count} times` });
+        }
+    }
+    return flags;
+}
+
+/**
+ * Runs a message through the block list, link rules and spam heuristics.
+ * Any flag means the message is held for an admin instead of being posted.
+ */
+export function moderateText(text: string, config: ModerationConfig): ModerationFlag[] {
+    if (!text.trim()) return [];
+
+    const terms = findBlockedTerms(normalizeForModeration(text), config);
+    const flags: ModerationFlag[] = terms.length > 0 ? [{ rule: 'blocklist', detail: `Matched ${terms.map(t => `"${t}"`).join(', ')}` }] : [];
+    return [...flags, ...checkLinks(text, config), ...checkSpam(text)];
+}
+
+export interface RecentSend {
+    at: number; // Epoch ms
+    fingerprint: string;
+}
+
+// Same text after normalisation gives the same fingerprint, so "Buy now!!" and "buy n0w" count as repeats
+export function messageFingerprint(text: string): string {
+    const normalized = normalizeForModeration(text).join(' ');
+    // FNV-1a, only compared for equality
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < normalized.length; i++) {
+        hash ^= normalized.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+}
+
+/**
+ * Checks one more send against the user's recent sends. Returns why it's refused,
+ * or null, plus the list to store (entries older than either window are dropped).
+ */
+export function checkSendRate(recent: RecentSend[], fingerprint: string | null, now: number, config: ModerationConfig): { error: string | null; recent: RecentSend[] } {
+    const repeatWindowMs = config.repeatWindowMinutes * 60 * 1000;
+    const kept = recent.filter(entry => now - entry.at < Math.max(60 * 1000, repeatWindowMs));
+
+    if (kept.filter(entry => now - entry.at < 60 * 1000).length >= config.maxMessagesPerMinute) {
+        return { error: 'You are sending messages too quickly. Please wait a moment.', recent: kept };
+    }
+    if (fingerprint && kept.filter(entry => entry.fingerprint === fingerprint && now - entry.at < repeatWindowMs).length >= config.maxRepeats) {
+        return { error: 'You have already sent this message. Please don\'t repeat it.', recent: kept };
+    }
+    return { error: null, recent: [...kept, { at: now, fingerprint: fingerprint || '' }] };
+}
+
+// Trims, lowercases and dedupes list entries and clamps the limits, for configs coming from the admin page
+export function sanitizeModerationConfig(input: Partial<ModerationConfig>): ModerationConfig {
+    const list = (value: unknown, fallback: string[]) => Array.isArray(value)
+        ? Array.from(new Set(value.filter((v): v is string => typeof v === 'string').map(v => v.trim().toLowerCase()).filter(Boolean)))
+        : fallback;
+    const number = (value: unknown, fallback: number, min: number, max: number) =>
+        typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+    const defaults = DEFAULT_MODERATION_CONFIG;
+
+    return {
+        blockList: list(input.blockList, defaults.blockList),
+        allowList: list(input.allowList, defaults.allowList),
+        maxLinks: number(input.maxLinks, defaults.maxLinks, 0, 50),
+        allowedLinkDomains: list(input.allowedLinkDomains, defaults.allowedLinkDomains),
+        blockedLinkDomains: list(input.blockedLinkDomains, defaults.blockedLinkDomains),
+        maxLength: number(input.maxLength, defaults.maxLength, 100, 20000),
+        maxMessagesPerMinute: number(input.maxMessagesPerMinute, defaults.maxMessagesPerMinute, 1, 120),
+        maxRepeats: number(input.maxRepeats, defaults.maxRepeats, 1, 50),
+        repeatWindowMinutes: number(input.repeatWindowMinutes, defaults.repeatWindowMinutes, 1, 24 * 60),
+    };
+}
@@ -0,0 +1,255 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebase-admin';
+import { ChatAttachment, HeldMessage, Message, ModerationConfig, ModerationFlag, QuestionRef } from '@/lib/types';
+import { MAX_ATTACHMENTS_PER_MESSAGE, chatAttachmentUrl, isAllowedAttachmentType, isImageType } from '@/lib/chatAttachments';
+import { RecentSend, checkSendRate, messageFingerprint, moderateText, sanitizeModerationConfig } from '@/lib/moderation';
+
+// Config changes reach every server instance within this long
+const CONFIG_CACHE_MS = 30 * 1000;
+const REPLY_SNIPPET_LENGTH = 100;
+const QUESTION_SNAPSHOT_LENGTH = 280;
+
+export class ModerationError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+        this.name = 'ModerationError';
+    }
+}
+
+export interface MessageSender {
+    uid: string;
+    name: string;
+    photoURL?: string;
+    isAdmin: boolean; // Admins skip the pipeline and the branch check
+}
+
+// What the client may send, everything else on the message is filled in here
+export interface OutgoingMessage {
+    text: string;
+    replyToId?: string;
+    attachments?: ChatAttachment[];
+    questionRef?: QuestionRef;
+}
+
+export type SendResult =
+    | { status: 'sent'; messageId: string }
+    | { status: 'held'; messageId: string };
+
+const configRef = () => adminDb.collection('moderation').doc('config');
+// Recent sends per user for the rate limit, server-only
+const rateRef = (uid: string) => adminDb.collection('moderation_rate').doc(uid);
+const heldCollection = () => adminDb.collection('held_messages');
+const channelRef = (channelId: string) => adminDb.collection('channels').doc(channelId);
+
+let cachedConfig: { config: ModerationConfig; loadedAt: number } | null = null;
+
+export async function getModerationConfig(): Promise<ModerationConfig> {
+    if (cachedConfig && Date.now() - cachedConfig.loadedAt < CONFIG_CACHE_MS) return cachedConfig.config;
+
+    const snap = await configRef().get();
+    // Fields missing from the stored config fall back to the defaults
+    const config = sanitizeModerationConfig((snap.data() || {}) as Partial<ModerationConfig>);
+    cachedConfig = { config, loadedAt: Date.now() };
+    return config;
+}
+
+export async function saveModerationConfig(input: Partial<ModerationConfig>, updatedBy: string): Promise<ModerationConfig> {
+    const config = sanitizeModerationConfig(input);
+    await configRef().set({ ...config, updatedBy, updatedAt: Date.now() });
+    cachedConfig = { config, loadedAt: Date.now() };
+    return config;
+}
+
+// Non-admins may only post in channels of their own branch, same check as firestore.rules
+async function assertChannelAccess(channelId: string, sender: MessageSender) {
+    const channelSnap = await channelRef(channelId).get();
+    if (!channelSnap.exists) throw new ModerationError('Channel not found', 404);
+    if (sender.isAdmin) return;
+
+    const userSnap = await adminDb.collection('users').doc(sender.uid).get();
+    if (userSnap.data()?.branch !== channelSnap.data()?.branch) {
+        throw new ModerationError('You cannot post in this channel', 403);
+    }
+}
+
+// Attachments must already be uploaded under this channel's folder (see lib/chatAttachments.ts).
+// The url must be the storage URL of that path, so a message can't point at some other site.
+function validateAttachments(channelId: string, attachments: unknown): ChatAttachment[] {
+    if (attachments === undefined) return [];
+    if (!Array.isArray(attachments) || attachments.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+        throw new ModerationError(`Up to ${MAX_ATTACHMENTS_PER_MESSAGE} attachments per message`);
+    }
+    const folder = `chat/${channelId}/`;
+    return attachments.map(a => {
+        const valid = a && typeof a.path === 'string' && a.path.startsWith(folder) &&
+            /^[^/]+$/.test(a.path.slice(folder.length)) && !a.path.includes('..') &&
+            typeof a.url === 'string' && a.url === chatAttachmentUrl(a.path) &&
+            typeof a.name === 'string' && typeof a.contentType === 'string' && isAllowedAttachmentType(a.contentType) &&
+            typeof a.size === 'number' && a.kind === (isImageType(a.contentType) ? 'image' : 'file');
+        if (!valid) throw new ModerationError('Invalid attachment');
+        return { url: a.url, path: a.path, name: a.name, contentType: a.contentType, size: a.size, kind: a.kind };
+    });
+}
+
+// File names are shown with the message, so they go through the same checks as its text
+function moderateMessage(text: string, attachments: ChatAttachment[], config: ModerationConfig): ModerationFlag[] {
+    const nameFlags = attachments.flatMap(a => moderateText(a.name, config).map(flag => ({ ...flag, detail: `File "${a.name}": ${flag.detail}` })));
+    return [...moderateText(text, config), ...nameFlags];
+}
+
+function validateQuestionRef(ref: unknown): QuestionRef | undefined {
+    if (ref === undefined) return undefined;
+    const r = ref as Partial<QuestionRef>;
+    if (typeof r?.subjectId !== 'string' || typeof r.unitId !== 'string' || typeof r.questionId !== 'string' || typeof r.questionText !== 'string') {
+        throw new ModerationError('Invalid question reference');
+    }
+    return { subjectId: r.subjectId, unitId: r.unitId, questionId: r.questionId, questionText: r.questionText.slice(0, QUESTION_SNAPSHOT_LENGTH) };
+}
+
+// Reply details come from the stored message so they can't be made up
+async function loadReplyFields(channelId: string, replyToId?: string): Promise<Partial<Message>> {
+    if (!replyToId) return {};
+    const replySnap = await channelRef(channelId).collection('messages').doc(replyToId).get();
+    if (!replySnap.exists) throw new ModerationError('The message you replied to no longer exists', 404);
+
+    const reply = replySnap.data() as Message;
+    return {
+        replyToId,
+        replyToSnippet: (reply.text || '').substring(0, REPLY_SNIPPET_LENGTH) || (reply.attachments?.length ? '📎 Attachment' : ''),
+        replyToSenderName: reply.senderName,
+        replyToSenderId: reply.senderId,
+    };
+}
+
+// Counts the send against the user's limits, throws if they're exceeded
+async function recordSend(uid: string, text: string, config: ModerationConfig) {
+    const fingerprint = text.trim() ? messageFingerprint(text) : null;
+    await adminDb.runTransaction(async tx => {
+        const snap = await tx.get(rateRef(uid));
+        const { error, recent } = checkSendRate((snap.data()?.recent || []) as RecentSend[], fingerprint, Date.now(), config);
+        if (error) throw new ModerationError(error, 429);
+        tx.set(rateRef(uid), { recent });
+    });
+}
+
+const describeFlags = (flags: ModerationFlag[]) => flags.map(f => `${f.rule}: ${f.detail}`).join('; ');
+
+/**
+ * Posts a message to channels/{channelId}/messages/{messageId} if it passes moderation.
+ * Otherwise it goes to held_messages with a message_reports entry for the admins, and nothing is posted.
+ */
+export async function sendModeratedMessage(channelId: string, messageId: string, input: OutgoingMessage, sender: MessageSender): Promise<SendResult> {
+    const text = typeof input.text === 'string' ? input.text.trim() : '';
+    const attachments = validateAttachments(channelId, input.attachments);
+    const questionRef = validateQuestionRef(input.questionRef);
+    if (!text && attachments.length === 0) throw new ModerationError('Message is empty');
+
+    const config = await getModerationConfig();
+    if (text.length > config.maxLength) {
+        throw new ModerationError(`Messages can be at most ${config.maxLength} characters`);
+    }
+
+    await assertChannelAccess(channelId, sender);
+    const messageRef = channelRef(channelId).collection('messages').doc(messageId);
+    const [existing, held] = await Promise.all([messageRef.get(), heldCollection().doc(messageId).get()]);
+    if (existing.exists || held.exists) throw new ModerationError('Message already sent', 409);
+
+    if (!sender.isAdmin) await recordSend(sender.uid, text, config);
+
+    const message: Omit<Message, 'id' | 'createdAt'> = {
+        text,
+        senderId: sender.uid,
+        senderName: sender.name,
+        ...(sender.photoURL ? { senderPhotoURL: sender.photoURL } : {}),
+        ...await loadReplyFields(channelId, input.replyToId),
+        ...(attachments.length > 0 ? { attachments } : {}),
+        ...(questionRef ? { questionRef } : {}),
+    };
+
+    const flags = sender.isAdmin ? [] : moderateMessage(text, attachments, config);
+    const batch = adminDb.batch();
+
+    if (flags.length === 0) {
+        // Same server time on both, unread counts compare them (see hooks/useChannelReads.ts)
+        batch.set(messageRef, { ...message, createdAt: FieldValue.serverTimestamp() });
+        batch.update(channelRef(channelId), { lastMessageAt: FieldValue.serverTimestamp() });
+        await batch.commit();
+        return { status: 'sent', messageId };
+    }
+
+    const reportRef = adminDb.collection('message_reports').doc();
+    const heldMessage: Omit<HeldMessage, 'id'> = { channelId, message, flags, reportId: reportRef.id, createdAt: Date.now() };
+    batch.set(heldCollection().doc(messageId), heldMessage);
+    batch.set(reportRef, {
+        messageId,
+        channelId,
+        messageContent: text,
+        messageAttachments: attachments,
+        reportedBy: 'system',
+        reportedUser: sender.uid,
+        reason: 'Held by moderation',
+        details: describeFlags(flags),
+        held: true, // Approve or discard from the reports page, the message isn't posted yet
+        status: 'pending',
+        createdAt: FieldValue.serverTimestamp(),
+    });
+    await batch.commit();
+    return { status: 'held', messageId };
+}
+
+/**
+ * Saves a new text for the sender's own message. Edits are never held,
+ * one that fails moderation is refused and the message keeps its old text.
+ */
+export async function editModeratedMessage(channelId: string, messageId: string, text: string, sender: MessageSender): Promise<void> {
+    const trimmed = text.trim();
+    if (!trimmed) throw new ModerationError('Message is empty');
+
+    const config = await getModerationConfig();
+    if (trimmed.length > config.maxLength) {
+        throw new ModerationError(`Messages can be at most ${config.maxLength} characters`);
+    }
+
+    await assertChannelAccess(channelId, sender);
+    const messageRef = channelRef(channelId).collection('messages').doc(messageId);
+    const snap = await messageRef.get();
+    if (!snap.exists) throw new ModerationError('Message not found', 404);
+    if (snap.data()?.senderId !== sender.uid) throw new ModerationError('You can only edit your own messages', 403);
+
+    if (!sender.isAdmin && moderateText(trimmed, config).length > 0) {
+        throw new ModerationError('This edit breaks the community guidelines and was not saved.', 422);
+    }
+
+    await messageRef.update({ text: trimmed, editedAt: FieldValue.serverTimestamp() });
+}
+
+async function loadHeld(messageId: string): Promise<HeldMessage> {
+    const snap = await heldCollection().doc(messageId).get();
+    if (!snap.exists) throw new ModerationError('Held message not found, it may have been reviewed already', 404);
+    return { id: snap.id, ...snap.data() } as HeldMessage;
+}
+
+// Posts a held message as it was sent, timestamped now so it shows up as new
+export async function approveHeldMessage(messageId: string, reviewedBy: string): Promise<void> {
+    const held = await loadHeld(messageId);
+    const channelSnap = await channelRef(held.channelId).get();
+    if (!channelSnap.exists) throw new ModerationError('The channel no longer exists', 409);
+
+    const batch = adminDb.batch();
+    batch.set(channelRef(held.channelId).collection('messages').doc(messageId), { ...held.message, createdAt: FieldValue.serverTimestamp() });
+    batch.update(channelRef(held.channelId), { lastMessageAt: FieldValue.serverTimestamp() });
+    batch.delete(heldCollection().doc(messageId));
+    batch.update(adminDb.collection('message_reports').doc(held.reportId), { status: 'resolved', held: false, resolution: 'approved', reviewedBy });
+    await batch.commit();
+}
+
+// Drops a held message. Returns its attachments, the caller removes them from storage.
+export async function discardHeldMessage(messageId: string, reviewedBy: string): Promise<ChatAttachment[]> {
+    const held = await loadHeld(messageId);
+
+    const batch = adminDb.batch();
+    batch.delete(heldCollection().doc(messageId));
+    batch.update(adminDb.collection('message_reports').doc(held.reportId), { status: 'resolved', held: false, resolution: 'discarded', reviewedBy });
+    await batch.commit();
+    return held.message.attachments || [];
+}
@@ -0,0 +1,48 @@
+import { auth } from '@/lib/firebase';
+import { ChatAttachment, ModerationConfig, ModerationFlag } from '@/lib/types';
+import { deleteChatAttachments } from '@/lib/chatAttachments';
+
+async function postModeration<T>(body: object): Promise<T> {
+    const user = auth.currentUser;
+    if (!user) throw new Error('Sign in as an admin to moderate');
+
+    const token = await user.getIdToken();
+    const response = await fetch('/api/admin/moderation', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(body),
+    });
+    const result = await response.json();
+
+    if (!response.ok) throw new Error(result.error || 'Request failed');
+    return result as T;
+}
+
+export async function fetchModerationConfig(): Promise<ModerationConfig> {
+    const result = await postModeration<{ config: ModerationConfig }>({ action: 'getConfig' });
+    return result.config;
+}
+
+// Returns the config as stored, lists deduped and limits clamped
+export async function saveModerationConfig(config: ModerationConfig): Promise<ModerationConfig> {
+    const result = await postModeration<{ config: ModerationConfig }>({ action: 'saveConfig', config });
+    return result.config;
+}
+
+export async function testModeration(text: string): Promise<ModerationFlag[]> {
+    const result = await postModeration<{ flags: ModerationFlag[] }>({ action: 'test', text });
+    return result.flags;
+}
+
+export async function approveHeldMessage(messageId: string): Promise<void> {
+    await postModeration({ action: 'approve', messageId });
+}
+
+// The held message's files are only removed once the server has dropped it
+export async function discardHeldMessage(messageId: string): Promise<void> {
+    const result = await postModeration<{ attachments: ChatAttachment[] }>({ action: 'discard', messageId });
+    await deleteChatAttachments(result.attachments);
+}
@@ -0,0 +1,147 @@
+import { FieldPath, collection, doc, getDoc, getDocs, setDoc } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { QuestionProgress, SubjectMetadata, Unit } from "@/lib/types";
+import { deleteLocal, getLocal, getLocalKeys, setLocal } from "@/lib/localStore";
+
+// Downloads older than this are flagged as stale even if nothing changed
+export const OFFLINE_STALE_AFTER = 14 * 24 * 60 * 60 * 1000;
+
+const SUBJECT_PREFIX = 'offline:subject:';
+const QUEUE_KEY = 'offline:queue';
+
+export interface OfflineSubject {
+    subjectId: string;
+    metadata: SubjectMetadata;
+    units: Record<string, Unit>;
+    solutions: Record<string, string>;
+    downloadedAt: number;
+}
+
+export type OfflineSubjectStatus = 'none' | 'downloaded' | 'stale';
+
+// Writes made while offline, replayed in order once the browser reconnects.
+// A progress write only holds the questions changed offline, everything else is left as it is on the server.
+export type PendingWrite =
+    | { type: 'progress'; uid: string; subjectId: string; questions: { [questionId: string]: QuestionProgress }; queuedAt: number }
+    | { type: 'note'; uid: string; questionId: string; content: string; updatedAt: number; queuedAt: number };
+
+export const isOffline = () => typeof navigator !== 'undefined' && !navigator.onLine;
+
+export function getOfflineSubject(subjectId: string): Promise<OfflineSubject | undefined> {
+    return getLocal<OfflineSubject>(SUBJECT_PREFIX + subjectId);
+}
+
+export async function listOfflineSubjectIds(): Promise<string[]> {
+    const keys = await getLocalKeys(SUBJECT_PREFIX);
+    return keys.map(key => key.slice(SUBJECT_PREFIX.length));
+}
+
+export function removeOfflineSubject(subjectId: string): Promise<void> {
+    return deleteLocal(SUBJECT_PREFIX + subjectId);
+}
+
+// Stores the subject metadata, every unit doc and the solutions subcollection for offline use.
+export async function downloadSubject(subjectId: string): Promise<OfflineSubject> {
+    const metaSnap = await getDoc(doc(db, "subjects", subjectId));
+    if (!metaSnap.exists()) throw new Error("Subject not found");
+    const metadata = { id: metaSnap.id, ...metaSnap.data() } as SubjectMetadata;
+
+    const [unitSnaps, solutionSnap] = await Promise.all([
+        Promise.all(metadata.units.map(u => getDoc(doc(db, "subjects", subjectId, "units", u.id)))),
+        getDocs(collection(db, "subjects", subjectId, "solutions")),
+    ]);
+
+    const units: Record<string, Unit> = {};
+    unitSnaps.forEach((snap, i) => {
+        if (snap.exists()) units[metadata.units[i].id] = snap.data() as Unit;
+    });
+
+    const solutions: Record<string, string> = {};
+    solutionSnap.forEach(s => {
+        solutions[s.id] = s.data().text || '';
+    });
+
+    const offlineSubject: OfflineSubject = { subjectId, metadata, units, solutions, downloadedAt: Date.now() };
+    await setLocal(SUBJECT_PREFIX + subjectId, offlineSubject);
+    return offlineSubject;
+}
+
+/**
+ * Compares a downloaded copy against the latest metadata.
+ * Any change in unit or question counts means the content was edited since the download.
+ */
+export function getOfflineStatus(offline: OfflineSubject | undefined, latest?: Pick<SubjectMetadata, 'units' | 'questionCount'> | null): OfflineSubjectStatus {
+    if (!offline) return 'none';
+    if (Date.now() - offline.downloadedAt > OFFLINE_STALE_AFTER) return 'stale';
+    if (!latest) return 'downloaded';
+
+    const downloadedCounts = offline.metadata.units.map(u => `${u.id}:${u.questionCount}`).join('|');
+    const latestCounts = (latest.units || []).map(u => `${u.id}:${u.questionCount}`).join('|');
+    if (downloadedCounts !== latestCounts || offline.metadata.questionCount !== latest.questionCount) return 'stale';
+
+    return 'downloaded';
+}
+
+export async function getPendingWrites(): Promise<PendingWrite[]> {
+    return (await getLocal<PendingWrite[]>(QUEUE_KEY)) || [];
+}
+
+export async function enqueueWrite(write: PendingWrite): Promise<void> {
+    const queue = await getPendingWrites();
+    // One progress write per subject collects every question changed offline, only the latest note per question matters
+    let next = write;
+    const remaining = queue.filter(existing => {
+        if (existing.uid !== write.uid || existing.type !== write.type) return true;
+        if (next.type === 'progress' && existing.type === 'progress' && existing.subjectId === next.subjectId) {
+            next = { ...next, questions: { ...existing.questions, ...next.questions } };
+            return false;
+        }
+        if (write.type === 'note' && existing.type === 'note') return existing.questionId !== write.questionId;
+        return true;
+    });
+    await setLocal(QUEUE_KEY, [...remaining, next]);
+}
+
+// Replaces only the given questions' entries, progress saved from another device for other questions is kept
+export function setProgressEntries(uid: string, subjectId: string, questions: { [questionId: string]: QuestionProgress }): Promise<void> {
+    const fields = Object.keys(questions).map(questionId => new FieldPath("questions", questionId));
+    return setDoc(doc(db, "users", uid, "progress", subjectId), { questions }, { mergeFields: fields });
+}
+
+export async function getPendingNote(uid: string, questionId: string): Promise<string | undefined> {
+    const queue = await getPendingWrites();
+    const pending = queue.find(w => w.type === 'note' && w.uid === uid && w.questionId === questionId);
+    return pending?.type === 'note' ? pending.content : undefined;
+}
+
+/**
+ * Replays queued writes. Writes that fail stay in the queue for the next attempt.
+ * Returns the number of writes that were synced.
+ */
+export async function flushPendingWrites(uid: string): Promise<number> {
+    const queue = await getPendingWrites();
+    const failed: PendingWrite[] = [];
+    let synced = 0;
+
+    for (const write of queue) {
+        // Writes queued by another account on this device wait for that account
+        if (write.uid !== uid) {
+            failed.push(write);
+            continue;
+        }
+        try {
+            if (write.type === 'progress') {
+                await setProgressEntries(uid, write.subjectId, write.questions);
+            } else {
+                await setDoc(doc(db, "users", uid, "notes", write.questionId), { content: write.content, questionId: write.questionId, updatedAt: write.updatedAt });
+            }
+            synced++;
+        } catch (error) {
+            console.error("Error syncing offline write:", error);
+            failed.push(write);
+        }
+    }
+
+    await setLocal(QUEUE_KEY, failed);
+    return synced;
+}
@@ -0,0 +1,84 @@
+import { adminDb } from '@/lib/firebase-admin';
+import { razorpay } from '@/lib/razorpay';
+import { Order, OrderStatus } from '@/lib/types';
+
+type StatusSource = Order['statusHistory'][number]['source'];
+
+// created → paid → enrolled, with failed / refunded as side exits. A failed attempt can still be paid on retry.
+const ALLOWED_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    created: ['paid', 'failed'],
+    failed: ['paid', 'failed'],
+    paid: ['enrolled', 'refunded'],
+    enrolled: ['refunded'],
+    refunded: [],
+};
+
+const ordersCollection = () => adminDb.collection('orders');
+
+// Orders that must not enroll anyone, whatever payment is presented for them
+export const isClosedOrder = (order: Pick<Order, 'status'>) => order.status === 'refunded' || order.status === 'failed';
+
+export async function createOrderRecord(order: Omit<Order, 'status' | 'createdAt' | 'updatedAt' | 'statusHistory'>): Promise<void> {
+    const now = Date.now();
+    const record: Order = {
+        ...order,
+        status: 'created',
+        createdAt: now,
+        updatedAt: now,
+        statusHistory: [{ status: 'created', at: now, source: 'create-order' }],
+    };
+    await ordersCollection().doc(order.id).set(record);
+}
+
+export async function getOrderRecord(orderId: string): Promise<Order | null> {
+    const snap = await ordersCollection().doc(orderId).get();
+    return snap.exists ? ({ id: snap.id, ...snap.data() } as Order) : null;
+}
+
+/**
+ * Buyer and courses of a Razorpay order. The ledger knows them; orders without a ledger entry
+ * (created before it existed, or when writing it failed) carry them in the notes create-order set.
+ * Pass the notes when the caller already has them, e.g. from a webhook payload.
+ */
+export async function resolveOrder(orderId: string, notes?: Record<string, string | number>) {
+    const order = await getOrderRecord(orderId);
+    if (order) return { userId: order.userId, courseIds: order.courseIds, order };
+
+    const orderNotes = notes ?? (await razorpay.orders.fetch(orderId)).notes;
+    const courseIds = String(orderNotes?.courseIds || '').split(',').filter(Boolean);
+    const userId = orderNotes?.userId ? String(orderNotes.userId) : undefined;
+    return { userId, courseIds, order: null };
+}
+
+/**
+ * Moves an order along its lifecycle. Verify and the webhook race each other,
+ * so repeated or out-of-order transitions are ignored instead of throwing.
+ * Returns false when the order doesn't exist or the transition was not applied.
+ */
+export async function updateOrderStatus(
+    orderId: string,
+    status: OrderStatus,
+    source: StatusSource,
+    details: { paymentId?: string; failureReason?: string; note?: string } = {}
+): Promise<boolean> {
+    const orderRef = ordersCollection().doc(orderId);
+
+    return adminDb.runTransaction(async (transaction) => {
+        const snap = await transaction.get(orderRef);
+        if (!snap.exists) return false;
+
+        const order = snap.data() as Order;
+        if (!ALLOWED_TRANSITIONS[order.status].includes(status)) return false;
+
+        const now = Date.now();
+        const { note, ...fields } = details;
+        const definedFields = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+        transaction.update(orderRef, {
+            ...definedFields,
+            status,
+            updatedAt: now,
+            statusHistory: [...(order.statusHistory || []), { status, at: now, source, ...(note ? { note } : {}) }],
+        });
+        return true;
+    });
+}
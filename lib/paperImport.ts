@@ -0,0 +1,261 @@
+import { Question, Unit } from '@/lib/types';
+import { IncomingUnit } from '@/lib/importMerge';
+import { ImportIssue } from '@/lib/importSchema';
+import { normalizeForSearch } from '@/lib/searchIndex';
+
+// Past-paper import: plain text (pasted, or copied out of a PDF) is split into questions,
+// matched against the stored ones and turned into an update that JsonImportModal previews.
+// Everything runs offline, similarity is token overlap only.
+
+// Dice similarity at or above this counts as the same question
+export const MATCH_THRESHOLD = 0.75;
+// Below the match threshold but above this, the question is imported as new with a warning to review
+export const POSSIBLE_MATCH_THRESHOLD = 0.5;
+
+export interface PaperQuestion {
+    label: string; // e.g. "Q3(b)"
+    text: string;
+    marks: string; // Empty when the paper doesn't say
+}
+
+export type PaperMatchStatus = 'matched' | 'new' | 'already-recorded';
+
+export interface PaperMatch {
+    question: PaperQuestion;
+    status: PaperMatchStatus;
+    questionId: string;
+    unitId: string;
+    matchedText?: string;
+    score: number; // Similarity with the closest stored question, 0-1
+}
+
+export interface PaperImportResult {
+    units: IncomingUnit[]; // Every stored unit plus new questions, ready for mergeSubjectUnits
+    matches: PaperMatch[];
+    warnings: ImportIssue[];
+}
+
+// Words that say how to answer rather than what the question is about
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'of', 'and', 'or', 'in', 'on', 'for', 'to', 'with', 'by', 'is', 'are', 'be', 'its', 'it', 'as', 'at', 'from',
+    'this', 'that', 'these', 'those', 'what', 'which', 'how', 'why', 'when', 'where', 'who', 'do', 'does', 'can', 'any', 'their',
+    'explain', 'define', 'describe', 'discuss', 'write', 'state', 'give', 'list', 'draw', 'short', 'note', 'notes', 'brief', 'briefly',
+    'detail', 'details', 'neat', 'diagram', 'suitable', 'example', 'examples', 'between', 'differentiate', 'distinguish', 'compare',
+    'mention', 'enlist', 'elaborate', 'illustrate', 'various', 'different', 'following', 'also', 'about', 'meant', 'mean', 'significance',
+]);
+
+// Instruction lines found on paper covers, never questions
+const NOISE_LINE = /^(page\s*\d+(\s*of\s*\d+)?|p\.?\s*t\.?\s*o\.?|seat\s*no.*|\[?\s*total\s+no\.?.*|time\s*:.*|max(imum)?\.?\s*marks.*|notes?\s*[:-].*|instructions?\s*[:-].*|or|section\s*[-–]?\s*[a-z0-9]+)$/i;
+const INSTRUCTION = /(all questions|questions carry|are compulsory|neat diagrams? (wherever|where)|assume suitable|figures to the right|answer any|use of (non[- ]programmable|calculator)|illustrate your answer)/i;
+
+const MAIN_MARKER = /^(?:q(?:ue(?:stion|s))?\.?\s*(?:no\.?\s*)?)?(\d{1,2})\s*[.):-]?(?:\s+(.*))?$/i;
+const QUESTION_PREFIX = /^q(?:ue(?:stion|s))?\.?\s*(?:no\.?\s*)?\d/i;
+const SUB_MARKER = /^\(?([a-h]|i{1,3}|iv|vi{0,3}|ix|x)\)\s*(.*)$|^([a-h])\.\s+(.*)$/i;
+// Marks at the end of a question: "[6]", "(6 marks)", "6M", or a bare number after punctuation or a wide gap
+const MARKS = /\s*(?:[[(]\s*(\d{1,2})\s*(?:marks?|m)?\s*[\])]|(\d{1,2})\s*marks?|(\d{1,2})\s*m|\s{2,}(\d{1,2}))\s*$/i;
+const TRAILING_MARKS = /([?.:)])\s*(\d{1,2})\s*$/;
+
+function tokenize(text: string): string[] {
+    return normalizeForSearch(text)
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+        .map(token => token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token);
+}
+
+export const questionTokens = (text: string) => new Set(tokenize(text));
+
+// Dice coefficient over distinct tokens
+export function tokenSimilarity(left: Set<string>, right: Set<string>): number {
+    if (left.size === 0 || right.size === 0) return 0;
+    let shared = 0;
+    left.forEach(token => { if (right.has(token)) shared++; });
+    return (2 * shared) / (left.size + right.size);
+}
+
+export function questionSimilarity(a: string, b: string): number {
+    const left = questionTokens(a);
+    const right = questionTokens(b);
+    if (left.size === 0 || right.size === 0) return normalizeForSearch(a) === normalizeForSearch(b) ? 1 : 0;
+    return tokenSimilarity(left, right);
+}
+
+function splitMarks(text: string): { text: string; marks: string } {
+    const match = text.match(MARKS);
+    if (match) return { text: text.slice(0, match.index).trim(), marks: match.slice(1).find(Boolean) || '' };
+    const trailing = text.match(TRAILING_MARKS);
+    if (trailing) return { text: text.slice(0, trailing.index! + 1).trim(), marks: trailing[2] };
+    return { text: text.trim(), marks: '' };
+}
+
+/**
+ * Splits the text of one exam paper into questions. Sub-parts like "(a)" become separate questions,
+ * the way stored questions are split. Cover text, instructions and "OR" lines are dropped.
+ */
+export function parsePaperText(raw: string): PaperQuestion[] {
+    const lines = raw
+        .replace(/\r\n?/g, '\n')
+        .replace(/(\w)-\n\s*(\w)/g, '$1$2') // Words hyphenated across PDF lines
+        .split('\n')
+        .map(line => line.replace(/\s+$/, '').replace(/^\s+/, ''))
+        .filter(line => line && !NOISE_LINE.test(line.trim()) && !INSTRUCTION.test(line));
+
+    const questions: { label: string; lines: string[] }[] = [];
+    let main: string | null = null;
+    let current: { label: string; lines: string[] } | null = null;
+
+    lines.forEach(line => {
+        // Marks on a line of their own, as PDF text often has them
+        if (/^[[(]?\d{1,2}[\])]?$/.test(line)) {
+            if (current && !splitMarks(current.lines.join(' ')).marks) current.lines.push(`[${line.replace(/\D/g, '')}]`);
+            return;
+        }
+
+        const mainMatch = line.match(MAIN_MARKER);
+        // "Q3" always starts a question, "3." only when it follows the previous number (not a list inside a question)
+        const number = mainMatch ? parseInt(mainMatch[1]) : 0;
+        const isMain = mainMatch && (QUESTION_PREFIX.test(line)
+            || (/^\d{1,2}\s*[.)]/.test(line) && (main === null || (number > parseInt(main) && number <= parseInt(main) + 2))));
+        if (mainMatch && isMain) {
+            main = mainMatch[1];
+            current = null;
+            const rest = mainMatch[2] || '';
+            const subMatch = rest.match(SUB_MARKER);
+            if (subMatch) {
+                current = { label: `Q${main}(${(subMatch[1] || subMatch[3]).toLowerCase()})`, lines: [subMatch[2] ?? subMatch[4]] };
+            } else {
+                current = { label: `Q${main}`, lines: [rest] };
+            }
+            questions.push(current);
+            return;
+        }
+        if (main === null) return; // Still on the cover page
+
+        const subMatch = line.match(SUB_MARKER);
+        if (subMatch) {
+            // A main question with only lead-in text ("Attempt any two:") is replaced by its parts
+            const last = questions[questions.length - 1];
+            if (last && last.label === `Q${main}` && splitMarks(last.lines.join(' ')).text.split(/\s+/).length < 6) questions.pop();
+            current = { label: `Q${main}(${(subMatch[1] || subMatch[3]).toLowerCase()})`, lines: [subMatch[2] ?? subMatch[4]] };
+            questions.push(current);
+            return;
+        }
+        current?.lines.push(line);
+    });
+
+    return questions
+        .map(q => {
+            const { text, marks } = splitMarks(q.lines.join(' '));
+            return { label: q.label, text: text.replace(/\s+/g, ' '), marks };
+        })
+        .filter(q => tokenize(q.text).length > 0);
+}
+
+// Which unit a new question belongs to, by overlap with each unit's title and syllabus topics
+function scoreUnits(units: Unit[]): (text: string) => Unit | null {
+    const unitTokens = units.map(unit => new Set(tokenize([unit.title, ...(unit.topics || [])].join(' '))));
+    // Tokens that appear in many units say little about which one a question is from
+    const documentFrequency = new Map<string, number>();
+    unitTokens.forEach(tokens => tokens.forEach(token => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1)));
+
+    return (text: string) => {
+        const tokens = new Set(tokenize(text));
+        let best = -1;
+        let bestScore = 0;
+        unitTokens.forEach((candidate, i) => {
+            let score = 0;
+            tokens.forEach(token => { if (candidate.has(token)) score += 1 / documentFrequency.get(token)!; });
+            if (score > bestScore) {
+                best = i;
+                bestScore = score;
+            }
+        });
+        return best >= 0 ? units[best] : null;
+    };
+}
+
+/**
+ * Turns one paper into an update of the stored units. Questions that match a stored one get
+ * frequency + 1 and a history entry for the session (once per session, so re-importing a paper is harmless).
+ * The rest are added to the unit whose topics fit best, or to an "Unsorted" unit.
+ */
+export function buildPaperImport(existingUnits: Unit[], session: string, text: string): PaperImportResult {
+    const year = session.trim();
+    const paperQuestions = parsePaperText(text);
+    const warnings: ImportIssue[] = [];
+    const matches: PaperMatch[] = [];
+
+    const units: IncomingUnit[] = existingUnits.map(unit => ({ ...unit, questions: unit.questions.map(q => ({ ...q })) }));
+    const stored = units.flatMap(unit => unit.questions.map(question => ({ question, unitId: unit.id })));
+    const pickUnit = scoreUnits(existingUnits);
+    const updatedIds = new Set<string>();
+    let unsorted: IncomingUnit | null = null;
+
+    paperQuestions.forEach(paperQuestion => {
+        let bestIndex = -1;
+        let bestScore = 0;
+        stored.forEach((entry, i) => {
+            const score = questionSimilarity(paperQuestion.text, entry.question.text);
+            if (score > bestScore) {
+                bestIndex = i;
+                bestScore = score;
+            }
+        });
+        const closest = bestIndex >= 0 ? stored[bestIndex] : null;
+
+        if (closest && bestScore >= MATCH_THRESHOLD) {
+            const question = closest.question;
+            const recorded = (question.history || []).some(h => h.year.trim().toLowerCase() === year.toLowerCase());
+            if (recorded || updatedIds.has(question.id)) {
+                warnings.push({ path: paperQuestion.label, message: `Already recorded for ${year}: "${question.text}"` });
+            } else {
+                question.frequency = (question.frequency || 0) + 1;
+                question.history = [...(question.history || []), { year, marks: paperQuestion.marks }];
+                updatedIds.add(question.id);
+            }
+            matches.push({
+                question: paperQuestion,
+                status: recorded ? 'already-recorded' : 'matched',
+                questionId: question.id,
+                unitId: closest.unitId,
+                matchedText: question.text,
+                score: bestScore,
+            });
+            return;
+        }
+
+        let unit = units.find(u => u.id === pickUnit(paperQuestion.text)?.id) || null;
+        if (!unit) {
+            if (!unsorted) {
+                unsorted = { id: crypto.randomUUID(), title: 'Unsorted', topics: [], questions: [] };
+                units.push(unsorted);
+            }
+            unit = unsorted;
+            warnings.push({ path: paperQuestion.label, message: 'No unit topics match, added to "Unsorted"' });
+        }
+
+        const question: Question = {
+            id: crypto.randomUUID(),
+            text: paperQuestion.text,
+            frequency: 1,
+            isChecked: false,
+            hasDiagram: 0,
+            history: [{ year, marks: paperQuestion.marks }],
+        };
+        unit.questions.push(question);
+        // Later parts of the same paper can match it too (e.g. repeated under "OR")
+        stored.push({ question, unitId: unit.id });
+        updatedIds.add(question.id);
+
+        if (closest && bestScore >= POSSIBLE_MATCH_THRESHOLD) {
+            warnings.push({
+                path: paperQuestion.label,
+                message: `Added as new, but ${Math.round(bestScore * 100)}% similar to "${closest.question.text}"`,
+            });
+        }
+        matches.push({ question: paperQuestion, status: 'new', questionId: question.id, unitId: unit.id, score: bestScore });
+    });
+
+    paperQuestions.filter(q => !q.marks).forEach(q => warnings.push({ path: q.label, message: 'No marks found, history entry has empty marks' }));
+
+    return { units, matches, warnings };
+}
@@ -25,3 +25,34 @@ You MUST present the core differences in a Markdown Table.
 The table must have clear columns (e.g., Parameter | Concept A | Concept B).
 
 Do NOT write the differences as paragraphs. Use the table.`;
+
+const COMPARISON_PATTERN = /\b(compare|comparison|differentiate|difference|differences|distinguish|contrast|vs|versus)\b/i;
+
+// Questions that should be answered with a comparison table
+export function isComparisonQuestion(text: string): boolean {
+    return !!text && COMPARISON_PATTERN.test(text);
+}
+
+// Answer length from the marks the question was asked for in past exams
+export function getDepthInstruction(history: { year: string; marks: string }[] | undefined): string {
+    const marks = (history || []).map(item => parseInt(item.marks)).filter(value => !isNaN(value));
+    if (marks.length === 0) return "Provide a comprehensive answer (approx. 2-3 pages).";
+
+    const avg = marks.reduce((sum, value) => sum + value, 0) / marks.length;
+    if (avg < 5) return "Provide a concise answer (3-4 marks).";
+    if (avg > 10) return "Provide an extensive, in-depth answer (13 marks).";
+    return "Provide a comprehensive answer (approx. 2-3 pages).";
+}
+
+// System and user message for generating one solution through an API provider
+export function buildSolutionPrompt(question: { text: string; history?: { year: string; marks: string }[] }, context: { subjectTitle: string; unitTitle: string }): { system: string; user: string } {
+    const system = isComparisonQuestion(question.text)
+        ? `${PROFESSOR_BASE_SYSTEM_PROMPT}\n\n${COMPARISON_OVERRIDE_TEXT}`
+        : PROFESSOR_BASE_SYSTEM_PROMPT;
+
+    let user = `**Subject Unit:** ${context.unitTitle} - ${context.subjectTitle}\n`;
+    user += `**Target Depth:** ${getDepthInstruction(question.history)}\n\n`;
+    user += `**QUESTION:**\n${question.text.trim()}`;
+
+    return { system, user };
+}
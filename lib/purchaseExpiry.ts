@@ -0,0 +1,29 @@
+import { UserProfile } from "@/lib/types";
+
+type PurchaseRecord = NonNullable<UserProfile['purchases']>[string];
+
+// Matches the "Expiring in N days" badge on the dashboard
+export const EXPIRY_WARNING_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getDaysRemaining(purchase: Pick<PurchaseRecord, 'expiryDate'>, now = Date.now()): number {
+    return Math.ceil((purchase.expiryDate - now) / DAY_MS);
+}
+
+// Courses enrolled before purchase records existed have no expiry, same as checkAccess in AuthContext
+export function isPurchaseActive(purchase: PurchaseRecord | undefined, now = Date.now()): boolean {
+    return !purchase || purchase.expiryDate > now;
+}
+
+export function needsRenewal(purchase: PurchaseRecord | undefined, now = Date.now()): boolean {
+    return !!purchase && getDaysRemaining(purchase, now) <= EXPIRY_WARNING_DAYS;
+}
+
+/**
+ * Renewing an active purchase stacks the new period on top of the remaining one.
+ * Expired or refunded purchases start again from now.
+ */
+export function getRenewalStart(purchase: PurchaseRecord | undefined, now = Date.now()): number {
+    if (!purchase || purchase.refundedAt || purchase.expiryDate <= now) return now;
+    return purchase.expiryDate;
+}
@@ -1,4 +1,5 @@
 import Razorpay from 'razorpay';
+import crypto from 'crypto';
 
 const keyId = process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID;
 const keySecret = process.env.RAZORPAY_KEY_SECRET;
@@ -11,3 +12,32 @@ export const razorpay = new Razorpay({
     key_id: keyId || "test_key",
     key_secret: keySecret || "test_secret",
 });
+
+const signaturesMatch = (expected: string, received: string) => {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(received);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+// Signature returned to the browser by Checkout: HMAC of "orderId|paymentId" with the key secret
+export function verifyPaymentSignature(orderId: string, paymentId: string, signature: string): boolean {
+    const expected = crypto
+        .createHmac('sha256', keySecret || '')
+        .update(`${orderId}|${paymentId}`)
+        .digest('hex');
+    return signaturesMatch(expected, signature);
+}
+
+// Signature sent with webhooks: HMAC of the raw request body with the webhook secret set in the Razorpay dashboard
+export function verifyWebhookSignature(rawBody: string, signature: string): boolean {
+    const webhookSecret = process.env.RAZORPAY_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+        console.warn("RAZORPAY_WEBHOOK_SECRET is missing. Webhooks will be rejected.");
+        return false;
+    }
+    const expected = crypto
+        .createHmac('sha256', webhookSecret)
+        .update(rawBody)
+        .digest('hex');
+    return signaturesMatch(expected, signature);
+}
@@ -0,0 +1,26 @@
+import { Question } from "@/lib/types";
+
+// Pure snapshot helpers, shared by the client history (lib/contentHistory.ts) and Admin SDK routes
+
+const TRACKED_FIELDS: (keyof Question)[] = [
+    'text',
+    'solution',
+    'frequency',
+    'history',
+    'images',
+    'questionImageUrl',
+    'solutionImageUrl',
+    'hasDiagram',
+    'hasSolution',
+    'video',
+];
+
+// Plain copy of a question with its (lazily loaded) solution text, without undefined values Firestore rejects
+export function snapshotQuestion(question: Question, solution?: string): Question {
+    const text = solution ?? question.solution;
+    return JSON.parse(JSON.stringify({ ...question, ...(text !== undefined ? { solution: text } : {}) }));
+}
+
+export function getChangedFields(before: Question, after: Question): string[] {
+    return TRACKED_FIELDS.filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null));
+}
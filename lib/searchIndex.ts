@@ -0,0 +1,137 @@
+import { Unit } from "@/lib/types";
+
+// Bump when the stored index shape changes so old caches are rebuilt
+export const SEARCH_INDEX_VERSION = 2;
+// Units whose question count changed are re-indexed on every visit. Edits that keep the count
+// (reworded questions, new solutions) only show up once the whole index expires.
+export const SEARCH_INDEX_TTL = 7 * 24 * 60 * 60 * 1000;
+// Long solutions only need their first part indexed, keeps the IndexedDB cache small
+const MAX_SOLUTION_CHARS = 4000;
+const SNIPPET_RADIUS = 70;
+
+export interface SearchDocument {
+    subjectId: string;
+    subjectTitle: string;
+    unitId: string;
+    unitTitle: string;
+    questionId: string;
+    frequency: number;
+    questionText: string; // Normalized
+    topicsText: string;   // Normalized
+}
+
+export interface SubjectSearchIndex {
+    version: number;
+    subjectId: string;
+    subjectTitle: string;
+    // Question count per unit at indexing time, a mismatch means the unit must be re-indexed
+    unitSignatures: Record<string, number>;
+    documents: SearchDocument[];
+    solutions: Record<string, string>; // questionId -> normalized solution text
+    indexedAt: number; // Last full rebuild, units and solutions alike
+}
+
+export type SearchMatchField = 'question' | 'topic' | 'solution';
+
+export interface SearchResult {
+    document: SearchDocument;
+    matchedIn: SearchMatchField;
+    snippet: string;
+    score: number;
+}
+
+// Strips Markdown/LaTeX syntax so that "Gantt chart" matches "**Gantt** $chart$"
+export function normalizeForSearch(text: string): string {
+    return (text || '')
+        .replace(/```[a-z]*\n?/gi, ' ')
+        .replace(/\/&/g, ' ')
+        .replace(/\\[a-zA-Z]+/g, ' ')
+        .replace(/[@`*_#>$\\{}[\]()|~^=+:;"'.,!?<]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toLowerCase();
+}
+
+export function tokenizeQuery(query: string): string[] {
+    return normalizeForSearch(query).split(' ').filter(token => token.length > 1);
+}
+
+export function buildUnitDocuments(subjectId: string, subjectTitle: string, unitId: string, unit: Unit): SearchDocument[] {
+    const topicsText = normalizeForSearch((unit.topics || []).join(' '));
+    return (unit.questions || []).map(question => ({
+        subjectId,
+        subjectTitle,
+        unitId,
+        unitTitle: unit.title,
+        questionId: question.id,
+        frequency: question.frequency || 0,
+        questionText: normalizeForSearch(question.text),
+        topicsText,
+    }));
+}
+
+export function normalizeSolution(text: string): string {
+    return normalizeForSearch(text).slice(0, MAX_SOLUTION_CHARS);
+}
+
+const makeSnippet = (text: string, token: string) => {
+    const index = text.indexOf(token);
+    if (index === -1) return text.slice(0, SNIPPET_RADIUS * 2);
+    const start = Math.max(0, index - SNIPPET_RADIUS);
+    const end = Math.min(text.length, index + token.length + SNIPPET_RADIUS);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Ranks documents that contain every query token in the question, its unit topics or its solution.
+ * Question text matches outrank topic matches, which outrank solution matches.
+ */
+export function searchIndexes(indexes: SubjectSearchIndex[], query: string, limit = 50): SearchResult[] {
+    const tokens = tokenizeQuery(query);
+    if (tokens.length === 0) return [];
+    const phrase = tokens.join(' ');
+
+    const results: SearchResult[] = [];
+
+    indexes.forEach(index => {
+        index.documents.forEach(document => {
+            const solution = index.solutions[document.questionId] || '';
+            let score = 0;
+            let bestField: SearchMatchField | null = null;
+
+            for (const token of tokens) {
+                if (document.questionText.includes(token)) {
+                    score += 3;
+                    bestField = 'question';
+                } else if (document.topicsText.includes(token)) {
+                    score += 2;
+                    if (bestField !== 'question') bestField = 'topic';
+                } else if (solution.includes(token)) {
+                    score += 1;
+                    if (!bestField) bestField = 'solution';
+                } else {
+                    return; // Every token has to match somewhere
+                }
+            }
+
+            if (tokens.length > 1) {
+                if (document.questionText.includes(phrase)) score += 5;
+                else if (solution.includes(phrase)) score += 2;
+            }
+
+            const field = bestField as SearchMatchField;
+            const source = field === 'solution' ? solution : field === 'topic' ? document.topicsText : document.questionText;
+            const firstToken = tokens.find(token => source.includes(token)) || tokens[0];
+
+            results.push({
+                document,
+                matchedIn: field,
+                snippet: makeSnippet(source, tokens.length > 1 && source.includes(phrase) ? phrase : firstToken),
+                // Frequently asked questions win ties
+                score: score + Math.min(document.frequency, 10) * 0.01,
+            });
+        });
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
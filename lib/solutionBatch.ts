@@ -0,0 +1,126 @@
+import { Question } from '@/lib/types';
+import { COMPARISON_OVERRIDE_TEXT, PROFESSOR_BASE_SYSTEM_PROMPT, getDepthInstruction, isComparisonQuestion } from '@/lib/prompts';
+
+export const DEFAULT_BATCH_SIZE = 10;
+
+export interface BatchQuestion {
+    question: Question;
+    unitId: string;
+    unitTitle: string;
+    isComparison: boolean;
+}
+
+export interface SolutionBatch {
+    index: number; // 1-based, used in file names
+    questions: BatchQuestion[];
+    prompt: string;
+}
+
+export interface ParsedAnswer {
+    questionId: string;
+    markdown: string;
+}
+
+export interface ParsedSolutionBatch {
+    answers: ParsedAnswer[];
+    unknownIds: string[]; // Markers for ids that are not in the workspace
+    duplicateIds: string[]; // Answered more than once, the last answer is kept
+}
+
+const questionMarker = (id: string) => `=== QUESTION: ${id} ===`;
+const solutionMarker = (id: string) => `=== SOLUTION: ${id} ===`;
+
+// Tolerates the Markdown models like to wrap around a marker line (#, **, backticks)
+const SOLUTION_MARKER = /^[ \t#>*_`]*={3,}[ \t]*SOLUTION[ \t]*:?[ \t]*([^\s=*`]+)[ \t]*={3,}[ \t*_`]*$/gim;
+
+export function toBatchQuestions(units: { id: string; title: string; questions: Question[] }[]): BatchQuestion[] {
+    return units.flatMap(unit => (unit.questions || []).map(question => ({
+        question,
+        unitId: unit.id,
+        unitTitle: unit.title,
+        isComparison: isComparisonQuestion(question.text),
+    })));
+}
+
+/**
+ * One prompt for a set of questions: the professor rules once, the comparison rule only when
+ * a question needs it, and a marker per answer so the reply can be matched back to question ids.
+ */
+export function buildBatchPrompt(subjectTitle: string, questions: BatchQuestion[]): string {
+    const hasComparison = questions.some(q => q.isComparison);
+
+    let prompt = PROFESSOR_BASE_SYSTEM_PROMPT + '\n\n';
+    prompt += `BATCH FORMAT: You will answer ${questions.length} question${questions.length === 1 ? '' : 's'}. `;
+    prompt += `Before each answer output its marker line exactly as shown, e.g. \`${solutionMarker(questions[0]?.question.id || 'id')}\`, then the solution. `;
+    prompt += 'Answer every question in the given order. Do not output anything before the first marker and do not wrap the reply in a code block.\n\n';
+
+    if (hasComparison) {
+        prompt += COMPARISON_OVERRIDE_TEXT + '\n\nThis rule applies only to the questions marked [COMPARISON].\n\n';
+    }
+
+    prompt += `**Subject:** ${subjectTitle}\n\n`;
+    questions.forEach(({ question, unitTitle, isComparison }) => {
+        prompt += `${questionMarker(question.id)}\n`;
+        prompt += `**Unit:** ${unitTitle}\n`;
+        prompt += `**Target Depth:** ${getDepthInstruction(question.history)}\n`;
+        if (isComparison) prompt += '[COMPARISON]\n';
+        prompt += `**QUESTION:**\n${question.text.trim()}\n\n`;
+    });
+
+    return prompt.trimEnd() + '\n';
+}
+
+export function buildSolutionBatches(subjectTitle: string, questions: BatchQuestion[], batchSize = DEFAULT_BATCH_SIZE): SolutionBatch[] {
+    const size = Math.max(1, Math.floor(batchSize));
+    const batches: SolutionBatch[] = [];
+    for (let i = 0; i < questions.length; i += size) {
+        const chunk = questions.slice(i, i + size);
+        batches.push({ index: batches.length + 1, questions: chunk, prompt: buildBatchPrompt(subjectTitle, chunk) });
+    }
+    return batches;
+}
+
+// Drops a ```markdown fence the model put around the whole answer
+const unwrapFence = (markdown: string) => {
+    const match = markdown.match(/^```(?:markdown|md)?[^\S\n]*\n([\s\S]*?)\n```$/i);
+    // An answer that merely starts and ends with code blocks has fences inside as well
+    if (match && !/^```/m.test(match[1])) return match[1].trim();
+    // The closing fence of a wrapped reply ends up on the last answer
+    const fences = markdown.match(/^```/gm)?.length || 0;
+    return (fences % 2 === 1 ? markdown.replace(/\n```\s*$/, '') : markdown).trim();
+};
+
+/**
+ * Splits a pasted reply (or several, concatenated) at the solution markers.
+ * Ids are matched case-sensitively against `expectedIds`.
+ */
+export function parseSolutionBatch(text: string, expectedIds: string[]): ParsedSolutionBatch {
+    const expected = new Set(expectedIds);
+    const normalized = unwrapFence(text.replace(/\r\n/g, '\n').trim());
+    const markers = [...normalized.matchAll(SOLUTION_MARKER)];
+
+    const answers = new Map<string, string>();
+    const unknownIds: string[] = [];
+    const duplicateIds: string[] = [];
+
+    markers.forEach((marker, i) => {
+        const id = marker[1];
+        const start = marker.index! + marker[0].length;
+        const end = i + 1 < markers.length ? markers[i + 1].index! : normalized.length;
+        const markdown = unwrapFence(normalized.slice(start, end).trim());
+
+        if (!expected.has(id)) {
+            if (!unknownIds.includes(id)) unknownIds.push(id);
+            return;
+        }
+        if (!markdown) return;
+        if (answers.has(id) && !duplicateIds.includes(id)) duplicateIds.push(id);
+        answers.set(id, markdown);
+    });
+
+    return {
+        answers: [...answers.entries()].map(([questionId, markdown]) => ({ questionId, markdown })),
+        unknownIds,
+        duplicateIds,
+    };
+}
@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FieldValue, Firestore } from 'firebase-admin/firestore';
+import { SolutionDraftService, createSolutionDraftService, getDraftId } from '@/lib/solutionDraftService';
+import { mockProvider } from '@/lib/solutionProviders';
+import { SolutionDraft, Unit } from '@/lib/types';
+
+type Data = Record<string, unknown>;
+
+interface MemoryDocRef {
+    id: string;
+    path: string;
+}
+
+// Just enough of the Admin SDK for the service: documents, equality and `in` filters, counts, batches and transactions
+function createMemoryFirestore() {
+    const docs = new Map<string, Data>();
+    let autoId = 0;
+
+    const applySet = (path: string, data: Data, options?: { merge?: boolean }) => {
+        docs.set(path, options?.merge ? { ...docs.get(path), ...data } : { ...data });
+    };
+    const applyUpdate = (path: string, fields: Data) => {
+        const current = docs.get(path);
+        if (!current) throw new Error(`No document to update at ${path}`);
+        const next = { ...current };
+        for (const [field, value] of Object.entries(fields)) {
+            if (value instanceof FieldValue && value.isEqual(FieldValue.delete())) delete next[field];
+            else next[field] = value;
+        }
+        docs.set(path, next);
+    };
+
+    const snapshot = (ref: MemoryDocRef) => ({
+        id: ref.id,
+        ref,
+        exists: docs.has(ref.path),
+        data: () => (docs.has(ref.path) ? structuredClone(docs.get(ref.path)) : undefined),
+    });
+
+    const docRef = (path: string) => ({
+        id: path.split('/').pop()!,
+        path,
+        collection: (name: string) => collectionRef(`${path}/${name}`),
+        get: async () => snapshot(docRef(path)),
+        set: async (data: Data, options?: { merge?: boolean }) => applySet(path, data, options),
+        update: async (fields: Data) => applyUpdate(path, fields),
+    });
+
+    const query = (path: string, filters: ((data: Data) => boolean)[]) => {
+        const matching = () => Array.from(docs.keys())
+            .filter(key => key.startsWith(`${path}/`) && !key.slice(path.length + 1).includes('/'))
+            .map(key => snapshot(docRef(key)))
+            .filter(snap => filters.every(filter => filter(snap.data()!)));
+        return {
+            where: (field: string, op: '==' | 'in', value: unknown) => query(path, [
+                ...filters,
+                data => (op === 'in' ? (value as unknown[]).includes(data[field]) : data[field] === value),
+            ]),
+            get: async () => ({ docs: matching() }),
+            count: () => ({ get: async () => ({ data: () => ({ count: matching().length }) }) }),
+        };
+    };
+
+    const collectionRef = (path: string) => ({
+        ...query(path, []),
+        doc: (id = `auto${++autoId}`) => docRef(`${path}/${id}`),
+    });
+
+    // Batches and transactions apply their writes once they commit
+    const writes = () => {
+        const pending: (() => void)[] = [];
+        return {
+            pending,
+            set: (ref: MemoryDocRef, data: Data, options?: { merge?: boolean }) => { pending.push(() => applySet(ref.path, data, options)); },
+            update: (ref: MemoryDocRef, fields: Data) => { pending.push(() => applyUpdate(ref.path, fields)); },
+        };
+    };
+
+    const db = {
+        collection: (name: string) => collectionRef(name),
+        getAll: async (...refs: MemoryDocRef[]) => refs.map(snapshot),
+        batch: () => {
+            const batch = writes();
+            return { set: batch.set, update: batch.update, commit: async () => batch.pending.forEach(apply => apply()) };
+        },
+        runTransaction: async <T>(run: (transaction: object) => Promise<T>) => {
+            const transaction = writes();
+            const result = await run({ get: async (ref: MemoryDocRef) => snapshot(ref), set: transaction.set, update: transaction.update });
+            transaction.pending.forEach(apply => apply());
+            return result;
+        },
+    };
+
+    return { db: db as unknown as Firestore, docs };
+}
+
+const unit = (questionIds: string[]): Unit => ({
+    id: 'u1',
+    title: 'Unit 1',
+    questions: questionIds.map(id => ({ id, text: `Explain concept ${id}`, frequency: 1, isChecked: false })),
+});
+
+const reviewer = { uid: 'admin-1', email: 'admin@example.com' };
+
+describe('solution draft service', () => {
+    let docs: Map<string, Data>;
+    let service: SolutionDraftService;
+
+    const draft = (questionId: string) => docs.get(`solution_drafts/${getDraftId('s1', questionId)}`) as SolutionDraft | undefined;
+    const historyCount = () => Array.from(docs.keys()).filter(key => key.startsWith('subjects/s1/history/')).length;
+
+    beforeEach(() => {
+        const store = createMemoryFirestore();
+        docs = store.docs;
+        docs.set('subjects_metadata/s1', { title: 'Thermodynamics' });
+        docs.set('subjects/s1/units/u1', unit(['q1', 'q2', 'q3']));
+        service = createSolutionDraftService(store.db, mockProvider);
+    });
+
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('generates a queued job', async () => {
+        expect(await service.enqueueSolutionDrafts('s1', ['q1', 'missing'], 'admin-1')).toEqual({ queued: ['q1'], skipped: ['missing'] });
+
+        const result = await service.processSolutionQueue();
+        expect(result).toEqual({ processed: 1, generated: 1, failed: 0, remaining: 0, retryAfterMs: null });
+        expect(draft('q1')).toMatchObject({ status: 'draft', provider: 'mock', model: 'mock-v1', attempts: 1 });
+        expect(draft('q1')?.text).toContain('## Introduction');
+        expect(draft('q1')).not.toHaveProperty('error');
+    });
+
+    it('stops at the rate limit and gives back slots it did not use', async () => {
+        vi.stubEnv('SOLUTION_RATE_LIMIT_PER_MINUTE', '1');
+        await service.enqueueSolutionDrafts('s1', ['q1', 'q2', 'q3'], 'admin-1');
+        // q1 is deleted before its turn, its slot goes to q2
+        docs.set('subjects/s1/units/u1', unit(['q2', 'q3']));
+
+        const result = await service.processSolutionQueue();
+        expect(result).toMatchObject({ processed: 2, generated: 1, failed: 1, remaining: 1 });
+        expect(result.retryAfterMs).toBeGreaterThan(0);
+        expect(draft('q1')).toMatchObject({ status: 'failed', error: 'Question no longer exists' });
+        expect(draft('q2')?.status).toBe('draft');
+        expect(draft('q3')?.status).toBe('queued');
+        expect(docs.get('solution_generation/rate_limit')).toMatchObject({ count: 1 });
+    });
+
+    it('publishes approved drafts and leaves rejected ones unpublished', async () => {
+        await service.enqueueSolutionDrafts('s1', ['q1', 'q2'], 'admin-1');
+        await service.processSolutionQueue();
+
+        const approved = await service.approveSolutionDraft(getDraftId('s1', 'q1'), reviewer, 'Edited answer');
+        expect(approved).toMatchObject({ status: 'approved', text: 'Edited answer', reviewedBy: 'admin-1' });
+        expect(docs.get('subjects/s1/solutions/q1')).toEqual({ text: 'Edited answer' });
+        expect((docs.get('subjects/s1/units/u1') as Unit).questions.find(q => q.id === 'q1')?.hasSolution).toBe(true);
+        expect(historyCount()).toBe(1);
+
+        const rejected = await service.rejectSolutionDraft(getDraftId('s1', 'q2'), reviewer, 'Wrong formula');
+        expect(rejected).toMatchObject({ status: 'rejected', reviewNote: 'Wrong formula' });
+        expect(docs.has('subjects/s1/solutions/q2')).toBe(false);
+        expect((docs.get('subjects/s1/units/u1') as Unit).questions.find(q => q.id === 'q2')?.hasSolution).toBeUndefined();
+        expect(historyCount()).toBe(1);
+    });
+});
@@ -0,0 +1,312 @@
+import { FieldValue, Firestore } from 'firebase-admin/firestore';
+import { ContentRevision, Question, SolutionDraft, SolutionDraftStatus, SubjectMetadata, Unit } from '@/lib/types';
+import { buildSolutionPrompt } from '@/lib/prompts';
+import { SolutionProvider } from '@/lib/solutionProviders';
+import { getChangedFields, snapshotQuestion } from '@/lib/revisionSnapshot';
+
+const BATCH_LIMIT = 450;
+const RATE_WINDOW_MS = 60 * 1000;
+const MAX_ATTEMPTS = 3;
+// A job stuck in 'generating' this long belongs to a request that died, it can be claimed again
+const STALE_GENERATING_MS = 5 * 60 * 1000;
+const LIST_LIMIT = 200;
+
+// Provider calls per run, keeps one request well inside the function timeout
+export const MAX_JOBS_PER_RUN = 5;
+
+// Drafts waiting in these states are not queued a second time
+const ACTIVE_STATUSES: SolutionDraftStatus[] = ['queued', 'generating', 'draft'];
+
+export interface QueueRunResult {
+    processed: number; // Jobs claimed this run, including failed attempts that went back to the queue
+    generated: number;
+    failed: number;
+    remaining: number; // Jobs still queued after this run
+    retryAfterMs: number | null; // Set when the run stopped at the rate limit
+}
+
+export interface Reviewer {
+    uid: string;
+    email?: string | null;
+}
+
+export const getDraftId = (subjectId: string, questionId: string) => `${subjectId}__${questionId}`;
+
+const rateLimitPerMinute = () => Math.max(1, parseInt(process.env.SOLUTION_RATE_LIMIT_PER_MINUTE || '') || 5);
+
+const isClaimable = (draft: SolutionDraft, now: number) =>
+    draft.status === 'queued' || (draft.status === 'generating' && now - draft.updatedAt >= STALE_GENERATING_MS);
+
+/**
+ * The queue, generation and review of solution drafts on top of the given Firestore and provider.
+ * The API route passes the Admin SDK and the configured provider.
+ */
+export function createSolutionDraftService(db: Firestore, provider: SolutionProvider) {
+    const draftsCollection = () => db.collection('solution_drafts');
+    // Fixed one-minute window shared by every admin and every server instance
+    const rateLimitRef = () => db.collection('solution_generation').doc('rate_limit');
+
+    /**
+     * Queues generation for the given questions of a subject. Questions that no longer exist
+     * or already have a draft in progress or waiting for review are skipped.
+     */
+    async function enqueueSolutionDrafts(subjectId: string, questionIds: string[], requestedBy: string): Promise<{ queued: string[]; skipped: string[] }> {
+        const unitsSnap = await db.collection('subjects').doc(subjectId).collection('units').get();
+        const found = new Map<string, { question: Question; unitId: string }>();
+        unitsSnap.docs.forEach(d => (d.data() as Unit).questions?.forEach(question => found.set(question.id, { question, unitId: d.id })));
+
+        const ids = Array.from(new Set(questionIds)).filter(id => found.has(id));
+        const skipped = questionIds.filter(id => !found.has(id));
+        const queued: string[] = [];
+        if (ids.length === 0) return { queued, skipped };
+
+        const existing = await db.getAll(...ids.map(id => draftsCollection().doc(getDraftId(subjectId, id))));
+        const now = Date.now();
+        let batch = db.batch();
+        let pending = 0;
+
+        for (let i = 0; i < existing.length; i++) {
+            const snap = existing[i];
+            const questionId = ids[i];
+            if (snap.exists && ACTIVE_STATUSES.includes((snap.data() as SolutionDraft).status)) {
+                skipped.push(questionId);
+                continue;
+            }
+
+            const { question, unitId } = found.get(questionId)!;
+            const draft: Omit<SolutionDraft, 'id'> = {
+                subjectId,
+                unitId,
+                questionId,
+                questionText: question.text,
+                status: 'queued',
+                attempts: 0,
+                requestedBy,
+                createdAt: now,
+                updatedAt: now,
+            };
+            batch.set(snap.ref, draft);
+            queued.push(questionId);
+
+            if (++pending >= BATCH_LIMIT) {
+                await batch.commit();
+                batch = db.batch();
+                pending = 0;
+            }
+        }
+
+        if (pending > 0) await batch.commit();
+        return { queued, skipped };
+    }
+
+    // Takes one provider call from the current window. `wait` is 0 on success, otherwise the time until the window resets.
+    async function takeRateLimitSlot(): Promise<{ wait: number; windowStart: number }> {
+        const limit = rateLimitPerMinute();
+        return db.runTransaction(async transaction => {
+            const snap = await transaction.get(rateLimitRef());
+            const now = Date.now();
+            const { windowStart = 0, count = 0 } = (snap.data() || {}) as { windowStart?: number; count?: number };
+
+            if (now - windowStart >= RATE_WINDOW_MS) {
+                transaction.set(rateLimitRef(), { windowStart: now, count: 1 });
+                return { wait: 0, windowStart: now };
+            }
+            if (count >= limit) return { wait: windowStart + RATE_WINDOW_MS - now, windowStart };
+
+            transaction.update(rateLimitRef(), { count: count + 1 });
+            return { wait: 0, windowStart };
+        });
+    }
+
+    // Gives back a slot that wasn't used for a provider call, unless its window has already reset
+    async function releaseRateLimitSlot(windowStart: number): Promise<void> {
+        await db.runTransaction(async transaction => {
+            const snap = await transaction.get(rateLimitRef());
+            const data = (snap.data() || {}) as { windowStart?: number; count?: number };
+            if (data.windowStart !== windowStart || !data.count) return;
+            transaction.update(rateLimitRef(), { count: data.count - 1 });
+        });
+    }
+
+    // Moves a job to 'generating' unless another run got to it first
+    async function claimJob(draftId: string): Promise<SolutionDraft | null> {
+        const ref = draftsCollection().doc(draftId);
+        return db.runTransaction(async transaction => {
+            const snap = await transaction.get(ref);
+            if (!snap.exists) return null;
+            const draft = { ...snap.data(), id: snap.id } as SolutionDraft;
+            const now = Date.now();
+            if (!isClaimable(draft, now)) return null;
+
+            const claimed = { status: 'generating' as const, attempts: (draft.attempts || 0) + 1, updatedAt: now };
+            transaction.update(ref, claimed);
+            return { ...draft, ...claimed };
+        });
+    }
+
+    async function loadQuestionContext(draft: SolutionDraft, subjectTitles: Map<string, string>) {
+        const subjectRef = db.collection('subjects').doc(draft.subjectId);
+        const [unitSnap, metadataSnap] = await Promise.all([
+            subjectRef.collection('units').doc(draft.unitId).get(),
+            subjectTitles.has(draft.subjectId) ? null : db.collection('subjects_metadata').doc(draft.subjectId).get(),
+        ]);
+        if (metadataSnap) subjectTitles.set(draft.subjectId, (metadataSnap.data() as SubjectMetadata | undefined)?.title || draft.subjectId);
+
+        const unit = unitSnap.data() as Unit | undefined;
+        const question = unit?.questions?.find(q => q.id === draft.questionId);
+        if (!unit || !question) return null;
+        return { question, unitTitle: unit.title, subjectTitle: subjectTitles.get(draft.subjectId)! };
+    }
+
+    /**
+     * Works through the queue oldest first: takes a rate limit slot, claims the job and calls the provider.
+     * Stops after `maxJobs` provider calls or at the rate limit, whichever comes first.
+     * Failed calls go back to the queue until MAX_ATTEMPTS is reached.
+     */
+    async function processSolutionQueue(maxJobs = MAX_JOBS_PER_RUN): Promise<QueueRunResult> {
+        const snapshot = await draftsCollection().where('status', 'in', ['queued', 'generating']).get();
+        const now = Date.now();
+        const jobs = snapshot.docs
+            .map(d => ({ ...d.data(), id: d.id } as SolutionDraft))
+            .filter(draft => isClaimable(draft, now))
+            .sort((a, b) => a.createdAt - b.createdAt);
+
+        const subjectTitles = new Map<string, string>();
+        const result: QueueRunResult = { processed: 0, generated: 0, failed: 0, remaining: 0, retryAfterMs: null };
+
+        for (const job of jobs) {
+            if (result.processed >= maxJobs) break;
+
+            const slot = await takeRateLimitSlot();
+            if (slot.wait > 0) {
+                result.retryAfterMs = slot.wait;
+                break;
+            }
+
+            // Another run took the job, the slot goes back for the next one
+            const draft = await claimJob(job.id);
+            if (!draft) {
+                await releaseRateLimitSlot(slot.windowStart);
+                continue;
+            }
+            result.processed++;
+
+            const ref = draftsCollection().doc(draft.id);
+            try {
+                const context = await loadQuestionContext(draft, subjectTitles);
+                if (!context) {
+                    await releaseRateLimitSlot(slot.windowStart);
+                    await ref.update({ status: 'failed', error: 'Question no longer exists', updatedAt: Date.now() });
+                    result.failed++;
+                    continue;
+                }
+
+                const prompt = buildSolutionPrompt(context.question, context);
+                const text = await provider.generate({ ...prompt, questionText: context.question.text });
+                await ref.update({
+                    status: 'draft',
+                    text,
+                    provider: provider.name,
+                    model: provider.model,
+                    questionText: context.question.text,
+                    error: FieldValue.delete(),
+                    updatedAt: Date.now(),
+                });
+                result.generated++;
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`Solution generation failed for ${draft.id}:`, message);
+                const exhausted = draft.attempts >= MAX_ATTEMPTS;
+                await ref.update({ status: exhausted ? 'failed' : 'queued', error: message, updatedAt: Date.now() });
+                if (exhausted) result.failed++;
+            }
+        }
+
+        const remaining = await draftsCollection().where('status', '==', 'queued').count().get();
+        result.remaining = remaining.data().count;
+        return result;
+    }
+
+    async function listSolutionDrafts(status?: SolutionDraftStatus): Promise<SolutionDraft[]> {
+        const query = status ? draftsCollection().where('status', '==', status) : draftsCollection();
+        const snapshot = await query.get();
+        return snapshot.docs
+            .map(d => ({ ...d.data(), id: d.id } as SolutionDraft))
+            .sort((a, b) => b.updatedAt - a.updatedAt)
+            .slice(0, LIST_LIMIT);
+    }
+
+    /**
+     * Publishes a draft: writes solutions/{questionId}, sets hasSolution on the question and records
+     * a content revision, all in one transaction. `text` replaces the generated Markdown when the admin edited it.
+     */
+    async function approveSolutionDraft(draftId: string, reviewer: Reviewer, text?: string): Promise<SolutionDraft> {
+        const draftRef = draftsCollection().doc(draftId);
+
+        return db.runTransaction(async transaction => {
+            const draftSnap = await transaction.get(draftRef);
+            if (!draftSnap.exists) throw new Error('Draft not found');
+            const draft = { ...draftSnap.data(), id: draftSnap.id } as SolutionDraft;
+            if (draft.status !== 'draft') throw new Error(`Only drafts awaiting review can be approved, this one is ${draft.status}`);
+
+            const solution = text?.trim() || draft.text?.trim();
+            if (!solution) throw new Error('The draft is empty');
+
+            const subjectRef = db.collection('subjects').doc(draft.subjectId);
+            const unitRef = subjectRef.collection('units').doc(draft.unitId);
+            const solutionRef = subjectRef.collection('solutions').doc(draft.questionId);
+            const [unitSnap, solutionSnap] = await Promise.all([transaction.get(unitRef), transaction.get(solutionRef)]);
+
+            const unit = unitSnap.data() as Unit | undefined;
+            const current = unit?.questions?.find(q => q.id === draft.questionId);
+            if (!unit || !current) throw new Error('The question no longer exists');
+
+            // Keep the legacy inline solution in sync only where the unit still stores one
+            const updated: Question = { ...current, hasSolution: true, ...(current.solution !== undefined ? { solution } : {}) };
+            transaction.update(unitRef, { questions: unit.questions.map(q => q.id === current.id ? updated : q) });
+            transaction.set(solutionRef, { text: solution }, { merge: true });
+
+            const now = Date.now();
+            const before = snapshotQuestion(current, solutionSnap.data()?.text);
+            const after = snapshotQuestion(updated, solution);
+            const revision: Omit<ContentRevision, 'id'> = {
+                subjectId: draft.subjectId,
+                unitId: draft.unitId,
+                questionId: draft.questionId,
+                editorUid: reviewer.uid,
+                ...(reviewer.email ? { editorEmail: reviewer.email } : {}),
+                createdAt: now,
+                updatedAt: now,
+                before,
+                after,
+                changedFields: getChangedFields(before, after),
+            };
+            transaction.set(subjectRef.collection('history').doc(), revision);
+
+            const review = { status: 'approved' as const, text: solution, reviewedBy: reviewer.uid, updatedAt: now };
+            transaction.update(draftRef, review);
+            return { ...draft, ...review };
+        });
+    }
+
+    async function rejectSolutionDraft(draftId: string, reviewer: Reviewer, note?: string): Promise<SolutionDraft> {
+        const draftRef = draftsCollection().doc(draftId);
+
+        return db.runTransaction(async transaction => {
+            const draftSnap = await transaction.get(draftRef);
+            if (!draftSnap.exists) throw new Error('Draft not found');
+            const draft = { ...draftSnap.data(), id: draftSnap.id } as SolutionDraft;
+            if (draft.status !== 'draft' && draft.status !== 'failed') {
+                throw new Error(`Only drafts awaiting review can be rejected, this one is ${draft.status}`);
+            }
+
+            const review = { status: 'rejected' as const, reviewedBy: reviewer.uid, updatedAt: Date.now(), ...(note?.trim() ? { reviewNote: note.trim() } : {}) };
+            transaction.update(draftRef, review);
+            return { ...draft, ...review };
+        });
+    }
+
+    return { enqueueSolutionDrafts, processSolutionQueue, listSolutionDrafts, approveSolutionDraft, rejectSolutionDraft };
+}
+
+export type SolutionDraftService = ReturnType<typeof createSolutionDraftService>;
@@ -0,0 +1,46 @@
+import { auth } from '@/lib/firebase';
+import { SolutionDraft, SolutionDraftStatus } from '@/lib/types';
+import type { QueueRunResult } from '@/lib/solutionDraftService';
+
+async function postGenerateSolution<T>(body: object): Promise<T> {
+    const user = auth.currentUser;
+    if (!user) throw new Error('Sign in as an admin to generate solutions');
+
+    const token = await user.getIdToken();
+    const response = await fetch('/api/admin/generate-solution', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify(body),
+    });
+    const result = await response.json();
+
+    if (!response.ok) throw new Error(result.error || 'Request failed');
+    return result as T;
+}
+
+export async function enqueueSolutions(subjectId: string, questionIds: string[]): Promise<{ queued: string[]; skipped: string[] }> {
+    return postGenerateSolution({ action: 'enqueue', subjectId, questionIds });
+}
+
+// One run of the queue on the server, call again after `retryAfterMs` while jobs remain
+export async function processSolutionQueue(): Promise<QueueRunResult> {
+    return postGenerateSolution<QueueRunResult>({ action: 'process' });
+}
+
+export async function fetchSolutionDrafts(status?: SolutionDraftStatus): Promise<SolutionDraft[]> {
+    const result = await postGenerateSolution<{ drafts: SolutionDraft[] }>({ action: 'list', status });
+    return result.drafts;
+}
+
+export async function approveSolutionDraft(draftId: string, text?: string): Promise<SolutionDraft> {
+    const result = await postGenerateSolution<{ draft: SolutionDraft }>({ action: 'approve', draftId, text });
+    return result.draft;
+}
+
+export async function rejectSolutionDraft(draftId: string, note?: string): Promise<SolutionDraft> {
+    const result = await postGenerateSolution<{ draft: SolutionDraft }>({ action: 'reject', draftId, note });
+    return result.draft;
+}
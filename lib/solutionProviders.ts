@@ -0,0 +1,111 @@
+import { isComparisonQuestion } from '@/lib/prompts';
+
+export interface SolutionRequest {
+    system: string;
+    user: string;
+    questionText: string;
+}
+
+// Adapter for anything that turns a prompt into Markdown. Throw to mark the draft as failed.
+export interface SolutionProvider {
+    name: string;
+    model: string;
+    generate(request: SolutionRequest): Promise<string>;
+}
+
+// Questions containing this fail in the mock provider, to exercise the retry and failure paths
+export const MOCK_FAILURE_MARKER = '[mock-fail]';
+
+// Same question, same answer: a small FNV-1a hash picks the variations
+const hash = (text: string) => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193) >>> 0;
+    }
+    return h;
+};
+
+/**
+ * Offline provider with deterministic output, for local development and trying the
+ * queue, rate limit and review flow without an API key.
+ */
+export const mockProvider: SolutionProvider = {
+    name: 'mock',
+    model: 'mock-v1',
+    async generate({ questionText }) {
+        if (questionText.includes(MOCK_FAILURE_MARKER)) {
+            throw new Error('Mock provider failure');
+        }
+
+        const seed = hash(questionText);
+        const topic = questionText.replace(/\s+/g, ' ').trim().slice(0, 80);
+        const sections = [
+            '## Introduction',
+            '',
+            `This is a generated placeholder answer for: *${topic}*`,
+            '',
+            '## Key Points',
+            '',
+            ...Array.from({ length: 2 + (seed % 3) }, (_, i) => `- Point ${i + 1} (ref ${(seed >>> (i * 4)) & 0xfff})`),
+            '',
+            '## Formula',
+            '',
+            `$$\nf(x) = ${2 + (seed % 9)}x + ${seed % 97}\n$$`,
+        ];
+
+        if (isComparisonQuestion(questionText)) {
+            sections.push('', '## Comparison', '', '| Parameter | Concept A | Concept B |', '| --- | --- | --- |', '| Definition | A | B |', '| Usage | A | B |');
+        }
+
+        return sections.join('\n');
+    },
+};
+
+// Any OpenAI-compatible chat completions endpoint
+function createChatCompletionsProvider(): SolutionProvider {
+    const apiKey = process.env.SOLUTION_PROVIDER_API_KEY;
+    const url = process.env.SOLUTION_PROVIDER_URL || 'https://api.openai.com/v1/chat/completions';
+    const model = process.env.SOLUTION_PROVIDER_MODEL || 'gpt-4o-mini';
+
+    return {
+        name: 'chat-completions',
+        model,
+        async generate({ system, user }) {
+            if (!apiKey) throw new Error('SOLUTION_PROVIDER_API_KEY is not set');
+
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${apiKey}`,
+                },
+                body: JSON.stringify({
+                    model,
+                    messages: [
+                        { role: 'system', content: system },
+                        { role: 'user', content: user },
+                    ],
+                }),
+            });
+
+            if (!response.ok) {
+                throw new Error(`Provider returned ${response.status}: ${(await response.text()).slice(0, 200)}`);
+            }
+            const result = await response.json();
+            const text = result.choices?.[0]?.message?.content;
+            if (typeof text !== 'string' || !text.trim()) throw new Error('Provider returned an empty solution');
+            return text.trim();
+        },
+    };
+}
+
+// SOLUTION_PROVIDER picks the adapter, the mock is used unless a real one is configured
+export function getSolutionProvider(): SolutionProvider {
+    switch (process.env.SOLUTION_PROVIDER) {
+        case 'chat-completions':
+            return createChatCompletionsProvider();
+        default:
+            return mockProvider;
+    }
+}
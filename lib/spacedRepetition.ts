@@ -0,0 +1,141 @@
+import { QuestionProgress, QuestionStatus } from "@/lib/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const MAX_INTERVAL_DAYS = 365;
+const MAX_LAPSE_HISTORY = 10;
+
+// First successful review keeps the old fixed intervals (3 / 7 days).
+const GRADUATING_INTERVALS: Record<'easy' | 'medium', number> = {
+    medium: 3,
+    easy: 7,
+};
+
+// SM-2 quality (0-5) for each self-assessed grade. Anything below 3 counts as a lapse.
+const GRADE_QUALITY: Record<'easy' | 'medium' | 'hard', number> = {
+    easy: 5,
+    medium: 3,
+    hard: 2,
+};
+
+/**
+ * Computes the next SM-2 review state for a question graded by the student.
+ * A "hard" grade is a lapse: the repetition count resets and the question comes back tomorrow.
+ * Clearing the status (null) resets the schedule entirely.
+ */
+export function scheduleReview(previous: QuestionProgress | undefined, status: QuestionStatus, now: number = Date.now()): QuestionProgress {
+    const current = migrateQuestionProgress(previous || { status: null });
+
+    if (status === null) {
+        return {
+            ...current,
+            status: null,
+            lastReviewed: now,
+            nextReview: now,
+            easeFactor: INITIAL_EASE,
+            interval: 0,
+            repetitions: 0,
+        };
+    }
+
+    const quality = GRADE_QUALITY[status];
+    const easeFactor = Math.max(
+        MIN_EASE,
+        (current.easeFactor ?? INITIAL_EASE) + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    let interval: number;
+    let repetitions: number;
+    let lapses = current.lapses ?? 0;
+    let lapseHistory = current.lapseHistory ?? [];
+
+    if (status === 'hard') {
+        interval = 1;
+        repetitions = 0;
+        // A "hard" on a brand new question is not a lapse, it was never learnt
+        if ((current.repetitions ?? 0) > 0) {
+            lapses += 1;
+            lapseHistory = [...lapseHistory, now].slice(-MAX_LAPSE_HISTORY);
+        }
+    } else {
+        repetitions = (current.repetitions ?? 0) + 1;
+        interval = repetitions === 1
+            ? GRADUATING_INTERVALS[status]
+            : Math.round((current.interval || GRADUATING_INTERVALS[status]) * easeFactor);
+    }
+
+    interval = Math.min(Math.max(interval, 1), MAX_INTERVAL_DAYS);
+
+    return {
+        ...current,
+        status,
+        lastReviewed: now,
+        nextReview: now + interval * DAY_MS,
+        easeFactor: Number(easeFactor.toFixed(2)),
+        interval,
+        repetitions,
+        lapses,
+        lapseHistory,
+    };
+}
+
+/**
+ * Upgrades progress written by the old fixed-interval scheduler so it carries SM-2 state.
+ * The interval is recovered from lastReviewed/nextReview when both exist.
+ */
+export function migrateQuestionProgress(progress: QuestionProgress): QuestionProgress {
+    if (progress.easeFactor !== undefined) return progress;
+
+    if (!progress.status) {
+        return {
+            ...progress,
+            easeFactor: INITIAL_EASE,
+            interval: 0,
+            repetitions: 0,
+            lapses: 0,
+            lapseHistory: [],
+        };
+    }
+
+    let interval = progress.status === 'hard' ? 1 : GRADUATING_INTERVALS[progress.status];
+    if (progress.lastReviewed && progress.nextReview && progress.nextReview > progress.lastReviewed) {
+        interval = Math.max(1, Math.round((progress.nextReview - progress.lastReviewed) / DAY_MS));
+    }
+
+    return {
+        ...progress,
+        easeFactor: INITIAL_EASE,
+        interval,
+        repetitions: progress.status === 'hard' ? 0 : 1,
+        lapses: 0,
+        lapseHistory: [],
+    };
+}
+
+// Migrates a whole `users/{uid}/progress/{subjectId}` document into the current map format.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function migrateProgressDoc(data: any): { [questionId: string]: QuestionProgress } {
+    if (!data) return {};
+
+    const migrated: { [questionId: string]: QuestionProgress } = {};
+
+    if (data.questions) {
+        Object.entries(data.questions as Record<string, QuestionProgress>).forEach(([qid, progress]) => {
+            migrated[qid] = migrateQuestionProgress(progress);
+        });
+    } else if (Array.isArray(data.completedQuestions)) {
+        data.completedQuestions.forEach((qid: string) => {
+            migrated[qid] = migrateQuestionProgress({ status: 'easy', lastReviewed: Date.now(), isStarred: false });
+        });
+    }
+
+    return migrated;
+}
+
+// A question is due once its nextReview falls before `dueBy` (defaults to now).
+export function isDueForReview(progress: QuestionProgress | undefined, dueBy: number = Date.now()): boolean {
+    if (!progress || !progress.status || !progress.nextReview) return false;
+    return progress.nextReview <= dueBy;
+}
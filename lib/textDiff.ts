@@ -0,0 +1,78 @@
+export type DiffPart = {
+    type: 'same' | 'added' | 'removed';
+    value: string;
+};
+
+// LCS tables above this many cells are skipped, the whole block is shown as replaced instead
+const MAX_DIFF_CELLS = 2_000_000;
+
+function diffTokens(before: string[], after: string[]): DiffPart[] {
+    // Trim the common prefix and suffix first, most edits touch a small part of the text
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) start++;
+    let endBefore = before.length;
+    let endAfter = after.length;
+    while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+        endBefore--;
+        endAfter--;
+    }
+
+    const parts: DiffPart[] = [];
+    const push = (type: DiffPart['type'], value: string) => {
+        if (!value) return;
+        const last = parts[parts.length - 1];
+        if (last?.type === type) last.value += value;
+        else parts.push({ type, value });
+    };
+
+    push('same', before.slice(0, start).join(''));
+
+    const a = before.slice(start, endBefore);
+    const b = after.slice(start, endAfter);
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        push('removed', a.join(''));
+        push('added', b.join(''));
+    } else {
+        // lengths[i][j] = LCS length of a[i..] and b[j..]
+        const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lengths[i][j] = a[i] === b[j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < a.length && j < b.length) {
+            if (a[i] === b[j]) {
+                push('same', a[i]);
+                i++;
+                j++;
+            } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+                push('removed', a[i++]);
+            } else {
+                push('added', b[j++]);
+            }
+        }
+        push('removed', a.slice(i).join(''));
+        push('added', b.slice(j).join(''));
+    }
+
+    push('same', before.slice(endBefore).join(''));
+    return parts;
+}
+
+/**
+ * Word level diff for short texts, line level diff for long ones (solutions).
+ * Whitespace is kept in the tokens so joining the parts rebuilds the original strings.
+ */
+export function diffText(before: string, after: string): DiffPart[] {
+    const multiline = before.includes('\n') || after.includes('\n');
+    const tokenize = (text: string) => multiline
+        ? text.split('\n').map((line, i, lines) => i < lines.length - 1 ? line + '\n' : line).filter(Boolean)
+        : text.split(/(\s+)/).filter(Boolean);
+    return diffTokens(tokenize(before || ''), tokenize(after || ''));
+}
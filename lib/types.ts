@@ -1,3 +1,5 @@
+import type { Timestamp } from 'firebase/firestore';
+
 export type Question = {
     id: string;
     text: string; // Supports Markdown + LaTeX
@@ -67,6 +69,32 @@ export interface SubjectMetadata {
     units: UnitSummary[]; // Lightweight summary for initial load
 }
 
+export type BundleSubject = Pick<SubjectMetadata,
+    'id' | 'title' | 'branch' | 'semester' | 'isElective' | 'electiveCategory' | 'isCommon' | 'unitCount' | 'questionCount'
+> & {
+    price: number;
+    originalPrice: number;
+    group: 'A' | 'B' | null;
+    units?: UnitSummary[];
+};
+
+// Stored under bundles/{branch-semester}, aggregated from subjects_metadata by lib/bundleUtils.ts
+export interface Bundle {
+    id: string;
+    branch: string;
+    semester: string;
+    title: string;
+    subjects: BundleSubject[];
+    totalPrice: number; // Sum of subject prices
+    totalOriginalPrice: number;
+    subjectCount: number;
+    // Set by admins, kept across re-syncs. Charged instead of the subject prices, see lib/bundlePricing.ts
+    bundlePrice?: number | null;
+    // First Year is sold as Group A / Group B bundles, each with its own price
+    groupPrices?: Partial<Record<'A' | 'B', number>>;
+    updatedAt?: string;
+}
+
 export type QuestionStatus = 'easy' | 'medium' | 'hard' | null;
 
 export interface QuestionProgress {
@@ -74,6 +102,122 @@ export interface QuestionProgress {
     lastReviewed?: number; // Timestamp (milliseconds)
     nextReview?: number;   // Timestamp (milliseconds)
     isStarred?: boolean;
+    // Spaced repetition (SM-2) state, see lib/spacedRepetition.ts
+    easeFactor?: number;
+    interval?: number;     // Days until nextReview
+    repetitions?: number;  // Consecutive successful reviews
+    lapses?: number;
+    lapseHistory?: number[]; // Timestamps of recent lapses
+}
+
+export type CouponType = 'percent' | 'flat';
+
+// Stored under coupons/{CODE}, redemptions under coupons/{CODE}/redemptions/{orderId}. See lib/coupons.ts
+export interface Coupon {
+    code: string; // Upper-case, also the doc id
+    description?: string;
+    type: CouponType;
+    value: number; // Percent (1-100) or rupees off
+    expiresAt: number | null;
+    maxUses: number | null; // Across all users
+    perUserLimit: number | null;
+    usedCount: number; // Paid orders that used the code
+    // Empty lists mean "any". A subject is eligible when it matches every non-empty list.
+    scope: {
+        branches: string[];
+        semesters: string[];
+        subjectIds: string[];
+    };
+    isActive: boolean;
+    createdAt: number;
+}
+
+export type OrderStatus = 'created' | 'paid' | 'enrolled' | 'failed' | 'refunded';
+
+// Stored under orders/{razorpayOrderId}, written only by the payment API routes (see lib/orders.ts)
+export interface Order {
+    id: string;
+    userId: string;
+    userEmail?: string;
+    courseIds: string[];
+    courseTitles: string[];
+    amount: number; // Rupees actually charged
+    currency: string;
+    coupon: string | null;
+    discount?: number; // Rupees taken off by the coupon
+    originalAmount?: number; // Before the coupon
+    bundleId?: string; // Semester checkout, priced with the bundle price
+    bundleDiscount?: number; // Rupees the bundle price saved over the subject prices
+    receipt: string;
+    status: OrderStatus;
+    paymentId?: string;
+    failureReason?: string;
+    createdAt: number;
+    updatedAt: number;
+    statusHistory: {
+        status: OrderStatus;
+        at: number;
+        source: 'create-order' | 'verify' | 'webhook';
+        note?: string;
+    }[];
+}
+
+// Stored under subjects/{subjectId}/history/{revisionId}, see lib/contentHistory.ts
+export interface ContentRevision {
+    id: string;
+    subjectId: string;
+    unitId: string;
+    questionId: string;
+    editorUid: string;
+    editorEmail?: string;
+    createdAt: number;
+    updatedAt: number; // Rapid edits by the same editor extend one revision
+    before: Question; // Snapshots include the solution text
+    after: Question;
+    changedFields: string[];
+    restoredFrom?: string; // Id of the revision that was reverted
+    mergedIds?: string[]; // Duplicates folded into this question by /api/admin/duplicates
+}
+
+export type SolutionDraftStatus = 'queued' | 'generating' | 'draft' | 'approved' | 'rejected' | 'failed';
+
+// Stored under solution_drafts/{subjectId}__{questionId}, written only by /api/admin/generate-solution (see lib/solutionDraftService.ts)
+export interface SolutionDraft {
+    id: string;
+    subjectId: string;
+    unitId: string;
+    questionId: string;
+    questionText: string;
+    status: SolutionDraftStatus;
+    text?: string; // Generated Markdown, only copied to solutions/{questionId} on approval
+    provider?: string;
+    model?: string;
+    error?: string; // Last provider failure
+    attempts: number;
+    requestedBy: string; // Admin uid
+    reviewedBy?: string;
+    reviewNote?: string; // Why a draft was rejected
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Stored under users/{uid}/mockExams/{examId}
+export interface MockExamResult {
+    id: string;
+    subjectId: string;
+    subjectTitle: string;
+    createdAt: number; // Timestamp
+    durationMinutes: number;
+    timeTakenSeconds: number;
+    totalMarks: number;
+    scoredMarks: number;
+    questions: {
+        questionId: string;
+        unitId: string;
+        marks: number;
+        awarded: number;
+        choice: number; // Index of the "@" alternative that was attempted
+    }[];
 }
 
 export interface UserProfile {
@@ -92,6 +236,16 @@ export interface UserProfile {
         purchaseDate: number; // Timestamp
         expiryDate: number;   // Timestamp
         durationMonths: number;
+        orderId?: string;
+        paymentId?: string;
+        type?: 'manual_enrollment';
+        refundedAt?: number;  // Set when the payment was refunded, access ends at that moment
+        renewedAt?: number;   // Last renewal, expiryDate was extended from the previous one
+        // The period before the last renewal, restored if the renewal payment is refunded
+        previousExpiryDate?: number;
+        previousPaymentId?: string;
+        previousOrderId?: string;
+        refundedPaymentIds?: string[]; // Never enroll these again, e.g. from a replayed verify or a late webhook
     }>;
     hasSeenWelcomeModal?: boolean;
 }
@@ -121,6 +275,24 @@ export interface Report {
     }
 }
 
+// File shared in a community message, stored in the Supabase "question-images" bucket
+export interface ChatAttachment {
+    url: string;
+    path: string; // Storage path, needed to delete the file
+    name: string;
+    contentType: string;
+    size: number; // Bytes
+    kind: 'image' | 'file';
+}
+
+// Question a community message is about, posted through "Discuss"
+export interface QuestionRef {
+    subjectId: string;
+    unitId: string;
+    questionId: string;
+    questionText: string; // Snapshot for the card, trimmed
+}
+
 export interface Message {
     id: string;
     text: string;
@@ -134,6 +306,45 @@ export interface Message {
     replyToSnippet?: string;
     replyToSenderName?: string;
     replyToSenderId?: string;
+    attachments?: ChatAttachment[];
+    questionRef?: QuestionRef;
+    // Reactions: emoji -> uid -> display name of whoever reacted
+    reactions?: Record<string, Record<string, string>>;
+    // Pinned by an admin
+    pinned?: boolean;
+    pinnedAt?: Timestamp | null;
+    pinnedByName?: string;
     // Optimistic UI
     status?: 'sending' | 'sent' | 'error';
 }
+
+// Stored under moderation/config, edited on /admin/moderation and applied by /api/chat/messages (see lib/moderation.ts)
+export interface ModerationConfig {
+    blockList: string[]; // Words and phrases that hold a message
+    allowList: string[]; // Never flagged, wins over the block list
+    maxLinks: number; // More links than this (outside allowedLinkDomains) holds a message
+    allowedLinkDomains: string[];
+    blockedLinkDomains: string[]; // Any link to these holds a message
+    maxLength: number; // Longer messages are refused outright
+    maxMessagesPerMinute: number;
+    maxRepeats: number; // Sending the same text more often than this within repeatWindowMinutes is refused
+    repeatWindowMinutes: number;
+}
+
+export type ModerationRule = 'blocklist' | 'link' | 'spam';
+
+export interface ModerationFlag {
+    rule: ModerationRule;
+    detail: string; // Shown to admins, e.g. the matched word
+}
+
+// Stored under held_messages/{messageId}, written only by /api/chat/messages (see lib/moderationService.ts).
+// Published to channels/{channelId}/messages/{messageId} if an admin approves it.
+export interface HeldMessage {
+    id: string;
+    channelId: string;
+    message: Omit<Message, 'id' | 'createdAt'>;
+    flags: ModerationFlag[];
+    reportId: string; // The message_reports entry filed for it
+    createdAt: number;
+}
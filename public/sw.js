@@ -0,0 +1,110 @@
+// Saraav service worker: keeps the app shell and visited pages available offline.
+// Subject content itself lives in IndexedDB (see lib/offlineStore.ts), not in these caches.
+
+// Bump to drop every cache from older workers on activate
+const VERSION = 'v2';
+const SHELL_CACHE = `saraav-shell-${VERSION}`;
+const PAGES_CACHE = `saraav-pages-${VERSION}`;
+const ASSETS_CACHE = `saraav-assets-${VERSION}`;
+const CACHES = [SHELL_CACHE, PAGES_CACHE, ASSETS_CACHE];
+
+const OFFLINE_URL = '/offline.html';
+const SHELL_URLS = [OFFLINE_URL, '/', '/courses', '/manifest.json', '/icon.png', '/logo.jpg'];
+
+// Oldest entries are dropped past these
+const MAX_PAGES = 60; // HTML and RSC payloads together
+const MAX_ASSETS = 200;
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then((keys) => Promise.all(keys.filter((key) => !CACHES.includes(key)).map((key) => caches.delete(key))))
+            .then(() => self.clients.claim())
+    );
+});
+
+// Cache keys come back in insertion order, so the first ones are the oldest
+async function trimCache(name, maxEntries) {
+    const cache = await caches.open(name);
+    const keys = await cache.keys();
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+}
+
+// Errors, redirects and opaque responses are never cached
+async function store(name, key, response, maxEntries) {
+    if (!response.ok || response.type !== 'basic') return;
+    const cache = await caches.open(name);
+    await cache.delete(key);
+    await cache.put(key, response);
+    await trimCache(name, maxEntries);
+}
+
+// Client-side navigations fetch the page as an RSC payload (RSC: 1 header, ?_rsc=<hash> cache buster)
+function isRscRequest(request, url) {
+    return request.headers.get('RSC') === '1' || url.searchParams.has('_rsc');
+}
+
+// One entry per page, whatever the _rsc hash. Kept apart from the page's HTML, which has the same URL.
+function rscCacheKey(url) {
+    const key = new URL(url);
+    key.searchParams.delete('_rsc');
+    key.searchParams.set('__sw_rsc', '1');
+    return key.href;
+}
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    // Firestore, Supabase, analytics etc. handle their own caching
+    if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+    // Build assets are content-hashed: cache first
+    if (url.pathname.startsWith('/_next/static/')) {
+        event.respondWith(
+            caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+                event.waitUntil(store(ASSETS_CACHE, request, response.clone(), MAX_ASSETS));
+                return response;
+            }))
+        );
+        return;
+    }
+
+    // Client-side navigation: network first, then the payload from the last visit. Without one the
+    // fetch fails and the router falls back to a full page load, which gets the offline page below.
+    if (isRscRequest(request, url)) {
+        // Prefetches are partial payloads, caching one would render an incomplete page later
+        if (request.headers.get('Next-Router-Prefetch')) return;
+
+        const key = rscCacheKey(url);
+        event.respondWith(
+            fetch(request)
+                .then((response) => {
+                    event.waitUntil(store(PAGES_CACHE, key, response.clone(), MAX_PAGES));
+                    return response;
+                })
+                .catch(() => caches.match(key, { ignoreVary: true }).then((cached) => cached || Response.error()))
+        );
+        return;
+    }
+
+    // Pages: network first, then the last copy of this page, then the offline page
+    if (request.mode === 'navigate') {
+        event.respondWith(
+            fetch(request)
+                .then((response) => {
+                    event.waitUntil(store(PAGES_CACHE, request, response.clone(), MAX_PAGES));
+                    return response;
+                })
+                .catch(() => caches.match(request, { ignoreVary: true })
+                    .then((cached) => cached || caches.match(OFFLINE_URL)))
+        );
+    }
+});
@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+/**
+ * Replays a recorded Razorpay webhook payload against a running dev server.
+ *
+ *   RAZORPAY_WEBHOOK_SECRET=... node scripts/replay-razorpay-webhook.mjs order.paid --uid <firebaseUid> --courses subjectA,subjectB
+ *
+ * Fixtures live in scripts/fixtures/razorpay. The body is signed with RAZORPAY_WEBHOOK_SECRET exactly
+ * like Razorpay does, so the route runs its real signature check.
+ *
+ * --uid / --courses rewrite the order notes. Events that don't carry an order (payment.captured,
+ * refund.processed) get one attached, otherwise the route would look the fixture order up on Razorpay.
+ * --event-id reuses an id to check that redeliveries are acknowledged without side effects.
+ * --url defaults to http://localhost:3000/api/payment/webhook.
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const args = process.argv.slice(2);
+const fixtureName = args.find(arg => !arg.startsWith('--') && !args[args.indexOf(arg) - 1]?.startsWith('--'));
+const option = (name) => {
+    const index = args.indexOf(`--${name}`);
+    return index === -1 ? undefined : args[index + 1];
+};
+
+const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+if (!fixtureName || !secret) {
+    console.error('Usage: RAZORPAY_WEBHOOK_SECRET=... node scripts/replay-razorpay-webhook.mjs <fixture> [--uid <uid>] [--courses <ids>] [--event-id <id>] [--url <url>]');
+    process.exit(1);
+}
+
+const fixturesDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'razorpay');
+const fixturePath = path.join(fixturesDir, fixtureName.endsWith('.json') ? fixtureName : `${fixtureName}.json`);
+const payload = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+
+const uid = option('uid');
+const courses = option('courses');
+if (uid || courses) {
+    const payment = payload.payload.payment?.entity;
+    const order = payload.payload.order?.entity ?? { id: payment?.order_id, entity: 'order', notes: {} };
+    order.notes = {
+        ...order.notes,
+        ...(uid ? { userId: uid } : {}),
+        ...(courses ? { courseIds: courses } : {}),
+    };
+    payload.payload.order = { entity: order };
+}
+
+const body = JSON.stringify(payload);
+const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+const eventId = option('event-id') || `evt_replay_${Date.now()}`;
+
+const response = await fetch(option('url') || 'http://localhost:3000/api/payment/webhook', {
+    method: 'POST',
+    headers: {
+        'Content-Type': 'application/json',
+        'X-Razorpay-Signature': signature,
+        'X-Razorpay-Event-Id': eventId,
+    },
+    body,
+});
+
+console.log(`${payload.event} (${eventId}) -> ${response.status}`);
+console.log(await response.text());